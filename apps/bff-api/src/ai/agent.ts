@@ -1,6 +1,6 @@
 import { generateText } from 'ai';
-import { openai } from '@ai-sdk/openai';  
 import { createTools } from './tools.js';
+import { getLanguageModel } from './providers.js';
 
 const SYSTEM_PROMPT = `Você é um assistente especializado em análise de documentos PDF.
 
@@ -27,7 +27,7 @@ export async function analyzePageWithAI(
     const tools = createTools(documentId, pageNumber);
 
     const { text, steps } = await generateText({
-      model: openai('gpt-5-mini'),
+      model: getLanguageModel('pageAnalysis'),
       system: SYSTEM_PROMPT,
       prompt: `Analise o texto da página ${pageNumber} do documento e extraia as informações relevantes.
 
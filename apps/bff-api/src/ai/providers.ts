@@ -0,0 +1,77 @@
+import { openai } from '@ai-sdk/openai';
+import type { LanguageModelV1 } from 'ai';
+
+/**
+ * Resolução de modelos da BFF, no mesmo contrato de variáveis da job-api
+ * (AI_PROVIDER e AI_MODEL_<ETAPA> como `provedor:modelo` ou só `modelo`)
+ *
+ * A BFF só usa IA na análise de página (`AI_MODEL_PAGE_ANALYSIS`), uma etapa
+ * própria: as etapas do pipeline (structure/extraction/chat) são da job-api.
+ * Só o provedor openai existe aqui; o provedor fake (offline) fica na job-api.
+ * Provedor indisponível (ex.: AI_PROVIDER=fake sem AI_MODEL_PAGE_ANALYSIS) é
+ * erro de configuração: a BFF não sobe, em vez de chamar outro provedor.
+ */
+
+export type LanguageModelStage = 'pageAnalysis';
+
+/** Variável de ambiente de cada etapa */
+const STAGE_SETTINGS: Record<LanguageModelStage, string> = {
+  pageAnalysis: 'AI_MODEL_PAGE_ANALYSIS',
+};
+
+const DEFAULT_PROVIDER = 'openai';
+
+const DEFAULT_MODELS: Record<LanguageModelStage, string> = {
+  pageAnalysis: 'gpt-5-mini',
+};
+
+const providers: Record<string, (modelId: string) => LanguageModelV1> = {
+  openai: modelId => openai(modelId),
+};
+
+/**
+ * Provedor e modelo configurados para a etapa
+ */
+function resolveModelSpec(stage: LanguageModelStage): { provider: string; modelId: string } {
+  const setting = process.env[STAGE_SETTINGS[stage]];
+  const defaultProvider = process.env.AI_PROVIDER || DEFAULT_PROVIDER;
+
+  if (!setting) {
+    return { provider: defaultProvider, modelId: DEFAULT_MODELS[stage] };
+  }
+
+  const separator = setting.indexOf(':');
+  if (separator === -1) {
+    return { provider: defaultProvider, modelId: setting };
+  }
+
+  return {
+    provider: setting.slice(0, separator),
+    modelId: setting.slice(separator + 1) || DEFAULT_MODELS[stage],
+  };
+}
+
+/**
+ * Modelo de linguagem configurado para a etapa
+ */
+export function getLanguageModel(stage: LanguageModelStage): LanguageModelV1 {
+  const { provider, modelId } = resolveModelSpec(stage);
+
+  const create = providers[provider];
+  if (!create) {
+    throw new Error(
+      `Provedor de IA "${provider}" não disponível na BFF (${STAGE_SETTINGS[stage]}); ` +
+        `disponíveis: ${Object.keys(providers).join(', ')}`
+    );
+  }
+  return create(modelId);
+}
+
+/**
+ * Valida a configuração de todas as etapas (chamado na inicialização)
+ */
+export function assertModelConfig(): void {
+  for (const stage of Object.keys(STAGE_SETTINGS) as LanguageModelStage[]) {
+    getLanguageModel(stage);
+  }
+}
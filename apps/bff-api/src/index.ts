@@ -5,6 +5,7 @@ import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 
 import { connectDatabase } from './services/database.js';
+import { assertModelConfig } from './ai/providers.js';
 
 // Rotas
 import { upload } from './routes/upload.js';
@@ -13,6 +14,10 @@ import { timeline } from './routes/timeline.js';
 import { structure } from './routes/structure.js';
 import { risks } from './routes/risks.js';
 import { chat } from './routes/chat.js';
+import { library } from './routes/library.js';
+import { procurements } from './routes/procurements.js';
+import { budgets } from './routes/budgets.js';
+import { calendars } from './routes/calendars.js';
 import { swagger } from './routes/swagger.js';
 
 const app = new Hono();
@@ -43,6 +48,18 @@ app.route('/risks', risks);
 // Chat RAG
 app.route('/chat', chat);
 
+// Biblioteca (busca e chat em vários documentos)
+app.route('/library', library);
+
+// Licitações (pacotes ZIP)
+app.route('/procurements', procurements);
+
+// Orçamentos de IA (admin)
+app.route('/budgets', budgets);
+
+// Calendários de feriados (dias úteis dos prazos)
+app.route('/calendars', calendars);
+
 // Swagger
 app.route('/swagger', swagger);
 
@@ -65,6 +82,9 @@ app.notFound((c) => {
 // Inicialização
 async function main() {
   try {
+    // Provedor/modelo de IA inválido impede a inicialização
+    assertModelConfig();
+
     // Conectar ao MongoDB
     await connectDatabase();
 
@@ -78,19 +98,22 @@ async function main() {
     console.log(`   - OpenAPI Spec: http://localhost:${port}/swagger/spec`);
     console.log('');
     console.log('📋 Endpoints principais:');
-    console.log('   - POST /upload               → Upload de PDF');
+    console.log('   - POST /upload               → Upload de documento ou pacote ZIP');
     console.log('   - GET  /documents            → Listar documentos');
     console.log('   - GET  /documents/:id        → Detalhes do documento');
     console.log('   - POST /documents/:id/process → Iniciar processamento');
     console.log('   - GET  /timeline/:id         → Timeline do documento');
     console.log('   - GET  /structure/:id        → Estrutura hierárquica');
     console.log('   - GET  /risks/:id            → Riscos identificados');
+    console.log('   - GET  /procurements/:id     → Licitação e documentos filhos');
     console.log('   - GET  /health               → Health check');
     console.log('');
     console.log('💬 Chat RAG:');
     console.log('   - POST /chat/:documentId     → Enviar mensagem');
     console.log('   - GET  /chat/:documentId     → Listar conversas');
     console.log('   - GET  /chat/:documentId/:id → Histórico conversa');
+    console.log('   - POST /library/chat         → Chat em todos os documentos');
+    console.log('   - POST /library/search       → Busca em todos os documentos');
     console.log('');
 
     serve({
@@ -0,0 +1,66 @@
+import { Hono } from 'hono';
+import { budgetsApi, JobApiError, type BudgetLimits } from '../services/job-api-client.js';
+
+const budgets = new Hono();
+
+/**
+ * GET /budgets
+ * Lista orçamentos de IA e uso do mês das organizações (admin)
+ */
+budgets.get('/', async (c) => {
+  try {
+    const result = await budgetsApi.list(c.req.header('X-Admin-Key'));
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao listar orçamentos:', error);
+    return c.json({ error: 'Erro ao listar orçamentos' }, 500);
+  }
+});
+
+/**
+ * GET /budgets/:organizationId
+ * Orçamento, uso do mês e saldo da organização (admin)
+ */
+budgets.get('/:organizationId', async (c) => {
+  try {
+    const result = await budgetsApi.get(c.req.param('organizationId'), c.req.header('X-Admin-Key'));
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao buscar orçamento:', error);
+    return c.json({ error: 'Erro ao buscar orçamento' }, 500);
+  }
+});
+
+/**
+ * PUT /budgets/:organizationId
+ * Define/aumenta limites da organização (admin)
+ */
+budgets.put('/:organizationId', async (c) => {
+  try {
+    const body = await c.req.json<BudgetLimits>().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return c.json({ error: 'Corpo da requisição deve ser um JSON com os limites' }, 400);
+    }
+
+    const result = await budgetsApi.update(
+      c.req.param('organizationId'),
+      body,
+      c.req.header('X-Admin-Key')
+    );
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao atualizar orçamento:', error);
+    return c.json({ error: 'Erro ao atualizar orçamento' }, 500);
+  }
+});
+
+export { budgets };
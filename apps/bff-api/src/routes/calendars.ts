@@ -0,0 +1,113 @@
+import { Hono } from 'hono';
+import { calendarsApi, JobApiError, type CalendarHoliday } from '../services/job-api-client.js';
+
+const calendars = new Hono();
+
+/**
+ * GET /calendars
+ * Lista os calendários de feriados cadastrados
+ */
+calendars.get('/', async (c) => {
+  try {
+    const result = await calendarsApi.list();
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao listar calendários:', error);
+    return c.json({ error: 'Erro ao listar calendários' }, 500);
+  }
+});
+
+/**
+ * GET /calendars/:calendarId/holidays
+ * Feriados do ano (nacionais + do calendário)
+ */
+calendars.get('/:calendarId/holidays', async (c) => {
+  try {
+    const result = await calendarsApi.getHolidays(c.req.param('calendarId'), c.req.query('year'));
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao listar feriados:', error);
+    return c.json({ error: 'Erro ao listar feriados' }, 500);
+  }
+});
+
+/**
+ * GET /calendars/:calendarId/deadline
+ * Calcula um prazo (?from=&offset=&unit=&direction=)
+ */
+calendars.get('/:calendarId/deadline', async (c) => {
+  try {
+    const result = await calendarsApi.computeDeadline(c.req.param('calendarId'), c.req.query());
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao calcular prazo:', error);
+    return c.json({ error: 'Erro ao calcular prazo' }, 500);
+  }
+});
+
+/**
+ * GET /calendars/:calendarId
+ * Calendário de feriados do órgão
+ */
+calendars.get('/:calendarId', async (c) => {
+  try {
+    const result = await calendarsApi.get(c.req.param('calendarId'));
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao buscar calendário:', error);
+    return c.json({ error: 'Erro ao buscar calendário' }, 500);
+  }
+});
+
+/**
+ * PUT /calendars/:calendarId
+ * Cria ou substitui o calendário do órgão (admin)
+ */
+calendars.put('/:calendarId', async (c) => {
+  try {
+    const body = await c.req.json<{ name: string; state?: string; holidays: CalendarHoliday[] }>();
+    const result = await calendarsApi.save(
+      c.req.param('calendarId'),
+      body,
+      c.req.header('X-Admin-Key')
+    );
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao salvar calendário:', error);
+    return c.json({ error: 'Erro ao salvar calendário' }, 500);
+  }
+});
+
+/**
+ * DELETE /calendars/:calendarId
+ * Remove o calendário (admin)
+ */
+calendars.delete('/:calendarId', async (c) => {
+  try {
+    const result = await calendarsApi.delete(c.req.param('calendarId'), c.req.header('X-Admin-Key'));
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao remover calendário:', error);
+    return c.json({ error: 'Erro ao remover calendário' }, 500);
+  }
+});
+
+export { calendars };
@@ -1,5 +1,5 @@
 import { Hono } from 'hono';
-import { chatApi } from '../services/job-api-client.js';
+import { chatApi, JobApiError } from '../services/job-api-client.js';
 
 const chat = new Hono();
 
@@ -15,14 +15,61 @@ chat.post('/:documentId', async (c) => {
     topK?: number;
   }>();
 
-  const result = await chatApi.sendMessage(
-    documentId,
-    body.message,
-    body.conversationId,
-    body.topK
-  );
+  try {
+    const result = await chatApi.sendMessage(
+      documentId,
+      body.message,
+      body.conversationId,
+      body.topK
+    );
 
-  return c.json(result);
+    return c.json(result);
+  } catch (error) {
+    // Repassa erros esperados (ex.: 402 com orçamento de IA esgotado)
+    if (error instanceof JobApiError && error.statusCode < 500) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    throw error;
+  }
+});
+
+/**
+ * POST /chat/:documentId/stream
+ * Envia mensagem e repassa a resposta da Job API em stream (SSE)
+ */
+chat.post('/:documentId/stream', async (c) => {
+  const documentId = c.req.param('documentId');
+  const body = await c.req.json<{
+    message: string;
+    conversationId?: string;
+    topK?: number;
+  }>();
+
+  try {
+    // Cliente desconectou → interrompe a geração na job-api também
+    const upstream = await chatApi.streamMessage(
+      documentId,
+      body.message,
+      body.conversationId,
+      body.topK,
+      c.req.raw.signal
+    );
+
+    return new Response(upstream.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  } catch (error) {
+    // Repassa erros esperados (ex.: 402 com orçamento de IA esgotado)
+    if (error instanceof JobApiError && error.statusCode < 500) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    throw error;
+  }
 });
 
 /**
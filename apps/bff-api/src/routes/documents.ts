@@ -21,8 +21,9 @@ documents.get('/', async (c) => {
     const page = c.req.query('page');
     const limit = c.req.query('limit');
     const status = c.req.query('status');
+    const tag = c.req.query('tag');
 
-    const result = await documentsApi.list({ page, limit, status });
+    const result = await documentsApi.list({ page, limit, status, tag });
     return c.json(result);
   } catch (error) {
     if (error instanceof JobApiError) {
@@ -130,7 +131,8 @@ documents.get('/:id/pdf', async (c) => {
     // Baixar o PDF diretamente do MinIO via SDK (sem problemas de CORS)
     const pdfBuffer = await downloadFile(document.s3Key);
     
-    const filename = document.filename || 'document.pdf';
+    // Documentos convertidos (DOCX/ODT/HTML) são servidos como o PDF renderizado
+    const filename = (document.filename || 'document.pdf').replace(/\.(docx|odt|html?)$/i, '.pdf');
     
     // Servir o PDF com headers CORS adequados para iframe
     return new Response(pdfBuffer, {
@@ -158,6 +160,30 @@ documents.get('/:id/pdf', async (c) => {
   }
 });
 
+/**
+ * GET /documents/:id/pages/:pageNumber/layout
+ * Retorna as coordenadas dos itens de texto de uma página
+ */
+documents.get('/:id/pages/:pageNumber/layout', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const pageNumber = c.req.param('pageNumber');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await documentsApi.getPageLayout(id, pageNumber);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao buscar layout da página:', error);
+    return c.json({ error: 'Erro ao buscar layout da página' }, 500);
+  }
+});
+
 /**
  * GET /documents/:id/summary
  * Retorna resumo rápido do documento
@@ -181,18 +207,127 @@ documents.get('/:id/summary', async (c) => {
   }
 });
 
+/**
+ * GET /documents/:id/usage
+ * Retorna tokens e custo de IA do documento
+ */
+documents.get('/:id/usage', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await documentsApi.getUsage(id);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao buscar uso de IA:', error);
+    return c.json({ error: 'Erro ao buscar uso de IA' }, 500);
+  }
+});
+
+/**
+ * GET /documents/:id/quarantine
+ * Itens extraídos que não passaram na validação (para revisão)
+ */
+documents.get('/:id/quarantine', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await documentsApi.getQuarantine(id);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao buscar quarentena:', error);
+    return c.json({ error: 'Erro ao buscar quarentena' }, 500);
+  }
+});
+
+/**
+ * GET /documents/:id/citations
+ * Estatísticas da verificação das citações (verificadas, corrigidas, não encontradas)
+ */
+documents.get('/:id/citations', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await documentsApi.getCitations(id);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao buscar verificação de citações:', error);
+    return c.json({ error: 'Erro ao buscar verificação de citações' }, 500);
+  }
+});
+
+/**
+ * GET /documents/:id/events
+ * Repassa o stream SSE de progresso da job-api
+ */
+documents.get('/:id/events', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    // Cliente desconectou → fecha a conexão com a job-api também
+    const lastEventId = c.req.header('Last-Event-ID') || c.req.query('lastEventId');
+    const upstream = await documentsApi.streamEvents(id, lastEventId, c.req.raw.signal);
+
+    return new Response(upstream.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        // EventSource do navegador (origem do web)
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao abrir stream de progresso:', error);
+    return c.json({ error: 'Erro ao abrir stream de progresso' }, 500);
+  }
+});
+
 /**
  * POST /documents/:id/process
  * Inicia processamento de um documento
+ * Query: ?mode=resume retoma dos batches pendentes ou com falha
  */
 documents.post('/:id/process', async (c) => {
   try {
     const id = c.req.param('id');
+    const mode = c.req.query('mode') as 'full' | 'resume' | undefined;
 
     if (!ObjectId.isValid(id)) {
       return c.json({ error: 'ID inválido' }, 400);
     }
 
+    if (mode && mode !== 'full' && mode !== 'resume') {
+      return c.json({ error: 'mode deve ser "full" ou "resume"' }, 400);
+    }
+
     // Buscar documento para obter s3Key
     const db = getDatabase();
     const document = await db
@@ -204,7 +339,7 @@ documents.post('/:id/process', async (c) => {
     }
 
     // Iniciar processamento na job-api
-    const result = await documentsApi.process(id, document.s3Key);
+    const result = await documentsApi.process(id, document.s3Key, mode);
     return c.json(result, 202);
   } catch (error) {
     if (error instanceof JobApiError) {
@@ -215,4 +350,121 @@ documents.post('/:id/process', async (c) => {
   }
 });
 
+/**
+ * POST /documents/:id/cancel
+ * Cancela o processamento de um documento
+ */
+documents.post('/:id/cancel', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await documentsApi.interrupt(id, 'cancel');
+    return c.json(result, result.status === 'PROCESSING' ? 202 : 200);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao cancelar processamento:', error);
+    return c.json({ error: 'Erro ao cancelar processamento' }, 500);
+  }
+});
+
+/**
+ * POST /documents/:id/pause
+ * Pausa o processamento de um documento
+ */
+documents.post('/:id/pause', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await documentsApi.interrupt(id, 'pause');
+    return c.json(result, result.status === 'PROCESSING' ? 202 : 200);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao pausar processamento:', error);
+    return c.json({ error: 'Erro ao pausar processamento' }, 500);
+  }
+});
+
+/**
+ * POST /documents/:id/resume
+ * Retoma um documento pausado
+ */
+documents.post('/:id/resume', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await documentsApi.resume(id);
+    return c.json(result, 202);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao retomar processamento:', error);
+    return c.json({ error: 'Erro ao retomar processamento' }, 500);
+  }
+});
+
+/**
+ * PUT /documents/:id/tags
+ * Define as tags do documento (filtros da biblioteca)
+ */
+documents.put('/:id/tags', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const body = await c.req.json<{ tags: string[] }>();
+    const result = await documentsApi.updateTags(id, body.tags);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao atualizar tags:', error);
+    return c.json({ error: 'Erro ao atualizar tags' }, 500);
+  }
+});
+
+/**
+ * PUT /documents/:id/calendar
+ * Define o calendário de feriados do órgão (prazos em dias úteis)
+ */
+documents.put('/:id/calendar', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const body = await c.req.json<{ calendarId: string | null }>();
+    const result = await documentsApi.updateCalendar(id, body.calendarId);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao atualizar calendário do documento:', error);
+    return c.json({ error: 'Erro ao atualizar calendário do documento' }, 500);
+  }
+});
+
 export { documents };
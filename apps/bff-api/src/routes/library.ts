@@ -0,0 +1,125 @@
+import { Hono } from 'hono';
+import { libraryApi, JobApiError, type LibraryFilters } from '../services/job-api-client.js';
+
+const library = new Hono();
+
+/**
+ * GET /library/documents
+ * Documentos da organização que atendem aos filtros
+ * Query: ?organizationId=&status=&from=&to=&tags=
+ */
+library.get('/documents', async (c) => {
+  try {
+    const result = await libraryApi.listDocuments({
+      organizationId: c.req.query('organizationId'),
+      status: c.req.query('status'),
+      from: c.req.query('from'),
+      to: c.req.query('to'),
+      tags: c.req.query('tags'),
+    });
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao listar documentos da biblioteca:', error);
+    return c.json({ error: 'Erro ao listar documentos da biblioteca' }, 500);
+  }
+});
+
+/**
+ * POST /library/search
+ * Busca trechos em todos os documentos filtrados
+ */
+library.post('/search', async (c) => {
+  const body = await c.req.json<{
+    query: string;
+    organizationId?: string;
+    filters?: LibraryFilters;
+    topK?: number;
+  }>();
+
+  try {
+    const result = await libraryApi.search(body);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError && error.statusCode < 500) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    throw error;
+  }
+});
+
+/**
+ * POST /library/chat
+ * Envia mensagem ao chat da biblioteca
+ */
+library.post('/chat', async (c) => {
+  const body = await c.req.json<{
+    message: string;
+    conversationId?: string;
+    organizationId?: string;
+    filters?: LibraryFilters;
+    topK?: number;
+  }>();
+
+  try {
+    const result = await libraryApi.sendMessage(body);
+    return c.json(result);
+  } catch (error) {
+    // Repassa erros esperados (ex.: 402 com orçamento de IA esgotado)
+    if (error instanceof JobApiError && error.statusCode < 500) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    throw error;
+  }
+});
+
+/**
+ * GET /library/chat
+ * Lista conversas da biblioteca (?organizationId=)
+ */
+library.get('/chat', async (c) => {
+  const result = await libraryApi.listConversations(c.req.query('organizationId'));
+  return c.json(result);
+});
+
+/**
+ * GET /library/chat/:conversationId
+ * Busca histórico de uma conversa da biblioteca
+ */
+library.get('/chat/:conversationId', async (c) => {
+  try {
+    const result = await libraryApi.getConversation(
+      c.req.param('conversationId'),
+      c.req.query('organizationId')
+    );
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError && error.statusCode < 500) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    throw error;
+  }
+});
+
+/**
+ * DELETE /library/chat/:conversationId
+ * Deleta uma conversa da biblioteca
+ */
+library.delete('/chat/:conversationId', async (c) => {
+  try {
+    const result = await libraryApi.deleteConversation(
+      c.req.param('conversationId'),
+      c.req.query('organizationId')
+    );
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError && error.statusCode < 500) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    throw error;
+  }
+});
+
+export { library };
@@ -0,0 +1,153 @@
+import { Hono } from 'hono';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '../services/database.js';
+import { procurementsApi, JobApiError } from '../services/job-api-client.js';
+import type { Procurement } from '../types/index.js';
+
+const procurements = new Hono();
+
+/**
+ * GET /procurements
+ * Lista licitações enviadas como pacote ZIP
+ */
+procurements.get('/', async (c) => {
+  try {
+    const page = c.req.query('page');
+    const limit = c.req.query('limit');
+
+    const result = await procurementsApi.list({ page, limit });
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao listar licitações:', error);
+    return c.json({ error: 'Erro ao listar licitações' }, 500);
+  }
+});
+
+/**
+ * GET /procurements/:id
+ * Retorna a licitação com seus documentos filhos
+ */
+procurements.get('/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await procurementsApi.get(id);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao buscar licitação:', error);
+    return c.json({ error: 'Erro ao buscar licitação' }, 500);
+  }
+});
+
+/**
+ * GET /procurements/:id/entities
+ * Entidades agregadas de todos os documentos
+ */
+procurements.get('/:id/entities', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await procurementsApi.getEntities(id);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao buscar entidades da licitação:', error);
+    return c.json({ error: 'Erro ao buscar entidades da licitação' }, 500);
+  }
+});
+
+/**
+ * GET /procurements/:id/timeline
+ * Timeline unificada da licitação
+ */
+procurements.get('/:id/timeline', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await procurementsApi.getTimeline(id);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao buscar timeline da licitação:', error);
+    return c.json({ error: 'Erro ao buscar timeline da licitação' }, 500);
+  }
+});
+
+/**
+ * GET /procurements/:id/risks
+ * Riscos agregados de todos os documentos
+ */
+procurements.get('/:id/risks', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await procurementsApi.getRisks(id);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao buscar riscos da licitação:', error);
+    return c.json({ error: 'Erro ao buscar riscos da licitação' }, 500);
+  }
+});
+
+/**
+ * POST /procurements/:id/process
+ * Reinicia o processamento do pacote
+ */
+procurements.post('/:id/process', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    if (!ObjectId.isValid(id)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const db = getDatabase();
+    const procurement = await db
+      .collection<Procurement>('procurements')
+      .findOne({ _id: new ObjectId(id) });
+
+    if (!procurement) {
+      return c.json({ error: 'Licitação não encontrada' }, 404);
+    }
+
+    const result = await procurementsApi.process(id, procurement.s3Key);
+    return c.json(result, 202);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao processar licitação:', error);
+    return c.json({ error: 'Erro ao processar licitação' }, 500);
+  }
+});
+
+export { procurements };
@@ -24,7 +24,7 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
 
 ## Fluxo de Uso
 
-1. **Upload**: \`POST /upload\` - Envia PDF do edital
+1. **Upload**: \`POST /upload\` - Envia o edital (PDF, DOCX, ODT ou HTML)
 2. **Processar**: \`POST /documents/:id/process\` - Inicia extração
 3. **Acompanhar**: \`GET /documents/:id\` - Verifica status
 4. **Consultar**: Timeline, Estrutura, Riscos
@@ -44,12 +44,16 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
     },
   ],
   tags: [
-    { name: 'Upload', description: 'Upload de documentos PDF' },
+    { name: 'Upload', description: 'Upload de documentos (PDF, DOCX, ODT, HTML, planilhas) ou pacotes ZIP' },
     { name: 'Documents', description: 'Gerenciamento de documentos' },
     { name: 'Timeline', description: 'Cronograma de eventos e prazos' },
     { name: 'Structure', description: 'Estrutura hierárquica do documento' },
     { name: 'Risks', description: 'Riscos identificados' },
     { name: 'Comments', description: 'Comentários em eventos' },
+    { name: 'Procurements', description: 'Licitações enviadas como pacote ZIP' },
+    { name: 'Budgets', description: 'Orçamentos de IA por organização (admin)' },
+    { name: 'Calendars', description: 'Feriados por órgão e prazos em dias úteis (Lei 14.133)' },
+    { name: 'Library', description: 'Busca e chat em todos os documentos da organização' },
   ],
   paths: {
     // ========================================================================
@@ -58,8 +62,17 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
     '/upload': {
       post: {
         tags: ['Upload'],
-        summary: 'Upload de PDF',
-        description: 'Faz upload de um arquivo PDF de edital para processamento',
+        summary: 'Upload de documento',
+        parameters: [
+          {
+            name: 'X-Organization-Id',
+            in: 'header',
+            schema: { type: 'string' },
+            description: 'Organização (workspace) cujo orçamento de IA o documento consome; sem header usa "default". Precisa estar cadastrada (PUT /budgets/:organizationId)',
+          },
+        ],
+        description:
+          'Faz upload de um edital para processamento. Aceita PDF, DOCX, ODT, HTML, XLSX, ODS e CSV; formatos não-PDF são convertidos para PDF pela job-api antes da análise. Um ZIP cria uma licitação (procurementId) com um documento filho por arquivo, classificado como EDITAL, TERMO_REFERENCIA, MINUTA_CONTRATO, ANEXO ou PLANILHA.',
         requestBody: {
           required: true,
           content: {
@@ -70,7 +83,7 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
                   file: {
                     type: 'string',
                     format: 'binary',
-                    description: 'Arquivo PDF do edital',
+                    description: 'Arquivo do edital (.pdf, .docx, .odt, .html, .xlsx, .ods, .csv) ou pacote .zip',
                   },
                 },
                 required: ['file'],
@@ -88,6 +101,7 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
                   properties: {
                     message: { type: 'string' },
                     documentId: { type: 'string' },
+                    procurementId: { type: 'string', description: 'Presente quando o arquivo é um ZIP' },
                     filename: { type: 'string' },
                     s3Key: { type: 'string' },
                   },
@@ -96,6 +110,7 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
             },
           },
           400: { description: 'Arquivo inválido ou não enviado' },
+          403: { description: 'Organização não cadastrada' },
         },
       },
     },
@@ -116,7 +131,7 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
             in: 'query', 
             schema: { 
               type: 'string', 
-              enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'] 
+              enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'PAUSED', 'CANCELLED'] 
             } 
           },
         ],
@@ -152,6 +167,23 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
         },
       },
     },
+    '/documents/{id}/events': {
+      get: {
+        tags: ['Documents'],
+        summary: 'Progresso em tempo real (SSE)',
+        description:
+          'Repassa o stream de progresso da job-api. Cada mensagem traz id e data (JSON com type, stage, message, batchNumber, counts, progress, error); termina com event: end',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'Last-Event-ID', in: 'header', schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'Stream de eventos', content: { 'text/event-stream': {} } },
+          400: { description: 'ID inválido' },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
     '/documents/{id}/process': {
       post: {
         tags: ['Documents'],
@@ -159,14 +191,60 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
         description: 'Inicia a extração de entidades do documento',
         parameters: [
           { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          {
+            name: 'mode',
+            in: 'query',
+            schema: { type: 'string', enum: ['full', 'resume'], default: 'full' },
+            description: 'resume processa apenas os batches pendentes ou com falha',
+          },
         ],
         responses: {
           202: { description: 'Processamento iniciado' },
+          400: { description: 'mode inválido' },
           404: { description: 'Documento não encontrado' },
           409: { description: 'Documento já em processamento' },
         },
       },
     },
+    '/documents/{id}/cancel': {
+      post: {
+        tags: ['Documents'],
+        summary: 'Cancelar processamento',
+        description:
+          'Documento na fila é cancelado na hora; em execução, o worker para após a etapa atual (entre batches ou entre os estágios de um batch)',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Cancelado' },
+          202: { description: 'Cancelamento solicitado' },
+          409: { description: 'Documento não está em processamento' },
+        },
+      },
+    },
+    '/documents/{id}/pause': {
+      post: {
+        tags: ['Documents'],
+        summary: 'Pausar processamento',
+        description: 'Como o cancelamento, mas o documento fica PAUSED e pode ser retomado',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Pausado' },
+          202: { description: 'Pausa solicitada' },
+          409: { description: 'Documento não está em processamento' },
+        },
+      },
+    },
+    '/documents/{id}/resume': {
+      post: {
+        tags: ['Documents'],
+        summary: 'Retomar processamento pausado',
+        description: 'Processa apenas os batches que ficaram pendentes',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          202: { description: 'Processamento retomado' },
+          409: { description: 'Documento não está pausado' },
+        },
+      },
+    },
     '/documents/{id}/pdf-url': {
       get: {
         tags: ['Documents'],
@@ -207,6 +285,93 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
         },
       },
     },
+    '/documents/{id}/usage': {
+      get: {
+        tags: ['Documents'],
+        summary: 'Uso de IA',
+        description: 'Tokens, latência e custo estimado (US$) das chamadas de IA do documento, por etapa (structure, extraction, embeddings, chat), modelo e batch',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'Uso agregado (totals, byStage, byModel, byBatch)' },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
+    '/documents/{id}/quarantine': {
+      get: {
+        tags: ['Documents'],
+        summary: 'Itens em quarentena',
+        description: 'Seções, entidades, eventos e riscos rejeitados pela validação após as rodadas de correção; não foram salvos e ficam para revisão (kind, key, item, errors, batchNumber)',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'Itens em quarentena (items, total)' },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
+    '/documents/{id}/citations': {
+      get: {
+        tags: ['Documents'],
+        summary: 'Verificação de citações',
+        description: 'Contagem por situação (VERIFIED, RELOCATED, UNVERIFIED, pendentes) das fontes de entidades, eventos do timeline e riscos, e foundRate (fração encontrada no documento)',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'Estatísticas (entities, timelineEvents, risks, total, foundRate)' },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
+    '/documents/{id}/calendar': {
+      put: {
+        tags: ['Documents'],
+        summary: 'Definir calendário do órgão',
+        description: 'Calendário de feriados das datas relativas em dias úteis (null = só nacionais)',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { calendarId: { type: 'string', nullable: true } } },
+            },
+          },
+        },
+        responses: {
+          200: { description: 'Calendário atualizado (documentId, calendarId)' },
+          404: { description: 'Documento ou calendário não encontrado' },
+        },
+      },
+    },
+    '/documents/{id}/tags': {
+      put: {
+        tags: ['Documents'],
+        summary: 'Definir tags',
+        description: 'Substitui as tags do documento (minúsculas, sem repetição), usadas nos filtros da biblioteca',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { tags: { type: 'array', items: { type: 'string' } } } },
+            },
+          },
+        },
+        responses: {
+          200: { description: 'Tags atualizadas (documentId, tags)' },
+          400: { description: 'tags inválidas' },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
 
     // ========================================================================
     // TIMELINE
@@ -250,6 +415,20 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
         responses: { 200: { description: 'Eventos críticos' } },
       },
     },
+    '/timeline/{documentId}/critical-path': {
+      get: {
+        tags: ['Timeline'],
+        summary: 'Caminho crítico',
+        description: 'Caminho crítico da publicação à assinatura, folga de cada evento e requisitos (certidões, atestados) que liberam cada fase',
+        parameters: [
+          { name: 'documentId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'start, end, totalDays, path, events, gates, conflicts' },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
     '/timeline/{documentId}/by-phase': {
       get: {
         tags: ['Timeline'],
@@ -274,6 +453,41 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
         },
       },
     },
+    '/timeline/{documentId}/events/{eventId}/date': {
+      put: {
+        tags: ['Timeline'],
+        summary: 'Corrigir data do evento',
+        description: 'Define a data (ou null para remover); os eventos relativos a ele são recalculados',
+        parameters: [
+          { name: 'documentId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'eventId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { date: { type: 'string', nullable: true, example: '2026-03-10' } } },
+            },
+          },
+        },
+        responses: {
+          200: { description: 'Evento atualizado (event) e resumo da projeção (relativeDates)' },
+          400: { description: 'Data inválida' },
+          404: { description: 'Evento não encontrado' },
+        },
+      },
+    },
+    '/timeline/{documentId}/resolve': {
+      post: {
+        tags: ['Timeline'],
+        summary: 'Recalcular datas relativas',
+        description: 'Projeta as datas dos eventos relativos (dateStatus PROJECTED) e detecta ciclos',
+        parameters: [
+          { name: 'documentId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: { 200: { description: 'projected, unresolved, cycles, updated' } },
+      },
+    },
     '/timeline/{documentId}/events/{eventId}/comments': {
       get: {
         tags: ['Comments'],
@@ -430,6 +644,329 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
       },
     },
 
+    // ========================================================================
+    // PROCUREMENTS
+    // ========================================================================
+    '/procurements': {
+      get: {
+        tags: ['Procurements'],
+        summary: 'Lista licitações',
+        parameters: [
+          { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
+        ],
+        responses: { 200: { description: 'Lista paginada de licitações' } },
+      },
+    },
+    '/procurements/{id}': {
+      get: {
+        tags: ['Procurements'],
+        summary: 'Detalhes da licitação',
+        description: 'Retorna a licitação com os documentos filhos, seus papéis e arquivos ignorados',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'Licitação com documentos' },
+          404: { description: 'Licitação não encontrada' },
+        },
+      },
+    },
+    '/procurements/{id}/process': {
+      post: {
+        tags: ['Procurements'],
+        summary: 'Reprocessar licitação',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          202: { description: 'Processamento iniciado' },
+          404: { description: 'Licitação não encontrada' },
+          409: { description: 'Licitação já em processamento' },
+        },
+      },
+    },
+    '/procurements/{id}/entities': {
+      get: {
+        tags: ['Procurements'],
+        summary: 'Entidades agregadas',
+        description: 'Entidades de todos os documentos; cada item traz sourceDocument (arquivo e papel)',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: { 200: { description: 'Entidades agregadas' } },
+      },
+    },
+    '/procurements/{id}/timeline': {
+      get: {
+        tags: ['Procurements'],
+        summary: 'Timeline unificada',
+        description: 'Eventos de todos os documentos ordenados por data; cada item traz sourceDocument',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: { 200: { description: 'Timeline agregada' } },
+      },
+    },
+    '/procurements/{id}/risks': {
+      get: {
+        tags: ['Procurements'],
+        summary: 'Riscos agregados',
+        description: 'Riscos de todos os documentos; cada item traz sourceDocument',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: { 200: { description: 'Riscos agregados' } },
+      },
+    },
+
+    // ========================================================================
+    // CALENDARS
+    // ========================================================================
+    '/calendars': {
+      get: {
+        tags: ['Calendars'],
+        summary: 'Listar calendários',
+        responses: { 200: { description: 'Calendários (calendars, total)' } },
+      },
+    },
+    '/calendars/{calendarId}': {
+      get: {
+        tags: ['Calendars'],
+        summary: 'Calendário do órgão',
+        parameters: [
+          { name: 'calendarId', in: 'path', required: true, schema: { type: 'string', example: 'sp-sao-paulo' } },
+        ],
+        responses: {
+          200: { description: 'Feriados configurados (name, state, holidays)' },
+          404: { description: 'Calendário não encontrado' },
+        },
+      },
+      put: {
+        tags: ['Calendars'],
+        summary: 'Criar ou substituir calendário',
+        description: 'Feriados estaduais, municipais e do órgão (date MM-DD ou YYYY-MM-DD, name, scope); os nacionais entram sempre',
+        parameters: [
+          { name: 'calendarId', in: 'path', required: true, schema: { type: 'string', example: 'sp-sao-paulo' } },
+          { name: 'X-Admin-Key', in: 'header', required: true, schema: { type: 'string' }, description: 'Igual à ADMIN_API_KEY da job-api' },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  state: { type: 'string', example: 'SP' },
+                  holidays: { type: 'array', items: { type: 'object' } },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: { description: 'Calendário salvo' },
+          400: { description: 'Dados inválidos' },
+          403: { description: 'X-Admin-Key ausente ou inválida' },
+          503: { description: 'ADMIN_API_KEY não configurada na job-api' },
+        },
+      },
+      delete: {
+        tags: ['Calendars'],
+        summary: 'Remover calendário',
+        parameters: [
+          { name: 'calendarId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'X-Admin-Key', in: 'header', required: true, schema: { type: 'string' }, description: 'Igual à ADMIN_API_KEY da job-api' },
+        ],
+        responses: {
+          200: { description: 'Calendário removido' },
+          403: { description: 'X-Admin-Key ausente ou inválida' },
+          404: { description: 'Calendário não encontrado' },
+          503: { description: 'ADMIN_API_KEY não configurada na job-api' },
+        },
+      },
+    },
+    '/calendars/{calendarId}/holidays': {
+      get: {
+        tags: ['Calendars'],
+        summary: 'Feriados do ano',
+        description: "Nacionais + do calendário ('nacional' = só nacionais)",
+        parameters: [
+          { name: 'calendarId', in: 'path', required: true, schema: { type: 'string', example: 'nacional' } },
+          { name: 'year', in: 'query', schema: { type: 'integer' } },
+        ],
+        responses: { 200: { description: 'Feriados (date, name, scope)' } },
+      },
+    },
+    '/calendars/{calendarId}/deadline': {
+      get: {
+        tags: ['Calendars'],
+        summary: 'Calcular prazo',
+        description: 'Lei 14.133, art. 183: exclui o dia do começo e prorroga o vencimento em dia sem expediente',
+        parameters: [
+          { name: 'calendarId', in: 'path', required: true, schema: { type: 'string', example: 'nacional' } },
+          { name: 'from', in: 'query', required: true, schema: { type: 'string', format: 'date' } },
+          { name: 'offset', in: 'query', required: true, description: 'Até 3650 (DAYS/BUSINESS_DAYS) ou 120 (MONTHS)', schema: { type: 'integer', minimum: 0 } },
+          { name: 'unit', in: 'query', schema: { type: 'string', enum: ['DAYS', 'BUSINESS_DAYS', 'MONTHS'] } },
+          { name: 'direction', in: 'query', schema: { type: 'string', enum: ['BEFORE', 'AFTER'] } },
+        ],
+        responses: {
+          200: { description: 'Vencimento (date, rolled, holidays)' },
+          400: { description: 'Parâmetros inválidos' },
+        },
+      },
+    },
+
+    // ========================================================================
+    // BUDGETS
+    // ========================================================================
+    '/budgets': {
+      get: {
+        tags: ['Budgets'],
+        summary: 'Listar orçamentos',
+        description: 'Organizações com orçamento próprio ou uso de IA no mês, com limites, uso e saldo',
+        parameters: [
+          { name: 'X-Admin-Key', in: 'header', required: true, schema: { type: 'string' }, description: 'Igual à ADMIN_API_KEY da job-api' },
+        ],
+        responses: {
+          200: { description: 'Orçamentos (budgets, total)' },
+          403: { description: 'X-Admin-Key ausente ou inválida' },
+          503: { description: 'ADMIN_API_KEY não configurada na job-api' },
+        },
+      },
+    },
+    '/budgets/{organizationId}': {
+      get: {
+        tags: ['Budgets'],
+        summary: 'Orçamento da organização',
+        parameters: [
+          { name: 'organizationId', in: 'path', required: true, schema: { type: 'string', example: 'default' } },
+          { name: 'X-Admin-Key', in: 'header', required: true, schema: { type: 'string' }, description: 'Igual à ADMIN_API_KEY da job-api' },
+        ],
+        responses: {
+          200: { description: 'Limites, uso do mês e saldo' },
+          403: { description: 'X-Admin-Key ausente ou inválida' },
+          503: { description: 'ADMIN_API_KEY não configurada na job-api' },
+        },
+      },
+      put: {
+        tags: ['Budgets'],
+        summary: 'Definir orçamento da organização',
+        description: 'Atualiza só os limites informados; null remove o limite. Documentos pausados por orçamento podem ser retomados depois do aumento.',
+        parameters: [
+          { name: 'organizationId', in: 'path', required: true, schema: { type: 'string', example: 'default' } },
+          { name: 'X-Admin-Key', in: 'header', required: true, schema: { type: 'string' }, description: 'Igual à ADMIN_API_KEY da job-api' },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  monthlyTokenLimit: { type: 'integer', nullable: true },
+                  monthlyCostLimitUsd: { type: 'number', nullable: true },
+                  documentTokenLimit: { type: 'integer', nullable: true },
+                  documentCostLimitUsd: { type: 'number', nullable: true },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: { description: 'Orçamento atualizado' },
+          400: { description: 'Limite inválido' },
+          403: { description: 'X-Admin-Key ausente ou inválida' },
+          503: { description: 'ADMIN_API_KEY não configurada na job-api' },
+        },
+      },
+    },
+
+    // ========================================================================
+    // LIBRARY
+    // ========================================================================
+    '/library/documents': {
+      get: {
+        tags: ['Library'],
+        summary: 'Documentos da biblioteca',
+        description: 'Documentos da organização que atendem aos filtros (padrão: COMPLETED)',
+        parameters: [
+          { name: 'organizationId', in: 'query', schema: { type: 'string', default: 'default' } },
+          { name: 'status', in: 'query', schema: { type: 'string', example: 'COMPLETED,PROCESSING' } },
+          { name: 'from', in: 'query', schema: { type: 'string', format: 'date' } },
+          { name: 'to', in: 'query', schema: { type: 'string', format: 'date' } },
+          { name: 'tags', in: 'query', schema: { type: 'string', example: 'obras,ti' } },
+        ],
+        responses: {
+          200: { description: 'Documentos filtrados (documents, total)' },
+          400: { description: 'Filtro inválido' },
+        },
+      },
+    },
+    '/library/search': {
+      post: {
+        tags: ['Library'],
+        summary: 'Busca na biblioteca',
+        description: 'Trechos mais relevantes de todos os documentos filtrados, com documento e página. Corpo: query, organizationId, filters (status, from, to, tags), topK',
+        responses: {
+          200: { description: 'documentsSearched e results' },
+          400: { description: 'Query ou filtro inválido' },
+          402: { description: 'Orçamento mensal da organização esgotado' },
+          403: { description: 'Organização não cadastrada' },
+        },
+      },
+    },
+    '/library/chat': {
+      get: {
+        tags: ['Library'],
+        summary: 'Conversas da biblioteca',
+        parameters: [
+          { name: 'organizationId', in: 'query', schema: { type: 'string', default: 'default' } },
+        ],
+        responses: {
+          200: { description: 'Conversas da organização' },
+        },
+      },
+      post: {
+        tags: ['Library'],
+        summary: 'Chat na biblioteca',
+        description: 'Pergunta sobre todos os documentos filtrados. Corpo: message, conversationId, organizationId, filters (status, from, to, tags), topK. Cada fonte da resposta (sources) traz documento e página.',
+        responses: {
+          200: { description: 'Resposta com sources, sourceSnippets, toolCalls e documentsSearched' },
+          400: { description: 'Mensagem ou filtro inválido, ou nenhum documento nos filtros' },
+          402: { description: 'Orçamento mensal da organização esgotado' },
+          403: { description: 'Organização não cadastrada' },
+        },
+      },
+    },
+    '/library/chat/{conversationId}': {
+      get: {
+        tags: ['Library'],
+        summary: 'Histórico de uma conversa da biblioteca',
+        parameters: [
+          { name: 'conversationId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'organizationId', in: 'query', schema: { type: 'string', default: 'default' } },
+        ],
+        responses: {
+          200: { description: 'Conversa e mensagens' },
+          404: { description: 'Conversa não encontrada' },
+        },
+      },
+      delete: {
+        tags: ['Library'],
+        summary: 'Deletar conversa da biblioteca',
+        parameters: [
+          { name: 'conversationId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'organizationId', in: 'query', schema: { type: 'string', default: 'default' } },
+        ],
+        responses: {
+          200: { description: 'Conversa deletada' },
+          404: { description: 'Conversa não encontrada' },
+        },
+      },
+    },
+
     // ========================================================================
     // HEALTH
     // ========================================================================
@@ -463,7 +1000,7 @@ Frontend (Web) → BFF API (3000) → Job API (3001) → MongoDB
         properties: {
           id: { type: 'string' },
           filename: { type: 'string' },
-          status: { type: 'string', enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'] },
+          status: { type: 'string', enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'PAUSED', 'CANCELLED'] },
           percentage: { type: 'integer' },
           currentStage: { type: 'string' },
           totalPages: { type: 'integer' },
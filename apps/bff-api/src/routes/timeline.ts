@@ -51,6 +51,29 @@ timeline.get('/:documentId/critical', async (c) => {
   }
 });
 
+/**
+ * GET /timeline/:documentId/critical-path
+ * Caminho crítico até a assinatura, folgas e requisitos que liberam cada fase
+ */
+timeline.get('/:documentId/critical-path', async (c) => {
+  try {
+    const documentId = c.req.param('documentId');
+
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await timelineApi.getCriticalPath(documentId);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao calcular caminho crítico:', error);
+    return c.json({ error: 'Erro ao calcular caminho crítico' }, 500);
+  }
+});
+
 /**
  * GET /timeline/:documentId/by-phase
  * Retorna eventos agrupados por fase
@@ -98,6 +121,54 @@ timeline.get('/:documentId/events/:eventId', async (c) => {
   }
 });
 
+/**
+ * PUT /timeline/:documentId/events/:eventId/date
+ * Corrige a data de um evento e recalcula os eventos relativos a ele
+ */
+timeline.put('/:documentId/events/:eventId/date', async (c) => {
+  try {
+    const documentId = c.req.param('documentId');
+    const eventId = c.req.param('eventId');
+
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const body = await c.req.json<{ date: string | null }>();
+    const result = await timelineApi.updateEventDate(documentId, eventId, body.date);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao atualizar data do evento:', error);
+    return c.json({ error: 'Erro ao atualizar data do evento' }, 500);
+  }
+});
+
+/**
+ * POST /timeline/:documentId/resolve
+ * Recalcula as datas projetadas dos eventos relativos
+ */
+timeline.post('/:documentId/resolve', async (c) => {
+  try {
+    const documentId = c.req.param('documentId');
+
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await timelineApi.resolve(documentId);
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof JobApiError) {
+      return c.json({ error: error.message }, error.statusCode as 400);
+    }
+    console.error('Erro ao resolver datas relativas:', error);
+    return c.json({ error: 'Erro ao resolver datas relativas' }, 500);
+  }
+});
+
 // ============================================================================
 // COMENTÁRIOS
 // ============================================================================
@@ -3,12 +3,65 @@ import { ObjectId } from 'mongodb';
 import { IncomingMessage } from 'http';
 import formidable from 'formidable';
 import { readFile } from 'fs/promises';
+import { extname } from 'path';
 import { getDatabase } from '../services/database.js';
 import { uploadFile } from '../services/storage.js';
-import type { PDFDocument } from '../types/index.js';
+import type { PDFDocument, Procurement, SourceFormat } from '../types/index.js';
 
 const upload = new Hono();
 
+// Formatos aceitos: PDF ou documentos convertidos para PDF pela job-api
+const ACCEPTED_FORMATS: Record<string, { format: SourceFormat; mimetypes: string[] }> = {
+  '.pdf': { format: 'pdf', mimetypes: ['application/pdf'] },
+  '.docx': {
+    format: 'docx',
+    mimetypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  '.odt': { format: 'odt', mimetypes: ['application/vnd.oasis.opendocument.text'] },
+  '.html': { format: 'html', mimetypes: ['text/html'] },
+  '.htm': { format: 'html', mimetypes: ['text/html'] },
+  '.xlsx': {
+    format: 'xlsx',
+    mimetypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  },
+  '.ods': { format: 'ods', mimetypes: ['application/vnd.oasis.opendocument.spreadsheet'] },
+  '.csv': { format: 'csv', mimetypes: ['text/csv', 'application/vnd.ms-excel', 'text/plain'] },
+};
+
+// Pacote ZIP com edital e anexos: vira uma licitação com documentos filhos
+const ZIP_MIMETYPES = ['application/zip', 'application/x-zip-compressed'];
+
+// Navegadores nem sempre enviam o mimetype correto para .docx/.odt
+const GENERIC_MIMETYPES = ['application/octet-stream', 'application/zip', ''];
+
+function normalizeMimetype(mimetype: string | null | undefined): string {
+  return (mimetype || '').split(';')[0]!.trim();
+}
+
+// Identifica o formato pela extensão, validando o mimetype enviado
+function detectSourceFormat(
+  filename: string,
+  mimetype: string | null | undefined
+): SourceFormat | null {
+  const extension = extname(filename).toLowerCase();
+  const accepted = ACCEPTED_FORMATS[extension];
+  if (!accepted) return null;
+
+  const type = normalizeMimetype(mimetype);
+  if (accepted.mimetypes.includes(type) || GENERIC_MIMETYPES.includes(type)) {
+    return accepted.format;
+  }
+  return null;
+}
+
+function isZipBundle(filename: string, mimetype: string | null | undefined): boolean {
+  const type = normalizeMimetype(mimetype);
+  return (
+    extname(filename).toLowerCase() === '.zip' &&
+    (ZIP_MIMETYPES.includes(type) || GENERIC_MIMETYPES.includes(type))
+  );
+}
+
 // Helper para extrair o request nativo do Node.js
 function getNodeRequest(c: any): IncomingMessage | null {
   // @hono/node-server expõe o request original via env
@@ -22,7 +75,9 @@ async function parseFormData(
   return new Promise((resolve, reject) => {
     const form = formidable({
       maxFileSize: 500 * 1024 * 1024, // 500MB
-      filter: ({ mimetype }) => mimetype === 'application/pdf',
+      filter: ({ originalFilename, mimetype }) =>
+        detectSourceFormat(originalFilename || '', mimetype) !== null ||
+        isZipBundle(originalFilename || '', mimetype),
     });
 
     form.parse(req, (err, fields, files) => {
@@ -56,6 +111,74 @@ async function notifyJobApi(documentId: string, s3Key: string): Promise<void> {
   }
 }
 
+// Notificar job-api para expandir e processar o pacote ZIP
+async function notifyJobApiProcurement(procurementId: string, s3Key: string): Promise<void> {
+  const jobApiUrl = process.env.JOB_API_URL || 'http://localhost:3002';
+
+  const response = await fetch(`${jobApiUrl}/process/procurement`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ procurementId, s3Key }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Erro ao notificar job-api: ${response.status} - ${errorText}`);
+  }
+}
+
+// Organizações cadastradas têm orçamento na coleção budgets (PUT /budgets);
+// um ID desconhecido ganharia um orçamento padrão novo a cada upload
+async function isRegisteredOrganization(organizationId: string): Promise<boolean> {
+  if (organizationId === 'default') return true;
+  const budget = await getDatabase()
+    .collection('budgets')
+    .findOne({ organizationId }, { projection: { _id: 1 } });
+  return budget !== null;
+}
+
+// Salva o ZIP e cria a licitação; os documentos filhos são criados pela job-api
+async function handleZipUpload(file: formidable.File, organizationId?: string) {
+  const db = getDatabase();
+  const procurementsCollection = db.collection<Procurement>('procurements');
+
+  const procurementId = new ObjectId();
+  const filename = file.originalFilename || 'licitacao.zip';
+  const s3Key = `uploads/${procurementId.toString()}/${filename}`;
+
+  const buffer = await readFile(file.filepath);
+  await uploadFile(s3Key, buffer, 'application/zip');
+
+  const procurement: Procurement = {
+    _id: procurementId,
+    filename,
+    s3Key,
+    ...(organizationId && { organizationId }),
+    status: 'PENDING',
+    documentIds: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  await procurementsCollection.insertOne(procurement);
+
+  try {
+    await notifyJobApiProcurement(procurementId.toString(), s3Key);
+  } catch (error) {
+    console.error('Erro ao notificar job-api:', error);
+    // Não falha a requisição, a licitação foi salva
+  }
+
+  return {
+    message: 'Pacote recebido e em processamento',
+    procurementId: procurementId.toString(),
+    filename,
+    status: 'PENDING',
+  };
+}
+
 upload.post('/', async (c) => {
   try {
     const nodeReq = getNodeRequest(c);
@@ -67,11 +190,30 @@ upload.post('/', async (c) => {
     const { file } = await parseFormData(nodeReq);
 
     if (!file) {
-      return c.json({ error: 'Arquivo PDF é obrigatório' }, 400);
+      return c.json(
+        { error: 'Arquivo é obrigatório (formatos aceitos: PDF, DOCX, ODT, HTML, XLSX, ODS, CSV, ZIP)' },
+        400
+      );
     }
 
-    if (file.mimetype !== 'application/pdf') {
-      return c.json({ error: 'Apenas arquivos PDF são aceitos' }, 400);
+    // Organização (workspace) para o orçamento de IA; sem header usa a padrão
+    const organizationId = c.req.header('X-Organization-Id')?.trim() || undefined;
+
+    if (organizationId && !(await isRegisteredOrganization(organizationId))) {
+      return c.json({ error: 'Organização não cadastrada (um administrador a registra em PUT /budgets/:organizationId)' }, 403);
+    }
+
+    if (isZipBundle(file.originalFilename || '', file.mimetype)) {
+      return c.json(await handleZipUpload(file, organizationId), 202);
+    }
+
+    const sourceFormat = detectSourceFormat(file.originalFilename || '', file.mimetype);
+
+    if (!sourceFormat) {
+      return c.json(
+        { error: 'Apenas arquivos PDF, DOCX, ODT, HTML, XLSX, ODS, CSV e ZIP são aceitos' },
+        400
+      );
     }
 
     const db = getDatabase();
@@ -79,7 +221,7 @@ upload.post('/', async (c) => {
 
     // Gerar key única para o S3
     const documentId = new ObjectId();
-    const filename = file.originalFilename || 'document.pdf';
+    const filename = file.originalFilename || `document.${sourceFormat}`;
     const s3Key = `uploads/${documentId.toString()}/${filename}`;
 
     // 1. Ler o arquivo do disco temporário e fazer upload para Minio
@@ -91,6 +233,8 @@ upload.post('/', async (c) => {
       _id: documentId,
       filename,
       s3Key,
+      sourceFormat,
+      ...(organizationId && { organizationId }),
       status: 'PENDING',
       createdAt: new Date(),
       updatedAt: new Date(),
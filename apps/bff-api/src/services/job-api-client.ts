@@ -9,6 +9,7 @@ interface RequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   body?: unknown;
   params?: Record<string, string>;
+  headers?: Record<string, string>;
 }
 
 /**
@@ -35,6 +36,7 @@ async function request<T>(path: string, options: RequestOptions = {}): Promise<T
   
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
+    ...options.headers,
   };
   
   const response = await fetch(url, {
@@ -51,6 +53,37 @@ async function request<T>(path: string, options: RequestOptions = {}): Promise<T
   return response.json() as Promise<T>;
 }
 
+/**
+ * Abre um stream (SSE) da Job API e devolve a resposta sem consumir o corpo
+ */
+async function openStream(
+  path: string,
+  options: {
+    method?: 'GET' | 'POST';
+    body?: unknown;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+  } = {}
+): Promise<Response> {
+  const response = await fetch(`${JOB_API_URL}${path}`, {
+    method: options.method || 'GET',
+    headers: {
+      Accept: 'text/event-stream',
+      ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+      ...options.headers,
+    },
+    body: options.body ? JSON.stringify(options.body) : undefined,
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({ error: 'Erro desconhecido' })) as { error?: string };
+    throw new JobApiError(response.status, errorData.error || 'Erro na Job API');
+  }
+
+  return response;
+}
+
 /**
  * Erro customizado para respostas da Job API
  */
@@ -72,7 +105,7 @@ export const documentsApi = {
   /**
    * Lista documentos com paginação
    */
-  list: (params?: { page?: string; limit?: string; status?: string }) =>
+  list: (params?: { page?: string; limit?: string; status?: string; tag?: string }) =>
     request<{
       documents: unknown[];
       pagination: { page: number; limit: number; total: number; totalPages: number };
@@ -92,20 +125,92 @@ export const documentsApi = {
       params: expiresIn ? { expiresIn } : undefined,
     }),
 
+  /**
+   * Busca o layout (coordenadas do texto) de uma página
+   */
+  getPageLayout: (documentId: string, pageNumber: string) =>
+    request<unknown>(`/documents/${documentId}/pages/${pageNumber}/layout`),
+
   /**
    * Busca resumo do documento
    */
   getSummary: (documentId: string) =>
     request<unknown>(`/documents/${documentId}/summary`),
 
+  /**
+   * Tokens e custo de IA do documento por etapa, modelo e batch
+   */
+  getUsage: (documentId: string) =>
+    request<unknown>(`/documents/${documentId}/usage`),
+
+  /**
+   * Itens extraídos em quarentena (inválidos após as rodadas de correção)
+   */
+  getQuarantine: (documentId: string) =>
+    request<unknown>(`/documents/${documentId}/quarantine`),
+
+  /**
+   * Estatísticas da verificação das citações (trechos x texto das páginas)
+   */
+  getCitations: (documentId: string) =>
+    request<unknown>(`/documents/${documentId}/citations`),
+
+  /**
+   * Define as tags do documento (filtros da biblioteca)
+   */
+  updateTags: (documentId: string, tags: string[]) =>
+    request<{ documentId: string; tags: string[] }>(`/documents/${documentId}/tags`, {
+      method: 'PUT',
+      body: { tags },
+    }),
+
+  /**
+   * Define o calendário de feriados do órgão (null = só feriados nacionais)
+   */
+  updateCalendar: (documentId: string, calendarId: string | null) =>
+    request<{ documentId: string; calendarId: string | null }>(`/documents/${documentId}/calendar`, {
+      method: 'PUT',
+      body: { calendarId },
+    }),
+
+  /**
+   * Stream SSE de progresso do processamento
+   * `lastEventId` continua de onde a conexão anterior parou
+   */
+  streamEvents: (documentId: string, lastEventId?: string, signal?: AbortSignal) =>
+    openStream(`/documents/${documentId}/events`, {
+      headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+      signal,
+    }),
+
   /**
    * Inicia processamento de um documento
+   * `resume` processa apenas os batches pendentes ou com falha
    */
-  process: (documentId: string, s3Key: string) =>
-    request<{ message: string; documentId: string; status: string }>('/process', {
+  process: (documentId: string, s3Key: string, mode?: 'full' | 'resume') =>
+    request<{ message: string; documentId: string; jobId?: string; status: string }>('/process', {
       method: 'POST',
-      body: { documentId, s3Key },
+      body: { documentId, s3Key, mode },
     }),
+
+  /**
+   * Cancela ou pausa o processamento em andamento
+   * Em execução, o worker para após a etapa atual (status ainda PROCESSING na resposta)
+   */
+  interrupt: (documentId: string, action: 'cancel' | 'pause') =>
+    request<{ message: string; documentId: string; jobId?: string; status: string }>(
+      `/process/${documentId}/${action}`,
+      { method: 'POST' }
+    ),
+
+  /**
+   * Retoma um documento pausado a partir dos batches pendentes
+   */
+  resume: (documentId: string) =>
+    request<{ message: string; documentId: string; jobId?: string; status: string }>(
+      `/process/${documentId}/resume`,
+      { method: 'POST' }
+    ),
 };
 
 // ============================================================================
@@ -127,6 +232,12 @@ export const timelineApi = {
       params: days ? { days } : undefined,
     }),
 
+  /**
+   * Caminho crítico, folgas e requisitos por fase
+   */
+  getCriticalPath: (documentId: string) =>
+    request<unknown>(`/timeline/${documentId}/critical-path`),
+
   /**
    * Busca eventos por fase
    */
@@ -139,6 +250,23 @@ export const timelineApi = {
   getEvent: (documentId: string, eventId: string) =>
     request<unknown>(`/timeline/${documentId}/events/${eventId}`),
 
+  /**
+   * Corrige a data de um evento (null remove); dependentes são recalculados
+   */
+  updateEventDate: (documentId: string, eventId: string, date: string | null) =>
+    request<unknown>(`/timeline/${documentId}/events/${eventId}/date`, {
+      method: 'PUT',
+      body: { date },
+    }),
+
+  /**
+   * Recalcula as datas projetadas dos eventos relativos
+   */
+  resolve: (documentId: string) =>
+    request<unknown>(`/timeline/${documentId}/resolve`, {
+      method: 'POST',
+    }),
+
   /**
    * Lista comentários de um evento
    */
@@ -246,6 +374,54 @@ export const risksApi = {
     request<unknown>(`/risks/${documentId}/${riskId}`),
 };
 
+// ============================================================================
+// PROCUREMENTS
+// ============================================================================
+
+export const procurementsApi = {
+  /**
+   * Lista licitações com paginação
+   */
+  list: (params?: { page?: string; limit?: string }) =>
+    request<{
+      procurements: unknown[];
+      pagination: { page: number; limit: number; total: number; totalPages: number };
+    }>('/procurements', { params }),
+
+  /**
+   * Busca a licitação com seus documentos filhos
+   */
+  get: (procurementId: string) =>
+    request<unknown>(`/procurements/${procurementId}`),
+
+  /**
+   * Busca entidades agregadas de todos os documentos
+   */
+  getEntities: (procurementId: string) =>
+    request<unknown>(`/procurements/${procurementId}/entities`),
+
+  /**
+   * Busca timeline unificada
+   */
+  getTimeline: (procurementId: string) =>
+    request<unknown>(`/procurements/${procurementId}/timeline`),
+
+  /**
+   * Busca riscos agregados
+   */
+  getRisks: (procurementId: string) =>
+    request<unknown>(`/procurements/${procurementId}/risks`),
+
+  /**
+   * Reinicia o processamento do pacote
+   */
+  process: (procurementId: string, s3Key: string) =>
+    request<{ message: string; procurementId: string; jobId?: string; status: string }>('/process/procurement', {
+      method: 'POST',
+      body: { procurementId, s3Key },
+    }),
+};
+
 // ============================================================================
 // CHAT RAG
 // ============================================================================
@@ -271,10 +447,18 @@ export interface ChatResponse {
   conversationId: string;
   content: string;
   sourcePagesUsed: number[];
+  toolCalls?: Array<{
+    toolName: string;
+    args: Record<string, unknown>;
+  }>;
   sourceSnippets?: Array<{
     pageNumber: number;
+    lineStart: number;
+    lineEnd: number;
+    sectionId?: string;
+    sectionTitle?: string;
     excerpt: string;
-    similarity: number;
+    relevance: number;
   }>;
 }
 
@@ -283,6 +467,7 @@ export interface RagStatus {
   isReady: boolean;
   totalPages: number;
   embeddedPages: number;
+  embeddedChunks: number;
   lastUpdated?: string;
 }
 
@@ -296,6 +481,23 @@ export const chatApi = {
       body: { message, conversationId, topK },
     }),
 
+  /**
+   * Envia mensagem e recebe a resposta em stream (SSE)
+   * Eventos: start, delta, tool, done (ChatResponse) e error
+   */
+  streamMessage: (
+    documentId: string,
+    message: string,
+    conversationId?: string,
+    topK?: number,
+    signal?: AbortSignal
+  ) =>
+    openStream(`/chat/${documentId}/stream`, {
+      method: 'POST',
+      body: { message, conversationId, topK },
+      signal,
+    }),
+
   /**
    * Lista conversas de um documento
    */
@@ -364,6 +566,257 @@ export const chatApi = {
     request<RagStatus>(`/chat/${documentId}/rag/status`),
 };
 
+// ============================================================================
+// LIBRARY (BUSCA E CHAT EM VÁRIOS DOCUMENTOS)
+// ============================================================================
+
+export interface LibraryFilters {
+  status?: string[];
+  from?: string;
+  to?: string;
+  tags?: string[];
+}
+
+export interface LibrarySource {
+  documentId: string;
+  filename: string;
+  pageNumber: number;
+}
+
+export interface LibrarySnippet extends LibrarySource {
+  lineStart: number;
+  lineEnd: number;
+  sectionTitle?: string;
+  excerpt: string;
+  relevance: number;
+}
+
+export interface LibraryChatResponse {
+  messageId: string;
+  conversationId: string;
+  content: string;
+  sources: LibrarySource[];
+  documentsSearched: number;
+  toolCalls?: ChatResponse['toolCalls'];
+  sourceSnippets: LibrarySnippet[];
+}
+
+export const libraryApi = {
+  /**
+   * Documentos da organização que atendem aos filtros
+   */
+  listDocuments: (params: {
+    organizationId?: string;
+    status?: string;
+    from?: string;
+    to?: string;
+    tags?: string;
+  }) =>
+    request<{ organizationId: string; documents: unknown[]; total: number }>('/library/documents', {
+      params: params as Record<string, string>,
+    }),
+
+  /**
+   * Busca trechos em todos os documentos filtrados
+   */
+  search: (body: { query: string; organizationId?: string; filters?: LibraryFilters; topK?: number }) =>
+    request<{ documentsSearched: number; results: LibrarySnippet[] }>('/library/search', {
+      method: 'POST',
+      body,
+    }),
+
+  /**
+   * Envia mensagem ao chat da biblioteca
+   */
+  sendMessage: (body: {
+    message: string;
+    conversationId?: string;
+    organizationId?: string;
+    filters?: LibraryFilters;
+    topK?: number;
+  }) =>
+    request<LibraryChatResponse>('/library/chat', {
+      method: 'POST',
+      body,
+    }),
+
+  /**
+   * Lista conversas da biblioteca da organização
+   */
+  listConversations: (organizationId?: string) =>
+    request<{
+      organizationId: string;
+      conversations: Array<Conversation & { filters?: LibraryFilters }>;
+      total: number;
+    }>('/library/chat', {
+      params: organizationId ? { organizationId } : undefined,
+    }),
+
+  /**
+   * Busca histórico de uma conversa da biblioteca
+   */
+  getConversation: (conversationId: string, organizationId?: string) =>
+    request<{
+      conversation: Conversation & { filters?: LibraryFilters };
+      messages: Array<ChatMessage & { sources?: LibrarySource[] }>;
+    }>(`/library/chat/${conversationId}`, {
+      params: organizationId ? { organizationId } : undefined,
+    }),
+
+  /**
+   * Deleta uma conversa da biblioteca
+   */
+  deleteConversation: (conversationId: string, organizationId?: string) =>
+    request<{ success: boolean; messagesDeleted: number }>(`/library/chat/${conversationId}`, {
+      method: 'DELETE',
+      params: organizationId ? { organizationId } : undefined,
+    }),
+};
+
+// ============================================================================
+// BUDGETS
+// ============================================================================
+
+/**
+ * Limites de IA de uma organização (null = sem limite)
+ */
+export interface BudgetLimits {
+  monthlyTokenLimit?: number | null;
+  monthlyCostLimitUsd?: number | null;
+  documentTokenLimit?: number | null;
+  documentCostLimitUsd?: number | null;
+}
+
+export interface BudgetStatus {
+  organizationId: string;
+  limits: Required<BudgetLimits>;
+  customized: boolean;
+  monthlyUsage: { calls: number; inputTokens: number; outputTokens: number; costUsd: number };
+  remaining: { monthlyTokens: number | null; monthlyCostUsd: number | null };
+  updatedAt?: string;
+}
+
+/** Repassa a chave de admin recebida pelo BFF */
+const adminHeaders = (adminKey?: string): Record<string, string> =>
+  adminKey ? { 'X-Admin-Key': adminKey } : {};
+
+export const budgetsApi = {
+  /**
+   * Lista orçamentos e uso do mês das organizações
+   */
+  list: (adminKey?: string) =>
+    request<{ budgets: BudgetStatus[]; total: number }>('/budgets', {
+      headers: adminHeaders(adminKey),
+    }),
+
+  /**
+   * Busca orçamento, uso do mês e saldo da organização
+   */
+  get: (organizationId: string, adminKey?: string) =>
+    request<BudgetStatus>(`/budgets/${encodeURIComponent(organizationId)}`, {
+      headers: adminHeaders(adminKey),
+    }),
+
+  /**
+   * Define/aumenta limites da organização
+   */
+  update: (organizationId: string, limits: BudgetLimits, adminKey?: string) =>
+    request<BudgetStatus>(`/budgets/${encodeURIComponent(organizationId)}`, {
+      method: 'PUT',
+      body: limits,
+      headers: adminHeaders(adminKey),
+    }),
+};
+
+// ============================================================================
+// CALENDARS
+// ============================================================================
+
+export interface CalendarHoliday {
+  /** MM-DD (todo ano) ou YYYY-MM-DD */
+  date: string;
+  name: string;
+  scope: 'ESTADUAL' | 'MUNICIPAL' | 'ORGAO';
+}
+
+export interface HolidayCalendar {
+  calendarId: string;
+  name: string;
+  state?: string;
+  holidays: CalendarHoliday[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Holiday {
+  date: string;
+  name: string;
+  scope: 'NACIONAL' | CalendarHoliday['scope'];
+}
+
+export interface DeadlineResult {
+  calendarId: string;
+  from: string;
+  offset: number;
+  unit: 'DAYS' | 'BUSINESS_DAYS' | 'MONTHS';
+  direction: 'BEFORE' | 'AFTER';
+  date: string;
+  rolled: boolean;
+  holidays: Holiday[];
+}
+
+export const calendarsApi = {
+  /**
+   * Lista os calendários de feriados cadastrados
+   */
+  list: () =>
+    request<{ calendars: HolidayCalendar[]; total: number }>('/calendars'),
+
+  /**
+   * Busca o calendário de feriados do órgão
+   */
+  get: (calendarId: string) =>
+    request<HolidayCalendar>(`/calendars/${encodeURIComponent(calendarId)}`),
+
+  /**
+   * Feriados do ano (nacionais + do calendário)
+   */
+  getHolidays: (calendarId: string, year?: string) =>
+    request<{ calendarId: string; year: number; holidays: Holiday[]; total: number }>(
+      `/calendars/${encodeURIComponent(calendarId)}/holidays`,
+      { params: year ? { year } : undefined }
+    ),
+
+  /**
+   * Calcula um prazo (Lei 14.133, art. 183)
+   */
+  computeDeadline: (calendarId: string, params: Record<string, string>) =>
+    request<DeadlineResult>(`/calendars/${encodeURIComponent(calendarId)}/deadline`, { params }),
+
+  /**
+   * Cria ou substitui o calendário (admin)
+   */
+  save: (
+    calendarId: string,
+    data: { name: string; state?: string; holidays: CalendarHoliday[] },
+    adminKey?: string
+  ) =>
+    request<HolidayCalendar>(`/calendars/${encodeURIComponent(calendarId)}`, {
+      method: 'PUT',
+      body: data,
+      headers: adminHeaders(adminKey),
+    }),
+
+  /**
+   * Remove o calendário (admin)
+   */
+  delete: (calendarId: string, adminKey?: string) =>
+    request<{ success: boolean }>(`/calendars/${encodeURIComponent(calendarId)}`, {
+      method: 'DELETE',
+      headers: adminHeaders(adminKey),
+    }),
+};
+
 // ============================================================================
 // HEALTH
 // ============================================================================
@@ -1,14 +1,53 @@
 import type { ObjectId } from 'mongodb';
 
-export type DocumentStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+export type DocumentStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'PAUSED'
+  | 'CANCELLED';
+
+export type SourceFormat = 'pdf' | 'docx' | 'odt' | 'html' | 'xlsx' | 'ods' | 'csv';
+
+export type DocumentRole = 'EDITAL' | 'TERMO_REFERENCIA' | 'MINUTA_CONTRATO' | 'ANEXO' | 'PLANILHA';
 
 export interface PDFDocument {
   _id?: ObjectId;
   filename: string;
   s3Key: string;
+  sourceFormat?: SourceFormat;
+  originalS3Key?: string;
+  procurementId?: string;
+  organizationId?: string;
+  documentRole?: DocumentRole;
   status: DocumentStatus;
   totalPages?: number;
   error?: string;
+  pauseReason?: string;
+  usage?: {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Licitação enviada como pacote ZIP (edital + anexos)
+ * Os arquivos do pacote viram documentos filhos com procurementId
+ */
+export interface Procurement {
+  _id?: ObjectId;
+  filename: string;
+  s3Key: string;
+  organizationId?: string;
+  status: DocumentStatus;
+  documentIds: string[];
+  skippedFiles?: string[];
+  error?: string;
   createdAt: Date;
   updatedAt: Date;
 }
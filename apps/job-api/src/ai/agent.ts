@@ -1,6 +1,9 @@
-import { generateText } from 'ai';
-import { openai } from '@ai-sdk/openai';
+import { generateText, type StepResult, type ToolSet } from 'ai';
+import PQueue from 'p-queue';
 import { createStructureTools, createExtractionTools } from './tools.js';
+import { withRetry } from './retry.js';
+import { getLanguageModel } from './providers.js';
+import { InvalidItemTracker, getRepairRounds } from './validation.js';
 import {
   STRUCTURE_EXTRACTION_SYSTEM_PROMPT,
   createStructureExtractionPrompt,
@@ -9,19 +12,37 @@ import {
   ENTITY_EXTRACTION_SYSTEM_PROMPT,
   createBatchExtractionPrompt,
 } from './prompts/entity-extraction.js';
+import { createRepairPrompt } from './prompts/repair.js';
 import { getDocumentStructureService } from '../services/document-structure.js';
 import { getEntityUnificationService } from '../services/entity-unification.js';
 import { getTimelineService } from '../services/timeline.js';
 import { getRiskService } from '../services/risk.js';
-import type {
-  DocumentPage,
-  BatchExtractionResult,
-  RawDocumentSection,
-  RawExtractedEntity,
-  RawTimelineEvent,
-  RawRisk,
+import { getPageService } from '../services/page.js';
+import { getProgressService } from '../services/progress.js';
+import { getQuarantineService } from '../services/quarantine.js';
+import { getCitationVerificationService } from '../services/citation.js';
+import {
+  getProcessingControlService,
+  ProcessingInterruptedError,
+} from '../services/processing-control.js';
+import { getBudgetService } from '../services/budget.js';
+import {
+  DEFAULT_PROCESSING_CONFIG,
+  type EntityType,
+  type ProcessingConfig,
+  type DocumentPage,
+  type BatchExtractionResult,
+  type RawDocumentSection,
+  type RawExtractedEntity,
+  type RawTimelineEvent,
+  type RawRisk,
 } from '../types/entities.js';
-import type { PageBatch, BatchContext } from '../services/batch-processor.js';
+import {
+  mergeBatchResult,
+  snapshotContext,
+  type PageBatch,
+  type BatchContext,
+} from '../services/batch-processor.js';
 
 // ============================================================================
 // TIPOS
@@ -62,20 +83,89 @@ export interface DocumentAnalysisResult {
   success: boolean;
 }
 
+// ============================================================================
+// CORREÇÃO DE ITENS INVÁLIDOS
+// ============================================================================
+
+/**
+ * Rodadas de correção de um estágio: devolve ao modelo os itens rejeitados
+ * pela validação das tools até todos passarem ou as rodadas acabarem
+ * (EXTRACTION_REPAIR_ROUNDS). O que continuar inválido vai para a quarentena.
+ *
+ * Retorna os passos das rodadas, para a coleta dos resultados salvos.
+ */
+async function repairInvalidItems<TOOLS extends ToolSet>(options: {
+  stage: 'structure' | 'extraction';
+  documentId: string;
+  batchNumber: number;
+  system: string;
+  toolName: keyof TOOLS & string;
+  tools: TOOLS;
+  tracker: InvalidItemTracker;
+}): Promise<Array<StepResult<TOOLS>>> {
+  const { stage, documentId, batchNumber, system, toolName, tools, tracker } = options;
+  const maxRounds = getRepairRounds();
+  const steps: Array<StepResult<TOOLS>> = [];
+  let round = 0;
+
+  while (tracker.size > 0 && round < maxRounds) {
+    round++;
+    console.log(`      🔧 ${tracker.size} item(ns) inválido(s): rodada de correção ${round}/${maxRounds}`);
+
+    try {
+      const repair = await generateText({
+        model: getLanguageModel(stage, { documentId, batchNumber }),
+        system,
+        prompt: createRepairPrompt(toolName, tracker.items, round, maxRounds),
+        maxSteps: 2,
+        maxRetries: 0,
+        tools,
+      });
+      steps.push(...repair.steps);
+    } catch (error) {
+      console.warn(`      ⚠️  Falha na rodada de correção ${round}:`, error instanceof Error ? error.message : error);
+      break;
+    }
+  }
+
+  if (tracker.size > 0) {
+    const quarantined = await getQuarantineService().addItems(documentId, batchNumber, tracker.items, round);
+    console.log(`      🚧 ${quarantined} item(ns) em quarentena para revisão`);
+    tracker.clear();
+  }
+
+  return steps;
+}
+
 // ============================================================================
 // PROCESSAMENTO DE BATCH
 // ============================================================================
 
 /**
  * Processa um batch completo (Estágio 1 + Estágio 2)
+ *
+ * Cada estágio é refeito até `retryAttempts` vezes com backoff exponencial;
+ * antes de cada nova tentativa o que a tentativa anterior chegou a salvar
+ * para este batch é descartado, para não duplicar seções, eventos e riscos.
+ *
+ * Itens que não passam na validação das tools não são salvos: voltam ao
+ * modelo nas rodadas de correção e, se continuarem inválidos, vão para a
+ * quarentena (repairInvalidItems).
+ *
+ * Entre os estágios lança ProcessingInterruptedError se o usuário pediu
+ * cancelamento/pausa (o estágio 2 é o mais caro).
  */
 export async function processBatch(
   batch: PageBatch,
   documentId: string,
-  context: BatchContext
+  context: BatchContext,
+  retryAttempts: number = DEFAULT_PROCESSING_CONFIG.retryAttempts
 ): Promise<BatchExtractionResult> {
   const startTime = Date.now();
   const structureService = getDocumentStructureService();
+  const timelineService = getTimelineService();
+  const riskService = getRiskService();
+  const progress = getProgressService();
   
   const result: BatchExtractionResult = {
     batchNumber: batch.batchNumber,
@@ -93,7 +183,8 @@ export async function processBatch(
   console.log(`   📁 Estágio 1: Extraindo estrutura...`);
   
   try {
-    const structureTools = createStructureTools(documentId, batch.batchNumber);
+    const structureTracker = new InvalidItemTracker();
+    const structureTools = createStructureTools(documentId, batch.batchNumber, structureTracker);
     
     const structurePrompt = createStructureExtractionPrompt(
       batch.consolidatedText,
@@ -101,36 +192,57 @@ export async function processBatch(
       context.existingSections
     );
 
-    const { steps: structureSteps } = await generateText({
-      model: openai('gpt-5.1'),
-      system: STRUCTURE_EXTRACTION_SYSTEM_PROMPT,
-      prompt: structurePrompt,
-      maxSteps: 3,
-      tools: structureTools,
-    });
+    // Retries ficam por conta do withRetry (maxRetries: 0 evita multiplicar tentativas)
+    const { steps: firstStructureSteps } = await withRetry(
+      () => generateText({
+        model: getLanguageModel('structure', { documentId, batchNumber: batch.batchNumber }),
+        system: STRUCTURE_EXTRACTION_SYSTEM_PROMPT,
+        prompt: structurePrompt,
+        maxSteps: 3,
+        maxRetries: 0,
+        tools: structureTools,
+      }),
+      {
+        retries: retryAttempts,
+        label: `Batch ${batch.batchNumber} estágio 1`,
+        onRetry: async (attempt, error) => {
+          structureTracker.clear();
+          await structureService.clearBatchSections(documentId, [batch.batchNumber]);
+          await progress.emit(documentId, {
+            type: 'batch_retry',
+            batchNumber: batch.batchNumber,
+            message: `Batch ${batch.batchNumber}: nova tentativa ${attempt}/${retryAttempts} da estrutura`,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        },
+      }
+    );
+
+    const structureSteps = [
+      ...firstStructureSteps,
+      ...await repairInvalidItems({
+        stage: 'structure',
+        documentId,
+        batchNumber: batch.batchNumber,
+        system: STRUCTURE_EXTRACTION_SYSTEM_PROMPT,
+        toolName: 'saveSections',
+        tools: structureTools,
+        tracker: structureTracker,
+      }),
+    ];
 
     // Coletar seções criadas
     for (const step of structureSteps) {
-      if (step.toolCalls) {
-        for (const toolCall of step.toolCalls) {
-          if (toolCall.toolName === 'saveSections') {
-            const toolResult = step.toolResults?.find(
-              r => r.toolCallId === toolCall.toolCallId
-            );
-            if (toolResult?.result && typeof toolResult.result === 'object') {
-              const saveResult = toolResult.result as { sectionsCreated?: number; sectionIds?: Array<{ id: string; number?: string; title: string }> };
-              if (saveResult.sectionIds) {
-                for (const s of saveResult.sectionIds) {
-                  result.sections.push({
-                    level: 'SECTION', // Será atualizado depois
-                    title: s.title,
-                    number: s.number,
-                    pageNumber: batch.pages[0]?.pageNumber || 1,
-                  });
-                }
-              }
-            }
-          }
+      for (const toolResult of step.toolResults) {
+        if (toolResult.toolName !== 'saveSections' || !('sectionIds' in toolResult.result)) continue;
+
+        for (const s of toolResult.result.sectionIds) {
+          result.sections.push({
+            level: 'SECTION', // Será atualizado depois
+            title: s.title,
+            number: s.number,
+            pageNumber: batch.pages[0]?.pageNumber || 1,
+          });
         }
       }
     }
@@ -142,6 +254,9 @@ export async function processBatch(
     // Continuar para o Estágio 2 mesmo se a estrutura falhar
   }
 
+  // Ponto de checagem: cancelamento/pausa pedido durante o Estágio 1
+  await getProcessingControlService().throwIfRequested(documentId);
+
   // =========================================================================
   // ESTÁGIO 2: Extração de Entidades, Timeline e Riscos
   // =========================================================================
@@ -158,10 +273,12 @@ export async function processBatch(
       level: s.level,
     }));
 
+    const extractionTracker = new InvalidItemTracker();
     const extractionTools = createExtractionTools(
       documentId,
       batch.batchNumber,
-      batch.pages.map(p => p.pageNumber)
+      batch.pages.map(p => p.pageNumber),
+      extractionTracker
     );
 
     const extractionPrompt = createBatchExtractionPrompt(
@@ -175,82 +292,100 @@ export async function processBatch(
       }
     );
 
-    const { steps: extractionSteps } = await generateText({
-      model: openai('gpt-5.1'),
-      system: ENTITY_EXTRACTION_SYSTEM_PROMPT,
-      prompt: extractionPrompt,
-      maxSteps: 5,
-      tools: extractionTools,
-    });
+    const { steps: firstExtractionSteps } = await withRetry(
+      () => generateText({
+        model: getLanguageModel('extraction', { documentId, batchNumber: batch.batchNumber }),
+        system: ENTITY_EXTRACTION_SYSTEM_PROMPT,
+        prompt: extractionPrompt,
+        maxSteps: 5,
+        maxRetries: 0,
+        tools: extractionTools,
+      }),
+      {
+        retries: retryAttempts,
+        label: `Batch ${batch.batchNumber} estágio 2`,
+        // Entidades não precisam: são unificadas pela semanticKey
+        onRetry: async (attempt, error) => {
+          extractionTracker.clear();
+          await Promise.all([
+            timelineService.clearBatchEvents(documentId, [batch.batchNumber]),
+            riskService.clearBatchRisks(documentId, [batch.batchNumber]),
+          ]);
+          await progress.emit(documentId, {
+            type: 'batch_retry',
+            batchNumber: batch.batchNumber,
+            message: `Batch ${batch.batchNumber}: nova tentativa ${attempt}/${retryAttempts} da extração`,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        },
+      }
+    );
+
+    const extractionSteps = [
+      ...firstExtractionSteps,
+      ...await repairInvalidItems({
+        stage: 'extraction',
+        documentId,
+        batchNumber: batch.batchNumber,
+        system: ENTITY_EXTRACTION_SYSTEM_PROMPT,
+        toolName: 'saveExtractionResults',
+        tools: extractionTools,
+        tracker: extractionTracker,
+      }),
+    ];
 
     // Coletar resultados
+    const pageNumber = batch.pages[0]?.pageNumber || 1;
+
     for (const step of extractionSteps) {
-      if (step.toolCalls) {
-        for (const toolCall of step.toolCalls) {
-          if (toolCall.toolName === 'saveExtractionResults') {
-            const toolResult = step.toolResults?.find(
-              r => r.toolCallId === toolCall.toolCallId
-            );
-            if (toolResult?.result && typeof toolResult.result === 'object') {
-              const saveResult = toolResult.result as {
-                entitiesCreated?: number;
-                timelineEventsCreated?: number;
-                risksCreated?: number;
-              };
-              
-              // Criar placeholders para contagem (os dados reais já foram salvos)
-              if (saveResult.entitiesCreated) {
-                for (let i = 0; i < saveResult.entitiesCreated; i++) {
-                  result.entities.push({
-                    type: 'OUTRO',
-                    name: '',
-                    rawValue: '',
-                    semanticKey: `placeholder-${i}`,
-                    metadata: {},
-                    confidence: 0,
-                    pageNumber: batch.pages[0]?.pageNumber || 1,
-                    pageId: '',
-                    excerptText: '',
-                  });
-                }
-              }
-              
-              if (saveResult.timelineEventsCreated) {
-                for (let i = 0; i < saveResult.timelineEventsCreated; i++) {
-                  result.timelineEvents.push({
-                    dateRaw: '',
-                    dateType: 'FIXED',
-                    eventType: '',
-                    title: '',
-                    description: '',
-                    importance: 'MEDIUM',
-                    tags: [],
-                    sourceSemanticKey: `placeholder-${i}`,
-                    pageNumber: batch.pages[0]?.pageNumber || 1,
-                    excerpt: '',
-                    confidence: 0,
-                  });
-                }
-              }
-              
-              if (saveResult.risksCreated) {
-                for (let i = 0; i < saveResult.risksCreated; i++) {
-                  result.risks.push({
-                    category: '',
-                    title: '',
-                    description: '',
-                    trigger: '',
-                    consequence: '',
-                    severity: 'MEDIUM',
-                    probability: 'POSSIBLE',
-                    pageNumber: batch.pages[0]?.pageNumber || 1,
-                    excerpt: '',
-                    confidence: 0,
-                  });
-                }
-              }
-            }
-          }
+      for (const toolResult of step.toolResults) {
+        if (toolResult.toolName !== 'saveExtractionResults' || !('entityKeys' in toolResult.result)) continue;
+        const saveResult = toolResult.result;
+
+        // Só as chaves usadas pelo contexto (os dados completos já foram salvos)
+        for (const entity of saveResult.entityKeys) {
+          result.entities.push({
+            type: entity.type as EntityType,
+            name: entity.name,
+            rawValue: '',
+            semanticKey: entity.semanticKey,
+            metadata: {},
+            confidence: 0,
+            pageNumber,
+            pageId: '',
+            excerptText: '',
+          });
+        }
+
+        for (const sourceSemanticKey of saveResult.timelineEventKeys) {
+          result.timelineEvents.push({
+            dateRaw: '',
+            dateType: 'FIXED',
+            eventType: '',
+            title: '',
+            description: '',
+            importance: 'MEDIUM',
+            tags: [],
+            sourceSemanticKey,
+            pageNumber,
+            excerpt: '',
+            confidence: 0,
+          });
+        }
+
+        for (const risk of saveResult.riskKeys) {
+          result.risks.push({
+            category: risk.category,
+            title: risk.title,
+            description: '',
+            trigger: '',
+            consequence: '',
+            severity: 'MEDIUM',
+            probability: 'POSSIBLE',
+            pageNumber,
+            excerpt: '',
+            confidence: 0,
+          });
         }
       }
     }
@@ -262,6 +397,22 @@ export async function processBatch(
     throw error;
   }
 
+  // =========================================================================
+  // VERIFICAÇÃO DE CITAÇÕES: trechos conferidos contra o texto das páginas
+  // =========================================================================
+
+  try {
+    const citations = await getCitationVerificationService().verifyBatch(
+      documentId,
+      batch.batchNumber,
+      result.pagesProcessed
+    );
+    console.log(`   🔎 Citações: ${citations.verified} verificadas, ${citations.relocated} com página corrigida, ${citations.unverified} não encontradas`);
+  } catch (error) {
+    // Não invalida a extração: as fontes ficam pendentes de verificação
+    console.warn(`   ⚠️  Falha na verificação de citações:`, error instanceof Error ? error.message : error);
+  }
+
   const processingTimeMs = Date.now() - startTime;
   console.log(`   ⏱️  Batch ${batch.batchNumber} concluído em ${processingTimeMs}ms`);
 
@@ -284,13 +435,38 @@ export function createBatchProcessor(documentId: string) {
 /**
  * Analisa um documento completo usando o sistema de batches
  * Esta função é chamada pelo pdf-processor após calcular os batches
+ *
+ * Até `config.concurrency` batches rodam em paralelo. Cada batch recebe uma
+ * cópia do contexto no momento em que começa e, ao terminar, incorpora o que
+ * extraiu ao contexto compartilhado — batches iniciados depois já enxergam.
+ * `onProgress` é chamado (e aguardado) quando cada batch termina, com sucesso ou
+ * falha; erro no callback só é registrado no log, sem afetar o batch.
+ *
+ * O status de cada página (processing/completed/failed) e o batchNumber são
+ * gravados a cada batch, o que permite retomar só os batches com falha.
+ * Na retomada, `options.context` traz o que os batches concluídos já extraíram.
+ *
+ * Cancelamento/pausa é checado antes de cada batch e entre os estágios: os
+ * batches que ainda não começaram são descartados, os interrompidos voltam a
+ * pending e, ao fim dos que estavam em andamento, lança ProcessingInterruptedError
+ * (sem consolidar a timeline).
  */
 export async function analyzeDocumentWithBatches(
   documentId: string,
   batches: PageBatch[],
-  onProgress?: (batch: number, total: number) => void
+  onProgress?: (batch: number, total: number) => void | Promise<void>,
+  options: {
+    context?: BatchContext;
+    config?: Partial<Pick<ProcessingConfig, 'concurrency' | 'retryAttempts'>>;
+  } = {}
 ): Promise<DocumentAnalysisResult> {
   const startTime = Date.now();
+  const pageService = getPageService();
+  const progress = getProgressService();
+  const control = getProcessingControlService();
+  const budget = getBudgetService();
+  const concurrency = Math.max(1, options.config?.concurrency ?? DEFAULT_PROCESSING_CONFIG.concurrency);
+  const retryAttempts = Math.max(0, options.config?.retryAttempts ?? DEFAULT_PROCESSING_CONFIG.retryAttempts);
   
   const result: DocumentAnalysisResult = {
     totalBatches: batches.length,
@@ -304,8 +480,8 @@ export async function analyzeDocumentWithBatches(
     success: true,
   };
 
-  // Contexto acumulado entre batches
-  const context: BatchContext = {
+  // Contexto compartilhado entre batches
+  const context: BatchContext = options.context ?? {
     existingSemanticKeys: [],
     existingSections: [],
     entitySummary: [],
@@ -313,23 +489,75 @@ export async function analyzeDocumentWithBatches(
     riskIds: [],
   };
 
-  // Processar cada batch
-  for (const batch of batches) {
-    console.log(`\n🔄 Processando Batch ${batch.batchNumber}/${batches.length}...`);
-    
-    if (onProgress) {
-      onProgress(batch.batchNumber, batches.length);
+  console.log(`   Concorrência: ${concurrency} batch(es), ${retryAttempts} retry(s) por estágio`);
+
+  const queue = new PQueue({ concurrency });
+  let interruption: ProcessingInterruptedError | null = null;
+
+  // Para de iniciar batches; os que estão em andamento param no próximo ponto de checagem
+  const interrupt = (error: ProcessingInterruptedError) => {
+    if (!interruption) {
+      console.log(`\n⏹️  ${error.message}: descartando ${queue.size} batch(es) ainda não iniciados`);
+      interruption = error;
+      queue.clear();
+    }
+  };
+
+  const runBatch = async (batch: PageBatch): Promise<void> => {
+    if (interruption) return;
+
+    // Ponto de checagem: cancelamento/pausa antes de começar o batch
+    const action = await control.getRequest(documentId);
+    if (action) {
+      interrupt(new ProcessingInterruptedError(action));
+      return;
+    }
+
+    // Orçamento de IA: limite atingido pausa o documento (não falha)
+    const exceeded = await budget.checkDocument(documentId);
+    if (exceeded) {
+      interrupt(new ProcessingInterruptedError('pause', exceeded.message));
+      return;
     }
 
+    console.log(`\n🔄 Processando Batch ${batch.batchNumber}/${batches.length}...`);
+
     const batchStartTime = Date.now();
+    const pageRange = `${batch.pages[0]?.pageNumber}-${batch.pages[batch.pages.length - 1]?.pageNumber}`;
+
+    // Marcar páginas como em processamento
+    for (const page of batch.pages) {
+      await pageService.markAsProcessing(page.id);
+      await pageService.updateBatchNumber(page.id, batch.batchNumber);
+    }
+
+    await progress.emit(documentId, {
+      type: 'batch_started',
+      batchNumber: batch.batchNumber,
+      message: `Batch ${batch.batchNumber}: páginas ${pageRange}`,
+    });
 
     try {
-      const batchResult = await processBatch(batch, documentId, context);
+      const batchResult = await processBatch(
+        batch,
+        documentId,
+        snapshotContext(context),
+        retryAttempts
+      );
       
       const processingTimeMs = Date.now() - batchStartTime;
 
-      // Atualizar contexto
-      updateContext(context, batchResult);
+      // Atualizar contexto compartilhado
+      mergeBatchResult(context, batchResult);
+
+      // Marcar páginas como concluídas
+      for (const page of batch.pages) {
+        await pageService.markAsCompleted(
+          page.id,
+          processingTimeMs / batch.pages.length,
+          batchResult.entities.length / batch.pages.length
+        );
+      }
 
       // Agregar resultado
       result.batchResults.push({
@@ -349,11 +577,42 @@ export async function analyzeDocumentWithBatches(
       result.totalTimelineEvents += batchResult.timelineEvents.length;
       result.totalRisks += batchResult.risks.length;
 
+      await progress.emit(documentId, {
+        type: 'batch_finished',
+        batchNumber: batch.batchNumber,
+        message: `Batch ${batch.batchNumber} concluído em ${(processingTimeMs / 1000).toFixed(1)}s`,
+        counts: {
+          sections: batchResult.sections.length,
+          entities: batchResult.entities.length,
+          timelineEvents: batchResult.timelineEvents.length,
+          risks: batchResult.risks.length,
+        },
+      });
+
     } catch (error) {
       const processingTimeMs = Date.now() - batchStartTime;
+
+      // Interrompido entre os estágios: páginas voltam a pending (refeitas na retomada)
+      if (error instanceof ProcessingInterruptedError) {
+        console.log(`   ⏹️  Batch ${batch.batchNumber} interrompido após o Estágio 1`);
+        for (const page of batch.pages) {
+          await pageService.updatePageStatus(page.id, 'pending');
+        }
+        interrupt(error);
+        return;
+      }
       
       console.error(`❌ Erro no Batch ${batch.batchNumber}:`, error);
 
+      // Marcar páginas como falha (serão refeitas na retomada)
+      for (const page of batch.pages) {
+        await pageService.markAsFailed(
+          page.id,
+          error instanceof Error ? error.message : 'Erro desconhecido',
+          processingTimeMs / batch.pages.length
+        );
+      }
+
       result.batchResults.push({
         batchNumber: batch.batchNumber,
         pagesProcessed: batch.pages.map(p => p.pageNumber),
@@ -368,9 +627,37 @@ export async function analyzeDocumentWithBatches(
       });
 
       result.success = false;
+
+      await progress.emit(documentId, {
+        type: 'error',
+        stage: 'analysis',
+        batchNumber: batch.batchNumber,
+        message: `Batch ${batch.batchNumber} falhou (páginas ${pageRange})`,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+      });
     }
+
+    if (onProgress) {
+      try {
+        await onProgress(batch.batchNumber, batches.length);
+      } catch (error) {
+        console.error(`⚠️  Erro ao registrar progresso do Batch ${batch.batchNumber}:`, error);
+      }
+    }
+  };
+
+  // Processar batches em paralelo, na ordem do documento
+  // (onIdle cobre a interrupção: tarefas descartadas pelo clear nunca resolvem)
+  const tasks = batches.map(batch => queue.add(() => runBatch(batch)));
+  await Promise.race([Promise.all(tasks), queue.onIdle()]);
+
+  if (interruption) {
+    throw interruption;
   }
 
+  // Resultados na ordem dos batches (a conclusão pode vir fora de ordem)
+  result.batchResults.sort((a, b) => a.batchNumber - b.batchNumber);
+
   // Pós-processamento: Consolidar timeline
   await consolidateTimeline(documentId);
 
@@ -395,47 +682,6 @@ export async function analyzeDocumentWithBatches(
   return result;
 }
 
-/**
- * Atualiza o contexto com os resultados de um batch
- */
-function updateContext(context: BatchContext, result: BatchExtractionResult): void {
-  // Adicionar seções
-  for (const section of result.sections) {
-    context.existingSections.push({
-      number: section.number,
-      title: section.title,
-      level: section.level,
-    });
-  }
-
-  // Adicionar entidades
-  for (const entity of result.entities) {
-    if (!context.existingSemanticKeys.includes(entity.semanticKey)) {
-      context.existingSemanticKeys.push(entity.semanticKey);
-      context.entitySummary.push({
-        type: entity.type,
-        semanticKey: entity.semanticKey,
-        name: entity.name,
-      });
-    }
-  }
-
-  // Adicionar timeline
-  for (const event of result.timelineEvents) {
-    if (!context.timelineEventKeys.includes(event.sourceSemanticKey)) {
-      context.timelineEventKeys.push(event.sourceSemanticKey);
-    }
-  }
-
-  // Adicionar riscos
-  for (const risk of result.risks) {
-    const riskId = `${risk.category}:${risk.title}`;
-    if (!context.riskIds.includes(riskId)) {
-      context.riskIds.push(riskId);
-    }
-  }
-}
-
 /**
  * Pós-processamento: Consolida o timeline recalculando urgências
  */
@@ -443,6 +689,8 @@ async function consolidateTimeline(documentId: string): Promise<void> {
   console.log(`\n🔄 Consolidando timeline...`);
   
   const timelineService = getTimelineService();
+  const progress = getProgressService();
+  await progress.emit(documentId, { type: 'stage_started', stage: 'consolidation', message: 'Consolidando timeline' });
   
   // Recalcular dias até deadline para todos os eventos
   await timelineService.recalculateDeadlines(documentId);
@@ -453,6 +701,12 @@ async function consolidateTimeline(documentId: string): Promise<void> {
   console.log(`   ✓ ${stats.totalEvents} eventos consolidados`);
   console.log(`   ✓ ${stats.upcomingCritical} eventos críticos próximos`);
   console.log(`   ✓ ${stats.withPenalties} eventos com penalidades`);
+
+  await progress.emit(documentId, {
+    type: 'stage_finished',
+    stage: 'consolidation',
+    message: `${stats.totalEvents} evento(s) na timeline, ${stats.upcomingCritical} crítico(s) próximo(s)`,
+  });
 }
 
 // ============================================================================
@@ -0,0 +1,382 @@
+/**
+ * Tools de consulta do chat
+ *
+ * Dão ao assistente acesso somente leitura à análise estruturada do documento
+ * (entidades, timeline, riscos, seções e páginas), para respostas completas em
+ * perguntas de listagem ("todas as multas acima de 10%", "prazos críticos"),
+ * que os trechos recuperados pela busca cobrem só em parte. O chat da
+ * biblioteca tem uma versão das mesmas consultas sobre vários documentos.
+ */
+
+import { tool } from 'ai';
+import { z } from 'zod';
+import { getEntityUnificationService } from '../services/entity-unification.js';
+import { getTimelineService } from '../services/timeline.js';
+import { getRiskService } from '../services/risk.js';
+import { getDocumentStructureService } from '../services/document-structure.js';
+import { getPageService } from '../services/page.js';
+import { numberPageLines } from '../utils/pdf-extraction.js';
+import type {
+  DocumentSection,
+  ExtractedEntity,
+  ImportanceLevel,
+  Risk,
+  TimelineEvent,
+} from '../types/entities.js';
+import type { LibraryDocument } from '../types/rag.js';
+
+/** Itens máximos por resposta de tool (o restante é indicado em `truncated`) */
+const MAX_TOOL_ITEMS = 100;
+
+// ============================================================================
+// SCHEMAS ZOD
+// ============================================================================
+
+const EntityTypeSchema = z.enum([
+  'PRAZO',
+  'DATA',
+  'OBRIGACAO',
+  'REQUISITO',
+  'MULTA',
+  'SANCAO',
+  'RISCO',
+  'REGRA_ENTREGA',
+  'CERTIDAO_TECNICA',
+  'DOCUMENTACAO',
+  'OUTRO',
+]);
+
+const ImportanceFilterSchema = z.enum(['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', '']);
+
+// ============================================================================
+// FORMATAÇÃO DOS RESULTADOS
+// ============================================================================
+
+function formatDate(date: Date | null): string | null {
+  return date ? new Date(date).toISOString().slice(0, 10) : null;
+}
+
+function limitItems<T>(items: T[]): { items: T[]; total: number; truncated: boolean } {
+  return {
+    items: items.slice(0, MAX_TOOL_ITEMS),
+    total: items.length,
+    truncated: items.length > MAX_TOOL_ITEMS,
+  };
+}
+
+function formatEntity(entity: ExtractedEntity) {
+  return {
+    id: entity.id,
+    type: entity.type,
+    name: entity.name,
+    rawValue: entity.rawValue,
+    normalizedValue: entity.normalizedValue,
+    metadata: entity.metadata,
+    sectionId: entity.sectionId,
+    pages: [...new Set(entity.sources.map(source => source.pageNumber))],
+    excerpt: entity.sources[0]?.excerpt,
+    confidence: entity.confidence,
+  };
+}
+
+function formatEvent(event: TimelineEvent) {
+  return {
+    id: event.id,
+    date: formatDate(event.date),
+    dateRaw: event.dateRaw,
+    dateType: event.dateType,
+    dateStatus: event.dateStatus,
+    eventType: event.eventType,
+    title: event.title,
+    description: event.description,
+    importance: event.importance,
+    actionRequired: event.actionRequired,
+    penalties: event.linkedPenalties.map(penalty => penalty.value
+      ? `${penalty.description} (${penalty.value})`
+      : penalty.description),
+    pages: event.sourcePages,
+  };
+}
+
+function formatRisk(risk: Risk & { score: number }) {
+  return {
+    id: risk.id,
+    title: risk.title,
+    category: risk.category,
+    description: risk.description,
+    trigger: risk.trigger,
+    consequence: risk.consequence,
+    severity: risk.severity,
+    probability: risk.probability,
+    score: risk.score,
+    mitigation: risk.mitigation?.action,
+    pages: [...new Set(risk.sources.map(source => source.pageNumber))],
+  };
+}
+
+function formatSection(section: DocumentSection) {
+  return {
+    id: section.id,
+    level: section.level,
+    number: section.number,
+    title: section.title,
+    summary: section.summary,
+    pages: section.sourcePages,
+  };
+}
+
+// ============================================================================
+// FACTORY DE TOOLS
+// ============================================================================
+
+/**
+ * Cria as tools de consulta do chat de um documento
+ *
+ * As páginas citadas nos resultados são acumuladas em `citedPages`, para
+ * entrar nas páginas de origem da resposta.
+ */
+export function createChatTools(documentId: string, citedPages: Set<number> = new Set()) {
+  const cite = (pages: number[]) => {
+    for (const page of pages) citedPages.add(page);
+  };
+
+  return {
+    getTimeline: tool({
+      description: 'Lista os eventos do cronograma do documento em ordem de data (prazos, sessões, entregas), com penalidades vinculadas e páginas de origem',
+      parameters: z.object({
+        importance: ImportanceFilterSchema.describe('Filtrar por importância. Use "" para todas'),
+        from: z.string().describe('Data inicial (YYYY-MM-DD). Use "" para sem limite'),
+        to: z.string().describe('Data final (YYYY-MM-DD). Use "" para sem limite'),
+      }),
+      execute: async ({ importance, from, to }) => {
+        const start = from ? new Date(from) : null;
+        const end = to ? new Date(`${to}T23:59:59.999Z`) : null;
+
+        const events = (await getTimelineService().getEventsByDocumentId(documentId)).filter(event => {
+          if (importance && event.importance !== (importance as ImportanceLevel)) return false;
+          if ((start || end) && !event.date) return false;
+          if (start && event.date! < start) return false;
+          if (end && event.date! > end) return false;
+          return true;
+        });
+
+        const result = limitItems(events.map(formatEvent));
+        cite(result.items.flatMap(event => event.pages));
+        return result;
+      },
+    }),
+
+    getCriticalEvents: tool({
+      description: 'Lista os eventos críticos: importância CRITICAL ou data nos próximos 30 dias',
+      parameters: z.object({}),
+      execute: async () => {
+        const events = await getTimelineService().getCriticalEvents(documentId);
+        const result = limitItems(events.map(formatEvent));
+        cite(result.items.flatMap(event => event.pages));
+        return result;
+      },
+    }),
+
+    findEntities: tool({
+      description: 'Busca entidades extraídas por tipo (MULTA, PRAZO, REQUISITO...), com valor, metadados (ex: percentual e base de cálculo das multas) e páginas. Retorna todas as do tipo, para listas completas',
+      parameters: z.object({
+        type: EntityTypeSchema.describe('Tipo da entidade'),
+        query: z.string().describe('Texto para filtrar por nome, valor ou semanticKey. Use "" para todas do tipo'),
+      }),
+      execute: async ({ type, query }) => {
+        const normalizedQuery = query.trim().toLowerCase();
+        const entities = (await getEntityUnificationService().findByType(documentId, type)).filter(entity =>
+          !normalizedQuery ||
+          [entity.name, entity.rawValue, entity.semanticKey].some(value => value.toLowerCase().includes(normalizedQuery))
+        );
+
+        const result = limitItems(entities.map(formatEntity));
+        cite(result.items.flatMap(entity => entity.pages));
+        return result;
+      },
+    }),
+
+    getRisksByScore: tool({
+      description: 'Lista os riscos do documento do maior para o menor score (gravidade x probabilidade, de 1 a 16)',
+      parameters: z.object({
+        minScore: z.number().describe('Score mínimo (1-16). Use 0 para todos'),
+        category: z.string().describe('Filtrar por categoria. Use "" para todas'),
+      }),
+      execute: async ({ minScore, category }) => {
+        const risks = (await getRiskService().getRisksByScore(documentId)).filter(risk =>
+          risk.score >= minScore && (!category || risk.category.toLowerCase() === category.toLowerCase())
+        );
+
+        const result = limitItems(risks.map(formatRisk));
+        cite(result.items.flatMap(risk => risk.pages));
+        return result;
+      },
+    }),
+
+    getSectionPath: tool({
+      description: 'Retorna o caminho de uma seção na estrutura do documento (capítulo > seção > cláusula), pelo número ou pelo ID',
+      parameters: z.object({
+        sectionNumber: z.string().describe('Numeração da seção (ex: "7.2"). Use "" se informar o ID'),
+        sectionId: z.string().describe('ID da seção (ex: o sectionId de uma entidade). Use "" se informar o número'),
+      }),
+      execute: async ({ sectionNumber, sectionId }) => {
+        const structureService = getDocumentStructureService();
+        const section = sectionId
+          ? await structureService.getSectionById(sectionId)
+          : sectionNumber
+            ? await structureService.getSectionByNumber(documentId, sectionNumber)
+            : null;
+
+        if (!section || section.documentId !== documentId) {
+          return { found: false, path: [] };
+        }
+
+        const path = await structureService.getSectionPath(section.id);
+        cite(section.sourcePages);
+        return { found: true, path: path.map(formatSection) };
+      },
+    }),
+
+    getPageByNumber: tool({
+      description: 'Retorna o texto completo de uma página, com as linhas numeradas ([L n]), para conferir ou citar um trecho',
+      parameters: z.object({
+        pageNumber: z.number().int().describe('Número da página'),
+      }),
+      execute: async ({ pageNumber }) => {
+        const page = await getPageService().getPageByNumber(documentId, pageNumber);
+        if (!page) {
+          return { found: false, pageNumber };
+        }
+
+        cite([pageNumber]);
+        return { found: true, pageNumber, text: numberPageLines(page.text) };
+      },
+    }),
+  };
+}
+
+export type ChatTools = ReturnType<typeof createChatTools>;
+
+// ============================================================================
+// TOOLS DA BIBLIOTECA
+// ============================================================================
+
+/**
+ * Cria as tools de consulta do chat da biblioteca (vários documentos)
+ *
+ * As consultas ficam restritas a `documents` (os que passaram nos filtros) e
+ * cada item traz o documento de origem. As páginas citadas são acumuladas por
+ * documento em `citedPages`.
+ */
+export function createLibraryChatTools(
+  documents: LibraryDocument[],
+  citedPages: Map<string, Set<number>> = new Map()
+) {
+  const filenames = new Map(documents.map(doc => [doc.documentId, doc.filename]));
+  const documentIds = [...filenames.keys()];
+
+  const cite = (documentId: string, pages: number[]) => {
+    const cited = citedPages.get(documentId) ?? new Set<number>();
+    for (const page of pages) cited.add(page);
+    citedPages.set(documentId, cited);
+  };
+
+  // Um documento informado pela tool precisa estar entre os filtrados
+  const scope = (documentId: string) => documentId ? [documentId].filter(id => filenames.has(id)) : documentIds;
+
+  return {
+    listDocuments: tool({
+      description: 'Lista os documentos (editais) consultados nesta conversa, com ID, arquivo, status, tags e data de envio',
+      parameters: z.object({}),
+      execute: async () => limitItems(documents.map(doc => ({
+        documentId: doc.documentId,
+        filename: doc.filename,
+        status: doc.status,
+        tags: doc.tags,
+        uploadedAt: formatDate(doc.createdAt),
+      }))),
+    }),
+
+    findEntities: tool({
+      description: 'Busca entidades extraídas por tipo (MULTA, PRAZO, REQUISITO, CERTIDAO_TECNICA...) em todos os documentos, com valor, metadados (ex: percentual das multas) e páginas. Use para comparar editais',
+      parameters: z.object({
+        type: EntityTypeSchema.describe('Tipo da entidade'),
+        query: z.string().describe('Texto para filtrar por nome, valor ou semanticKey. Use "" para todas do tipo'),
+        documentId: z.string().describe('Restringir a um documento (ID de listDocuments). Use "" para todos'),
+      }),
+      execute: async ({ type, query, documentId }) => {
+        const normalizedQuery = query.trim().toLowerCase();
+        const entities = (await getEntityUnificationService().findByTypeInDocuments(scope(documentId), type))
+          .filter(entity =>
+            !normalizedQuery ||
+            [entity.name, entity.rawValue, entity.semanticKey].some(value => value.toLowerCase().includes(normalizedQuery))
+          );
+
+        const result = limitItems(entities.map(entity => ({
+          documentId: entity.documentId,
+          filename: filenames.get(entity.documentId),
+          ...formatEntity(entity),
+        })));
+        for (const item of result.items) cite(item.documentId, item.pages);
+        return result;
+      },
+    }),
+
+    getTimeline: tool({
+      description: 'Lista os eventos dos cronogramas dos documentos em ordem de data (sessões públicas, prazos, entregas). Use para saber quais editais ainda estão abertos',
+      parameters: z.object({
+        importance: ImportanceFilterSchema.describe('Filtrar por importância. Use "" para todas'),
+        from: z.string().describe('Data inicial (YYYY-MM-DD). Use "" para sem limite'),
+        to: z.string().describe('Data final (YYYY-MM-DD). Use "" para sem limite'),
+        documentId: z.string().describe('Restringir a um documento (ID de listDocuments). Use "" para todos'),
+      }),
+      execute: async ({ importance, from, to, documentId }) => {
+        const start = from ? new Date(from) : null;
+        const end = to ? new Date(`${to}T23:59:59.999Z`) : null;
+
+        const events = (await getTimelineService().getEventsByDocumentIds(scope(documentId))).filter(event => {
+          if (importance && event.importance !== (importance as ImportanceLevel)) return false;
+          if ((start || end) && !event.date) return false;
+          if (start && event.date! < start) return false;
+          if (end && event.date! > end) return false;
+          return true;
+        });
+
+        const result = limitItems(events.map(event => ({
+          documentId: event.documentId,
+          filename: filenames.get(event.documentId),
+          ...formatEvent(event),
+        })));
+        for (const item of result.items) cite(item.documentId, item.pages);
+        return result;
+      },
+    }),
+
+    getPageByNumber: tool({
+      description: 'Retorna o texto completo de uma página de um documento, com as linhas numeradas ([L n]), para conferir ou citar um trecho',
+      parameters: z.object({
+        documentId: z.string().describe('ID do documento (de listDocuments ou dos trechos)'),
+        pageNumber: z.number().int().describe('Número da página'),
+      }),
+      execute: async ({ documentId, pageNumber }) => {
+        if (!filenames.has(documentId)) {
+          return { found: false, documentId, pageNumber };
+        }
+
+        const page = await getPageService().getPageByNumber(documentId, pageNumber);
+        if (!page) {
+          return { found: false, documentId, pageNumber };
+        }
+
+        cite(documentId, [pageNumber]);
+        return {
+          found: true,
+          documentId,
+          filename: filenames.get(documentId),
+          pageNumber,
+          text: numberPageLines(page.text),
+        };
+      },
+    }),
+  };
+}
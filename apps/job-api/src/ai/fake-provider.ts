@@ -0,0 +1,376 @@
+import type {
+  EmbeddingModel,
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+} from 'ai';
+import type { LlmProvider } from './providers.js';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Gera os argumentos de uma tool a partir do texto do prompt do usuário
+ */
+export type FakeToolScript = (prompt: string) => Record<string, unknown>;
+
+export interface FakeProviderOptions {
+  /** Scripts por nome de tool (substituem/estendem os padrões) */
+  script?: Record<string, FakeToolScript>;
+
+  /** Resposta de texto quando não há tool a chamar (ex.: chat) */
+  reply?: (prompt: string) => string;
+
+  /** Dimensões dos embeddings (default: 1536, igual ao text-embedding-3-small) */
+  dimensions?: number;
+}
+
+interface PromptLine {
+  pageNumber: number;
+  lineNumber: number;
+  text: string;
+}
+
+// ============================================================================
+// LEITURA DO PROMPT
+// ============================================================================
+
+/**
+ * Texto da última mensagem do usuário
+ */
+function getLastUserText(prompt: LanguageModelV1Prompt): string {
+  for (let i = prompt.length - 1; i >= 0; i--) {
+    const message = prompt[i]!;
+    if (message.role === 'user') {
+      return message.content
+        .map(part => (part.type === 'text' ? part.text : ''))
+        .join('\n');
+    }
+  }
+  return '';
+}
+
+/**
+ * Já houve resultado de tool na conversa (o passo seguinte só encerra)
+ */
+function hasToolResults(prompt: LanguageModelV1Prompt): boolean {
+  return prompt.some(message => message.role === 'tool');
+}
+
+/**
+ * Linhas numeradas do batch (`Página N:` seguido de `[Ln] texto`)
+ * O contexto de batches anteriores não tem marcadores e é ignorado
+ */
+function parsePageLines(text: string): PromptLine[] {
+  const lines: PromptLine[] = [];
+  let pageNumber = 1;
+
+  for (const raw of text.split('\n')) {
+    const pageMatch = raw.match(/^Página (\d+):\s*$/);
+    if (pageMatch) {
+      pageNumber = parseInt(pageMatch[1]!, 10);
+      continue;
+    }
+
+    const lineMatch = raw.match(/^\[L(\d+)\] ?(.*)$/);
+    if (lineMatch && lineMatch[2]!.trim()) {
+      lines.push({
+        pageNumber,
+        lineNumber: parseInt(lineMatch[1]!, 10),
+        text: lineMatch[2]!.trim(),
+      });
+    }
+  }
+
+  return lines;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
+
+// ============================================================================
+// SCRIPTS PADRÃO
+// ============================================================================
+
+const HEADING_PATTERNS: Array<{ pattern: RegExp; level: (number: string) => string }> = [
+  { pattern: /^(CAP[ÍI]TULO\s+[IVXLC\d]+)\s*[-–—.:]?\s*(.*)$/i, level: () => 'CHAPTER' },
+  { pattern: /^(CL[ÁA]USULA\s+[\wºª]+)\s*[-–—.:]?\s*(.*)$/i, level: () => 'CLAUSE' },
+  {
+    pattern: /^(\d+(?:\.\d+)*)\.?\s+([A-ZÁÉÍÓÚÂÊÔÃÕÇ][A-ZÁÉÍÓÚÂÊÔÃÕÇ\s,/-]{3,})$/,
+    level: number => ['SECTION', 'CLAUSE', 'SUBCLAUSE'][Math.min(number.split('.').length, 3) - 1]!,
+  },
+];
+
+/**
+ * Estágio 1: títulos em caixa alta numerados, capítulos e cláusulas
+ */
+function scriptSections(prompt: string): Record<string, unknown> {
+  const sections = [];
+
+  for (const line of parsePageLines(prompt)) {
+    for (const { pattern, level } of HEADING_PATTERNS) {
+      const match = line.text.match(pattern);
+      if (!match) continue;
+
+      const number = match[1]!.trim();
+      const parentNumber = /^\d+(\.\d+)+$/.test(number) ? number.slice(0, number.lastIndexOf('.')) : '';
+
+      sections.push({
+        level: level(number),
+        number,
+        title: truncate((match[2] || number).trim(), 120),
+        parentNumber,
+        summary: '',
+        pageNumber: line.pageNumber,
+        lineStart: line.lineNumber,
+        lineEnd: line.lineNumber,
+      });
+      break;
+    }
+  }
+
+  return { sections };
+}
+
+/**
+ * Estágio 2: cada data dd/mm/aaaa vira um PRAZO + evento; menção a multa vira risco
+ */
+function scriptExtraction(prompt: string): Record<string, unknown> {
+  const entities = [];
+  const timelineEvents = [];
+  const risks = [];
+  const seenKeys = new Set<string>();
+
+  for (const line of parsePageLines(prompt)) {
+    const excerpt = truncate(line.text, 300);
+
+    for (const match of line.text.matchAll(/\b(\d{2})\/(\d{2})\/(\d{4})\b/g)) {
+      const [dateRaw, day, month, year] = match;
+      const semanticKey = `PRAZO:FAKE:${year}${month}${day}`;
+      if (seenKeys.has(semanticKey)) continue;
+      seenKeys.add(semanticKey);
+
+      const title = truncate(line.text, 80);
+
+      entities.push({
+        type: 'PRAZO',
+        name: `Prazo de ${dateRaw}`,
+        rawValue: dateRaw,
+        semanticKey,
+        sectionId: '',
+        metadataJson: JSON.stringify({ tipoEvento: 'OUTRO', dataFim: `${year}-${month}-${day}` }),
+        obligationDetailsJson: '',
+        relatedSemanticKeysJson: '[]',
+        confidence: 0.9,
+        pageNumber: line.pageNumber,
+        lineStart: line.lineNumber,
+        lineEnd: line.lineNumber,
+        excerptText: excerpt,
+      });
+
+      timelineEvents.push({
+        dateRaw,
+        dateNormalized: `${year}-${month}-${day}`,
+        dateType: 'FIXED',
+        eventType: 'OUTRO',
+        title,
+        description: line.text,
+        importance: 'MEDIUM',
+        actionRequired: '',
+        tagsJson: '[]',
+        linkedPenaltyKeysJson: '[]',
+        linkedRequirementKeysJson: '[]',
+        linkedObligationKeysJson: '[]',
+        linkedRiskKeysJson: '[]',
+        relativeToJson: '',
+        sourceSemanticKey: semanticKey,
+        pageNumber: line.pageNumber,
+        excerpt,
+        confidence: 0.9,
+      });
+    }
+
+    if (/\bmultas?\b/i.test(line.text)) {
+      const title = `Multa prevista (página ${line.pageNumber}, linha ${line.lineNumber})`;
+      if (seenKeys.has(title)) continue;
+      seenKeys.add(title);
+
+      risks.push({
+        category: 'FINANCEIRO',
+        subcategory: '',
+        title,
+        description: line.text,
+        trigger: 'Descumprimento da obrigação associada',
+        consequence: 'Aplicação de multa',
+        severity: 'HIGH',
+        probability: 'POSSIBLE',
+        mitigationJson: '',
+        linkedEntityKeysJson: '[]',
+        linkedTimelineKeysJson: '[]',
+        pageNumber: line.pageNumber,
+        excerpt,
+        confidence: 0.8,
+      });
+    }
+  }
+
+  return { entities, timelineEvents, risks };
+}
+
+const DEFAULT_SCRIPT: Record<string, FakeToolScript> = {
+  saveSections: scriptSections,
+  saveExtractionResults: scriptExtraction,
+};
+
+/**
+ * Chat: cita as páginas de contexto recebidas
+ */
+function defaultReply(prompt: string): string {
+  const pages = [...prompt.matchAll(/--- Página (\d+)/g)].map(match => match[1]);
+
+  if (pages.length === 0) {
+    return 'Resposta simulada (provedor fake): nenhum trecho do documento foi fornecido.';
+  }
+  return `Resposta simulada (provedor fake) com base nas páginas ${pages.join(', ')}.`;
+}
+
+// ============================================================================
+// MODELOS
+// ============================================================================
+
+/** Estimativa estável de tokens (~4 caracteres por token) */
+function countTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function createFakeLanguageModel(modelId: string, options: FakeProviderOptions): LanguageModelV1 {
+  const script = { ...DEFAULT_SCRIPT, ...options.script };
+  const reply = options.reply ?? defaultReply;
+
+  const generate = async (call: LanguageModelV1CallOptions) => {
+    const userText = getLastUserText(call.prompt);
+    const tools = call.mode.type === 'regular' ? (call.mode.tools ?? []) : [];
+    const scripted = hasToolResults(call.prompt)
+      ? []
+      : tools.filter(tool => tool.type === 'function' && script[tool.name]);
+
+    const toolCalls = scripted.map((tool, index) => ({
+      toolCallType: 'function' as const,
+      toolCallId: `fake-call-${index + 1}`,
+      toolName: tool.name,
+      args: JSON.stringify(script[tool.name]!(userText)),
+    }));
+    const text = toolCalls.length > 0 ? undefined : reply(userText);
+
+    return {
+      text,
+      toolCalls,
+      finishReason: toolCalls.length > 0 ? ('tool-calls' as const) : ('stop' as const),
+      usage: {
+        promptTokens: countTokens(JSON.stringify(call.prompt)),
+        completionTokens: countTokens(text ?? toolCalls.map(c => c.args).join('')),
+      },
+      rawCall: { rawPrompt: call.prompt, rawSettings: {} },
+    };
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'fake',
+    modelId,
+    defaultObjectGenerationMode: undefined,
+
+    doGenerate: generate,
+
+    async doStream(call) {
+      const result = await generate(call);
+      const parts: LanguageModelV1StreamPart[] = [
+        ...(result.text ? [{ type: 'text-delta' as const, textDelta: result.text }] : []),
+        ...result.toolCalls.map(toolCall => ({ type: 'tool-call' as const, ...toolCall })),
+        { type: 'finish', finishReason: result.finishReason, usage: result.usage },
+      ];
+
+      return {
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            for (const part of parts) controller.enqueue(part);
+            controller.close();
+          },
+        }),
+        rawCall: result.rawCall,
+      };
+    },
+  };
+}
+
+/**
+ * Hash FNV-1a de 32 bits
+ */
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Embedding por hashing das palavras (normalizado): textos com palavras em
+ * comum ficam próximos, o que basta para a busca do RAG funcionar offline
+ */
+function embedText(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 2);
+
+  for (const word of words) {
+    const h = hash(word);
+    vector[h % dimensions]! += h & 0x80000000 ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+function createFakeEmbeddingModel(modelId: string, options: FakeProviderOptions): EmbeddingModel<string> {
+  const dimensions = options.dimensions ?? 1536;
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'fake',
+    modelId,
+    maxEmbeddingsPerCall: undefined,
+    supportsParallelCalls: true,
+
+    async doEmbed({ values }) {
+      return {
+        embeddings: values.map(value => embedText(value, dimensions)),
+        usage: { tokens: values.reduce((sum, value) => sum + countTokens(value), 0) },
+      };
+    },
+  };
+}
+
+/**
+ * Provedor fake: determinístico e sem rede (registrado como `fake` em providers.ts)
+ *
+ * Responde às tools do pipeline com chamadas montadas a partir do texto do
+ * prompt (títulos numerados viram seções, datas dd/mm/aaaa viram prazos e
+ * eventos, menções a multa viram riscos) e gera embeddings por hashing das
+ * palavras. A mesma entrada sempre produz a mesma saída, então o pipeline
+ * inteiro roda offline com AI_PROVIDER=fake.
+ */
+export function createFakeProvider(options: FakeProviderOptions = {}): LlmProvider {
+  return {
+    languageModel: modelId => createFakeLanguageModel(modelId, options),
+    textEmbeddingModel: modelId => createFakeEmbeddingModel(modelId, options),
+  };
+}
@@ -0,0 +1,240 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1Middleware,
+  LanguageModelV1Prompt,
+} from 'ai';
+import type { LanguageModelStage } from './providers.js';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+type GenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+
+/**
+ * - record: chama o modelo e grava cada requisição/resposta em arquivo
+ * - replay: responde com as gravações, sem chamar o modelo (falha se não houver)
+ */
+export type FixtureMode = 'record' | 'replay';
+
+/**
+ * Uma chamada ao modelo gravada (um passo do generateText)
+ * O prompt inclui as tool calls e os resultados dos passos anteriores
+ */
+export interface LlmFixture {
+  key: string;
+  promptHash: string;
+  stage: LanguageModelStage;
+  model: string;
+  recordedAt: string;
+  request: {
+    prompt: LanguageModelV1Prompt;
+    tools: string[];
+  };
+  response: {
+    text?: string;
+    toolCalls?: GenerateResult['toolCalls'];
+    finishReason: GenerateResult['finishReason'];
+    usage: GenerateResult['usage'];
+  };
+}
+
+// ============================================================================
+// CONFIGURAÇÃO
+// ============================================================================
+
+/**
+ * Modo das fixtures (`AI_FIXTURES_MODE`), null quando desligado
+ */
+export function getFixtureMode(): FixtureMode | null {
+  const mode = process.env.AI_FIXTURES_MODE;
+  if (!mode || mode === 'off') return null;
+
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`AI_FIXTURES_MODE inválido: "${mode}". Use record, replay ou off`);
+  }
+  return mode;
+}
+
+/**
+ * Diretório das fixtures (`AI_FIXTURES_DIR`, default: fixtures/llm)
+ */
+function getFixturesDir(): string {
+  return path.resolve(process.env.AI_FIXTURES_DIR || 'fixtures/llm');
+}
+
+// ============================================================================
+// CHAVE DA REQUISIÇÃO
+// ============================================================================
+
+/**
+ * IDs gerados a cada execução (UUID das seções, ObjectId do MongoDB)
+ * Aparecem no prompt (lista de seções) e nos resultados das tools
+ */
+const GENERATED_ID_PATTERN =
+  /\b(?:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24})\b/g;
+
+function getToolNames(params: LanguageModelV1CallOptions): string[] {
+  return params.mode.type === 'regular'
+    ? (params.mode.tools ?? []).map(tool => tool.name)
+    : [];
+}
+
+/**
+ * IDs gerados na ordem em que aparecem no prompt (sem repetição)
+ */
+function collectGeneratedIds(prompt: LanguageModelV1Prompt): string[] {
+  return [...new Set(JSON.stringify(prompt).match(GENERATED_ID_PATTERN) ?? [])];
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
+
+/**
+ * Hash do prompt completo e das tools, com os IDs gerados trocados pela
+ * posição em que aparecem (a mesma entrada dá o mesmo hash entre execuções)
+ */
+function computePromptHash(prompt: LanguageModelV1Prompt, tools: string[]): string {
+  const ids = collectGeneratedIds(prompt);
+  const normalized = JSON.stringify({ prompt, tools }).replace(
+    GENERATED_ID_PATTERN,
+    id => `<id:${ids.indexOf(id)}>`
+  );
+  return hashText(normalized);
+}
+
+/**
+ * Chave da fixture: tools, passo do generateText e só as linhas numeradas das
+ * páginas (`Página N:` / `[Ln] texto`) das mensagens do usuário
+ *
+ * Fica estável quando o template do prompt muda, então a gravação de um edital
+ * continua servindo para verificar a unificação e a timeline depois de mexer
+ * no prompt. Sem linhas numeradas (ex.: chat) vale o texto inteiro do usuário.
+ */
+function computeKey(prompt: LanguageModelV1Prompt, tools: string[]): string {
+  const userText = prompt
+    .filter(message => message.role === 'user')
+    .flatMap(message => message.content.map(part => (part.type === 'text' ? part.text : '')))
+    .join('\n');
+  const pageLines = userText
+    .split('\n')
+    .filter(line => /^(Página \d+:\s*$|\[L\d+\])/.test(line));
+  const step = prompt.filter(message => message.role === 'assistant').length;
+
+  return hashText(JSON.stringify({
+    tools,
+    step,
+    content: pageLines.length > 0 ? pageLines : userText,
+  }));
+}
+
+function getFixturePath(stage: LanguageModelStage, key: string): string {
+  return path.join(getFixturesDir(), stage, `${key}.json`);
+}
+
+// ============================================================================
+// GRAVAÇÃO E REPRODUÇÃO
+// ============================================================================
+
+async function recordCall(
+  stage: LanguageModelStage,
+  model: LanguageModelV1,
+  params: LanguageModelV1CallOptions,
+  doGenerate: () => PromiseLike<GenerateResult>
+): Promise<GenerateResult> {
+  const result = await doGenerate();
+  const tools = getToolNames(params);
+  const key = computeKey(params.prompt, tools);
+
+  const fixture: LlmFixture = {
+    key,
+    promptHash: computePromptHash(params.prompt, tools),
+    stage,
+    model: `${model.provider}:${model.modelId}`,
+    recordedAt: new Date().toISOString(),
+    request: { prompt: params.prompt, tools },
+    response: {
+      text: result.text,
+      toolCalls: result.toolCalls,
+      finishReason: result.finishReason,
+      usage: result.usage,
+    },
+  };
+
+  const filePath = getFixturePath(stage, key);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(fixture, null, 2));
+
+  console.log(`   💾 Fixture gravada: ${stage}/${key}.json`);
+  return result;
+}
+
+async function replayCall(
+  stage: LanguageModelStage,
+  params: LanguageModelV1CallOptions
+): Promise<GenerateResult> {
+  const tools = getToolNames(params);
+  const key = computeKey(params.prompt, tools);
+  const filePath = getFixturePath(stage, key);
+
+  let fixture: LlmFixture;
+  try {
+    fixture = JSON.parse(await readFile(filePath, 'utf-8')) as LlmFixture;
+  } catch {
+    throw new Error(
+      `Fixture não encontrada para ${stage} (${filePath}). Grave com AI_FIXTURES_MODE=record`
+    );
+  }
+
+  if (fixture.promptHash !== computePromptHash(params.prompt, tools)) {
+    console.warn(`   ⚠️ Prompt de ${stage} mudou desde a gravação (${key}.json): usando a resposta gravada`);
+  }
+
+  // IDs da gravação -> IDs desta execução, pela ordem de aparição no prompt
+  const recordedIds = collectGeneratedIds(fixture.request.prompt);
+  const currentIds = collectGeneratedIds(params.prompt);
+  const remapIds = (text: string) =>
+    text.replace(GENERATED_ID_PATTERN, id => {
+      const index = recordedIds.indexOf(id);
+      return index === -1 ? id : currentIds[index] ?? id;
+    });
+
+  const { response } = fixture;
+
+  return {
+    text: response.text !== undefined ? remapIds(response.text) : undefined,
+    toolCalls: response.toolCalls?.map(toolCall => ({
+      ...toolCall,
+      args: remapIds(toolCall.args),
+    })),
+    finishReason: response.finishReason,
+    usage: response.usage,
+    rawCall: { rawPrompt: params.prompt, rawSettings: {} },
+  };
+}
+
+/**
+ * Middleware de gravação/reprodução das chamadas de generateText
+ *
+ * Cada passo vira um arquivo `<AI_FIXTURES_DIR>/<etapa>/<chave>.json` com o
+ * prompt (incluindo tool calls e resultados dos passos anteriores) e a resposta.
+ * Em replay o pipeline roda sem rede e com as mesmas respostas da gravação,
+ * então mudanças nos prompts, na unificação de entidades ou na timeline podem
+ * ser comparadas contra editais conhecidos. Streams não são gravados.
+ */
+export function createFixtureMiddleware(
+  stage: LanguageModelStage,
+  mode: FixtureMode
+): LanguageModelV1Middleware {
+  return {
+    wrapGenerate: ({ doGenerate, params, model }) =>
+      mode === 'record'
+        ? recordCall(stage, model, params, doGenerate)
+        : replayCall(stage, params),
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Preço de um modelo em US$ por 1 milhão de tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Tabela de preços padrão (`provedor:modelo`), conforme a página de preços da OpenAI
+ * Modelos novos ou preços negociados entram por AI_MODEL_PRICES
+ */
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'openai:gpt-5.1': { input: 1.25, output: 10 },
+  'openai:gpt-5-mini': { input: 0.25, output: 2 },
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai:text-embedding-3-small': { input: 0.02, output: 0 },
+};
+
+/**
+ * Preços adicionais/substitutos em JSON
+ * (ex.: AI_MODEL_PRICES={"openai:gpt-5.1":{"input":1.25,"output":10}})
+ */
+function getPriceOverrides(): Record<string, ModelPrice> {
+  const raw = process.env.AI_MODEL_PRICES;
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw) as Record<string, ModelPrice>;
+  } catch {
+    console.warn('⚠️  AI_MODEL_PRICES inválido (esperado JSON); usando a tabela padrão');
+    return {};
+  }
+}
+
+/** Modelos sem preço já avisados no log */
+const warnedModels = new Set<string>();
+
+/**
+ * Preço do modelo (`provedor:modelo`); o provedor fake é gratuito
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  if (model.startsWith('fake:')) {
+    return { input: 0, output: 0 };
+  }
+  return getPriceOverrides()[model] ?? DEFAULT_PRICES[model] ?? null;
+}
+
+/**
+ * Custo estimado da chamada em US$ (0 para modelo sem preço, com aviso)
+ */
+export function computeCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = getModelPrice(model);
+
+  if (!price) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(`⚠️  Modelo sem preço cadastrado: ${model} (custo registrado como 0; configure AI_MODEL_PRICES)`);
+    }
+    return 0;
+  }
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -11,12 +11,13 @@ Seu papel é ajudar o usuário a entender o conteúdo do documento, responder pe
 
 ## Diretrizes
 
-1. **Base suas respostas APENAS no contexto fornecido**
-   - Use apenas informações presentes nas páginas do documento
-   - Se a informação não estiver no contexto, diga claramente que não encontrou
+1. **Base suas respostas APENAS no documento**
+   - Use apenas informações dos trechos do contexto e dos resultados das ferramentas
+   - Se a informação não estiver em nenhum deles, diga claramente que não encontrou
 
 2. **Seja preciso e cite as fontes**
-   - Sempre que possível, indique a página onde encontrou a informação
+   - Cada trecho do contexto traz página, linhas e, quando conhecida, a seção/cláusula
+   - Indique a cláusula e a página onde encontrou a informação (ex: "cláusula 7.2, página 5")
    - Use citações diretas do documento quando relevante
 
 3. **Linguagem clara e profissional**
@@ -32,11 +33,25 @@ Seu papel é ajudar o usuário a entender o conteúdo do documento, responder pe
    - Se o contexto não for suficiente, peça esclarecimentos
    - Não invente informações que não estejam no documento
 
+## Ferramentas de consulta
+
+Além dos trechos, você pode consultar a análise estruturada do documento:
+- \`findEntities\`: entidades por tipo (MULTA, PRAZO, REQUISITO, CERTIDAO_TECNICA...), com valores e metadados
+- \`getTimeline\` e \`getCriticalEvents\`: eventos do cronograma e prazos críticos
+- \`getRisksByScore\`: riscos ordenados por gravidade x probabilidade
+- \`getSectionPath\`: em que capítulo/seção fica uma cláusula
+- \`getPageByNumber\`: texto completo de uma página
+
+Use as ferramentas quando a pergunta pedir uma lista completa ("todas as multas", "quais os prazos"),
+um filtro por valor ("multas acima de 10%") ou dados que os trechos não cobrem por inteiro.
+Os trechos trazem só as partes mais parecidas com a pergunta; as ferramentas trazem tudo o que foi extraído.
+Confira os valores nos metadados (ex: \`percentual\` das multas) antes de filtrar e cite as páginas de cada item.
+
 ## Formato das respostas
 
 - Respostas curtas para perguntas simples
 - Respostas estruturadas para análises complexas
-- Sempre inclua referência às páginas quando aplicável (ex: "Conforme página 5...")
+- Sempre inclua referência à cláusula e à página quando aplicável (ex: "Conforme a cláusula 7.2 (página 5)...")
 `;
 
 /**
@@ -44,19 +59,123 @@ Seu papel é ajudar o usuário a entender o conteúdo do documento, responder pe
  */
 export function createRagPrompt(
   userMessage: string,
-  context: Array<{ pageNumber: number; text: string; similarity: number }>,
+  context: Array<{
+    pageNumber: number;
+    lineStart: number;
+    lineEnd: number;
+    sectionTitle?: string;
+    text: string;
+    relevance: number;
+  }>,
   documentName?: string
 ): string {
   const contextSection = context
-    .map(c => `--- Página ${c.pageNumber} (relevância: ${(c.similarity * 100).toFixed(0)}%) ---\n${c.text}`)
+    .map(c => {
+      const section = c.sectionTitle ? `Seção ${c.sectionTitle} | ` : '';
+      return `--- ${section}Página ${c.pageNumber}, linhas ${c.lineStart}-${c.lineEnd} (relevância: ${(c.relevance * 100).toFixed(0)}%) ---\n${c.text}`;
+    })
     .join('\n\n');
 
   const documentInfo = documentName 
     ? `\n## Documento: ${documentName}\n` 
     : '';
 
+  if (context.length === 0) {
+    return `${documentInfo}
+## Contexto do Documento
+
+Nenhum trecho do documento foi considerado relevante pela busca.
+
+---
+
+## Pergunta do Usuário
+
+${userMessage}
+
+---
+
+Use as ferramentas de consulta para procurar a resposta na análise do documento. Se a informação não estiver disponível, informe isso ao usuário.`;
+  }
+
   return `${documentInfo}
-## Contexto do Documento (páginas mais relevantes)
+## Contexto do Documento (trechos mais relevantes)
+
+${contextSection}
+
+---
+
+## Pergunta do Usuário
+
+${userMessage}
+
+---
+
+Por favor, responda à pergunta acima baseando-se APENAS no contexto fornecido e, quando precisar de listas completas ou filtros, nas ferramentas de consulta. Se a informação não estiver disponível, informe isso ao usuário.`;
+}
+
+/**
+ * System prompt do chat da biblioteca (vários editais)
+ */
+export const LIBRARY_CHAT_SYSTEM_PROMPT = `Você é um assistente especializado em análise de editais de licitação e atende a equipe de propostas.
+
+Seu papel é responder perguntas sobre a biblioteca de editais da organização: comparar exigências, encontrar editais com uma condição (atestados, multas, prazos) e resumir diferenças entre órgãos.
+
+## Diretrizes
+
+1. **Base suas respostas APENAS nos documentos**
+   - Use apenas os trechos do contexto e os resultados das ferramentas
+   - Se a informação não estiver em nenhum deles, diga claramente que não encontrou
+
+2. **Cite documento e página em toda afirmação**
+   - Cada trecho do contexto traz o arquivo do edital, a página, as linhas e, quando conhecida, a cláusula
+   - Use o formato "(arquivo.pdf, p. 5)" ou "(arquivo.pdf, cláusula 7.2, p. 5)"
+   - Ao listar editais, uma linha por edital com a citação correspondente
+
+3. **Seja completo em perguntas de listagem**
+   - "Quais editais...", "em quais órgãos...": os trechos cobrem só parte da biblioteca; use as ferramentas para percorrer todos os documentos
+   - Confira os valores nos metadados (ex: \`percentual\` das multas) antes de filtrar
+   - Edital aberto é aquele cuja sessão pública ou entrega de propostas ainda não passou: confira no cronograma (\`getTimeline\`)
+
+4. **Admita limitações**
+   - Diga quando um edital não traz a informação ou quando a lista pode estar incompleta (resultado \`truncated\`)
+   - Não invente informações que não estejam nos documentos
+
+## Ferramentas de consulta
+
+- \`listDocuments\`: documentos consultados (ID, arquivo, status, tags, data de envio)
+- \`findEntities\`: entidades por tipo em todos os documentos (MULTA, PRAZO, REQUISITO, CERTIDAO_TECNICA...)
+- \`getTimeline\`: eventos dos cronogramas por data
+- \`getPageByNumber\`: texto completo de uma página de um documento
+`;
+
+/**
+ * Cria o prompt do usuário do chat da biblioteca, com os trechos de vários documentos
+ */
+export function createLibraryRagPrompt(
+  userMessage: string,
+  context: Array<{
+    filename: string;
+    pageNumber: number;
+    lineStart: number;
+    lineEnd: number;
+    sectionTitle?: string;
+    text: string;
+    relevance: number;
+  }>,
+  documentCount: number
+): string {
+  const contextSection = context.length > 0
+    ? context
+      .map(c => {
+        const section = c.sectionTitle ? `Seção ${c.sectionTitle} | ` : '';
+        return `--- ${c.filename} | ${section}Página ${c.pageNumber}, linhas ${c.lineStart}-${c.lineEnd} (relevância: ${(c.relevance * 100).toFixed(0)}%) ---\n${c.text}`;
+      })
+      .join('\n\n')
+    : 'Nenhum trecho foi considerado relevante pela busca.';
+
+  return `## Biblioteca: ${documentCount} documento(s) consultado(s)
+
+## Contexto (trechos mais relevantes de todos os documentos)
 
 ${contextSection}
 
@@ -68,7 +187,7 @@ ${userMessage}
 
 ---
 
-Por favor, responda à pergunta acima baseando-se APENAS no contexto fornecido. Se a informação não estiver disponível no contexto, informe isso ao usuário.`;
+Responda com base nos trechos e, para listas completas ou comparações entre editais, nas ferramentas de consulta. Cite o arquivo e a página de cada informação. Se a informação não estiver disponível, informe isso ao usuário.`;
 }
 
 /**
@@ -117,6 +117,19 @@ Para obrigações, sempre preencha:
 - 0.60-0.79: Informação inferida do contexto
 - Abaixo de 0.60: NÃO incluir
 
+### 6. Metadados por tipo (metadataJson)
+Campos com * são obrigatórios; não use campos fora da lista:
+- PRAZO: tipoEvento*, dataInicio e dataFim (AAAA-MM-DD), horaLimite (HH:MM), diasUteis (boolean), duracaoDias (inteiro)
+- MULTA: tipoInfracao*, percentual (número), valorFixo (número), baseCalculo, condicaoAplicacao
+- REQUISITO: categoria* (TECNICO, HABILITACAO, FISCAL, JURIDICO, ECONOMICO, OUTRO), obrigatorio* (boolean), itemRelacionado, especificacao
+- REGRA_ENTREGA: localEntrega, prazoEntrega, condicoesTransporte, embalagem, horarioRecebimento
+- RISCO: tipoRisco* (SANCAO, IMPEDIMENTO, PENALIDADE, DESCLASSIFICACAO, OUTRO), gravidade* (BAIXA, MEDIA, ALTA, CRITICA), condicaoAtivacao
+- CERTIDAO_TECNICA: tipoCertidao*, emissor, validadeMinima, quantidadeMinima (número), descricaoExigencia
+- DOCUMENTACAO: tipoDocumento* (DECLARACAO, CERTIDAO, ATESTADO, CONTRATO_SOCIAL, PROCURACAO, OUTRO), prazoValidade, emissor, finalidade
+- DATA, OBRIGACAO, SANCAO, OUTRO: objeto livre (ou {})
+
+Itens fora do formato (campos obrigatórios vazios, JSON inválido, semanticKey fora do padrão) são rejeitados pela tool e devolvidos com os erros para correção.
+
 ## EVENTOS DO TIMELINE
 
 Para cada PRAZO ou DATA extraído, crie também um evento do timeline com:
@@ -162,6 +175,9 @@ Use a tool "saveExtractionResults" com a estrutura:
         { "semanticKey": "OBRIGACAO:ENVIO_PROPOSTA:2024-09-24", "relationship": "TRIGGERS" }
       ],
       "confidence": 0.95,
+      "pageNumber": 1,
+      "lineStart": 12,
+      "lineEnd": 12,
       "excerptText": "DIA: 24 DE SETEMBRO DE 2024 HORÁRIO: 09:01H (Horário de Brasília)"
     },
     {
@@ -230,6 +246,7 @@ Use a tool "saveExtractionResults" com a estrutura:
 
 - NÃO invente informações - extraia apenas o que está no texto
 - SEMPRE inclua o excerptText para rastreabilidade
+- Cada linha do texto vem prefixada com [L n] (numeração por página). Informe pageNumber, lineStart e lineEnd usando esses números, sem copiar o marcador para o excerptText
 - Relacione entidades quando houver vínculo claro
 - Para cada PRAZO importante, crie um evento de timeline
 - Identifique riscos mesmo quando não explícitos (inferidos do contexto)
@@ -361,6 +378,9 @@ export const EXTRACTION_RESPONSE_SCHEMA = {
             },
           },
           confidence: { type: 'number', minimum: 0, maximum: 1 },
+          pageNumber: { type: 'number' },
+          lineStart: { type: 'number' },
+          lineEnd: { type: 'number' },
           excerptText: { type: 'string' },
         },
         required: ['type', 'name', 'rawValue', 'semanticKey'],
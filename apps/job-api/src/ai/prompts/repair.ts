@@ -0,0 +1,53 @@
+/**
+ * Prompt para correção de itens rejeitados pela validação
+ *
+ * Usado após cada estágio quando a tool rejeitou itens: o modelo recebe os
+ * itens como os enviou e os erros, e reenvia apenas os corrigidos. O texto do
+ * batch não é repetido (os itens trazem o trecho de origem).
+ */
+
+import type { InvalidExtractionItem } from '../../types/entities.js';
+
+const KIND_LABELS: Record<InvalidExtractionItem['kind'], string> = {
+  section: 'seção (sections)',
+  entity: 'entidade (entities)',
+  timelineEvent: 'evento do timeline (timelineEvents)',
+  risk: 'risco (risks)',
+};
+
+/**
+ * Cria o prompt da rodada de correção
+ */
+export function createRepairPrompt(
+  toolName: string,
+  items: InvalidExtractionItem[],
+  round: number,
+  maxRounds: number
+): string {
+  const itemsText = items
+    .map((item, index) => `### Item ${index + 1}: ${KIND_LABELS[item.kind]}
+
+Erros:
+${item.errors.map(error => `- ${error}`).join('\n')}
+
+Enviado:
+\`\`\`json
+${JSON.stringify(item.item, null, 2)}
+\`\`\``)
+    .join('\n\n');
+
+  return `Os itens abaixo foram enviados para a tool "${toolName}" e REJEITADOS pela validação; eles NÃO foram salvos.
+Rodada de correção ${round} de ${maxRounds}: itens que continuarem inválidos vão para revisão manual.
+
+## ITENS REJEITADOS
+
+${itemsText}
+
+## INSTRUÇÕES
+
+1. Corrija cada item conforme os erros, usando o trecho (excerpt) como fonte
+2. Campos *Json devem conter JSON válido (objeto ou array, conforme a descrição do campo)
+3. Mantenha a semanticKey, o número da seção ou o título de cada item, para que a correção substitua o item rejeitado
+4. Reenvie SOMENTE os itens corrigidos, em uma única chamada de "${toolName}"
+5. Se um item não puder ser corrigido com base no trecho, omita-o`;
+}
@@ -121,6 +121,7 @@ Use a tool "saveSections" com um array de seções:
 - NÃO extraia conteúdo, apenas a ESTRUTURA
 - O "summary" deve ser um BREVE resumo do que a seção trata (max 100 chars)
 - Se não conseguir identificar o pai, deixe parentNumber como null
+- Cada linha do texto vem prefixada com [L n] (numeração por página). Use esses números em lineStart/lineEnd
 - Priorize precisão sobre quantidade - é melhor extrair menos com certeza`;
 
 /**
@@ -0,0 +1,163 @@
+import { openai } from '@ai-sdk/openai';
+import { wrapLanguageModel } from 'ai';
+import type { EmbeddingModel, LanguageModelV1, LanguageModelV1Middleware } from 'ai';
+import { createFakeProvider } from './fake-provider.js';
+import { createFixtureMiddleware, getFixtureMode } from './fixtures.js';
+import { createUsageMiddleware, type UsageContext } from './usage.js';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+/**
+ * Etapas que usam modelo de IA, cada uma configurável separadamente
+ * - structure: estágio 1 do batch (estrutura hierárquica)
+ * - extraction: estágio 2 do batch (entidades, timeline, riscos)
+ * - chat: respostas do chat RAG
+ * - embeddings: vetores das páginas para o RAG
+ */
+export type ModelStage = 'structure' | 'extraction' | 'chat' | 'embeddings';
+
+export type LanguageModelStage = Exclude<ModelStage, 'embeddings'>;
+
+/**
+ * Provedor de modelos registrável (OpenAI, fake offline, ...)
+ */
+export interface LlmProvider {
+  languageModel(modelId: string): LanguageModelV1;
+  textEmbeddingModel(modelId: string): EmbeddingModel<string>;
+}
+
+export interface ModelSpec {
+  provider: string;
+  modelId: string;
+}
+
+// ============================================================================
+// CONFIGURAÇÃO
+// ============================================================================
+
+/** Modelo usado em cada etapa quando não há configuração */
+const DEFAULT_MODELS: Record<ModelStage, string> = {
+  structure: 'gpt-5.1',
+  extraction: 'gpt-5.1',
+  chat: 'gpt-4o-mini',
+  embeddings: 'text-embedding-3-small',
+};
+
+/**
+ * Provedor padrão de todas as etapas (`openai` ou `fake`)
+ */
+function getDefaultProvider(): string {
+  return process.env.AI_PROVIDER || 'openai';
+}
+
+/**
+ * Configuração da etapa: `AI_MODEL_<ETAPA>` no formato `provedor:modelo` ou só `modelo`
+ * (ex.: AI_MODEL_EXTRACTION=openai:gpt-5.1, AI_MODEL_CHAT=gpt-4o-mini)
+ */
+function getStageSetting(stage: ModelStage): string | undefined {
+  return process.env[`AI_MODEL_${stage.toUpperCase()}`] || undefined;
+}
+
+// ============================================================================
+// REGISTRO
+// ============================================================================
+
+const providers = new Map<string, LlmProvider>([
+  [
+    'openai',
+    {
+      languageModel: modelId => openai(modelId),
+      textEmbeddingModel: modelId => openai.embedding(modelId),
+    },
+  ],
+  ['fake', createFakeProvider()],
+]);
+
+/**
+ * Registra (ou substitui) um provedor
+ */
+export function registerProvider(name: string, provider: LlmProvider): void {
+  providers.set(name, provider);
+}
+
+function getProvider(name: string): LlmProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(
+      `Provedor de IA desconhecido: "${name}". Disponíveis: ${[...providers.keys()].join(', ')}`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Provedor e modelo configurados para a etapa
+ */
+export function resolveModelSpec(stage: ModelStage): ModelSpec {
+  const setting = getStageSetting(stage);
+
+  if (!setting) {
+    return { provider: getDefaultProvider(), modelId: DEFAULT_MODELS[stage] };
+  }
+
+  const separator = setting.indexOf(':');
+  if (separator === -1) {
+    return { provider: getDefaultProvider(), modelId: setting };
+  }
+
+  return {
+    provider: setting.slice(0, separator),
+    modelId: setting.slice(separator + 1) || DEFAULT_MODELS[stage],
+  };
+}
+
+/**
+ * Valida o provedor de todas as etapas (chamado na inicialização), para um
+ * AI_MODEL_<ETAPA> com provedor desconhecido falhar ao subir, não no meio de um job
+ */
+export function assertModelConfig(): void {
+  for (const stage of Object.keys(DEFAULT_MODELS) as ModelStage[]) {
+    getProvider(resolveModelSpec(stage).provider);
+  }
+}
+
+/**
+ * `provedor:modelo` da etapa, para logs e métricas
+ */
+export function describeModel(stage: ModelStage): string {
+  const { provider, modelId } = resolveModelSpec(stage);
+  return `${provider}:${modelId}`;
+}
+
+/**
+ * Modelo de linguagem configurado para a etapa
+ * - `usage`: registra tokens/custo de cada chamada para o documento (ver services/usage.ts)
+ * - AI_FIXTURES_MODE: grava ou reproduz as chamadas (ver fixtures.ts); chamadas
+ *   reproduzidas não geram uso
+ */
+export function getLanguageModel(stage: LanguageModelStage, usage?: UsageContext): LanguageModelV1 {
+  const { provider, modelId } = resolveModelSpec(stage);
+  const model = getProvider(provider).languageModel(modelId);
+
+  const fixtureMode = getFixtureMode();
+  const middleware: LanguageModelV1Middleware[] = [];
+
+  if (usage && fixtureMode !== 'replay') {
+    middleware.push(createUsageMiddleware(stage, `${provider}:${modelId}`, usage));
+  }
+  if (fixtureMode) {
+    middleware.push(createFixtureMiddleware(stage, fixtureMode));
+  }
+
+  return middleware.length > 0 ? wrapLanguageModel({ model, middleware }) : model;
+}
+
+/**
+ * Modelo de embeddings configurado
+ */
+export function getEmbeddingModel(): EmbeddingModel<string> {
+  const { provider, modelId } = resolveModelSpec('embeddings');
+  return getProvider(provider).textEmbeddingModel(modelId);
+}
@@ -0,0 +1,95 @@
+import { APICallError, RetryError } from 'ai';
+
+/**
+ * Espera antes da 1ª nova tentativa de uma chamada à IA; dobra a cada falha
+ */
+function getRetryBaseDelayMs(): number {
+  return parseInt(process.env.AI_RETRY_BASE_DELAY_MS || '2000', 10);
+}
+
+export interface RetryOptions {
+  /** Novas tentativas após a primeira falha (0 = sem retry) */
+  retries: number;
+
+  /** Identificação usada nos logs */
+  label: string;
+
+  /** Executado antes de cada nova tentativa (ex.: descartar resultado parcial) */
+  onRetry?: (attempt: number, error: unknown) => Promise<void>;
+}
+
+/**
+ * Códigos de erros de rede transitórios (Node e undici)
+ */
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+/**
+ * Código de erro de rede do erro ou da sua causa (fetch embrulha em TypeError)
+ */
+function getNetworkErrorCode(error: unknown): string | undefined {
+  for (let current = error, depth = 0; current && depth < 3; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === 'string') return code;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+/**
+ * Indica se vale tentar de novo: falhas transitórias da API (429, 5xx ou
+ * marcadas como isRetryable pelo SDK) e erros de rede
+ *
+ * Todo o resto (400/401/403, validação de tools, orçamento esgotado,
+ * interrupção do processamento) falharia igual na próxima tentativa.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (RetryError.isInstance(error)) {
+    return isRetryableError(error.lastError);
+  }
+
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode;
+    return error.isRetryable || status === 429 || (status !== undefined && status >= 500);
+  }
+
+  const code = getNetworkErrorCode(error);
+  return code !== undefined && TRANSIENT_NETWORK_CODES.has(code);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Executa `fn` com retry e backoff exponencial (base, 2x base, 4x base...)
+ * Relança na hora os erros que não são transitórios (ver isRetryableError)
+ * e o último erro quando as tentativas se esgotam
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { retries, label, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) throw error;
+
+      const delayMs = getRetryBaseDelayMs() * 2 ** attempt;
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`      ↻ ${label}: tentativa ${attempt + 1}/${retries + 1} falhou (${message}); nova tentativa em ${delayMs}ms`);
+
+      await sleep(delayMs);
+      if (onRetry) await onRetry(attempt + 1, error);
+    }
+  }
+}
@@ -5,18 +5,21 @@ import { getEntityUnificationService } from '../services/entity-unification.js';
 import { getDocumentStructureService } from '../services/document-structure.js';
 import { getTimelineService } from '../services/timeline.js';
 import { getRiskService } from '../services/risk.js';
+import {
+  InvalidItemTracker,
+  RawEntityItemSchema,
+  RawRiskItemSchema,
+  RawSectionItemSchema,
+  RawTimelineEventItemSchema,
+  parseJsonField,
+} from './validation.js';
 import type {
   ExtractedEntity,
   RawExtractedEntity,
-  RawDocumentSection,
   RawTimelineEvent,
   RawRisk,
   EntityType,
-  DocumentSectionLevel,
-  EntityRelationship,
-  ImportanceLevel,
-  ProbabilityLevel,
-  ResponsibleParty,
+  InvalidExtractionItem,
 } from '../types/entities.js';
 
 // ============================================================================
@@ -86,10 +89,13 @@ const RawEntitySchema = z.object({
   rawValue: z.string().describe('Valor bruto extraído do texto'),
   semanticKey: z.string().describe('Chave semântica única (TIPO:CONTEXTO:ID)'),
   sectionId: z.string().describe('ID da seção do documento. Use "" se não houver'),
-  metadataJson: z.string().describe('Metadados específicos em JSON. Use "{}" se vazio'),
+  metadataJson: z.string().describe('Metadados específicos do tipo em JSON (campos obrigatórios por tipo no prompt). Use "{}" se o tipo não tiver'),
   obligationDetailsJson: z.string().describe('Detalhes de obrigação em JSON. Use "" se não for OBRIGACAO'),
   relatedSemanticKeysJson: z.string().describe('Array de relacionamentos em JSON. Use "[]" se vazio'),
   confidence: z.number().min(0).max(1).describe('Confiança (0-1)'),
+  pageNumber: z.number().describe('Número da página onde o trecho aparece'),
+  lineStart: z.number().describe('Linha inicial na página (marcador [L n]). Use 0 se desconhecido'),
+  lineEnd: z.number().describe('Linha final na página (marcador [L n]). Use 0 se desconhecido'),
   excerptText: z.string().describe('Trecho do documento (max 300 chars)'),
 });
 
@@ -104,8 +110,8 @@ const RawSectionSchema = z.object({
   parentNumber: z.string().describe('Número da seção pai. Use "" se for raiz'),
   summary: z.string().describe('Resumo (max 100 chars). Use "" se não houver'),
   pageNumber: z.number().describe('Número da página'),
-  lineStart: z.number().describe('Linha inicial. Use 0 se desconhecido'),
-  lineEnd: z.number().describe('Linha final. Use 0 se desconhecido'),
+  lineStart: z.number().describe('Linha inicial na página (marcador [L n]). Use 0 se desconhecido'),
+  lineEnd: z.number().describe('Linha final na página (marcador [L n]). Use 0 se desconhecido'),
 });
 
 // ============================================================================
@@ -160,14 +166,157 @@ const RawRiskSchema = z.object({
   confidence: z.number().min(0).max(1).describe('Confiança'),
 });
 
+// ============================================================================
+// CONVERSÃO DOS ARGUMENTOS DAS TOOLS
+// ============================================================================
+
+type RawSectionArgs = z.infer<typeof RawSectionSchema>;
+type RawEntityArgs = z.infer<typeof RawEntitySchema>;
+type RawTimelineEventArgs = z.infer<typeof RawTimelineEventSchema>;
+type RawRiskArgs = z.infer<typeof RawRiskSchema>;
+
+/**
+ * Item convertido para a forma bruta, ainda não validado
+ */
+interface ConvertedItem {
+  key: string;
+  args: Record<string, unknown>;
+  value: unknown;
+  parseErrors: string[];
+}
+
+function toRawSection(s: RawSectionArgs): ConvertedItem {
+  return {
+    key: s.number || s.title,
+    args: s,
+    value: {
+      level: s.level,
+      title: s.title,
+      number: s.number || undefined,
+      summary: s.summary || undefined,
+      parentNumber: s.parentNumber || undefined,
+      pageNumber: s.pageNumber,
+      lineStart: s.lineStart || undefined,
+      lineEnd: s.lineEnd || undefined,
+    },
+    parseErrors: [],
+  };
+}
+
+function toRawEntity(e: RawEntityArgs, batchNumber: number, pageNumbers: number[]): ConvertedItem {
+  const parseErrors: string[] = [];
+  const obligationDetails = parseJsonField<Record<string, unknown>>(
+    e.obligationDetailsJson, 'obligationDetailsJson', undefined, parseErrors
+  );
+
+  return {
+    key: e.semanticKey || e.name,
+    args: e,
+    value: {
+      type: e.type,
+      name: e.name,
+      rawValue: e.rawValue,
+      semanticKey: e.semanticKey,
+      metadata: parseJsonField(e.metadataJson, 'metadataJson', {}, parseErrors),
+      confidence: e.confidence,
+      pageNumber: pageNumbers.includes(e.pageNumber) ? e.pageNumber : pageNumbers[0] || 1,
+      pageId: `batch-${batchNumber}`,
+      lineStart: e.lineStart || undefined,
+      lineEnd: e.lineEnd || undefined,
+      sectionId: e.sectionId || undefined,
+      excerptText: e.excerptText,
+      obligationDetails: obligationDetails && {
+        ...obligationDetails,
+        linkedDeadlineKey: obligationDetails.linkedDeadlineKey || undefined,
+      },
+      relatedSemanticKeys: parseJsonField(e.relatedSemanticKeysJson, 'relatedSemanticKeysJson', undefined, parseErrors),
+    },
+    parseErrors,
+  };
+}
+
+function toRawTimelineEvent(e: RawTimelineEventArgs): ConvertedItem {
+  const parseErrors: string[] = [];
+
+  return {
+    key: e.sourceSemanticKey || e.title,
+    args: e,
+    value: {
+      dateRaw: e.dateRaw,
+      dateType: e.dateType,
+      dateNormalized: e.dateNormalized || undefined,
+      eventType: e.eventType,
+      title: e.title,
+      description: e.description,
+      importance: e.importance,
+      actionRequired: e.actionRequired || undefined,
+      tags: parseJsonField(e.tagsJson, 'tagsJson', [], parseErrors),
+      relativeTo: parseJsonField(e.relativeToJson, 'relativeToJson', undefined, parseErrors),
+      linkedPenaltyKeys: parseJsonField(e.linkedPenaltyKeysJson, 'linkedPenaltyKeysJson', undefined, parseErrors),
+      linkedRequirementKeys: parseJsonField(e.linkedRequirementKeysJson, 'linkedRequirementKeysJson', undefined, parseErrors),
+      linkedObligationKeys: parseJsonField(e.linkedObligationKeysJson, 'linkedObligationKeysJson', undefined, parseErrors),
+      linkedRiskKeys: parseJsonField(e.linkedRiskKeysJson, 'linkedRiskKeysJson', undefined, parseErrors),
+      sourceSemanticKey: e.sourceSemanticKey,
+      pageNumber: e.pageNumber,
+      excerpt: e.excerpt,
+      confidence: e.confidence,
+    },
+    parseErrors,
+  };
+}
+
+function toRawRisk(r: RawRiskArgs): ConvertedItem {
+  const parseErrors: string[] = [];
+
+  return {
+    key: r.title,
+    args: r,
+    value: {
+      category: r.category,
+      subcategory: r.subcategory || undefined,
+      title: r.title,
+      description: r.description,
+      trigger: r.trigger,
+      consequence: r.consequence,
+      severity: r.severity,
+      probability: r.probability,
+      mitigation: parseJsonField(r.mitigationJson, 'mitigationJson', undefined, parseErrors),
+      linkedEntityKeys: parseJsonField(r.linkedEntityKeysJson, 'linkedEntityKeysJson', undefined, parseErrors),
+      linkedTimelineKeys: parseJsonField(r.linkedTimelineKeysJson, 'linkedTimelineKeysJson', undefined, parseErrors),
+      pageNumber: r.pageNumber,
+      excerpt: r.excerpt,
+      confidence: r.confidence,
+    },
+    parseErrors,
+  };
+}
+
+/**
+ * Resumo dos itens rejeitados no retorno da tool, para o modelo corrigir
+ */
+function describeInvalid(invalid: InvalidExtractionItem[], toolName: string) {
+  if (invalid.length === 0) return {};
+
+  return {
+    invalidItems: invalid.map(({ kind, key, errors }) => ({ kind, key, errors })),
+    instructions: `${invalid.length} item(ns) rejeitado(s) pela validação e NÃO salvo(s). Corrija os campos indicados e reenvie apenas esses itens via ${toolName}.`,
+  };
+}
+
 // ============================================================================
 // FACTORY DE TOOLS
 // ============================================================================
 
 /**
  * Cria as tools para extração de estrutura (Estágio 1)
+ *
+ * Seções inválidas não são salvas: ficam em `tracker` para a rodada de correção.
  */
-export function createStructureTools(documentId: string, batchNumber: number) {
+export function createStructureTools(
+  documentId: string,
+  batchNumber: number,
+  tracker: InvalidItemTracker = new InvalidItemTracker()
+) {
   const structureService = getDocumentStructureService();
 
   return {
@@ -178,25 +327,23 @@ export function createStructureTools(documentId: string, batchNumber: number) {
       }),
       execute: async ({ sections }) => {
         try {
-          const rawSections: RawDocumentSection[] = sections.map(s => ({
-            level: s.level as DocumentSectionLevel,
-            title: s.title,
-            number: s.number || undefined,
-            summary: s.summary || undefined,
-            parentNumber: s.parentNumber || undefined,
-            pageNumber: s.pageNumber,
-            lineStart: s.lineStart || undefined,
-            lineEnd: s.lineEnd || undefined,
-          }));
+          const { valid, invalid } = tracker.validate(
+            'section',
+            RawSectionItemSchema,
+            sections.map(toRawSection)
+          );
 
-          const created = await structureService.processSections(documentId, rawSections);
+          const created = valid.length > 0
+            ? await structureService.processSections(documentId, valid, batchNumber)
+            : [];
 
-          console.log(`   📁 Batch ${batchNumber}: ${created.length} seções salvas`);
+          console.log(`   📁 Batch ${batchNumber}: ${created.length} seções salvas${invalid.length > 0 ? `, ${invalid.length} rejeitada(s)` : ''}`);
 
           return {
             success: true,
             sectionsCreated: created.length,
             sectionIds: created.map(s => ({ id: s.id, number: s.number, title: s.title })),
+            ...describeInvalid(invalid, 'saveSections'),
           };
         } catch (error) {
           console.error('Erro ao salvar seções:', error);
@@ -212,11 +359,15 @@ export function createStructureTools(documentId: string, batchNumber: number) {
 
 /**
  * Cria as tools para extração de entidades (Estágio 2)
+ *
+ * Entidades, eventos e riscos inválidos não são salvos: ficam em `tracker`
+ * para a rodada de correção.
  */
 export function createExtractionTools(
   documentId: string,
   batchNumber: number,
-  pageNumbers: number[]
+  pageNumbers: number[],
+  tracker: InvalidItemTracker = new InvalidItemTracker()
 ) {
   const unificationService = getEntityUnificationService();
   const timelineService = getTimelineService();
@@ -230,6 +381,7 @@ export function createExtractionTools(
     saveExtractionResults: tool({
       description: `Salva entidades, eventos de timeline e riscos extraídos do batch.
 O serviço irá automaticamente:
+- Validar cada item (itens inválidos voltam com os erros e não são salvos)
 - Normalizar valores (datas, moeda, percentuais)
 - Verificar duplicatas pela semanticKey
 - Resolver conflitos por confiança
@@ -247,54 +399,36 @@ O serviço irá automaticamente:
             conflictsResolved: 0,
             timelineEventsCreated: 0,
             risksCreated: 0,
+            // Chaves do que foi salvo, para o contexto dos próximos batches
+            entityKeys: [] as Array<{ type: string; semanticKey: string; name: string }>,
+            timelineEventKeys: [] as string[],
+            riskKeys: [] as Array<{ category: string; title: string }>,
           };
 
-          // 1. Processar entidades
-          if (entities.length > 0) {
-            const rawEntities: RawExtractedEntity[] = entities.map(e => {
-              let metadata: Record<string, unknown> = {};
-              try {
-                if (e.metadataJson && e.metadataJson !== '{}' && e.metadataJson !== '') {
-                  metadata = JSON.parse(e.metadataJson);
-                }
-              } catch { /* ignore */ }
-
-              let obligationDetails: RawExtractedEntity['obligationDetails'];
-              if (e.obligationDetailsJson && e.obligationDetailsJson !== '' && e.obligationDetailsJson !== '{}') {
-                try {
-                  const parsed = JSON.parse(e.obligationDetailsJson);
-                  obligationDetails = {
-                    action: parsed.action || '',
-                    responsible: parsed.responsible || 'LICITANTE',
-                    mandatory: parsed.mandatory ?? true,
-                    linkedDeadlineKey: parsed.linkedDeadlineKey || undefined,
-                  };
-                } catch { /* ignore */ }
-              }
-
-              let relatedSemanticKeys: RawExtractedEntity['relatedSemanticKeys'];
-              if (e.relatedSemanticKeysJson && e.relatedSemanticKeysJson !== '' && e.relatedSemanticKeysJson !== '[]') {
-                try {
-                  relatedSemanticKeys = JSON.parse(e.relatedSemanticKeysJson);
-                } catch { /* ignore */ }
-              }
-
-              return {
-                type: e.type as EntityType,
-                name: e.name,
-                rawValue: e.rawValue,
-                semanticKey: e.semanticKey,
-                metadata,
-                confidence: e.confidence,
-                pageNumber: pageNumbers[0] || 1,
-                pageId: `batch-${batchNumber}`,
-                sectionId: e.sectionId || undefined,
-                excerptText: e.excerptText,
-                obligationDetails,
-                relatedSemanticKeys,
-              };
-            });
+          const validatedEntities = tracker.validate(
+            'entity',
+            RawEntityItemSchema,
+            entities.map(e => toRawEntity(e, batchNumber, pageNumbers))
+          );
+          const validatedEvents = tracker.validate(
+            'timelineEvent',
+            RawTimelineEventItemSchema,
+            timelineEvents.map(toRawTimelineEvent)
+          );
+          const validatedRisks = tracker.validate(
+            'risk',
+            RawRiskItemSchema,
+            risks.map(toRawRisk)
+          );
+          const invalid = [
+            ...validatedEntities.invalid,
+            ...validatedEvents.invalid,
+            ...validatedRisks.invalid,
+          ];
 
+          // 1. Processar entidades
+          const rawEntities: RawExtractedEntity[] = validatedEntities.valid;
+          if (rawEntities.length > 0) {
             const unificationResult = await unificationService.unifyEntities(
               documentId,
               rawEntities
@@ -307,84 +441,26 @@ O serviço irá automaticamente:
             // Atualizar mapa de entidades
             for (const entity of unificationResult.entities) {
               entityMap.set(entity.semanticKey, entity.id);
+              results.entityKeys.push({
+                type: entity.type,
+                semanticKey: entity.semanticKey,
+                name: entity.name,
+              });
             }
           }
 
           // 2. Processar eventos do timeline
-          if (timelineEvents.length > 0) {
-            const rawEvents: RawTimelineEvent[] = timelineEvents.map(e => {
-              let tags: string[] = [];
-              try {
-                const tagsStr = e.tagsJson || '[]';
-                if (tagsStr && tagsStr !== '' && tagsStr !== '[]') {
-                  tags = JSON.parse(tagsStr);
-                }
-              } catch { /* ignore */ }
-
-              let linkedPenaltyKeys: string[] | undefined;
-              if (e.linkedPenaltyKeysJson && e.linkedPenaltyKeysJson !== '' && e.linkedPenaltyKeysJson !== '[]') {
-                try {
-                  linkedPenaltyKeys = JSON.parse(e.linkedPenaltyKeysJson);
-                } catch { /* ignore */ }
-              }
-
-              let linkedRequirementKeys: string[] | undefined;
-              if (e.linkedRequirementKeysJson && e.linkedRequirementKeysJson !== '' && e.linkedRequirementKeysJson !== '[]') {
-                try {
-                  linkedRequirementKeys = JSON.parse(e.linkedRequirementKeysJson);
-                } catch { /* ignore */ }
-              }
-
-              let linkedObligationKeys: string[] | undefined;
-              if (e.linkedObligationKeysJson && e.linkedObligationKeysJson !== '' && e.linkedObligationKeysJson !== '[]') {
-                try {
-                  linkedObligationKeys = JSON.parse(e.linkedObligationKeysJson);
-                } catch { /* ignore */ }
-              }
-
-              let linkedRiskKeys: string[] | undefined;
-              if (e.linkedRiskKeysJson && e.linkedRiskKeysJson !== '' && e.linkedRiskKeysJson !== '[]') {
-                try {
-                  linkedRiskKeys = JSON.parse(e.linkedRiskKeysJson);
-                } catch { /* ignore */ }
-              }
-
-              let relativeTo: RawTimelineEvent['relativeTo'];
-              if (e.relativeToJson && e.relativeToJson !== '' && e.relativeToJson !== '{}') {
-                try {
-                  relativeTo = JSON.parse(e.relativeToJson);
-                } catch { /* ignore */ }
-              }
-
-              return {
-                dateRaw: e.dateRaw,
-                dateType: e.dateType as 'FIXED' | 'RELATIVE' | 'RANGE',
-                dateNormalized: e.dateNormalized || undefined,
-                eventType: e.eventType,
-                title: e.title,
-                description: e.description,
-                importance: e.importance as ImportanceLevel,
-                actionRequired: e.actionRequired || undefined,
-                tags,
-                relativeTo,
-                linkedPenaltyKeys,
-                linkedRequirementKeys,
-                linkedObligationKeys,
-                linkedRiskKeys,
-                sourceSemanticKey: e.sourceSemanticKey,
-                pageNumber: e.pageNumber,
-                excerpt: e.excerpt,
-                confidence: e.confidence,
-              };
-            });
-
+          const rawEvents: RawTimelineEvent[] = validatedEvents.valid;
+          if (rawEvents.length > 0) {
             const createdEvents = await timelineService.processTimelineEvents(
               documentId,
               rawEvents,
-              entityMap
+              entityMap,
+              batchNumber
             );
 
             results.timelineEventsCreated = createdEvents.length;
+            results.timelineEventKeys = [...new Set(rawEvents.map(e => e.sourceSemanticKey))];
 
             // Atualizar mapa de timeline
             for (const event of createdEvents) {
@@ -393,62 +469,26 @@ O serviço irá automaticamente:
           }
 
           // 3. Processar riscos
-          if (risks.length > 0) {
-            const rawRisks: RawRisk[] = risks.map(r => {
-              let mitigation: RawRisk['mitigation'];
-              if (r.mitigationJson && r.mitigationJson !== '' && r.mitigationJson !== '{}') {
-                try {
-                  mitigation = JSON.parse(r.mitigationJson);
-                } catch { /* ignore */ }
-              }
-
-              let linkedEntityKeys: string[] | undefined;
-              if (r.linkedEntityKeysJson && r.linkedEntityKeysJson !== '' && r.linkedEntityKeysJson !== '[]') {
-                try {
-                  linkedEntityKeys = JSON.parse(r.linkedEntityKeysJson);
-                } catch { /* ignore */ }
-              }
-
-              let linkedTimelineKeys: string[] | undefined;
-              if (r.linkedTimelineKeysJson && r.linkedTimelineKeysJson !== '' && r.linkedTimelineKeysJson !== '[]') {
-                try {
-                  linkedTimelineKeys = JSON.parse(r.linkedTimelineKeysJson);
-                } catch { /* ignore */ }
-              }
-
-              return {
-                category: r.category,
-                subcategory: r.subcategory || undefined,
-                title: r.title,
-                description: r.description,
-                trigger: r.trigger,
-                consequence: r.consequence,
-                severity: r.severity as ImportanceLevel,
-                probability: r.probability as ProbabilityLevel,
-                mitigation,
-                linkedEntityKeys,
-                linkedTimelineKeys,
-                pageNumber: r.pageNumber,
-                excerpt: r.excerpt,
-                confidence: r.confidence,
-              };
-            });
-
+          const rawRisks: RawRisk[] = validatedRisks.valid;
+          if (rawRisks.length > 0) {
             const createdRisks = await riskService.processRisks(
               documentId,
               rawRisks,
               entityMap,
-              timelineMap
+              timelineMap,
+              batchNumber
             );
 
             results.risksCreated = createdRisks.length;
+            results.riskKeys = createdRisks.map(r => ({ category: r.category, title: r.title }));
           }
 
-          console.log(`   📊 Batch ${batchNumber}: ${results.entitiesCreated} entidades, ${results.timelineEventsCreated} timeline, ${results.risksCreated} riscos`);
+          console.log(`   📊 Batch ${batchNumber}: ${results.entitiesCreated} entidades, ${results.timelineEventsCreated} timeline, ${results.risksCreated} riscos${invalid.length > 0 ? `, ${invalid.length} item(ns) rejeitado(s)` : ''}`);
 
           return {
             success: true,
             ...results,
+            ...describeInvalid(invalid, 'saveExtractionResults'),
           };
         } catch (error) {
           console.error('Erro ao salvar resultados:', error);
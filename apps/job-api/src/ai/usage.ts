@@ -0,0 +1,62 @@
+import type { LanguageModelV1Middleware, LanguageModelV1StreamPart } from 'ai';
+import { getUsageService } from '../services/usage.js';
+import type { LanguageModelStage } from './providers.js';
+
+/**
+ * A quem atribuir o uso de uma chamada
+ */
+export interface UsageContext {
+  /** Ausente no chat da biblioteca (uso só da organização) */
+  documentId?: string;
+  organizationId?: string;
+  batchNumber?: number;
+  conversationId?: string;
+}
+
+/**
+ * Middleware que registra tokens e latência de cada chamada ao modelo
+ * (um registro por passo do generateText; no stream, ao receber o `finish`)
+ */
+export function createUsageMiddleware(
+  stage: LanguageModelStage,
+  model: string,
+  context: UsageContext
+): LanguageModelV1Middleware {
+  const record = (usage: { promptTokens: number; completionTokens: number }, startedAt: number) =>
+    getUsageService().record({
+      ...context,
+      stage,
+      model,
+      inputTokens: usage.promptTokens,
+      outputTokens: usage.completionTokens,
+      latencyMs: Date.now() - startedAt,
+    });
+
+  return {
+    wrapGenerate: async ({ doGenerate }) => {
+      const startedAt = Date.now();
+      const result = await doGenerate();
+      await record(result.usage, startedAt);
+      return result;
+    },
+
+    wrapStream: async ({ doStream }) => {
+      const startedAt = Date.now();
+      const { stream, ...rest } = await doStream();
+
+      return {
+        ...rest,
+        stream: stream.pipeThrough(
+          new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+            async transform(part, controller) {
+              if (part.type === 'finish') {
+                await record(part.usage, startedAt);
+              }
+              controller.enqueue(part);
+            },
+          })
+        ),
+      };
+    },
+  };
+}
@@ -0,0 +1,407 @@
+import { z } from 'zod';
+import type {
+  CertidaoTecnicaMetadata,
+  DocumentacaoMetadata,
+  EntityType,
+  ExtractionItemKind,
+  InvalidExtractionItem,
+  MultaMetadata,
+  PrazoMetadata,
+  RawDocumentSection,
+  RawExtractedEntity,
+  RawRisk,
+  RawTimelineEvent,
+  RegraEntregaMetadata,
+  RequisitoMetadata,
+  RiscoMetadata,
+} from '../types/entities.js';
+
+/**
+ * Rodadas de correção dos itens inválidos devolvidos ao modelo (0 = quarentena direta)
+ */
+export function getRepairRounds(): number {
+  return Math.max(0, parseInt(process.env.EXTRACTION_REPAIR_ROUNDS || '2', 10) || 0);
+}
+
+// ============================================================================
+// SCHEMAS BÁSICOS
+// ============================================================================
+
+const NonEmptyString = z.string().trim().min(1, 'Obrigatório (não pode ser vazio)');
+
+const IsoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use o formato AAAA-MM-DD')
+  .refine(value => !isNaN(Date.parse(value)), 'Data inexistente');
+
+/** AAAA-MM-DD com horário opcional (ISO) */
+const IsoDateTimeSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/, 'Use AAAA-MM-DD ou ISO 8601')
+  .refine(value => !isNaN(Date.parse(value)), 'Data inexistente');
+
+const PageNumberSchema = z.number().int('Deve ser inteiro').positive('Deve ser maior que zero');
+const LineNumberSchema = z.number().int('Deve ser inteiro').positive('Deve ser maior que zero');
+const ConfidenceSchema = z.number().min(0, 'Entre 0 e 1').max(1, 'Entre 0 e 1');
+
+const EntityTypeSchema = z.enum([
+  'PRAZO',
+  'DATA',
+  'OBRIGACAO',
+  'REQUISITO',
+  'MULTA',
+  'SANCAO',
+  'RISCO',
+  'REGRA_ENTREGA',
+  'CERTIDAO_TECNICA',
+  'DOCUMENTACAO',
+  'OUTRO',
+]);
+
+const SectionLevelSchema = z.enum(['CHAPTER', 'SECTION', 'CLAUSE', 'SUBCLAUSE', 'ITEM']);
+const ImportanceLevelSchema = z.enum(['CRITICAL', 'HIGH', 'MEDIUM', 'LOW']);
+const ProbabilityLevelSchema = z.enum(['CERTAIN', 'LIKELY', 'POSSIBLE', 'UNLIKELY']);
+const ResponsiblePartySchema = z.enum(['LICITANTE', 'ORGAO', 'AMBOS']);
+const TimeUnitSchema = z.enum(['DAYS', 'BUSINESS_DAYS', 'MONTHS']);
+
+const RelationshipSchema = z.enum([
+  'DEPENDS_ON',
+  'TRIGGERS',
+  'SAME_DATE',
+  'SAME_VALUE',
+  'PREREQUISITE',
+  'CONSEQUENCE',
+  'PENALTY_FOR',
+  'REQUIRED_BY',
+]);
+
+/** TIPO:CONTEXTO:IDENTIFICADOR */
+const SemanticKeySchema = z
+  .string()
+  .regex(/^[A-Z_]+:[^:\s]+:\S+$/, 'Use o formato TIPO:CONTEXTO:IDENTIFICADOR, sem espaços');
+
+// ============================================================================
+// METADADOS POR TIPO
+// ============================================================================
+
+const PrazoMetadataSchema: z.ZodType<PrazoMetadata> = z
+  .object({
+    dataInicio: IsoDateSchema.optional(),
+    dataFim: IsoDateSchema.optional(),
+    horaLimite: z.string().regex(/^\d{2}:\d{2}$/, 'Use HH:MM').optional(),
+    tipoEvento: NonEmptyString,
+    diasUteis: z.boolean().optional(),
+    duracaoDias: z.number().int().nonnegative().optional(),
+  })
+  .strict();
+
+const MultaMetadataSchema: z.ZodType<MultaMetadata> = z
+  .object({
+    percentual: z.number().nonnegative().optional(),
+    valorFixo: z.number().nonnegative().optional(),
+    tipoInfracao: NonEmptyString,
+    baseCalculo: z.string().optional(),
+    condicaoAplicacao: z.string().optional(),
+  })
+  .strict();
+
+const RequisitoMetadataSchema: z.ZodType<RequisitoMetadata> = z
+  .object({
+    categoria: z.enum(['TECNICO', 'HABILITACAO', 'FISCAL', 'JURIDICO', 'ECONOMICO', 'OUTRO']),
+    obrigatorio: z.boolean(),
+    itemRelacionado: z.string().optional(),
+    especificacao: z.string().optional(),
+  })
+  .strict();
+
+const RegraEntregaMetadataSchema: z.ZodType<RegraEntregaMetadata> = z
+  .object({
+    localEntrega: z.string().optional(),
+    prazoEntrega: z.string().optional(),
+    condicoesTransporte: z.string().optional(),
+    embalagem: z.string().optional(),
+    horarioRecebimento: z.string().optional(),
+  })
+  .strict();
+
+const RiscoMetadataSchema: z.ZodType<RiscoMetadata> = z
+  .object({
+    tipoRisco: z.enum(['SANCAO', 'IMPEDIMENTO', 'PENALIDADE', 'DESCLASSIFICACAO', 'OUTRO']),
+    gravidade: z.enum(['BAIXA', 'MEDIA', 'ALTA', 'CRITICA']),
+    condicaoAtivacao: z.string().optional(),
+  })
+  .strict();
+
+const CertidaoTecnicaMetadataSchema: z.ZodType<CertidaoTecnicaMetadata> = z
+  .object({
+    tipoCertidao: NonEmptyString,
+    emissor: z.string().optional(),
+    validadeMinima: z.string().optional(),
+    quantidadeMinima: z.number().nonnegative().optional(),
+    descricaoExigencia: z.string().optional(),
+  })
+  .strict();
+
+const DocumentacaoMetadataSchema: z.ZodType<DocumentacaoMetadata> = z
+  .object({
+    tipoDocumento: z.enum(['DECLARACAO', 'CERTIDAO', 'ATESTADO', 'CONTRATO_SOCIAL', 'PROCURACAO', 'OUTRO']),
+    prazoValidade: z.string().optional(),
+    emissor: z.string().optional(),
+    finalidade: z.string().optional(),
+  })
+  .strict();
+
+/**
+ * Metadados exigidos por tipo; os demais tipos aceitam um objeto livre
+ */
+const METADATA_SCHEMAS: Partial<Record<EntityType, z.ZodTypeAny>> = {
+  PRAZO: PrazoMetadataSchema,
+  MULTA: MultaMetadataSchema,
+  REQUISITO: RequisitoMetadataSchema,
+  REGRA_ENTREGA: RegraEntregaMetadataSchema,
+  RISCO: RiscoMetadataSchema,
+  CERTIDAO_TECNICA: CertidaoTecnicaMetadataSchema,
+  DOCUMENTACAO: DocumentacaoMetadataSchema,
+};
+
+// ============================================================================
+// ITENS EXTRAÍDOS
+// ============================================================================
+
+/** lineEnd não pode vir antes de lineStart */
+function checkLineRange(
+  item: { lineStart?: number; lineEnd?: number },
+  ctx: z.RefinementCtx
+): void {
+  if (item.lineStart !== undefined && item.lineEnd !== undefined && item.lineEnd < item.lineStart) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['lineEnd'], message: 'Deve ser maior ou igual a lineStart' });
+  }
+}
+
+export const RawEntityItemSchema: z.ZodType<RawExtractedEntity> = z
+  .object({
+    type: EntityTypeSchema,
+    name: NonEmptyString,
+    rawValue: NonEmptyString,
+    semanticKey: SemanticKeySchema,
+    metadata: z.record(z.unknown()),
+    confidence: ConfidenceSchema,
+    pageNumber: PageNumberSchema,
+    pageId: z.string(),
+    lineStart: LineNumberSchema.optional(),
+    lineEnd: LineNumberSchema.optional(),
+    sectionId: z.string().optional(),
+    sectionTitle: z.string().optional(),
+    excerptText: NonEmptyString,
+    obligationDetails: z
+      .object({
+        action: NonEmptyString,
+        responsible: ResponsiblePartySchema,
+        mandatory: z.boolean(),
+        linkedDeadlineKey: SemanticKeySchema.optional(),
+      })
+      .strict()
+      .optional(),
+    relatedSemanticKeys: z
+      .array(z.object({ semanticKey: SemanticKeySchema, relationship: RelationshipSchema }).strict())
+      .optional(),
+  })
+  .strict()
+  .superRefine((entity, ctx) => {
+    checkLineRange(entity, ctx);
+
+    if (!entity.semanticKey.startsWith(`${entity.type}:`)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['semanticKey'],
+        message: `Deve começar com o tipo da entidade (${entity.type}:)`,
+      });
+    }
+
+    if (entity.type === 'OBRIGACAO' && !entity.obligationDetails) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['obligationDetails'],
+        message: 'Obrigatório para OBRIGACAO (action, responsible, mandatory)',
+      });
+    }
+
+    const metadataSchema = METADATA_SCHEMAS[entity.type];
+    if (metadataSchema) {
+      const result = metadataSchema.safeParse(entity.metadata);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({ ...issue, path: ['metadata', ...issue.path] });
+        }
+      }
+    }
+  });
+
+export const RawSectionItemSchema: z.ZodType<RawDocumentSection> = z
+  .object({
+    level: SectionLevelSchema,
+    title: NonEmptyString,
+    number: z.string().optional(),
+    summary: z.string().optional(),
+    parentNumber: z.string().optional(),
+    pageNumber: PageNumberSchema,
+    lineStart: LineNumberSchema.optional(),
+    lineEnd: LineNumberSchema.optional(),
+  })
+  .strict()
+  .superRefine(checkLineRange);
+
+export const RawTimelineEventItemSchema: z.ZodType<RawTimelineEvent> = z
+  .object({
+    dateRaw: NonEmptyString,
+    dateType: z.enum(['FIXED', 'RELATIVE', 'RANGE']),
+    dateNormalized: IsoDateTimeSchema.optional(),
+    eventType: NonEmptyString,
+    title: NonEmptyString,
+    description: z.string(),
+    importance: ImportanceLevelSchema,
+    actionRequired: z.string().optional(),
+    tags: z.array(z.string()),
+    relativeTo: z
+      .object({
+        eventSemanticKey: SemanticKeySchema,
+        offset: z.number().int('Deve ser inteiro').nonnegative(),
+        unit: TimeUnitSchema,
+        direction: z.enum(['BEFORE', 'AFTER']),
+      })
+      .strict()
+      .optional(),
+    linkedPenaltyKeys: z.array(SemanticKeySchema).optional(),
+    linkedRequirementKeys: z.array(SemanticKeySchema).optional(),
+    linkedObligationKeys: z.array(SemanticKeySchema).optional(),
+    linkedRiskKeys: z.array(z.string()).optional(),
+    sourceSemanticKey: SemanticKeySchema,
+    pageNumber: PageNumberSchema,
+    excerpt: NonEmptyString,
+    confidence: ConfidenceSchema,
+  })
+  .strict();
+
+export const RawRiskItemSchema: z.ZodType<RawRisk> = z
+  .object({
+    category: NonEmptyString,
+    subcategory: z.string().optional(),
+    title: NonEmptyString,
+    description: NonEmptyString,
+    trigger: NonEmptyString,
+    consequence: NonEmptyString,
+    severity: ImportanceLevelSchema,
+    probability: ProbabilityLevelSchema,
+    mitigation: z
+      .object({
+        action: NonEmptyString,
+        deadline: z.string().optional(),
+        cost: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    linkedEntityKeys: z.array(SemanticKeySchema).optional(),
+    linkedTimelineKeys: z.array(z.string()).optional(),
+    pageNumber: PageNumberSchema,
+    excerpt: NonEmptyString,
+    confidence: ConfidenceSchema,
+  })
+  .strict();
+
+// ============================================================================
+// VALIDAÇÃO E ACOMPANHAMENTO DOS INVÁLIDOS
+// ============================================================================
+
+/**
+ * Campo `*Json` enviado pelo modelo: vazio vira `empty`; JSON malformado vira erro
+ */
+export function parseJsonField<T>(
+  raw: string,
+  field: string,
+  empty: T | undefined,
+  errors: string[]
+): T | undefined {
+  const trimmed = raw.trim();
+  if (trimmed === '' || trimmed === '{}' || trimmed === '[]' || trimmed === 'null') {
+    return empty;
+  }
+
+  try {
+    return JSON.parse(trimmed) as T;
+  } catch {
+    errors.push(`${field}: JSON inválido`);
+    return empty;
+  }
+}
+
+/**
+ * Erros no formato `campo: mensagem`, com o nome do campo como o modelo o
+ * enviou (ex.: `metadata.tipoEvento` vira `metadataJson.tipoEvento`)
+ */
+function formatIssues(error: z.ZodError, args: Record<string, unknown>): string[] {
+  return error.issues.map(issue => {
+    if (issue.path.length === 0) return issue.message;
+
+    const [field, ...rest] = issue.path.map(String);
+    const argName = !(field! in args) && `${field}Json` in args ? `${field}Json` : field;
+    return `${[argName, ...rest].join('.')}: ${issue.message}`;
+  });
+}
+
+/**
+ * Itens rejeitados pela validação que ainda aguardam correção
+ *
+ * A chave identifica o item entre rodadas (semanticKey, número da seção,
+ * título): o item reenviado e válido sai da lista; o que continua inválido
+ * tem os erros atualizados.
+ */
+export class InvalidItemTracker {
+  private pending = new Map<string, InvalidExtractionItem>();
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  get items(): InvalidExtractionItem[] {
+    return [...this.pending.values()];
+  }
+
+  clear(): void {
+    this.pending.clear();
+  }
+
+  /**
+   * Valida os itens de um tipo; devolve os válidos e registra os inválidos
+   * `args` é o item como o modelo enviou (usado no prompt de correção)
+   */
+  validate<T>(
+    kind: ExtractionItemKind,
+    schema: z.ZodType<T>,
+    items: Array<{ key: string; args: Record<string, unknown>; value: unknown; parseErrors: string[] }>
+  ): { valid: T[]; invalid: InvalidExtractionItem[] } {
+    const valid: T[] = [];
+    const invalid: InvalidExtractionItem[] = [];
+
+    for (const { key, args, value, parseErrors } of items) {
+      const id = `${kind}:${key}`;
+      const result = schema.safeParse(value);
+
+      if (result.success && parseErrors.length === 0) {
+        this.pending.delete(id);
+        valid.push(result.data);
+        continue;
+      }
+
+      const item: InvalidExtractionItem = {
+        kind,
+        key,
+        item: args,
+        errors: [...parseErrors, ...(result.success ? [] : formatIssues(result.error, args))],
+      };
+      this.pending.set(id, item);
+      invalid.push(item);
+    }
+
+    return { valid, invalid };
+  }
+}
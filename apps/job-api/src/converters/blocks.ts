@@ -0,0 +1,137 @@
+/**
+ * Bloco de conteúdo intermediário entre o formato de origem e o PDF renderizado
+ */
+export interface DocumentBlock {
+  kind: 'heading' | 'paragraph' | 'listItem' | 'tableRow';
+
+  /** Texto do bloco (células de tabela separadas por " | ") */
+  text: string;
+
+  /** Nível do título (1-6) ou de aninhamento da lista (1+) */
+  level?: number;
+}
+
+/**
+ * Normaliza espaços em branco de um trecho de texto
+ */
+function normalizeWhitespace(text: string): string {
+  return text.replace(/[\s\u00a0]+/g, ' ').trim();
+}
+
+/**
+ * Acumula texto em blocos à medida que um parser (HTML ou XML) percorre o documento
+ *
+ * Os conversores só precisam indicar onde cada bloco começa e termina;
+ * texto solto entre blocos vira parágrafo.
+ */
+export class BlockCollector {
+  private blocks: DocumentBlock[] = [];
+  private current: { kind: DocumentBlock['kind']; level?: number } | null = null;
+  private buffer = '';
+  private cells: string[] | null = null;
+  private lineBreaks: string[] = [];
+  private marker = '';
+
+  /**
+   * Inicia um bloco, fechando o anterior se ainda estiver aberto
+   * O marcador (ex: "• ", "1. ") prefixa a primeira linha de itens de lista
+   */
+  start(kind: DocumentBlock['kind'], level?: number, marker = ''): void {
+    this.end();
+    this.current = { kind, level };
+    this.marker = marker;
+    this.buffer = marker;
+  }
+
+  /**
+   * Fecha o bloco atual (ou o parágrafo implícito)
+   */
+  end(): void {
+    this.flushLine();
+    const text = this.lineBreaks.join('\n');
+    this.lineBreaks = [];
+
+    if (text.trim() && text.trim() !== this.marker.trim()) {
+      this.blocks.push({
+        kind: this.current?.kind ?? 'paragraph',
+        text,
+        level: this.current?.level,
+      });
+    }
+
+    this.current = null;
+    this.marker = '';
+  }
+
+  /**
+   * Adiciona texto ao bloco atual
+   */
+  text(value: string): void {
+    if (this.cells) {
+      const last = this.cells.length - 1;
+      if (last >= 0) {
+        this.cells[last] += value;
+        return;
+      }
+    }
+    this.buffer += value;
+  }
+
+  /**
+   * Quebra de linha explícita dentro do bloco (<br>, text:line-break)
+   */
+  lineBreak(): void {
+    if (this.cells) {
+      this.text(' ');
+      return;
+    }
+    // Não separa o marcador da lista do seu texto
+    if (this.marker && this.lineBreaks.length === 0 && this.buffer.trim() === this.marker.trim()) {
+      return;
+    }
+    this.flushLine();
+  }
+
+  /**
+   * Inicia uma linha de tabela
+   */
+  startRow(): void {
+    this.start('tableRow');
+    this.cells = [];
+  }
+
+  /**
+   * Inicia uma célula na linha de tabela atual
+   */
+  startCell(): void {
+    if (!this.cells) this.startRow();
+    this.cells?.push('');
+  }
+
+  /**
+   * Fecha a linha de tabela atual
+   */
+  endRow(): void {
+    if (!this.cells) return;
+    const cells = this.cells.map(normalizeWhitespace);
+    while (cells.length > 0 && !cells[cells.length - 1]) cells.pop();
+    this.cells = null;
+    this.buffer = cells.some(Boolean) ? cells.join(' | ') : '';
+    this.end();
+  }
+
+  /**
+   * Retorna os blocos coletados
+   */
+  finish(): DocumentBlock[] {
+    this.endRow();
+    this.end();
+    return this.blocks;
+  }
+
+  private flushLine(): void {
+    const line = normalizeWhitespace(this.buffer);
+    if (line) this.lineBreaks.push(line);
+    this.buffer = '';
+  }
+}
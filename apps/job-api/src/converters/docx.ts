@@ -0,0 +1,20 @@
+import mammoth from 'mammoth';
+import { htmlToBlocks } from './html.js';
+import type { DocumentBlock } from './blocks.js';
+
+/**
+ * Converte DOCX em blocos
+ *
+ * O mammoth gera HTML semântico (títulos, listas, tabelas) a partir dos
+ * estilos do Word; o restante reaproveita o conversor de HTML.
+ */
+export async function docxToBlocks(buffer: Buffer): Promise<DocumentBlock[]> {
+  const result = await mammoth.convertToHtml({ buffer });
+
+  const warnings = result.messages.filter(m => m.type === 'warning');
+  if (warnings.length > 0) {
+    console.warn(`   ⚠️  DOCX: ${warnings.length} aviso(s) na conversão`);
+  }
+
+  return htmlToBlocks(result.value);
+}
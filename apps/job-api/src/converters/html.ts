@@ -0,0 +1,156 @@
+import { Parser } from 'htmlparser2';
+import { BlockCollector, type DocumentBlock } from './blocks.js';
+
+/**
+ * Tags cujo conteúdo não é texto do documento
+ */
+const IGNORED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg', 'iframe']);
+
+/**
+ * Tags que delimitam parágrafos
+ */
+const PARAGRAPH_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside',
+  'blockquote', 'pre', 'address', 'figcaption', 'dt', 'dd', 'caption',
+]);
+
+const HEADING_TAGS: Record<string, number> = {
+  h1: 1, h2: 2, h3: 3, h4: 4, h5: 5, h6: 6,
+};
+
+/**
+ * Charset declarado no HTML: `<meta charset>` ou `<meta http-equiv="Content-Type">`
+ * (procurado só no início do arquivo, onde a declaração deve estar)
+ */
+const META_CHARSET = /<meta[^>]+charset\s*=\s*["']?\s*([\w:.-]+)/i;
+
+/**
+ * Caracteres do windows-1252 na faixa 0x80–0x9F (travessão, aspas curvas, €...);
+ * o TextDecoder do Node decodifica essa faixa como controles do latin1
+ */
+const WINDOWS_1252_C1 = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+
+function decodeWindows1252(buffer: Buffer): string {
+  return buffer
+    .toString('latin1')
+    .replace(/[\u0080-\u009f]/g, char => WINDOWS_1252_C1[char.charCodeAt(0) - 0x80] ?? char);
+}
+
+/**
+ * Decodifica o arquivo HTML no charset certo
+ *
+ * Páginas salvas de portais do governo costumam vir em windows-1252/ISO-8859-1.
+ * Ordem: BOM, charset declarado, UTF-8 válido e, por último, windows-1252.
+ */
+export function decodeHtml(buffer: Buffer): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(buffer);
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(buffer);
+  }
+
+  const declared = META_CHARSET.exec(buffer.subarray(0, 2048).toString('latin1'))?.[1];
+  if (declared) {
+    try {
+      const decoder = new TextDecoder(declared);
+      // Pela especificação, ISO-8859-1/latin1/ascii também são windows-1252
+      return decoder.encoding === 'windows-1252' ? decodeWindows1252(buffer) : decoder.decode(buffer);
+    } catch {
+      // Charset desconhecido: segue para a detecção
+    }
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return decodeWindows1252(buffer);
+  }
+}
+
+/**
+ * Converte HTML (páginas salvas de portais ou saída do mammoth) em blocos
+ */
+export function htmlToBlocks(html: string): DocumentBlock[] {
+  const collector = new BlockCollector();
+  const lists: Array<{ ordered: boolean; counter: number }> = [];
+  let ignoredDepth = 0;
+  let listItemDepth = 0;
+  let cellDepth = 0;
+
+  const parser = new Parser(
+    {
+      onopentag(name) {
+        if (IGNORED_TAGS.has(name)) {
+          ignoredDepth++;
+          return;
+        }
+        if (ignoredDepth > 0) return;
+
+        if (HEADING_TAGS[name] && cellDepth === 0) {
+          collector.start('heading', HEADING_TAGS[name]);
+        } else if (name === 'ul' || name === 'ol') {
+          lists.push({ ordered: name === 'ol', counter: 0 });
+        } else if (name === 'li') {
+          const list = lists[lists.length - 1];
+          if (list) list.counter++;
+          collector.start(
+            'listItem',
+            Math.max(1, lists.length),
+            list?.ordered ? `${list.counter}. ` : '• '
+          );
+          listItemDepth++;
+        } else if (name === 'tr') {
+          collector.startRow();
+        } else if (name === 'td' || name === 'th') {
+          collector.startCell();
+          cellDepth++;
+        } else if (name === 'br') {
+          collector.lineBreak();
+        } else if (PARAGRAPH_TAGS.has(name)) {
+          // Parágrafos dentro de itens de lista ou células continuam no mesmo bloco
+          if (listItemDepth > 0 || cellDepth > 0) {
+            collector.lineBreak();
+          } else {
+            collector.start('paragraph');
+          }
+        }
+      },
+      ontext(text) {
+        if (ignoredDepth > 0) return;
+        collector.text(text);
+      },
+      onclosetag(name) {
+        if (IGNORED_TAGS.has(name)) {
+          ignoredDepth = Math.max(0, ignoredDepth - 1);
+          return;
+        }
+        if (ignoredDepth > 0) return;
+
+        if (HEADING_TAGS[name] && cellDepth === 0) {
+          collector.end();
+        } else if (name === 'td' || name === 'th') {
+          cellDepth = Math.max(0, cellDepth - 1);
+        } else if (name === 'ul' || name === 'ol') {
+          lists.pop();
+        } else if (name === 'li') {
+          listItemDepth = Math.max(0, listItemDepth - 1);
+          collector.end();
+        } else if (name === 'tr') {
+          collector.endRow();
+        } else if (PARAGRAPH_TAGS.has(name) && listItemDepth === 0 && cellDepth === 0) {
+          collector.end();
+        }
+      },
+    },
+    { decodeEntities: true, lowerCaseTags: true }
+  );
+
+  parser.write(html);
+  parser.end();
+
+  return collector.finish();
+}
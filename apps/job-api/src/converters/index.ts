@@ -0,0 +1,77 @@
+import path from 'path';
+import { extractPagesFromPDF, type PageContent } from '../utils/pdf-extraction.js';
+import type { SourceFormat } from '../types/index.js';
+import type { DocumentBlock } from './blocks.js';
+import { docxToBlocks } from './docx.js';
+import { odtToBlocks } from './odt.js';
+import { decodeHtml, htmlToBlocks } from './html.js';
+import { csvToBlocks, odsToBlocks, xlsxToBlocks } from './spreadsheet.js';
+import { renderBlocksToPdf } from './pdf-renderer.js';
+
+/**
+ * Resultado da conversão de um documento não-PDF
+ */
+export interface ConvertedDocument {
+  /** PDF renderizado (exibido no viewer) */
+  pdf: Buffer;
+
+  /** Páginas extraídas do PDF renderizado */
+  pages: PageContent[];
+
+  /** Quantidade de blocos (títulos, parágrafos, itens, linhas de tabela) */
+  blockCount: number;
+}
+
+/**
+ * Conversores por formato de origem
+ */
+const CONVERTERS: Record<Exclude<SourceFormat, 'pdf'>, (buffer: Buffer) => Promise<DocumentBlock[]>> = {
+  docx: docxToBlocks,
+  odt: odtToBlocks,
+  html: async (buffer) => htmlToBlocks(decodeHtml(buffer)),
+  xlsx: xlsxToBlocks,
+  ods: odsToBlocks,
+  csv: csvToBlocks,
+};
+
+const EXTENSION_FORMATS: Record<string, SourceFormat> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.odt': 'odt',
+  '.html': 'html',
+  '.htm': 'html',
+  '.xlsx': 'xlsx',
+  '.ods': 'ods',
+  '.csv': 'csv',
+};
+
+/**
+ * Identifica o formato pela extensão do arquivo (ou da chave no S3)
+ * Retorna null para formatos não suportados
+ */
+export function detectSourceFormat(filename: string): SourceFormat | null {
+  return EXTENSION_FORMATS[path.extname(filename).toLowerCase()] ?? null;
+}
+
+/**
+ * Converte DOCX/ODT/HTML/planilhas em PDF paginado + PageContent[]
+ *
+ * As páginas são extraídas do próprio PDF renderizado, então o restante do
+ * pipeline (batches, entidades, timeline, RAG) funciona sem alterações.
+ */
+export async function convertToPdf(
+  buffer: Buffer,
+  format: Exclude<SourceFormat, 'pdf'>,
+  title: string
+): Promise<ConvertedDocument> {
+  const blocks = await CONVERTERS[format](buffer);
+
+  if (blocks.length === 0) {
+    throw new Error(`Nenhum texto encontrado no arquivo ${format.toUpperCase()}`);
+  }
+
+  const pdf = await renderBlocksToPdf(blocks, title);
+  const pages = await extractPagesFromPDF(pdf);
+
+  return { pdf, pages, blockCount: blocks.length };
+}
@@ -0,0 +1,121 @@
+import JSZip from 'jszip';
+import { Parser } from 'htmlparser2';
+import { BlockCollector, type DocumentBlock } from './blocks.js';
+
+/**
+ * Elementos do ODF que não fazem parte do texto corrido
+ */
+const IGNORED_TAGS = new Set([
+  'office:annotation',
+  'text:tracked-changes',
+  'text:sequence-decls',
+  'office:automatic-styles',
+  'office:font-face-decls',
+]);
+
+/**
+ * Converte ODT (OpenDocument Text) em blocos a partir do content.xml
+ */
+export async function odtToBlocks(buffer: Buffer): Promise<DocumentBlock[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const content = zip.file('content.xml');
+
+  if (!content) {
+    throw new Error('Arquivo ODT inválido: content.xml não encontrado');
+  }
+
+  const xml = await content.async('string');
+  const collector = new BlockCollector();
+  let ignoredDepth = 0;
+  let listDepth = 0;
+  let listItemDepth = 0;
+  let cellDepth = 0;
+
+  const parser = new Parser(
+    {
+      onopentag(name, attributes) {
+        if (IGNORED_TAGS.has(name)) {
+          ignoredDepth++;
+          return;
+        }
+        if (ignoredDepth > 0) return;
+
+        switch (name) {
+          case 'text:h':
+            if (cellDepth === 0) {
+              collector.start('heading', parseInt(attributes['text:outline-level'] || '1', 10));
+            }
+            break;
+          case 'text:p':
+            // Parágrafos dentro de itens de lista ou células continuam no mesmo bloco
+            if (cellDepth > 0 || listItemDepth > 0) {
+              collector.lineBreak();
+            } else {
+              collector.start('paragraph');
+            }
+            break;
+          case 'text:list':
+            listDepth++;
+            break;
+          case 'text:list-item':
+            collector.start('listItem', Math.max(1, listDepth), '• ');
+            listItemDepth++;
+            break;
+          case 'table:table-row':
+            collector.startRow();
+            break;
+          case 'table:table-cell':
+            collector.startCell();
+            cellDepth++;
+            break;
+          case 'text:s':
+            collector.text(' '.repeat(parseInt(attributes['text:c'] || '1', 10)));
+            break;
+          case 'text:tab':
+            collector.text('\t');
+            break;
+          case 'text:line-break':
+            collector.lineBreak();
+            break;
+        }
+      },
+      ontext(text) {
+        if (ignoredDepth > 0) return;
+        collector.text(text);
+      },
+      onclosetag(name) {
+        if (IGNORED_TAGS.has(name)) {
+          ignoredDepth = Math.max(0, ignoredDepth - 1);
+          return;
+        }
+        if (ignoredDepth > 0) return;
+
+        switch (name) {
+          case 'text:h':
+          case 'text:p':
+            if (cellDepth === 0 && listItemDepth === 0) collector.end();
+            break;
+          case 'text:list':
+            listDepth = Math.max(0, listDepth - 1);
+            break;
+          case 'text:list-item':
+            listItemDepth = Math.max(0, listItemDepth - 1);
+            collector.end();
+            break;
+          case 'table:table-cell':
+            cellDepth = Math.max(0, cellDepth - 1);
+            break;
+          case 'table:table-row':
+            collector.endRow();
+            break;
+        }
+      },
+    },
+    { xmlMode: true, decodeEntities: true }
+  );
+
+  parser.write(xml);
+  parser.end();
+
+  return collector.finish();
+}
@@ -0,0 +1,95 @@
+import PDFKitDocument from 'pdfkit';
+import type { DocumentBlock } from './blocks.js';
+
+/**
+ * Tamanho da fonte por nível de título
+ */
+const HEADING_FONT_SIZES = [16, 14, 13, 12, 11, 11];
+
+const BODY_FONT_SIZE = 10.5;
+
+/**
+ * Caracteres comuns fora do WinAnsi (fontes padrão do PDF) que teriam
+ * o glifo perdido na renderização e, portanto, no texto extraído depois
+ */
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  '≤': '<=',
+  '≥': '>=',
+  '≠': '!=',
+  '\u2212': '-',
+  '\u2010': '-',
+  '\u2011': '-',
+  '\u200b': '',
+  '\ufeff': '',
+  '✓': 'x',
+  '✔': 'x',
+  '☐': '[ ]',
+  '☒': '[x]',
+};
+
+const REPLACEMENT_PATTERN = new RegExp(`[${Object.keys(CHARACTER_REPLACEMENTS).join('')}]`, 'g');
+
+function sanitizeText(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(REPLACEMENT_PATTERN, char => CHARACTER_REPLACEMENTS[char] ?? char);
+}
+
+/**
+ * Renderiza os blocos em um PDF A4 paginado
+ *
+ * O PDF gerado é o que o viewer exibe e também a fonte do texto por página:
+ * extrair as páginas dele garante que pageNumber e linhas coincidam com o
+ * que o usuário vê.
+ */
+export function renderBlocksToPdf(blocks: DocumentBlock[], title: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFKitDocument({
+      size: 'A4',
+      compress: false,
+      margins: { top: 56, bottom: 56, left: 62, right: 62 },
+      info: { Title: title, Producer: 'job-api' },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const contentWidth = doc.page.width - left - doc.page.margins.right;
+
+    for (const block of blocks) {
+      const text = sanitizeText(block.text);
+      doc.x = left;
+
+      switch (block.kind) {
+        case 'heading': {
+          const size = HEADING_FONT_SIZES[(block.level ?? 1) - 1] ?? BODY_FONT_SIZE;
+          doc.moveDown(0.6);
+          doc.font('Helvetica-Bold').fontSize(size).text(text, { width: contentWidth, align: 'left' });
+          doc.moveDown(0.3);
+          break;
+        }
+        case 'listItem': {
+          const indent = 14 * Math.max(1, block.level ?? 1);
+          doc.font('Helvetica').fontSize(BODY_FONT_SIZE).text(text, left + indent, undefined, {
+            width: contentWidth - indent,
+            align: 'left',
+          });
+          doc.moveDown(0.2);
+          break;
+        }
+        case 'tableRow':
+          doc.font('Helvetica').fontSize(BODY_FONT_SIZE - 1).text(text, { width: contentWidth, align: 'left' });
+          doc.moveDown(0.2);
+          break;
+        default:
+          doc.font('Helvetica').fontSize(BODY_FONT_SIZE).text(text, { width: contentWidth, align: 'justify' });
+          doc.moveDown(0.5);
+      }
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,345 @@
+import JSZip from 'jszip';
+import { Parser } from 'htmlparser2';
+import { BlockCollector, type DocumentBlock } from './blocks.js';
+
+/**
+ * Limite de linhas por aba (planilhas de preços podem ter milhares de linhas
+ * vazias ou repetidas; o excedente é descartado)
+ */
+const MAX_ROWS_PER_SHEET = 5000;
+
+/**
+ * Aba da planilha: nome + linhas já como lista de células
+ */
+interface Sheet {
+  name: string;
+  rows: string[][];
+}
+
+/**
+ * Converte as abas em blocos: título com o nome da aba + uma linha de tabela por linha
+ */
+function sheetsToBlocks(sheets: Sheet[]): DocumentBlock[] {
+  const collector = new BlockCollector();
+
+  for (const sheet of sheets) {
+    const rows = sheet.rows.filter(row => row.some(cell => cell.trim()));
+    if (rows.length === 0) continue;
+
+    collector.start('heading', 2);
+    collector.text(sheet.name);
+    collector.end();
+
+    if (rows.length > MAX_ROWS_PER_SHEET) {
+      console.warn(`   ⚠️  Aba "${sheet.name}": ${rows.length} linhas, mantendo ${MAX_ROWS_PER_SHEET}`);
+    }
+
+    for (const row of rows.slice(0, MAX_ROWS_PER_SHEET)) {
+      collector.startRow();
+      for (const cell of row) {
+        collector.startCell();
+        collector.text(cell);
+      }
+      collector.endRow();
+    }
+  }
+
+  return collector.finish();
+}
+
+/**
+ * Percorre um XML (modo streaming do htmlparser2)
+ */
+function parseXml(
+  xml: string,
+  handlers: {
+    onopentag?: (name: string, attributes: Record<string, string>) => void;
+    ontext?: (text: string) => void;
+    onclosetag?: (name: string) => void;
+  }
+): void {
+  const parser = new Parser(handlers, { xmlMode: true, decodeEntities: true });
+  parser.write(xml);
+  parser.end();
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Detecta o separador pela primeira linha (planilhas brasileiras costumam usar ";")
+ */
+function detectDelimiter(firstLine: string): string {
+  const candidates = [';', ',', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Faz o parse de CSV com suporte a campos entre aspas
+ */
+function parseCsv(content: string): string[][] {
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Converte CSV em blocos (UTF-8, com fallback para Latin-1 exportado pelo Excel)
+ */
+export async function csvToBlocks(buffer: Buffer): Promise<DocumentBlock[]> {
+  let content = buffer.toString('utf-8');
+  if (content.includes('\uFFFD')) {
+    content = buffer.toString('latin1');
+  }
+  content = content.replace(/^\uFEFF/, '');
+
+  return sheetsToBlocks([{ name: 'Planilha', rows: parseCsv(content) }]);
+}
+
+// ============================================================================
+// ODS
+// ============================================================================
+
+/**
+ * Converte ODS (OpenDocument Spreadsheet) em blocos a partir do content.xml
+ */
+export async function odsToBlocks(buffer: Buffer): Promise<DocumentBlock[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const content = zip.file('content.xml');
+
+  if (!content) {
+    throw new Error('Arquivo ODS inválido: content.xml não encontrado');
+  }
+
+  const xml = await content.async('string');
+  const sheets: Sheet[] = [];
+  let sheet: Sheet | null = null;
+  let row: string[] | null = null;
+  let cell: string | null = null;
+  let paragraphs = 0;
+
+  parseXml(xml, {
+    onopentag(name, attributes) {
+      if (name === 'table:table') {
+        sheet = { name: attributes['table:name'] || `Planilha ${sheets.length + 1}`, rows: [] };
+        sheets.push(sheet);
+      } else if (name === 'table:table-row') {
+        row = [];
+      } else if (name === 'table:table-cell' || name === 'table:covered-table-cell') {
+        cell = '';
+        paragraphs = 0;
+      } else if (name === 'text:p' && cell !== null) {
+        if (paragraphs++ > 0) cell += ' ';
+      } else if (name === 'text:s' && cell !== null) {
+        cell += ' ';
+      }
+    },
+    ontext(text) {
+      if (cell !== null) cell += text;
+    },
+    onclosetag(name) {
+      if ((name === 'table:table-cell' || name === 'table:covered-table-cell') && row && cell !== null) {
+        row.push(cell);
+        cell = null;
+      } else if (name === 'table:table-row' && sheet && row) {
+        sheet.rows.push(row);
+        row = null;
+      }
+    },
+  });
+
+  return sheetsToBlocks(sheets);
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+/**
+ * Converte a referência de coluna (A, B, ..., AA) em índice 0-based
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/g, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return Math.max(0, index - 1);
+}
+
+/**
+ * Lê as strings compartilhadas (xl/sharedStrings.xml)
+ */
+async function readSharedStrings(zip: JSZip): Promise<string[]> {
+  const file = zip.file('xl/sharedStrings.xml');
+  if (!file) return [];
+
+  const strings: string[] = [];
+  let current: string | null = null;
+  let inText = false;
+  let inPhonetic = false;
+
+  parseXml(await file.async('string'), {
+    onopentag(name) {
+      if (name === 'si') current = '';
+      else if (name === 'rPh') inPhonetic = true;
+      else if (name === 't') inText = true;
+    },
+    ontext(text) {
+      if (current !== null && inText && !inPhonetic) current += text;
+    },
+    onclosetag(name) {
+      if (name === 't') inText = false;
+      else if (name === 'rPh') inPhonetic = false;
+      else if (name === 'si' && current !== null) {
+        strings.push(current);
+        current = null;
+      }
+    },
+  });
+
+  return strings;
+}
+
+/**
+ * Lista as abas na ordem do workbook com o caminho de cada worksheet
+ */
+async function readSheetList(zip: JSZip): Promise<Array<{ name: string; path: string }>> {
+  const workbook = zip.file('xl/workbook.xml');
+  const rels = zip.file('xl/_rels/workbook.xml.rels');
+  if (!workbook || !rels) return [];
+
+  const targets = new Map<string, string>();
+  parseXml(await rels.async('string'), {
+    onopentag(name, attributes) {
+      if (name === 'Relationship' && attributes.Id && attributes.Target) {
+        const target = attributes.Target.replace(/^\/?xl\//, '').replace(/^\//, '');
+        targets.set(attributes.Id, `xl/${target}`);
+      }
+    },
+  });
+
+  const sheets: Array<{ name: string; path: string }> = [];
+  parseXml(await workbook.async('string'), {
+    onopentag(name, attributes) {
+      const relationId = attributes['r:id'];
+      if (name === 'sheet' && relationId && targets.has(relationId)) {
+        sheets.push({ name: attributes.name || `Planilha ${sheets.length + 1}`, path: targets.get(relationId)! });
+      }
+    },
+  });
+
+  return sheets;
+}
+
+/**
+ * Converte XLSX em blocos
+ * Valores são lidos como armazenados (fórmulas usam o último valor calculado)
+ */
+export async function xlsxToBlocks(buffer: Buffer): Promise<DocumentBlock[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const sharedStrings = await readSharedStrings(zip);
+  const sheetList = await readSheetList(zip);
+
+  if (sheetList.length === 0) {
+    throw new Error('Arquivo XLSX inválido: nenhuma aba encontrada');
+  }
+
+  const sheets: Sheet[] = [];
+
+  for (const { name, path } of sheetList) {
+    const file = zip.file(path);
+    if (!file) continue;
+
+    const rows: string[][] = [];
+    let row: string[] | null = null;
+    let cell: { column: number; type: string; value: string } | null = null;
+    let inValue = false;
+
+    parseXml(await file.async('string'), {
+      onopentag(tag, attributes) {
+        if (tag === 'row') {
+          row = [];
+        } else if (tag === 'c') {
+          cell = {
+            column: attributes.r ? columnIndex(attributes.r) : (row?.length ?? 0),
+            type: attributes.t || 'n',
+            value: '',
+          };
+        } else if (tag === 'v' || tag === 't') {
+          inValue = true;
+        }
+      },
+      ontext(text) {
+        if (cell && inValue) cell.value += text;
+      },
+      onclosetag(tag) {
+        if (tag === 'v' || tag === 't') {
+          inValue = false;
+        } else if (tag === 'c' && row && cell) {
+          let value = cell.value;
+          if (cell.type === 's') value = sharedStrings[parseInt(value, 10)] ?? '';
+          else if (cell.type === 'b') value = value === '1' ? 'VERDADEIRO' : 'FALSO';
+
+          while (row.length < cell.column) row.push('');
+          row[cell.column] = value;
+          cell = null;
+        } else if (tag === 'row' && row) {
+          rows.push(row);
+          row = null;
+        }
+      },
+    });
+
+    sheets.push({ name, rows });
+  }
+
+  return sheetsToBlocks(sheets);
+}
@@ -0,0 +1,115 @@
+import type { EntityType } from '../types/entities.js';
+import type { EvaluationRun, PrfMetrics } from '../types/eval.js';
+
+/** Variação de F1/acurácia abaixo disso é considerada estável */
+const DIFF_TOLERANCE = 0.005;
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`.padStart(7);
+}
+
+function formatMetricsRow(label: string, metrics: PrfMetrics): string {
+  return [
+    label.padEnd(20),
+    formatPercent(metrics.precision),
+    formatPercent(metrics.recall),
+    formatPercent(metrics.f1),
+    `  (TP ${metrics.truePositives} · FP ${metrics.falsePositives} · FN ${metrics.falseNegatives})`,
+  ].join(' ');
+}
+
+function formatOverall(overall: EvaluationRun['overall']): string[] {
+  const lines = [`${''.padEnd(20)} ${'P'.padStart(7)} ${'R'.padStart(7)} ${'F1'.padStart(7)}`];
+
+  for (const [type, metrics] of Object.entries(overall.byType) as Array<[EntityType, PrfMetrics]>) {
+    lines.push(formatMetricsRow(type, metrics));
+  }
+  if (overall.sections) {
+    lines.push(formatMetricsRow('Seções', overall.sections));
+  }
+
+  const dates = overall.dateNormalization;
+  lines.push(
+    `Normalização de datas: ${formatPercent(dates.accuracy).trim()} (${dates.correct}/${dates.evaluated})`
+  );
+
+  return lines;
+}
+
+/**
+ * Relatório da execução: métricas por edital e gerais
+ */
+export function formatRun(run: EvaluationRun): string {
+  const lines = [
+    `📊 Avaliação ${run.runId} (${run.mode}, ${run.model})`,
+    '',
+  ];
+
+  for (const edital of run.editais) {
+    lines.push(`📄 ${edital.name} (documento ${edital.documentId})`);
+    lines.push(...formatOverall(edital).map(line => `   ${line}`));
+    lines.push('');
+  }
+
+  lines.push('📈 Geral');
+  lines.push(...formatOverall(run.overall).map(line => `   ${line}`));
+
+  return lines.join('\n');
+}
+
+function formatDelta(label: string, current: number | undefined, baseline: number | undefined): string {
+  if (current === undefined) return `   ${label.padEnd(20)} removido (baseline ${formatPercent(baseline!).trim()})`;
+  if (baseline === undefined) return `   ${label.padEnd(20)} novo ${formatPercent(current).trim()}`;
+
+  const delta = current - baseline;
+  const marker = Math.abs(delta) < DIFF_TOLERANCE ? '=' : delta > 0 ? '▲' : '▼';
+  const sign = delta >= 0 ? '+' : '-';
+
+  return `   ${label.padEnd(20)} ${formatPercent(baseline)} → ${formatPercent(current)}  ${marker} ${sign}${(Math.abs(delta) * 100).toFixed(1)}pp`;
+}
+
+/**
+ * Diferença da execução para o baseline (F1 por tipo, seções e normalização de datas)
+ * `regressed` indica queda além da tolerância em alguma métrica
+ */
+export function diffRuns(
+  current: EvaluationRun,
+  baseline: EvaluationRun
+): { report: string; regressed: boolean } {
+  const lines = [`🔍 Comparação com o baseline ${baseline.runId} (${baseline.model})`, '   F1:'];
+  let regressed = false;
+
+  const compare = (label: string, now: number | undefined, before: number | undefined) => {
+    lines.push(formatDelta(label, now, before));
+    if (now !== undefined && before !== undefined && before - now >= DIFF_TOLERANCE) {
+      regressed = true;
+    }
+  };
+
+  const types = new Set([
+    ...Object.keys(current.overall.byType),
+    ...Object.keys(baseline.overall.byType),
+  ]) as Set<EntityType>;
+
+  for (const type of types) {
+    compare(type, current.overall.byType[type]?.f1, baseline.overall.byType[type]?.f1);
+  }
+  if (current.overall.sections || baseline.overall.sections) {
+    compare('Seções', current.overall.sections?.f1, baseline.overall.sections?.f1);
+  }
+  compare(
+    'Datas (acurácia)',
+    current.overall.dateNormalization.accuracy,
+    baseline.overall.dateNormalization.accuracy
+  );
+
+  // Editais que entraram ou saíram mudam o geral sem mudança de qualidade
+  const currentNames = new Set(current.editais.map(e => e.name));
+  const baselineNames = new Set(baseline.editais.map(e => e.name));
+  const added = [...currentNames].filter(name => !baselineNames.has(name));
+  const removed = [...baselineNames].filter(name => !currentNames.has(name));
+  if (added.length > 0) lines.push(`   ⚠️ Editais fora do baseline: ${added.join(', ')}`);
+  if (removed.length > 0) lines.push(`   ⚠️ Editais do baseline não avaliados: ${removed.join(', ')}`);
+
+  return { report: lines.join('\n'), regressed };
+}
@@ -0,0 +1,204 @@
+import 'dotenv/config';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { ObjectId } from 'mongodb';
+import { connectDatabase, closeDatabase, getDatabase } from '../services/database.js';
+import { uploadFile } from '../services/storage.js';
+import { getDocumentStructureService } from '../services/document-structure.js';
+import { getEntityUnificationService } from '../services/entity-unification.js';
+import { processDocument } from '../workers/pdf-processor.js';
+import { detectSourceFormat } from '../converters/index.js';
+import { describeModel } from '../ai/providers.js';
+import { aggregateEvaluations, evaluateEdital } from './scoring.js';
+import { diffRuns, formatRun } from './report.js';
+import { DEFAULT_PROCESSING_CONFIG } from '../types/entities.js';
+import type { PDFDocument } from '../types/index.js';
+import type { EditalEvaluation, EvaluationRun, GoldFile } from '../types/eval.js';
+
+/**
+ * Avaliação da extração contra editais anotados (gold)
+ *
+ * Uso: pnpm eval [--replay | --record] [--save-baseline] [--gold <dir>] [nomes...]
+ *
+ * Para cada eval/gold/*.json, envia o edital ao storage, roda o pipeline
+ * completo (processDocument, sem passar pela fila) e compara entidades e
+ * seções extraídas com as anotações. A execução é salva em eval/runs/ e
+ * comparada com eval/baseline.json; queda de métrica termina com código 1.
+ *
+ * --replay/--record usam as fixtures de IA (AI_FIXTURES_DIR, default
+ * eval/fixtures), então a avaliação roda sem rede depois de gravada.
+ */
+
+const EVAL_DIR = path.resolve('eval');
+const RUNS_DIR = path.join(EVAL_DIR, 'runs');
+const BASELINE_PATH = path.join(EVAL_DIR, 'baseline.json');
+
+interface EvalOptions {
+  mode: EvaluationRun['mode'];
+  saveBaseline: boolean;
+  goldDir: string;
+  names: string[];
+}
+
+function parseArgs(args: string[]): EvalOptions {
+  const options: EvalOptions = {
+    mode: 'live',
+    saveBaseline: false,
+    goldDir: path.join(EVAL_DIR, 'gold'),
+    names: [],
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === '--replay') options.mode = 'replay';
+    else if (arg === '--record') options.mode = 'record';
+    else if (arg === '--save-baseline') options.saveBaseline = true;
+    else if (arg === '--gold') options.goldDir = path.resolve(args[++i] ?? '');
+    else options.names.push(arg);
+  }
+
+  return options;
+}
+
+/**
+ * Arquivos gold do diretório (filtrados pelos nomes pedidos)
+ */
+async function loadGoldFiles(goldDir: string, names: string[]): Promise<Array<{ gold: GoldFile; dir: string }>> {
+  const files = (await readdir(goldDir)).filter(file => file.endsWith('.json')).sort();
+  const golds = [];
+
+  for (const file of files) {
+    const gold = JSON.parse(await readFile(path.join(goldDir, file), 'utf-8')) as GoldFile;
+    if (names.length === 0 || names.includes(gold.name)) {
+      golds.push({ gold, dir: goldDir });
+    }
+  }
+
+  return golds;
+}
+
+/**
+ * Documento do edital de avaliação (reaproveitado entre execuções)
+ */
+async function prepareDocument(gold: GoldFile, goldDir: string): Promise<{ documentId: string; s3Key: string }> {
+  const filePath = path.resolve(goldDir, gold.file);
+  const filename = path.basename(filePath);
+  const s3Key = `eval/${gold.name}/${filename}`;
+
+  await uploadFile(s3Key, await readFile(filePath), 'application/octet-stream');
+
+  const collection = getDatabase().collection<PDFDocument>('documents');
+  const existing = await collection.findOne({ $or: [{ s3Key }, { originalS3Key: s3Key }] });
+  if (existing) {
+    return { documentId: existing._id.toString(), s3Key };
+  }
+
+  const now = new Date();
+  const document: PDFDocument = {
+    _id: new ObjectId(),
+    filename: `[eval] ${filename}`,
+    s3Key,
+    sourceFormat: detectSourceFormat(filename) ?? 'pdf',
+    status: 'PENDING',
+    totalPages: 0,
+    pagesProcessed: 0,
+    currentBatch: 0,
+    totalBatches: 0,
+    config: {
+      wordCap: DEFAULT_PROCESSING_CONFIG.wordCap,
+      maxPagesPerBatch: DEFAULT_PROCESSING_CONFIG.maxPagesPerBatch,
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+  await collection.insertOne(document);
+
+  return { documentId: document._id!.toString(), s3Key };
+}
+
+async function readBaseline(): Promise<EvaluationRun | null> {
+  try {
+    return JSON.parse(await readFile(BASELINE_PATH, 'utf-8')) as EvaluationRun;
+  } catch {
+    return null;
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.mode !== 'live') {
+    process.env.AI_FIXTURES_MODE = options.mode;
+    process.env.AI_FIXTURES_DIR ||= path.join(EVAL_DIR, 'fixtures');
+    // Embeddings não entram na avaliação nem são gravados: evita rede no replay
+    process.env.AI_MODEL_EMBEDDINGS ||= 'fake:text-embedding-3-small';
+  }
+
+  const golds = await loadGoldFiles(options.goldDir, options.names);
+  if (golds.length === 0) {
+    throw new Error(`Nenhum arquivo gold encontrado em ${options.goldDir}`);
+  }
+
+  await connectDatabase();
+
+  const editais: EditalEvaluation[] = [];
+  let failures = 0;
+
+  for (const { gold, dir } of golds) {
+    try {
+      const { documentId, s3Key } = await prepareDocument(gold, dir);
+      await processDocument({ documentId, s3Key });
+
+      const [entities, sections] = await Promise.all([
+        getEntityUnificationService().findByDocumentId(documentId),
+        getDocumentStructureService().getSectionsByDocumentId(documentId),
+      ]);
+      editais.push(evaluateEdital(gold, documentId, entities, sections));
+    } catch (error) {
+      failures++;
+      console.error(`\n❌ Falha ao avaliar ${gold.name}:`, error);
+    }
+  }
+
+  const createdAt = new Date().toISOString();
+  const run: EvaluationRun = {
+    runId: createdAt.replace(/[:.]/g, '-'),
+    createdAt,
+    mode: options.mode,
+    model: describeModel('extraction'),
+    editais,
+    overall: aggregateEvaluations(editais),
+  };
+
+  await mkdir(RUNS_DIR, { recursive: true });
+  await writeFile(path.join(RUNS_DIR, `${run.runId}.json`), JSON.stringify(run, null, 2));
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(formatRun(run));
+
+  const baseline = await readBaseline();
+  let regressed = false;
+  if (baseline) {
+    const diff = diffRuns(run, baseline);
+    regressed = diff.regressed;
+    console.log(`\n${diff.report}`);
+  } else {
+    console.log(`\nℹ️  Sem baseline (${path.relative(process.cwd(), BASELINE_PATH)}); use --save-baseline`);
+  }
+
+  if (options.saveBaseline) {
+    await writeFile(BASELINE_PATH, JSON.stringify(run, null, 2));
+    console.log(`\n💾 Baseline atualizado: ${run.runId}`);
+  }
+
+  if (failures > 0 || (regressed && !options.saveBaseline)) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Erro na avaliação:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
@@ -0,0 +1,228 @@
+import { normalizeText } from '../utils/normalizers.js';
+import type {
+  DocumentSection,
+  EntityType,
+  ExtractedEntity,
+} from '../types/entities.js';
+import type {
+  DateNormalizationMetrics,
+  EditalEvaluation,
+  EvaluationRun,
+  GoldEntity,
+  GoldFile,
+  GoldSection,
+  PrfMetrics,
+} from '../types/eval.js';
+
+/** Sobreposição mínima de palavras para um item textual contar como encontrado */
+const MIN_TEXT_OVERLAP = 0.5;
+
+const DATE_TYPES: EntityType[] = ['PRAZO', 'DATA'];
+const NUMERIC_TYPES: EntityType[] = ['MULTA', 'SANCAO'];
+
+// ============================================================================
+// COMPARAÇÃO
+// ============================================================================
+
+function toWords(text: string): Set<string> {
+  return new Set(
+    normalizeText(text)
+      .split(/[^A-Z0-9]+/)
+      .filter(word => word.length >= 3)
+  );
+}
+
+/**
+ * Coeficiente de Dice entre os conjuntos de palavras (0-1)
+ */
+function textOverlap(a: string, b: string): number {
+  const wordsA = toWords(a);
+  const wordsB = toWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+/**
+ * Data (AAAA-MM-DD) do valor normalizado, sem o horário
+ */
+function datePart(normalizedValue: string): string | null {
+  const match = normalizedValue.match(/^\d{4}-\d{2}-\d{2}/);
+  return match ? match[0] : null;
+}
+
+/**
+ * A entidade extraída corresponde ao item do gold?
+ */
+function entityMatches(type: EntityType, gold: GoldEntity, entity: ExtractedEntity): boolean {
+  if (DATE_TYPES.includes(type)) {
+    return datePart(entity.normalizedValue) === gold.value;
+  }
+
+  if (NUMERIC_TYPES.includes(type)) {
+    const expected = parseFloat(gold.value);
+    const extracted = parseFloat(entity.normalizedValue);
+    if (!isNaN(expected) && !isNaN(extracted)) {
+      return Math.abs(expected - extracted) < 1e-6;
+    }
+  }
+
+  return textOverlap(gold.value, `${entity.name} ${entity.rawValue}`) >= MIN_TEXT_OVERLAP;
+}
+
+/** Numeração comparável ("1." e "1" são a mesma seção) */
+function normalizeSectionNumber(number: string): string {
+  return normalizeText(number).replace(/[.\s]+$/, '');
+}
+
+function sectionMatches(gold: GoldSection, section: DocumentSection): boolean {
+  if (gold.number && section.number) {
+    return normalizeSectionNumber(gold.number) === normalizeSectionNumber(section.number);
+  }
+  return textOverlap(gold.title, section.title) >= MIN_TEXT_OVERLAP;
+}
+
+// ============================================================================
+// MÉTRICAS
+// ============================================================================
+
+export function computeMetrics(
+  truePositives: number,
+  falsePositives: number,
+  falseNegatives: number
+): PrfMetrics {
+  const precision = truePositives + falsePositives > 0
+    ? truePositives / (truePositives + falsePositives)
+    : 0;
+  const recall = truePositives + falseNegatives > 0
+    ? truePositives / (truePositives + falseNegatives)
+    : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return { truePositives, falsePositives, falseNegatives, precision, recall, f1 };
+}
+
+/**
+ * Pareamento guloso 1:1 entre o gold e o extraído
+ * Cada extração corresponde a no máximo um item do gold
+ */
+function matchItems<G, E>(
+  gold: G[],
+  extracted: E[],
+  matches: (gold: G, extracted: E) => boolean
+): PrfMetrics {
+  const used = new Set<number>();
+  let truePositives = 0;
+
+  for (const goldItem of gold) {
+    const index = extracted.findIndex((item, i) => !used.has(i) && matches(goldItem, item));
+    if (index !== -1) {
+      used.add(index);
+      truePositives++;
+    }
+  }
+
+  return computeMetrics(
+    truePositives,
+    extracted.length - truePositives,
+    gold.length - truePositives
+  );
+}
+
+/**
+ * Datas do gold com `raw`: a entidade cujo valor bruto ou trecho contém o texto
+ * original foi normalizada para a data esperada?
+ */
+function evaluateDateNormalization(
+  gold: GoldFile,
+  entities: ExtractedEntity[]
+): DateNormalizationMetrics {
+  let evaluated = 0;
+  let correct = 0;
+
+  for (const type of DATE_TYPES) {
+    const candidates = entities.filter(entity => entity.type === type);
+
+    for (const goldItem of gold.entities[type] ?? []) {
+      if (!goldItem.raw) continue;
+      const raw = normalizeText(goldItem.raw);
+
+      const entity = candidates.find(candidate =>
+        normalizeText(candidate.rawValue).includes(raw) ||
+        candidate.sources.some(source => normalizeText(source.excerpt).includes(raw))
+      );
+      if (!entity) continue;
+
+      evaluated++;
+      if (datePart(entity.normalizedValue) === goldItem.value) {
+        correct++;
+      }
+    }
+  }
+
+  return { evaluated, correct, accuracy: evaluated > 0 ? correct / evaluated : 0 };
+}
+
+/**
+ * Avalia o resultado do pipeline para um edital contra o gold
+ */
+export function evaluateEdital(
+  gold: GoldFile,
+  documentId: string,
+  entities: ExtractedEntity[],
+  sections: DocumentSection[]
+): EditalEvaluation {
+  const byType: EditalEvaluation['byType'] = {};
+
+  for (const [type, goldItems] of Object.entries(gold.entities) as Array<[EntityType, GoldEntity[]]>) {
+    byType[type] = matchItems(
+      goldItems,
+      entities.filter(entity => entity.type === type),
+      (goldItem, entity) => entityMatches(type, goldItem, entity)
+    );
+  }
+
+  return {
+    name: gold.name,
+    documentId,
+    byType,
+    sections: gold.sections ? matchItems(gold.sections, sections, sectionMatches) : undefined,
+    dateNormalization: evaluateDateNormalization(gold, entities),
+  };
+}
+
+function sumMetrics(metrics: PrfMetrics[]): PrfMetrics {
+  return computeMetrics(
+    metrics.reduce((sum, m) => sum + m.truePositives, 0),
+    metrics.reduce((sum, m) => sum + m.falsePositives, 0),
+    metrics.reduce((sum, m) => sum + m.falseNegatives, 0)
+  );
+}
+
+/**
+ * Métricas gerais da execução (somando contagens de todos os editais)
+ */
+export function aggregateEvaluations(editais: EditalEvaluation[]): EvaluationRun['overall'] {
+  const types = [...new Set(editais.flatMap(e => Object.keys(e.byType) as EntityType[]))];
+
+  const byType: EvaluationRun['overall']['byType'] = {};
+  for (const type of types) {
+    byType[type] = sumMetrics(
+      editais.flatMap(e => (e.byType[type] ? [e.byType[type]!] : []))
+    );
+  }
+
+  const sections = editais.flatMap(e => (e.sections ? [e.sections] : []));
+  const evaluated = editais.reduce((sum, e) => sum + e.dateNormalization.evaluated, 0);
+  const correct = editais.reduce((sum, e) => sum + e.dateNormalization.correct, 0);
+
+  return {
+    byType,
+    sections: sections.length > 0 ? sumMetrics(sections) : undefined,
+    dateNormalization: { evaluated, correct, accuracy: evaluated > 0 ? correct / evaluated : 0 },
+  };
+}
@@ -4,18 +4,30 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 
-import { connectDatabase } from './services/database.js';
-import { setProcessHandler } from './services/queue.js';
+import { connectDatabase, closeDatabase } from './services/database.js';
+import {
+  setProcessHandler,
+  setProcurementHandler,
+  startQueue,
+  stopQueue,
+} from './services/queue.js';
 import { processDocument } from './workers/pdf-processor.js';
+import { processProcurement } from './workers/procurement-processor.js';
+import { getVectorIndex, closeVectorIndex } from './vector-index/index.js';
+import { assertModelConfig } from './ai/providers.js';
 
 // Rotas
 import { process as processRoute } from './routes/process.js';
 import { documents } from './routes/documents.js';
+import { procurements } from './routes/procurements.js';
 import { timeline } from './routes/timeline.js';
 import { structure } from './routes/structure.js';
 import { risks } from './routes/risks.js';
 import { swagger } from './routes/swagger.js';
 import { chat } from './routes/chat.js';
+import { library } from './routes/library.js';
+import { budgets } from './routes/budgets.js';
+import { calendars } from './routes/calendars.js';
 
 const app = new Hono();
 
@@ -33,6 +45,9 @@ app.route('/process', processRoute);
 // Documentos
 app.route('/documents', documents);
 
+// Licitações (pacotes ZIP)
+app.route('/procurements', procurements);
+
 // Timeline
 app.route('/timeline', timeline);
 
@@ -45,6 +60,15 @@ app.route('/risks', risks);
 // Chat RAG
 app.route('/chat', chat);
 
+// Biblioteca (busca e chat em vários documentos)
+app.route('/library', library);
+
+// Orçamentos de IA (admin)
+app.route('/budgets', budgets);
+
+// Calendários de feriados (dias úteis dos prazos)
+app.route('/calendars', calendars);
+
 // Swagger
 app.route('/swagger', swagger);
 
@@ -67,11 +91,21 @@ app.notFound((c) => {
 // Inicialização
 async function main() {
   try {
+    // Provedor/modelo de IA inválido impede a inicialização
+    assertModelConfig();
+
     // Conectar ao MongoDB
     await connectDatabase();
 
+    // Carregar o índice vetorial (sincroniza com os embeddings do MongoDB)
+    await getVectorIndex();
+
     // Configurar handler da fila
     setProcessHandler(processDocument);
+    setProcurementHandler(processProcurement);
+
+    // Iniciar worker da fila (recupera jobs interrompidos por restart)
+    await startQueue();
 
     // Iniciar servidor
     const port = parseInt(process.env.PORT || '3002', 10);
@@ -84,12 +118,17 @@ async function main() {
     console.log('');
     console.log('📋 Endpoints principais:');
     console.log('   - POST /process              → Iniciar processamento');
+    console.log('   - POST /process/procurement  → Processar licitação (ZIP)');
+    console.log('   - GET  /process/jobs         → Jobs da fila');
+    console.log('   - POST /process/jobs/:id/retry  → Reenfileirar job');
+    console.log('   - POST /process/jobs/:id/cancel → Cancelar job');
     console.log('   - GET  /documents            → Lista documentos');
     console.log('   - GET  /documents/:id        → Detalhes do documento');
     console.log('   - GET  /documents/:id/pdf-url → URL assinada do PDF');
     console.log('   - GET  /timeline/:id         → Timeline do documento');
     console.log('   - GET  /structure/:id        → Estrutura hierárquica');
     console.log('   - GET  /risks/:id            → Riscos identificados');
+    console.log('   - GET  /procurements/:id     → Licitação e documentos filhos');
     console.log('   - GET  /health               → Health check');
     console.log('');
     console.log('💬 Chat RAG:');
@@ -100,6 +139,16 @@ async function main() {
     console.log('   - POST /chat/:documentId/rag/prepare → Preparar RAG');
     console.log('   - GET  /chat/:documentId/rag/status  → Status RAG');
     console.log('');
+    console.log('📚 Biblioteca:');
+    console.log('   - GET  /library/documents    → Documentos filtrados');
+    console.log('   - POST /library/search       → Busca em todos os documentos');
+    console.log('   - POST /library/chat         → Chat em todos os documentos');
+    console.log('');
+    console.log('📅 Calendários:');
+    console.log('   - GET  /calendars/:id/holidays → Feriados do ano');
+    console.log('   - GET  /calendars/:id/deadline → Calcular prazo (Lei 14.133)');
+    console.log('   - PUT  /calendars/:id          → Feriados do órgão');
+    console.log('');
 
     serve({
       fetch: app.fetch,
@@ -112,5 +161,21 @@ async function main() {
   }
 }
 
+// Shutdown: devolve os jobs em execução para a fila antes de sair
+async function shutdown(signal: string) {
+  console.log(`\n${signal} recebido, encerrando...`);
+  try {
+    await stopQueue();
+    await closeVectorIndex();
+    await closeDatabase();
+  } catch (error) {
+    console.error('Erro ao encerrar:', error);
+  }
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
+
 main();
 
@@ -0,0 +1,86 @@
+import { Hono } from 'hono';
+import { getBudgetService } from '../services/budget.js';
+import { requireAdminKey } from '../utils/admin-auth.js';
+import type { BudgetLimits } from '../types/index.js';
+
+const budgets = new Hono();
+
+const LIMIT_FIELDS: Array<keyof BudgetLimits> = [
+  'monthlyTokenLimit',
+  'monthlyCostLimitUsd',
+  'documentTokenLimit',
+  'documentCostLimitUsd',
+];
+
+/**
+ * As rotas de orçamento exigem o header X-Admin-Key (sem ADMIN_API_KEY, ficam desligadas)
+ */
+budgets.use('*', requireAdminKey);
+
+/**
+ * GET /budgets
+ * Lista orçamentos e uso do mês das organizações
+ */
+budgets.get('/', async (c) => {
+  try {
+    const statuses = await getBudgetService().listStatuses();
+    return c.json({ budgets: statuses, total: statuses.length });
+  } catch (error) {
+    console.error('Erro ao listar orçamentos:', error);
+    return c.json({ error: 'Erro ao listar orçamentos' }, 500);
+  }
+});
+
+/**
+ * GET /budgets/:organizationId
+ * Orçamento, uso do mês e saldo da organização
+ */
+budgets.get('/:organizationId', async (c) => {
+  try {
+    const status = await getBudgetService().getStatus(c.req.param('organizationId'));
+    return c.json(status);
+  } catch (error) {
+    console.error('Erro ao buscar orçamento:', error);
+    return c.json({ error: 'Erro ao buscar orçamento' }, 500);
+  }
+});
+
+/**
+ * PUT /budgets/:organizationId
+ * Define/aumenta limites (campos omitidos ficam como estão; null = sem limite)
+ */
+budgets.put('/:organizationId', async (c) => {
+  try {
+    const organizationId = c.req.param('organizationId');
+    const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+
+    if (!body || typeof body !== 'object') {
+      return c.json({ error: 'Corpo JSON inválido' }, 400);
+    }
+
+    const limits: BudgetLimits = {};
+    for (const field of LIMIT_FIELDS) {
+      const value = body[field];
+      if (value === undefined) continue;
+
+      if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        return c.json({ error: `${field} deve ser um número não negativo ou null` }, 400);
+      }
+      limits[field] = value;
+    }
+
+    if (Object.keys(limits).length === 0) {
+      return c.json({ error: `Informe ao menos um limite: ${LIMIT_FIELDS.join(', ')}` }, 400);
+    }
+
+    const status = await getBudgetService().setLimits(organizationId, limits);
+    console.log(`💰 Orçamento de ${organizationId} atualizado:`, limits);
+
+    return c.json(status);
+  } catch (error) {
+    console.error('Erro ao atualizar orçamento:', error);
+    return c.json({ error: 'Erro ao atualizar orçamento' }, 500);
+  }
+});
+
+export { budgets };
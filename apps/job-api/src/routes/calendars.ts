@@ -0,0 +1,230 @@
+import { Hono } from 'hono';
+import { getHolidayCalendarService } from '../services/holiday-calendar.js';
+import { MAX_DEADLINE_OFFSET, toDateKey } from '../utils/business-calendar.js';
+import { requireAdminKey } from '../utils/admin-auth.js';
+import type { CalendarHoliday, HolidayCalendar, RelativeTimeReference } from '../types/index.js';
+
+const calendars = new Hono();
+
+const HOLIDAY_SCOPES: Array<CalendarHoliday['scope']> = ['ESTADUAL', 'MUNICIPAL', 'ORGAO'];
+const UNITS: Array<RelativeTimeReference['unit']> = ['DAYS', 'BUSINESS_DAYS', 'MONTHS'];
+const DIRECTIONS: Array<RelativeTimeReference['direction']> = ['BEFORE', 'AFTER'];
+const HOLIDAY_DATE_PATTERN = /^(\d{4}-)?\d{2}-\d{2}$/;
+const CALENDAR_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Criar e remover calendários exige o header X-Admin-Key (sem ADMIN_API_KEY, fica desligado)
+ */
+calendars.on(['PUT', 'DELETE'], '/:calendarId', requireAdminKey);
+
+function formatCalendar(calendar: HolidayCalendar) {
+  return {
+    calendarId: calendar.calendarId,
+    name: calendar.name,
+    state: calendar.state,
+    holidays: calendar.holidays,
+    createdAt: calendar.createdAt,
+    updatedAt: calendar.updatedAt,
+  };
+}
+
+/**
+ * Valida a lista de feriados do corpo do PUT
+ */
+function parseHolidays(input: unknown): { holidays: CalendarHoliday[] } | { error: string } {
+  if (!Array.isArray(input)) return { error: 'holidays deve ser uma lista' };
+
+  const holidays: CalendarHoliday[] = [];
+  for (const item of input as Array<Record<string, unknown>>) {
+    const { date, name, scope } = item ?? {};
+
+    if (typeof date !== 'string' || !HOLIDAY_DATE_PATTERN.test(date)) {
+      return { error: 'date deve estar no formato MM-DD (todo ano) ou YYYY-MM-DD' };
+    }
+    const check = new Date(`${date.length === 5 ? '2024-' : ''}${date}T00:00:00Z`);
+    if (isNaN(check.getTime()) || !toDateKey(check).endsWith(date.slice(-5))) {
+      return { error: `Data inválida: ${date}` };
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+      return { error: 'name é obrigatório em cada feriado' };
+    }
+    if (!HOLIDAY_SCOPES.includes(scope as CalendarHoliday['scope'])) {
+      return { error: `scope deve ser: ${HOLIDAY_SCOPES.join(', ')}` };
+    }
+
+    holidays.push({ date, name: name.trim(), scope: scope as CalendarHoliday['scope'] });
+  }
+
+  return { holidays };
+}
+
+/**
+ * GET /calendars
+ * Lista os calendários de feriados cadastrados
+ */
+calendars.get('/', async (c) => {
+  try {
+    const list = await getHolidayCalendarService().listCalendars();
+    return c.json({ calendars: list.map(formatCalendar), total: list.length });
+  } catch (error) {
+    console.error('Erro ao listar calendários:', error);
+    return c.json({ error: 'Erro ao listar calendários' }, 500);
+  }
+});
+
+/**
+ * GET /calendars/:calendarId/holidays
+ * Feriados do ano (nacionais + do calendário); calendarId 'nacional' = só nacionais
+ * Query: ?year=2026
+ */
+calendars.get('/:calendarId/holidays', async (c) => {
+  try {
+    const calendarId = c.req.param('calendarId');
+    const year = parseInt(c.req.query('year') || String(new Date().getUTCFullYear()), 10);
+
+    if (!Number.isInteger(year) || year < 1900 || year > 2200) {
+      return c.json({ error: 'year inválido' }, 400);
+    }
+
+    const service = getHolidayCalendarService();
+    if (calendarId !== 'nacional' && !(await service.getCalendar(calendarId))) {
+      return c.json({ error: 'Calendário não encontrado' }, 404);
+    }
+
+    const calendar = await service.getBusinessCalendar(calendarId === 'nacional' ? undefined : calendarId);
+    const holidays = calendar.getHolidays(year);
+
+    return c.json({ calendarId, year, holidays, total: holidays.length });
+  } catch (error) {
+    console.error('Erro ao listar feriados:', error);
+    return c.json({ error: 'Erro ao listar feriados' }, 500);
+  }
+});
+
+/**
+ * GET /calendars/:calendarId/deadline
+ * Calcula um prazo pelas regras da Lei 14.133 (art. 183)
+ * Query: ?from=2026-02-12&offset=3&unit=BUSINESS_DAYS&direction=AFTER
+ */
+calendars.get('/:calendarId/deadline', async (c) => {
+  try {
+    const calendarId = c.req.param('calendarId');
+    const from = new Date(c.req.query('from') || '');
+    const offset = parseInt(c.req.query('offset') || '', 10);
+    const unit = (c.req.query('unit') || 'DAYS').toUpperCase() as RelativeTimeReference['unit'];
+    const direction = (c.req.query('direction') || 'AFTER').toUpperCase() as RelativeTimeReference['direction'];
+
+    if (isNaN(from.getTime())) {
+      return c.json({ error: 'from deve ser uma data (YYYY-MM-DD)' }, 400);
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return c.json({ error: 'offset deve ser um inteiro não negativo' }, 400);
+    }
+    if (!UNITS.includes(unit)) {
+      return c.json({ error: `unit deve ser: ${UNITS.join(', ')}` }, 400);
+    }
+    if (!DIRECTIONS.includes(direction)) {
+      return c.json({ error: `direction deve ser: ${DIRECTIONS.join(', ')}` }, 400);
+    }
+    if (offset > MAX_DEADLINE_OFFSET[unit]) {
+      return c.json({ error: `offset deve ser no máximo ${MAX_DEADLINE_OFFSET[unit]} para ${unit}` }, 400);
+    }
+
+    const calendar = await getHolidayCalendarService().getBusinessCalendar(
+      calendarId === 'nacional' ? undefined : calendarId
+    );
+    const result = calendar.computeDeadline(from, offset, unit, direction);
+
+    return c.json({
+      calendarId,
+      from: toDateKey(from),
+      offset,
+      unit,
+      direction,
+      date: toDateKey(result.date),
+      rolled: result.rolled,
+      holidays: result.holidays,
+    });
+  } catch (error) {
+    console.error('Erro ao calcular prazo:', error);
+    return c.json({ error: 'Erro ao calcular prazo' }, 500);
+  }
+});
+
+/**
+ * GET /calendars/:calendarId
+ * Retorna o calendário de feriados do órgão
+ */
+calendars.get('/:calendarId', async (c) => {
+  try {
+    const calendar = await getHolidayCalendarService().getCalendar(c.req.param('calendarId'));
+
+    if (!calendar) {
+      return c.json({ error: 'Calendário não encontrado' }, 404);
+    }
+
+    return c.json(formatCalendar(calendar));
+  } catch (error) {
+    console.error('Erro ao buscar calendário:', error);
+    return c.json({ error: 'Erro ao buscar calendário' }, 500);
+  }
+});
+
+/**
+ * PUT /calendars/:calendarId
+ * Cria ou substitui o calendário (feriados estaduais, municipais e do órgão)
+ */
+calendars.put('/:calendarId', async (c) => {
+  try {
+    const calendarId = c.req.param('calendarId');
+    const body = await c.req.json<{ name?: unknown; state?: unknown; holidays?: unknown }>().catch(() => null);
+
+    if (!CALENDAR_ID_PATTERN.test(calendarId) || calendarId === 'nacional') {
+      return c.json({ error: 'calendarId deve ter letras minúsculas, números e hífens (exceto "nacional")' }, 400);
+    }
+    if (!body || typeof body.name !== 'string' || !body.name.trim()) {
+      return c.json({ error: 'name é obrigatório' }, 400);
+    }
+    if (body.state !== undefined && (typeof body.state !== 'string' || !/^[A-Za-z]{2}$/.test(body.state))) {
+      return c.json({ error: 'state deve ser a sigla da UF' }, 400);
+    }
+
+    const parsed = parseHolidays(body.holidays ?? []);
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400);
+    }
+
+    const calendar = await getHolidayCalendarService().saveCalendar(calendarId, {
+      name: body.name.trim(),
+      state: typeof body.state === 'string' ? body.state.toUpperCase() : undefined,
+      holidays: parsed.holidays,
+    });
+    console.log(`📅 Calendário ${calendarId} salvo com ${parsed.holidays.length} feriado(s)`);
+
+    return c.json(formatCalendar(calendar));
+  } catch (error) {
+    console.error('Erro ao salvar calendário:', error);
+    return c.json({ error: 'Erro ao salvar calendário' }, 500);
+  }
+});
+
+/**
+ * DELETE /calendars/:calendarId
+ * Remove o calendário (documentos que apontam para ele passam a usar só os feriados nacionais)
+ */
+calendars.delete('/:calendarId', async (c) => {
+  try {
+    const deleted = await getHolidayCalendarService().deleteCalendar(c.req.param('calendarId'));
+
+    if (!deleted) {
+      return c.json({ error: 'Calendário não encontrado' }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Erro ao remover calendário:', error);
+    return c.json({ error: 'Erro ao remover calendário' }, 500);
+  }
+});
+
+export { calendars };
@@ -1,13 +1,58 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { ObjectId } from 'mongodb';
 import { getDatabase } from '../services/database.js';
-import { getRagService } from '../services/rag.js';
+import { getRagService, type ChatTurn } from '../services/rag.js';
 import { getChatService } from '../services/chat.js';
+import { BudgetExceededError } from '../services/budget.js';
 import type { PDFDocument } from '../types/index.js';
 import type { ChatRequest } from '../types/rag.js';
 
 const chat = new Hono();
 
+/**
+ * Valida documento e corpo de uma mensagem do chat
+ * Retorna a resposta de erro, ou null se a requisição é válida
+ */
+async function validateChatRequest(c: Context, documentId: string, body: ChatRequest) {
+  if (!ObjectId.isValid(documentId)) {
+    return c.json({ error: 'ID de documento inválido' }, 400);
+  }
+
+  // Verificar se documento existe
+  const db = getDatabase();
+  const doc = await db.collection<PDFDocument>('documents').findOne({
+    _id: new ObjectId(documentId),
+  });
+
+  if (!doc) {
+    return c.json({ error: 'Documento não encontrado' }, 404);
+  }
+
+  if (!body.message || typeof body.message !== 'string') {
+    return c.json({ error: 'Mensagem é obrigatória' }, 400);
+  }
+
+  return null;
+}
+
+/**
+ * Resposta de erro de uma mensagem do chat
+ */
+function chatErrorResponse(c: Context, error: unknown) {
+  console.error('Erro no chat:', error);
+
+  if (error instanceof Error && error.message.includes('não está pronto')) {
+    return c.json({ error: error.message }, 400);
+  }
+
+  if (error instanceof BudgetExceededError) {
+    return c.json({ error: error.message, scope: error.scope }, 402);
+  }
+
+  return c.json({ error: 'Erro ao processar mensagem' }, 500);
+}
+
 /**
  * POST /chat/:documentId
  * Envia uma mensagem e recebe resposta do assistente
@@ -15,26 +60,10 @@ const chat = new Hono();
 chat.post('/:documentId', async (c) => {
   try {
     const documentId = c.req.param('documentId');
-
-    if (!ObjectId.isValid(documentId)) {
-      return c.json({ error: 'ID de documento inválido' }, 400);
-    }
-
-    // Verificar se documento existe
-    const db = getDatabase();
-    const doc = await db.collection<PDFDocument>('documents').findOne({
-      _id: new ObjectId(documentId),
-    });
-
-    if (!doc) {
-      return c.json({ error: 'Documento não encontrado' }, 404);
-    }
-
     const body = await c.req.json<ChatRequest>();
 
-    if (!body.message || typeof body.message !== 'string') {
-      return c.json({ error: 'Mensagem é obrigatória' }, 400);
-    }
+    const invalid = await validateChatRequest(c, documentId, body);
+    if (invalid) return invalid;
 
     const ragService = getRagService();
 
@@ -42,19 +71,65 @@ chat.post('/:documentId', async (c) => {
       documentId,
       body.message,
       body.conversationId,
-      body.topK || 5
+      body.topK
     );
 
     return c.json(response);
   } catch (error) {
-    console.error('Erro no chat:', error);
-    
-    if (error instanceof Error && error.message.includes('não está pronto')) {
-      return c.json({ error: error.message }, 400);
-    }
+    return chatErrorResponse(c, error);
+  }
+});
+
+/**
+ * POST /chat/:documentId/stream
+ * Envia uma mensagem e recebe a resposta em Server-Sent Events
+ *
+ * Eventos: start (conversationId), delta (texto), tool (consulta à análise),
+ * done (ChatResponse com páginas e trechos de origem) e error.
+ * A resposta só é salva na conversa quando o stream completa.
+ */
+chat.post('/:documentId/stream', async (c) => {
+  const documentId = c.req.param('documentId');
+  let turn: ChatTurn;
 
-    return c.json({ error: 'Erro ao processar mensagem' }, 500);
+  // Validação, orçamento e recuperação antes do stream: erros saem como JSON
+  try {
+    const body = await c.req.json<ChatRequest>();
+
+    const invalid = await validateChatRequest(c, documentId, body);
+    if (invalid) return invalid;
+
+    turn = await getRagService().prepareChat(
+      documentId,
+      body.message,
+      body.conversationId,
+      body.topK
+    );
+  } catch (error) {
+    return chatErrorResponse(c, error);
   }
+
+  return streamSSE(
+    c,
+    async (stream) => {
+      try {
+        for await (const { event, data } of getRagService().streamChat(turn, c.req.raw.signal)) {
+          if (stream.aborted) break;
+          await stream.writeSSE({ event, data: JSON.stringify(data) });
+        }
+      } catch (error) {
+        if (stream.aborted) return;
+        console.error('Erro no stream do chat:', error);
+        await stream.writeSSE({
+          event: 'error',
+          data: JSON.stringify({ error: 'Erro ao processar mensagem' }),
+        });
+      }
+    },
+    async (error) => {
+      console.error('Erro no stream do chat:', error);
+    }
+  );
 });
 
 /**
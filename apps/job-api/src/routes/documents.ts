@@ -1,4 +1,5 @@
 import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { ObjectId } from 'mongodb';
 import { getDatabase } from '../services/database.js';
 import { getSignedUrl } from '../services/storage.js';
@@ -7,13 +8,52 @@ import { getDocumentStructureService } from '../services/document-structure.js';
 import { getTimelineService } from '../services/timeline.js';
 import { getRiskService } from '../services/risk.js';
 import { getEntityUnificationService } from '../services/entity-unification.js';
-import type { PDFDocument } from '../types/index.js';
+import { getProgressService, TERMINAL_EVENT_TYPES } from '../services/progress.js';
+import { getUsageService } from '../services/usage.js';
+import { getQuarantineService } from '../services/quarantine.js';
+import { getCitationVerificationService } from '../services/citation.js';
+import { normalizeTags } from '../services/library.js';
+import { getHolidayCalendarService } from '../services/holiday-calendar.js';
+import type { PDFDocument, ProcessingEvent } from '../types/index.js';
 
 const documents = new Hono();
 
+/**
+ * Intervalo de leitura de novos eventos de progresso no stream SSE
+ */
+function getProgressPollIntervalMs(): number {
+  return parseInt(process.env.PROGRESS_POLL_INTERVAL_MS || '1000', 10);
+}
+
+/** Comentário SSE enviado periodicamente para manter a conexão aberta */
+const SSE_HEARTBEAT_MS = 15000;
+
+/**
+ * Documento fora de PROCESSING/PENDING sem evento final: espera esse tempo sem
+ * novos eventos antes de encerrar (embeddings rodam depois do status COMPLETED;
+ * um worker derrubado no meio não chega a emitir completed/failed)
+ */
+const SSE_IDLE_CLOSE_MS = 30000;
+
+function formatProgressEvent(event: ProcessingEvent) {
+  return {
+    id: event._id?.toString(),
+    type: event.type,
+    stage: event.stage,
+    message: event.message,
+    batchNumber: event.batchNumber,
+    totalBatches: event.totalBatches,
+    counts: event.counts,
+    progress: event.progress,
+    error: event.error,
+    createdAt: event.createdAt,
+  };
+}
+
 /**
  * GET /documents
  * Lista todos os documentos com status de processamento
+ * Query: ?status=COMPLETED&tag=obras
  */
 documents.get('/', async (c) => {
   try {
@@ -32,6 +72,12 @@ documents.get('/', async (c) => {
       filter.status = statusFilter.toUpperCase();
     }
     
+    // Filtro por tag (opcional)
+    const tagFilter = c.req.query('tag');
+    if (tagFilter) {
+      filter.tags = tagFilter.trim().toLowerCase();
+    }
+    
     // Buscar documentos
     const documentsCollection = db.collection<PDFDocument>('documents');
     
@@ -62,14 +108,27 @@ documents.get('/', async (c) => {
             percentage = Math.round((doc.currentBatch / doc.totalBatches) * 100);
           }
           currentStage = doc.currentBatch === 0 ? 'EXTRACTING_TEXT' : `BATCH_${doc.currentBatch}`;
-        } else if (doc.status === 'FAILED') {
-          currentStage = 'FAILED';
+        } else if (doc.status === 'PAUSED') {
+          if (doc.totalPages && doc.totalPages > 0) {
+            percentage = Math.round((doc.pagesProcessed / doc.totalPages) * 100);
+          }
+          currentStage = 'PAUSED';
+        } else if (doc.status === 'FAILED' || doc.status === 'CANCELLED') {
+          currentStage = doc.status;
         }
         
         return {
           id: documentId,
           filename: doc.filename,
+          sourceFormat: doc.sourceFormat,
+          procurementId: doc.procurementId,
+          documentRole: doc.documentRole,
           status: doc.status,
+          controlRequest: doc.controlRequest,
+          pauseReason: doc.pauseReason,
+          organizationId: doc.organizationId,
+          tags: doc.tags ?? [],
+          calendarId: doc.calendarId,
           percentage,
           currentStage,
           totalPages: doc.totalPages || 0,
@@ -77,6 +136,7 @@ documents.get('/', async (c) => {
           currentBatch: doc.currentBatch || 0,
           totalBatches: doc.totalBatches || 0,
           error: doc.error,
+          usage: doc.usage,
           createdAt: doc.createdAt,
           processingStartedAt: doc.processingStartedAt,
           processingCompletedAt: doc.processingCompletedAt,
@@ -148,7 +208,15 @@ documents.get('/:id', async (c) => {
       id: documentId,
       filename: doc.filename,
       s3Key: doc.s3Key,
+      sourceFormat: doc.sourceFormat,
+      procurementId: doc.procurementId,
+      documentRole: doc.documentRole,
       status: doc.status,
+      controlRequest: doc.controlRequest,
+      pauseReason: doc.pauseReason,
+      organizationId: doc.organizationId,
+      tags: doc.tags ?? [],
+      calendarId: doc.calendarId,
       percentage,
       config: doc.config,
       
@@ -160,6 +228,9 @@ documents.get('/:id', async (c) => {
         totalBatches: doc.totalBatches || 0,
       },
       
+      // Tokens e custo de IA acumulados
+      usage: doc.usage,
+      
       // Estatísticas
       stats: {
         pages: pageStats,
@@ -184,6 +255,173 @@ documents.get('/:id', async (c) => {
   }
 });
 
+/**
+ * GET /documents/:id/usage
+ * Tokens, latência e custo das chamadas de IA do documento por etapa, modelo e batch
+ */
+documents.get('/:id/usage', async (c) => {
+  try {
+    const documentId = c.req.param('id');
+    
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+    
+    const doc = await getDatabase().collection<PDFDocument>('documents').findOne(
+      { _id: new ObjectId(documentId) },
+      { projection: { _id: 1 } }
+    );
+    
+    if (!doc) {
+      return c.json({ error: 'Documento não encontrado' }, 404);
+    }
+    
+    const report = await getUsageService().getDocumentUsage(documentId);
+    
+    return c.json(report);
+  } catch (error) {
+    console.error('Erro ao buscar uso de IA:', error);
+    return c.json({ error: 'Erro ao buscar uso de IA' }, 500);
+  }
+});
+
+/**
+ * GET /documents/:id/quarantine
+ * Itens extraídos que não passaram na validação após as rodadas de correção
+ */
+documents.get('/:id/quarantine', async (c) => {
+  try {
+    const documentId = c.req.param('id');
+    
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+    
+    const doc = await getDatabase().collection<PDFDocument>('documents').findOne(
+      { _id: new ObjectId(documentId) },
+      { projection: { _id: 1 } }
+    );
+    
+    if (!doc) {
+      return c.json({ error: 'Documento não encontrado' }, 404);
+    }
+    
+    const items = await getQuarantineService().getByDocumentId(documentId);
+    
+    return c.json({ documentId, items, total: items.length });
+  } catch (error) {
+    console.error('Erro ao buscar quarentena:', error);
+    return c.json({ error: 'Erro ao buscar quarentena' }, 500);
+  }
+});
+
+/**
+ * GET /documents/:id/citations
+ * Estatísticas da verificação dos trechos citados (entidades, timeline e riscos)
+ */
+documents.get('/:id/citations', async (c) => {
+  try {
+    const documentId = c.req.param('id');
+    
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+    
+    const doc = await getDatabase().collection<PDFDocument>('documents').findOne(
+      { _id: new ObjectId(documentId) },
+      { projection: { _id: 1 } }
+    );
+    
+    if (!doc) {
+      return c.json({ error: 'Documento não encontrado' }, 404);
+    }
+    
+    const stats = await getCitationVerificationService().getStats(documentId);
+    
+    return c.json(stats);
+  } catch (error) {
+    console.error('Erro ao buscar verificação de citações:', error);
+    return c.json({ error: 'Erro ao buscar verificação de citações' }, 500);
+  }
+});
+
+/**
+ * PUT /documents/:id/tags
+ * Define as tags do documento (filtros da biblioteca)
+ */
+documents.put('/:id/tags', async (c) => {
+  try {
+    const documentId = c.req.param('id');
+    
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+    
+    const body = await c.req.json<{ tags?: unknown }>().catch(() => null);
+    if (!body || !Array.isArray(body.tags) || body.tags.some(tag => typeof tag !== 'string')) {
+      return c.json({ error: 'tags deve ser uma lista de textos' }, 400);
+    }
+    
+    const tags = normalizeTags(body.tags as string[]);
+    const result = await getDatabase().collection<PDFDocument>('documents').updateOne(
+      { _id: new ObjectId(documentId) },
+      { $set: { tags, updatedAt: new Date() } }
+    );
+    
+    if (result.matchedCount === 0) {
+      return c.json({ error: 'Documento não encontrado' }, 404);
+    }
+    
+    return c.json({ documentId, tags });
+  } catch (error) {
+    console.error('Erro ao atualizar tags:', error);
+    return c.json({ error: 'Erro ao atualizar tags' }, 500);
+  }
+});
+
+/**
+ * PUT /documents/:id/calendar
+ * Define o calendário de feriados do órgão (null = só feriados nacionais)
+ * e recalcula as datas projetadas do timeline
+ */
+documents.put('/:id/calendar', async (c) => {
+  try {
+    const documentId = c.req.param('id');
+    
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+    
+    const body = await c.req.json<{ calendarId?: unknown }>().catch(() => null);
+    if (!body || (body.calendarId !== null && typeof body.calendarId !== 'string')) {
+      return c.json({ error: 'calendarId deve ser um texto ou null' }, 400);
+    }
+    
+    const calendarId = body.calendarId as string | null;
+    if (calendarId && !(await getHolidayCalendarService().getCalendar(calendarId))) {
+      return c.json({ error: 'Calendário não encontrado' }, 404);
+    }
+    
+    const result = await getDatabase().collection<PDFDocument>('documents').updateOne(
+      { _id: new ObjectId(documentId) },
+      calendarId
+        ? { $set: { calendarId, updatedAt: new Date() } }
+        : { $unset: { calendarId: '' }, $set: { updatedAt: new Date() } }
+    );
+    
+    if (result.matchedCount === 0) {
+      return c.json({ error: 'Documento não encontrado' }, 404);
+    }
+    
+    const relativeDates = await getTimelineService().resolveRelativeDates(documentId);
+    
+    return c.json({ documentId, calendarId, relativeDates });
+  } catch (error) {
+    console.error('Erro ao atualizar calendário do documento:', error);
+    return c.json({ error: 'Erro ao atualizar calendário do documento' }, 500);
+  }
+});
+
 /**
  * GET /documents/:id/pdf-url
  * Retorna URL assinada para visualizar o PDF
@@ -224,6 +462,128 @@ documents.get('/:id/pdf-url', async (c) => {
   }
 });
 
+/**
+ * GET /documents/:id/pages/:pageNumber/layout
+ * Retorna as coordenadas dos itens de texto de uma página
+ */
+documents.get('/:id/pages/:pageNumber/layout', async (c) => {
+  try {
+    const documentId = c.req.param('id');
+    const pageNumber = parseInt(c.req.param('pageNumber'), 10);
+    
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+    
+    if (isNaN(pageNumber) || pageNumber < 1) {
+      return c.json({ error: 'Número de página inválido' }, 400);
+    }
+    
+    const pageService = getPageService();
+    const pageLayout = await pageService.getPageLayout(documentId, pageNumber);
+    
+    if (!pageLayout) {
+      return c.json({ error: 'Layout da página não encontrado' }, 404);
+    }
+    
+    return c.json({
+      documentId,
+      pageNumber,
+      lineCount: pageLayout.lineCount,
+      width: pageLayout.layout.width,
+      height: pageLayout.layout.height,
+      items: pageLayout.layout.items,
+    });
+  } catch (error) {
+    console.error('Erro ao buscar layout da página:', error);
+    return c.json({ error: 'Erro ao buscar layout da página' }, 500);
+  }
+});
+
+/**
+ * GET /documents/:id/events
+ * Stream SSE com os eventos de progresso do processamento
+ *
+ * Envia o histórico (ou só o que veio depois do header Last-Event-ID, usado pelo
+ * EventSource ao reconectar) e segue enviando novos eventos. Cada mensagem tem
+ * `id` e `data` (JSON); o stream termina com `event: end` depois de um evento
+ * completed/failed/cancelled/paused, ou logo após o histórico se não há processamento em andamento.
+ */
+documents.get('/:id/events', async (c) => {
+  const documentId = c.req.param('id');
+
+  if (!ObjectId.isValid(documentId)) {
+    return c.json({ error: 'ID inválido' }, 400);
+  }
+
+  const documentsCollection = getDatabase().collection<PDFDocument>('documents');
+
+  try {
+    const doc = await documentsCollection.findOne(
+      { _id: new ObjectId(documentId) },
+      { projection: { status: 1 } }
+    );
+
+    if (!doc) {
+      return c.json({ error: 'Documento não encontrado' }, 404);
+    }
+  } catch (error) {
+    console.error('Erro ao abrir stream de progresso:', error);
+    return c.json({ error: 'Erro ao abrir stream de progresso' }, 500);
+  }
+
+  const progress = getProgressService();
+  let lastEventId = c.req.header('Last-Event-ID') || c.req.query('lastEventId');
+
+  return streamSSE(
+    c,
+    async (stream) => {
+      let lastType: ProcessingEvent['type'] | undefined;
+      let sinceHeartbeatMs = 0;
+      let idleMs = 0;
+
+      while (!stream.aborted) {
+        const events = await progress.getEvents(documentId, lastEventId);
+
+        for (const event of events) {
+          lastEventId = event._id!.toString();
+          lastType = event.type;
+          await stream.writeSSE({ id: lastEventId, data: JSON.stringify(formatProgressEvent(event)) });
+        }
+
+        if (lastType && TERMINAL_EVENT_TYPES.includes(lastType)) break;
+
+        idleMs = events.length > 0 ? 0 : idleMs + getProgressPollIntervalMs();
+
+        // Documento parado: nada mais vai chegar
+        if (events.length === 0) {
+          const current = await documentsCollection.findOne(
+            { _id: new ObjectId(documentId) },
+            { projection: { status: 1 } }
+          );
+          const active = current?.status === 'PROCESSING' || current?.status === 'PENDING';
+          if (!active && (!lastType || idleMs >= SSE_IDLE_CLOSE_MS)) break;
+        }
+
+        if (events.length === 0 && sinceHeartbeatMs >= SSE_HEARTBEAT_MS) {
+          await stream.write(': ping\n\n');
+          sinceHeartbeatMs = 0;
+        }
+
+        await stream.sleep(getProgressPollIntervalMs());
+        sinceHeartbeatMs += getProgressPollIntervalMs();
+      }
+
+      if (!stream.aborted) {
+        await stream.writeSSE({ event: 'end', data: JSON.stringify({ lastEventType: lastType ?? null }) });
+      }
+    },
+    async (error) => {
+      console.error('Erro no stream de progresso:', error);
+    }
+  );
+});
+
 /**
  * GET /documents/:id/summary
  * Retorna um resumo rápido do documento (para cards/listagens)
@@ -0,0 +1,286 @@
+import { Hono } from 'hono';
+import { getLibraryService } from '../services/library.js';
+import { getChatService } from '../services/chat.js';
+import { BudgetExceededError, getBudgetService } from '../services/budget.js';
+import { DEFAULT_ORGANIZATION_ID } from '../services/usage.js';
+import type { DocumentStatus } from '../types/index.js';
+import type { LibraryChatRequest, LibraryFilters } from '../types/rag.js';
+
+const library = new Hono();
+
+const DOCUMENT_STATUSES: DocumentStatus[] = [
+  'PENDING',
+  'PROCESSING',
+  'COMPLETED',
+  'FAILED',
+  'PAUSED',
+  'CANCELLED',
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const UNKNOWN_ORGANIZATION_ERROR = 'Organização não cadastrada (um administrador a registra em PUT /budgets/:organizationId)';
+
+/**
+ * Valida os filtros da biblioteca (corpo JSON ou query string já convertida)
+ * Retorna a mensagem de erro, ou os filtros normalizados
+ */
+function parseFilters(input: unknown): { filters: LibraryFilters } | { error: string } {
+  if (input === undefined || input === null) return { filters: {} };
+  if (typeof input !== 'object') return { error: 'filters deve ser um objeto' };
+
+  const { status, from, to, tags } = input as Record<string, unknown>;
+  const filters: LibraryFilters = {};
+
+  if (status !== undefined) {
+    if (!Array.isArray(status) || status.some(value => !DOCUMENT_STATUSES.includes(value as DocumentStatus))) {
+      return { error: `status deve ser uma lista com: ${DOCUMENT_STATUSES.join(', ')}` };
+    }
+    filters.status = status as DocumentStatus[];
+  }
+
+  for (const [field, value] of [['from', from], ['to', to]] as const) {
+    if (value === undefined || value === '') continue;
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(new Date(value).getTime())) {
+      return { error: `${field} deve ser uma data no formato YYYY-MM-DD` };
+    }
+    filters[field] = value;
+  }
+
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+      return { error: 'tags deve ser uma lista de textos' };
+    }
+    filters.tags = tags as string[];
+  }
+
+  return { filters };
+}
+
+/**
+ * Filtros da query string (?status=COMPLETED,PROCESSING&from=...&to=...&tags=obras,ti)
+ */
+function parseQueryFilters(query: Record<string, string>) {
+  const list = (value?: string) => value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+
+  return parseFilters({
+    status: list(query.status)?.map(status => status.toUpperCase()),
+    from: query.from,
+    to: query.to,
+    tags: list(query.tags),
+  });
+}
+
+/**
+ * GET /library/documents
+ * Documentos da organização que atendem aos filtros
+ * Query: ?organizationId=&status=&from=&to=&tags=
+ */
+library.get('/documents', async (c) => {
+  try {
+    const organizationId = c.req.query('organizationId') || DEFAULT_ORGANIZATION_ID;
+    const parsed = parseQueryFilters(c.req.query());
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400);
+    }
+
+    const documents = await getLibraryService().findDocuments(organizationId, parsed.filters);
+
+    return c.json({ organizationId, documents, total: documents.length });
+  } catch (error) {
+    console.error('Erro ao listar documentos da biblioteca:', error);
+    return c.json({ error: 'Erro ao listar documentos da biblioteca' }, 500);
+  }
+});
+
+/**
+ * POST /library/search
+ * Busca trechos em todos os documentos filtrados (sem gerar resposta)
+ */
+library.post('/search', async (c) => {
+  try {
+    const body = await c.req.json<{
+      query?: string;
+      organizationId?: string;
+      filters?: unknown;
+      topK?: number;
+    }>().catch(() => null);
+
+    if (!body?.query || typeof body.query !== 'string') {
+      return c.json({ error: 'query é obrigatória' }, 400);
+    }
+
+    const parsed = parseFilters(body.filters);
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400);
+    }
+
+    const organizationId = body.organizationId || DEFAULT_ORGANIZATION_ID;
+    if (!(await getBudgetService().isRegistered(organizationId))) {
+      return c.json({ error: UNKNOWN_ORGANIZATION_ERROR }, 403);
+    }
+
+    const result = await getLibraryService().search(
+      organizationId,
+      body.query,
+      parsed.filters,
+      body.topK
+    );
+
+    return c.json(result);
+  } catch (error) {
+    console.error('Erro na busca da biblioteca:', error);
+
+    if (error instanceof BudgetExceededError) {
+      return c.json({ error: error.message, scope: error.scope }, 402);
+    }
+
+    return c.json({ error: 'Erro na busca da biblioteca' }, 500);
+  }
+});
+
+/**
+ * POST /library/chat
+ * Envia uma mensagem ao chat da biblioteca (vários documentos)
+ */
+library.post('/chat', async (c) => {
+  try {
+    const body = await c.req.json<LibraryChatRequest>().catch(() => null);
+
+    if (!body?.message || typeof body.message !== 'string') {
+      return c.json({ error: 'Mensagem é obrigatória' }, 400);
+    }
+
+    const parsed = parseFilters(body.filters);
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400);
+    }
+
+    const organizationId = body.organizationId || DEFAULT_ORGANIZATION_ID;
+    if (!(await getBudgetService().isRegistered(organizationId))) {
+      return c.json({ error: UNKNOWN_ORGANIZATION_ERROR }, 403);
+    }
+
+    const response = await getLibraryService().chat(
+      organizationId,
+      body.message,
+      {
+        conversationId: body.conversationId,
+        topK: body.topK,
+        filters: parsed.filters,
+      }
+    );
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Erro no chat da biblioteca:', error);
+
+    if (error instanceof Error && error.message.includes('Nenhum documento')) {
+      return c.json({ error: error.message }, 400);
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return c.json({ error: error.message, scope: error.scope }, 402);
+    }
+
+    return c.json({ error: 'Erro ao processar mensagem' }, 500);
+  }
+});
+
+/**
+ * GET /library/chat
+ * Lista as conversas da biblioteca da organização (?organizationId=)
+ */
+library.get('/chat', async (c) => {
+  try {
+    const organizationId = c.req.query('organizationId') || DEFAULT_ORGANIZATION_ID;
+    const conversations = await getLibraryService().listConversations(organizationId);
+
+    return c.json({
+      organizationId,
+      conversations: conversations.map(conv => ({
+        id: conv.id,
+        title: conv.title,
+        filters: conv.filters,
+        messageCount: conv.messageCount,
+        createdAt: conv.createdAt,
+        lastMessageAt: conv.lastMessageAt,
+      })),
+      total: conversations.length,
+    });
+  } catch (error) {
+    console.error('Erro ao listar conversas da biblioteca:', error);
+    return c.json({ error: 'Erro ao listar conversas' }, 500);
+  }
+});
+
+/**
+ * GET /library/chat/:conversationId
+ * Retorna o histórico de uma conversa da biblioteca (?organizationId=)
+ */
+library.get('/chat/:conversationId', async (c) => {
+  try {
+    const organizationId = c.req.query('organizationId') || DEFAULT_ORGANIZATION_ID;
+    const conversation = await getLibraryService().getConversation(
+      organizationId,
+      c.req.param('conversationId')
+    );
+
+    if (!conversation) {
+      return c.json({ error: 'Conversa não encontrada' }, 404);
+    }
+
+    const messages = await getChatService().getConversationMessages(conversation.id);
+
+    return c.json({
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        filters: conversation.filters,
+        createdAt: conversation.createdAt,
+        lastMessageAt: conversation.lastMessageAt,
+        messageCount: conversation.messageCount,
+      },
+      messages: messages.map(msg => ({
+        id: msg.id,
+        role: msg.role,
+        content: msg.content,
+        sources: msg.sources,
+        createdAt: msg.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Erro ao buscar conversa da biblioteca:', error);
+    return c.json({ error: 'Erro ao buscar conversa' }, 500);
+  }
+});
+
+/**
+ * DELETE /library/chat/:conversationId
+ * Deleta uma conversa da biblioteca e suas mensagens (?organizationId=)
+ */
+library.delete('/chat/:conversationId', async (c) => {
+  try {
+    const organizationId = c.req.query('organizationId') || DEFAULT_ORGANIZATION_ID;
+    const conversation = await getLibraryService().getConversation(
+      organizationId,
+      c.req.param('conversationId')
+    );
+
+    if (!conversation) {
+      return c.json({ error: 'Conversa não encontrada' }, 404);
+    }
+
+    const result = await getChatService().deleteConversation(conversation.id);
+
+    return c.json({
+      success: true,
+      messagesDeleted: result.messagesDeleted,
+    });
+  } catch (error) {
+    console.error('Erro ao deletar conversa da biblioteca:', error);
+    return c.json({ error: 'Erro ao deletar conversa' }, 500);
+  }
+});
+
+export { library };
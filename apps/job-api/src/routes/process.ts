@@ -1,11 +1,60 @@
 import { Hono } from 'hono';
 import { ObjectId } from 'mongodb';
 import { getDatabase } from '../services/database.js';
-import { addJob } from '../services/queue.js';
-import type { PDFDocument, ProcessJobData } from '../types/index.js';
+import {
+  addJob,
+  addProcurementJob,
+  listJobs,
+  getJob,
+  retryJob,
+  cancelJob,
+  interruptDocumentJob,
+  getQueueStats,
+  JobStateError,
+} from '../services/queue.js';
+import { getProcessingControlService } from '../services/processing-control.js';
+import type {
+  Job,
+  JobStatus,
+  JobType,
+  PDFDocument,
+  Procurement,
+  ProcessingControlAction,
+  ProcessJobData,
+  ProcessProcurementJobData,
+} from '../types/index.js';
 
 const process = new Hono();
 
+const JOB_STATUSES: JobStatus[] = ['QUEUED', 'RUNNING', 'COMPLETED', 'DEAD_LETTER', 'CANCELLED'];
+const JOB_TYPES: JobType[] = ['document', 'procurement'];
+
+/**
+ * Formata um job para resposta da API
+ */
+function formatJob(job: Job) {
+  return {
+    id: job._id?.toString(),
+    type: job.type,
+    targetId: job.targetId,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    runAfter: job.runAfter,
+    lockedBy: job.lockedBy,
+    lockedUntil: job.lockedUntil,
+    heartbeatAt: job.heartbeatAt,
+    lastError: job.lastError,
+    errors: job.errors,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    cancelledAt: job.cancelledAt,
+    cancelRequestedAt: job.cancelRequestedAt,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
 // Endpoint para iniciar processamento de um documento
 process.post('/', async (c) => {
   try {
@@ -19,6 +68,10 @@ process.post('/', async (c) => {
       return c.json({ error: 'documentId inválido' }, 400);
     }
 
+    if (body.mode && body.mode !== 'full' && body.mode !== 'resume') {
+      return c.json({ error: 'mode deve ser "full" ou "resume"' }, 400);
+    }
+
     const db = getDatabase();
     const documentsCollection = db.collection<PDFDocument>('documents');
 
@@ -46,16 +99,19 @@ process.post('/', async (c) => {
       }, 200);
     }
 
-    // Adicionar job na fila
-    await addJob({
+    // Adicionar job na fila (persistido; reenvios reaproveitam o job ativo)
+    const job = await addJob({
       documentId: body.documentId,
       s3Key: body.s3Key,
+      config: body.config,
+      mode: body.mode,
     });
 
     return c.json(
       {
-        message: 'Processamento iniciado',
+        message: body.mode === 'resume' ? 'Processamento retomado' : 'Processamento iniciado',
         documentId: body.documentId,
+        jobId: job._id?.toString(),
         status: 'PENDING',
       },
       202
@@ -66,5 +122,340 @@ process.post('/', async (c) => {
   }
 });
 
+// Endpoint para iniciar processamento de uma licitação (pacote ZIP)
+process.post('/procurement', async (c) => {
+  try {
+    const body = await c.req.json<ProcessProcurementJobData>();
+
+    if (!body.procurementId || !body.s3Key) {
+      return c.json({ error: 'procurementId e s3Key são obrigatórios' }, 400);
+    }
+
+    if (!ObjectId.isValid(body.procurementId)) {
+      return c.json({ error: 'procurementId inválido' }, 400);
+    }
+
+    const db = getDatabase();
+    const procurement = await db.collection<Procurement>('procurements').findOne({
+      _id: new ObjectId(body.procurementId),
+    });
+
+    if (!procurement) {
+      return c.json({ error: 'Licitação não encontrada' }, 404);
+    }
+
+    if (procurement.status === 'PROCESSING') {
+      return c.json({
+        error: 'Licitação já está em processamento',
+        status: procurement.status,
+      }, 409);
+    }
+
+    const job = await addProcurementJob({
+      procurementId: body.procurementId,
+      s3Key: body.s3Key,
+    });
+
+    return c.json(
+      {
+        message: 'Processamento iniciado',
+        procurementId: body.procurementId,
+        jobId: job._id?.toString(),
+        status: 'PENDING',
+      },
+      202
+    );
+  } catch (error) {
+    console.error('Erro ao iniciar processamento da licitação:', error);
+    return c.json({ error: 'Erro interno ao iniciar processamento' }, 500);
+  }
+});
+
+// ============================================================================
+// CONTROLE DO PROCESSAMENTO (cancelar / pausar / retomar)
+// ============================================================================
+
+/**
+ * Cancela ou pausa o processamento de um documento
+ *
+ * Documento na fila muda de status na hora (200); em execução, o worker para
+ * no próximo ponto de checagem — entre batches ou entre os estágios — e a
+ * resposta é 202 com o status ainda PROCESSING.
+ */
+async function interruptDocument(documentId: string, action: ProcessingControlAction) {
+  const db = getDatabase();
+  const document = await db.collection<PDFDocument>('documents').findOne({
+    _id: new ObjectId(documentId),
+  });
+
+  if (!document) {
+    return { status: 404 as const, body: { error: 'Documento não encontrado' } };
+  }
+
+  if (document.status !== 'PENDING' && document.status !== 'PROCESSING') {
+    return {
+      status: 409 as const,
+      body: { error: 'Documento não está em processamento', status: document.status },
+    };
+  }
+
+  const job = await interruptDocumentJob(documentId, action);
+
+  // Documento filho de licitação roda dentro do job da licitação
+  if (!job && document.status === 'PROCESSING') {
+    await getProcessingControlService().request(documentId, action);
+  } else if (!job) {
+    return {
+      status: 409 as const,
+      body: { error: 'Nenhum job ativo para o documento', status: document.status },
+    };
+  }
+
+  const applied = job?.status === 'CANCELLED';
+  const label = action === 'cancel' ? 'Cancelamento' : 'Pausa';
+
+  return {
+    status: applied ? (200 as const) : (202 as const),
+    body: {
+      message: applied ? `${label} aplicado` : `${label} solicitado; o processamento para após a etapa atual`,
+      documentId,
+      jobId: job?._id?.toString(),
+      status: applied ? (action === 'cancel' ? 'CANCELLED' : 'PAUSED') : 'PROCESSING',
+    },
+  };
+}
+
+/**
+ * POST /process/:documentId/cancel
+ * Cancela o processamento (reprocessar começa do zero)
+ */
+process.post('/:documentId/cancel', async (c) => {
+  try {
+    const documentId = c.req.param('documentId');
+
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await interruptDocument(documentId, 'cancel');
+    return c.json(result.body, result.status);
+  } catch (error) {
+    console.error('Erro ao cancelar processamento:', error);
+    return c.json({ error: 'Erro ao cancelar processamento' }, 500);
+  }
+});
+
+/**
+ * POST /process/:documentId/pause
+ * Pausa o processamento (retomado pelos batches pendentes)
+ */
+process.post('/:documentId/pause', async (c) => {
+  try {
+    const documentId = c.req.param('documentId');
+
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const result = await interruptDocument(documentId, 'pause');
+    return c.json(result.body, result.status);
+  } catch (error) {
+    console.error('Erro ao pausar processamento:', error);
+    return c.json({ error: 'Erro ao pausar processamento' }, 500);
+  }
+});
+
+/**
+ * POST /process/:documentId/resume
+ * Retoma um documento pausado a partir dos batches pendentes
+ */
+process.post('/:documentId/resume', async (c) => {
+  try {
+    const documentId = c.req.param('documentId');
+
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const db = getDatabase();
+    const document = await db.collection<PDFDocument>('documents').findOne({
+      _id: new ObjectId(documentId),
+    });
+
+    if (!document) {
+      return c.json({ error: 'Documento não encontrado' }, 404);
+    }
+
+    if (document.status !== 'PAUSED') {
+      return c.json({
+        error: 'Só documentos pausados podem ser retomados',
+        status: document.status,
+      }, 409);
+    }
+
+    const job = await addJob({
+      documentId,
+      s3Key: document.s3Key,
+      config: document.config,
+      mode: 'resume',
+    });
+
+    await db.collection<PDFDocument>('documents').updateOne(
+      { _id: document._id },
+      { $set: { status: 'PENDING', updatedAt: new Date() } }
+    );
+
+    return c.json(
+      {
+        message: 'Processamento retomado',
+        documentId,
+        jobId: job._id?.toString(),
+        status: 'PENDING',
+      },
+      202
+    );
+  } catch (error) {
+    console.error('Erro ao retomar processamento:', error);
+    return c.json({ error: 'Erro ao retomar processamento' }, 500);
+  }
+});
+
+// ============================================================================
+// JOBS
+// ============================================================================
+
+/**
+ * GET /process/jobs
+ * Lista jobs da fila (filtros: status, type, targetId)
+ */
+process.get('/jobs', async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1', 10);
+    const limit = parseInt(c.req.query('limit') || '20', 10);
+    const status = c.req.query('status') as JobStatus | undefined;
+    const type = c.req.query('type') as JobType | undefined;
+    const targetId = c.req.query('targetId');
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return c.json({ error: `status inválido. Use: ${JOB_STATUSES.join(', ')}` }, 400);
+    }
+
+    if (type && !JOB_TYPES.includes(type)) {
+      return c.json({ error: `type inválido. Use: ${JOB_TYPES.join(', ')}` }, 400);
+    }
+
+    const [{ jobs, total }, stats] = await Promise.all([
+      listJobs({ status, type, targetId, skip: (page - 1) * limit, limit }),
+      getQueueStats(),
+    ]);
+
+    return c.json({
+      jobs: jobs.map(formatJob),
+      stats,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Erro ao listar jobs:', error);
+    return c.json({ error: 'Erro ao listar jobs' }, 500);
+  }
+});
+
+/**
+ * GET /process/jobs/:jobId
+ * Detalhes de um job, com histórico de falhas por tentativa
+ */
+process.get('/jobs/:jobId', async (c) => {
+  try {
+    const jobId = c.req.param('jobId');
+
+    if (!ObjectId.isValid(jobId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const job = await getJob(jobId);
+
+    if (!job) {
+      return c.json({ error: 'Job não encontrado' }, 404);
+    }
+
+    return c.json({
+      ...formatJob(job),
+      data: job.data,
+    });
+  } catch (error) {
+    console.error('Erro ao buscar job:', error);
+    return c.json({ error: 'Erro ao buscar job' }, 500);
+  }
+});
+
+/**
+ * POST /process/jobs/:jobId/retry
+ * Reenfileira um job em DEAD_LETTER ou CANCELLED
+ */
+process.post('/jobs/:jobId/retry', async (c) => {
+  try {
+    const jobId = c.req.param('jobId');
+
+    if (!ObjectId.isValid(jobId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const job = await retryJob(jobId);
+
+    if (!job) {
+      return c.json({ error: 'Job não encontrado' }, 404);
+    }
+
+    return c.json({ message: 'Job reenfileirado', job: formatJob(job) }, 202);
+  } catch (error) {
+    if (error instanceof JobStateError) {
+      return c.json({ error: error.message, status: error.status }, 409);
+    }
+    console.error('Erro ao reenfileirar job:', error);
+    return c.json({ error: 'Erro ao reenfileirar job' }, 500);
+  }
+});
+
+/**
+ * POST /process/jobs/:jobId/cancel
+ * Cancela um job QUEUED (200) ou pede o cancelamento de um RUNNING (202)
+ */
+process.post('/jobs/:jobId/cancel', async (c) => {
+  try {
+    const jobId = c.req.param('jobId');
+
+    if (!ObjectId.isValid(jobId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const job = await cancelJob(jobId);
+
+    if (!job) {
+      return c.json({ error: 'Job não encontrado' }, 404);
+    }
+
+    // Job em execução só para no próximo ponto de checagem do worker
+    if (job.status === 'RUNNING') {
+      return c.json(
+        { message: 'Cancelamento solicitado; o processamento para após a etapa atual', job: formatJob(job) },
+        202
+      );
+    }
+
+    return c.json({ message: 'Job cancelado', job: formatJob(job) });
+  } catch (error) {
+    if (error instanceof JobStateError) {
+      return c.json({ error: error.message, status: error.status }, 409);
+    }
+    console.error('Erro ao cancelar job:', error);
+    return c.json({ error: 'Erro ao cancelar job' }, 500);
+  }
+});
+
 export { process };
 
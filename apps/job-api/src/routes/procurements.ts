@@ -0,0 +1,183 @@
+import { Hono } from 'hono';
+import { ObjectId } from 'mongodb';
+import { getProcurementService } from '../services/procurement.js';
+import type { DocumentRole } from '../types/index.js';
+
+const procurements = new Hono();
+
+/**
+ * Conta itens agregados por papel do documento de origem
+ */
+function countByRole(items: Array<{ sourceDocument: { documentRole?: DocumentRole } }>) {
+  const byRole: Record<string, number> = {};
+  for (const item of items) {
+    const role = item.sourceDocument.documentRole ?? 'ANEXO';
+    byRole[role] = (byRole[role] || 0) + 1;
+  }
+  return byRole;
+}
+
+/**
+ * GET /procurements
+ * Lista licitações (pacotes ZIP)
+ */
+procurements.get('/', async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1', 10);
+    const limit = parseInt(c.req.query('limit') || '20', 10);
+
+    const { procurements: items, total } = await getProcurementService().listProcurements({
+      skip: (page - 1) * limit,
+      limit,
+    });
+
+    return c.json({
+      procurements: items.map(p => ({
+        id: p._id?.toString(),
+        filename: p.filename,
+        status: p.status,
+        totalDocuments: p.documentIds.length,
+        error: p.error,
+        createdAt: p.createdAt,
+        processingStartedAt: p.processingStartedAt,
+        processingCompletedAt: p.processingCompletedAt,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Erro ao listar licitações:', error);
+    return c.json({ error: 'Erro ao listar licitações' }, 500);
+  }
+});
+
+/**
+ * GET /procurements/:id
+ * Retorna a licitação com seus documentos filhos
+ */
+procurements.get('/:id', async (c) => {
+  try {
+    const procurementId = c.req.param('id');
+
+    if (!ObjectId.isValid(procurementId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const service = getProcurementService();
+    const procurement = await service.getProcurement(procurementId);
+
+    if (!procurement) {
+      return c.json({ error: 'Licitação não encontrada' }, 404);
+    }
+
+    const children = await service.getChildren(procurementId);
+
+    return c.json({
+      id: procurementId,
+      filename: procurement.filename,
+      status: procurement.status,
+      error: procurement.error,
+      skippedFiles: procurement.skippedFiles || [],
+      documents: children.map(child => ({
+        id: child._id?.toString(),
+        filename: child.filename,
+        documentRole: child.documentRole,
+        sourceFormat: child.sourceFormat,
+        status: child.status,
+        totalPages: child.totalPages || 0,
+        error: child.error,
+      })),
+      createdAt: procurement.createdAt,
+      updatedAt: procurement.updatedAt,
+      processingStartedAt: procurement.processingStartedAt,
+      processingCompletedAt: procurement.processingCompletedAt,
+    });
+  } catch (error) {
+    console.error('Erro ao buscar licitação:', error);
+    return c.json({ error: 'Erro ao buscar licitação' }, 500);
+  }
+});
+
+/**
+ * GET /procurements/:id/entities
+ * Entidades de todos os documentos da licitação
+ */
+procurements.get('/:id/entities', async (c) => {
+  try {
+    const procurementId = c.req.param('id');
+
+    if (!ObjectId.isValid(procurementId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const entities = await getProcurementService().getAggregatedEntities(procurementId);
+
+    return c.json({
+      procurementId,
+      total: entities.length,
+      byRole: countByRole(entities),
+      entities,
+    });
+  } catch (error) {
+    console.error('Erro ao buscar entidades da licitação:', error);
+    return c.json({ error: 'Erro ao buscar entidades da licitação' }, 500);
+  }
+});
+
+/**
+ * GET /procurements/:id/timeline
+ * Timeline unificada da licitação
+ */
+procurements.get('/:id/timeline', async (c) => {
+  try {
+    const procurementId = c.req.param('id');
+
+    if (!ObjectId.isValid(procurementId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const events = await getProcurementService().getAggregatedTimeline(procurementId);
+
+    return c.json({
+      procurementId,
+      total: events.length,
+      byRole: countByRole(events),
+      events,
+    });
+  } catch (error) {
+    console.error('Erro ao buscar timeline da licitação:', error);
+    return c.json({ error: 'Erro ao buscar timeline da licitação' }, 500);
+  }
+});
+
+/**
+ * GET /procurements/:id/risks
+ * Riscos de todos os documentos da licitação
+ */
+procurements.get('/:id/risks', async (c) => {
+  try {
+    const procurementId = c.req.param('id');
+
+    if (!ObjectId.isValid(procurementId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+
+    const risks = await getProcurementService().getAggregatedRisks(procurementId);
+
+    return c.json({
+      procurementId,
+      total: risks.length,
+      byRole: countByRole(risks),
+      risks,
+    });
+  } catch (error) {
+    console.error('Erro ao buscar riscos da licitação:', error);
+    return c.json({ error: 'Erro ao buscar riscos da licitação' }, 500);
+  }
+});
+
+export { procurements };
@@ -40,6 +40,10 @@ API para processamento e extração de informações de editais de licitação p
     { name: 'Risks', description: 'Riscos identificados' },
     { name: 'Comments', description: 'Comentários em eventos' },
     { name: 'Process', description: 'Processamento de documentos' },
+    { name: 'Procurements', description: 'Licitações enviadas como pacote ZIP' },
+    { name: 'Budgets', description: 'Orçamentos de IA por organização (admin)' },
+    { name: 'Library', description: 'Busca e chat em todos os documentos da organização' },
+    { name: 'Calendars', description: 'Feriados por órgão e prazos em dias úteis (Lei 14.133)' },
   ],
   paths: {
     // ========================================================================
@@ -58,9 +62,10 @@ API para processamento e extração de informações de editais de licitação p
             in: 'query', 
             schema: { 
               type: 'string', 
-              enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'] 
+              enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'PAUSED', 'CANCELLED'] 
             } 
           },
+          { name: 'tag', in: 'query', schema: { type: 'string' }, description: 'Documentos com a tag' },
         ],
         responses: {
           200: {
@@ -94,6 +99,174 @@ API para processamento e extração de informações de editais de licitação p
         },
       },
     },
+    '/documents/{id}/usage': {
+      get: {
+        tags: ['Documents'],
+        summary: 'Uso de IA do documento',
+        description: 'Tokens, latência e custo estimado (US$) das chamadas de IA do documento (estrutura, extração, embeddings e chat), por etapa, modelo e batch. Reprocessamentos somam ao total.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: {
+            description: 'Uso agregado',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    documentId: { type: 'string' },
+                    totals: { $ref: '#/components/schemas/UsageGroup' },
+                    byStage: {
+                      type: 'array',
+                      items: {
+                        allOf: [
+                          { $ref: '#/components/schemas/UsageGroup' },
+                          { type: 'object', properties: { stage: { type: 'string', enum: ['structure', 'extraction', 'chat', 'embeddings'] } } },
+                        ],
+                      },
+                    },
+                    byModel: {
+                      type: 'array',
+                      items: {
+                        allOf: [
+                          { $ref: '#/components/schemas/UsageGroup' },
+                          { type: 'object', properties: { model: { type: 'string', example: 'openai:gpt-5.1' } } },
+                        ],
+                      },
+                    },
+                    byBatch: {
+                      type: 'array',
+                      items: {
+                        allOf: [
+                          { $ref: '#/components/schemas/UsageGroup' },
+                          { type: 'object', properties: { batchNumber: { type: 'integer' } } },
+                        ],
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
+    '/documents/{id}/quarantine': {
+      get: {
+        tags: ['Documents'],
+        summary: 'Itens em quarentena',
+        description: 'Seções, entidades, eventos e riscos que não passaram na validação após as rodadas de correção (EXTRACTION_REPAIR_ROUNDS) e não foram salvos. Ficam para revisão manual.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: {
+            description: 'Itens em quarentena',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    documentId: { type: 'string' },
+                    items: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'string' },
+                          batchNumber: { type: 'integer' },
+                          kind: { type: 'string', enum: ['section', 'entity', 'timelineEvent', 'risk'] },
+                          key: { type: 'string', description: 'semanticKey, número ou título do item' },
+                          item: { type: 'object', description: 'Item como o modelo enviou' },
+                          errors: { type: 'array', items: { type: 'string' }, example: ['metadataJson.tipoEvento: Required'] },
+                          repairRounds: { type: 'integer' },
+                          createdAt: { type: 'string', format: 'date-time' },
+                        },
+                      },
+                    },
+                    total: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
+    '/documents/{id}/citations': {
+      get: {
+        tags: ['Documents'],
+        summary: 'Verificação de citações',
+        description: 'Após cada batch, o trecho (excerpt) de cada fonte de entidade, evento do timeline e risco é procurado no texto das páginas. VERIFIED: encontrado na página citada; RELOCATED: encontrado em outra página (página corrigida); UNVERIFIED: não encontrado (confiança reduzida pela metade). Entidades e riscos contam por fonte.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: {
+            description: 'Estatísticas de verificação',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/CitationStats' } } },
+          },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
+    '/documents/{id}/tags': {
+      put: {
+        tags: ['Documents'],
+        summary: 'Definir tags',
+        description: 'Substitui as tags do documento (minúsculas, sem repetição), usadas nos filtros da biblioteca',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['tags'],
+                properties: { tags: { type: 'array', items: { type: 'string' }, example: ['obras', 'prefeitura'] } },
+              },
+            },
+          },
+        },
+        responses: {
+          200: { description: 'Tags atualizadas' },
+          400: { description: 'tags inválidas' },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
+    '/documents/{id}/calendar': {
+      put: {
+        tags: ['Documents'],
+        summary: 'Definir calendário do órgão',
+        description: 'Calendário de feriados usado nas datas relativas em dias úteis (null = só feriados nacionais). As datas projetadas do timeline são recalculadas.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['calendarId'],
+                properties: { calendarId: { type: 'string', nullable: true, example: 'sp-sao-paulo' } },
+              },
+            },
+          },
+        },
+        responses: {
+          200: { description: 'Calendário atualizado' },
+          400: { description: 'calendarId inválido' },
+          404: { description: 'Documento ou calendário não encontrado' },
+        },
+      },
+    },
     '/documents/{id}/pdf-url': {
       get: {
         tags: ['Documents'],
@@ -121,6 +294,21 @@ API para processamento e extração de informações de editais de licitação p
         },
       },
     },
+    '/documents/{id}/pages/{pageNumber}/layout': {
+      get: {
+        tags: ['Documents'],
+        summary: 'Layout da página',
+        description: 'Retorna as coordenadas (em % da página) de cada item de texto e a linha a que pertence',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'pageNumber', in: 'path', required: true, schema: { type: 'integer' } },
+        ],
+        responses: {
+          200: { description: 'Layout da página' },
+          404: { description: 'Layout não encontrado' },
+        },
+      },
+    },
     '/documents/{id}/summary': {
       get: {
         tags: ['Documents'],
@@ -134,6 +322,29 @@ API para processamento e extração de informações de editais de licitação p
         },
       },
     },
+    '/documents/{id}/events': {
+      get: {
+        tags: ['Documents'],
+        summary: 'Progresso em tempo real (SSE)',
+        description:
+          'Stream text/event-stream com eventos de progresso: stage_started, stage_finished, batch_started, batch_finished, batch_retry, embedding_progress, error, completed, failed, cancelled, paused. Cada mensagem traz id e data (JSON); o stream termina com event: end',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          {
+            name: 'Last-Event-ID',
+            in: 'header',
+            schema: { type: 'string' },
+            description: 'Envia só os eventos posteriores (reconexão)',
+          },
+          { name: 'lastEventId', in: 'query', schema: { type: 'string' }, description: 'Alternativa ao header' },
+        ],
+        responses: {
+          200: { description: 'Stream de eventos', content: { 'text/event-stream': {} } },
+          400: { description: 'ID inválido' },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
 
     // ========================================================================
     // TIMELINE
@@ -180,6 +391,23 @@ API para processamento e extração de informações de editais de licitação p
         },
       },
     },
+    '/timeline/{documentId}/critical-path': {
+      get: {
+        tags: ['Timeline'],
+        summary: 'Caminho crítico',
+        description: 'Caminho crítico da publicação à assinatura do contrato, folga de cada evento e requisitos que liberam cada fase. As precedências vêm de relativeTo, dos relacionamentos DEPENDS_ON/TRIGGERS/PREREQUISITE das entidades e da ordem das fases',
+        parameters: [
+          { name: 'documentId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: {
+            description: 'Análise do cronograma',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/CriticalPathAnalysis' } } },
+          },
+          404: { description: 'Documento não encontrado' },
+        },
+      },
+    },
     '/timeline/{documentId}/by-phase': {
       get: {
         tags: ['Timeline'],
@@ -208,6 +436,63 @@ API para processamento e extração de informações de editais de licitação p
         },
       },
     },
+    '/timeline/{documentId}/events/{eventId}/date': {
+      put: {
+        tags: ['Timeline'],
+        summary: 'Corrigir data do evento',
+        description: 'Define a data (dateStatus EXTRACTED) ou remove com null; os eventos relativos que dependem dele são recalculados em cadeia',
+        parameters: [
+          { name: 'documentId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'eventId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['date'],
+                properties: { date: { type: 'string', nullable: true, example: '2026-03-10' } },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Evento atualizado e resumo da projeção',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    event: { $ref: '#/components/schemas/TimelineEvent' },
+                    relativeDates: { $ref: '#/components/schemas/RelativeDatesSummary' },
+                  },
+                },
+              },
+            },
+          },
+          400: { description: 'Data inválida' },
+          404: { description: 'Evento não encontrado' },
+        },
+      },
+    },
+    '/timeline/{documentId}/resolve': {
+      post: {
+        tags: ['Timeline'],
+        summary: 'Recalcular datas relativas',
+        description: 'Monta o grafo de relativeTo do documento, detecta ciclos e projeta as datas dos eventos sem data explícita (dateStatus PROJECTED)',
+        parameters: [
+          { name: 'documentId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: {
+            description: 'Resumo da projeção',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/RelativeDatesSummary' } } },
+          },
+        },
+      },
+    },
     '/timeline/{documentId}/events/{eventId}/comments': {
       get: {
         tags: ['Comments'],
@@ -444,6 +729,27 @@ API para processamento e extração de informações de editais de licitação p
                 properties: {
                   documentId: { type: 'string', description: 'ID do documento no MongoDB' },
                   s3Key: { type: 'string', description: 'Chave do arquivo no S3' },
+                  config: {
+                    type: 'object',
+                    description: 'Sobrescreve a configuração padrão de processamento',
+                    properties: {
+                      wordCap: { type: 'integer', default: 5000 },
+                      maxPagesPerBatch: { type: 'integer', default: 10 },
+                      concurrency: { type: 'integer', default: 5, description: 'Batches em paralelo' },
+                      retryAttempts: {
+                        type: 'integer',
+                        default: 2,
+                        description: 'Novas tentativas por estágio, com backoff exponencial',
+                      },
+                    },
+                  },
+                  mode: {
+                    type: 'string',
+                    enum: ['full', 'resume'],
+                    default: 'full',
+                    description:
+                      'full reprocessa do zero; resume mantém as páginas extraídas e processa apenas os batches pendentes ou com falha',
+                  },
                 },
               },
             },
@@ -457,55 +763,825 @@ API para processamento e extração de informações de editais de licitação p
         },
       },
     },
-
-    // ========================================================================
-    // HEALTH
-    // ========================================================================
-    '/health': {
-      get: {
-        tags: ['System'],
-        summary: 'Health check',
-        responses: {
-          200: {
-            description: 'API funcionando',
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    status: { type: 'string', example: 'ok' },
-                    timestamp: { type: 'string', format: 'date-time' },
-                  },
+    '/process/procurement': {
+      post: {
+        tags: ['Process'],
+        summary: 'Processar licitação (ZIP)',
+        description:
+          'Expande o pacote ZIP em documentos filhos classificados (EDITAL, TERMO_REFERENCIA, MINUTA_CONTRATO, ANEXO, PLANILHA) e processa todos em sequência',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['procurementId', 's3Key'],
+                properties: {
+                  procurementId: { type: 'string', description: 'ID da licitação no MongoDB' },
+                  s3Key: { type: 'string', description: 'Chave do ZIP no S3' },
                 },
               },
             },
           },
         },
+        responses: {
+          202: { description: 'Processamento iniciado' },
+          400: { description: 'Dados inválidos' },
+          404: { description: 'Licitação não encontrada' },
+          409: { description: 'Licitação já em processamento' },
+        },
       },
     },
-  },
-  components: {
-    schemas: {
-      DocumentSummary: {
-        type: 'object',
-        properties: {
-          id: { type: 'string' },
-          filename: { type: 'string' },
-          status: { type: 'string', enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'] },
-          percentage: { type: 'integer' },
-          currentStage: { type: 'string' },
-          totalPages: { type: 'integer' },
-          pagesProcessed: { type: 'integer' },
-          createdAt: { type: 'string', format: 'date-time' },
+
+    '/process/jobs': {
+      get: {
+        tags: ['Process'],
+        summary: 'Listar jobs da fila',
+        description:
+          'Jobs persistidos na coleção `jobs` (mais recentes primeiro), com contagem por status e ocupação do worker',
+        parameters: [
+          {
+            name: 'status',
+            in: 'query',
+            schema: { type: 'string', enum: ['QUEUED', 'RUNNING', 'COMPLETED', 'DEAD_LETTER', 'CANCELLED'] },
+          },
+          { name: 'type', in: 'query', schema: { type: 'string', enum: ['document', 'procurement'] } },
+          { name: 'targetId', in: 'query', schema: { type: 'string' }, description: 'documentId ou procurementId' },
+          { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
+        ],
+        responses: {
+          200: { description: 'Lista de jobs' },
+          400: { description: 'Filtro inválido' },
         },
       },
-      TimelineEvent: {
-        type: 'object',
-        properties: {
-          id: { type: 'string' },
-          date: { type: 'string', format: 'date-time', nullable: true },
-          dateRaw: { type: 'string' },
-          dateType: { type: 'string', enum: ['FIXED', 'RELATIVE', 'RANGE'] },
+    },
+    '/process/jobs/{jobId}': {
+      get: {
+        tags: ['Process'],
+        summary: 'Detalhes do job',
+        description: 'Inclui payload, lease atual e histórico de falhas por tentativa',
+        parameters: [{ name: 'jobId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Job' },
+          404: { description: 'Job não encontrado' },
+        },
+      },
+    },
+    '/process/jobs/{jobId}/retry': {
+      post: {
+        tags: ['Process'],
+        summary: 'Reenfileirar job',
+        description: 'Volta um job em DEAD_LETTER ou CANCELLED para a fila, zerando as tentativas',
+        parameters: [{ name: 'jobId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          202: { description: 'Job reenfileirado' },
+          404: { description: 'Job não encontrado' },
+          409: { description: 'Job em status que não permite retry, ou já existe job ativo para o alvo' },
+        },
+      },
+    },
+    '/process/{documentId}/cancel': {
+      post: {
+        tags: ['Process'],
+        summary: 'Cancelar processamento do documento',
+        description:
+          'Documento na fila vai direto para CANCELLED. Em execução, o worker para no próximo ponto de checagem (entre batches ou entre os estágios de um batch)',
+        parameters: [{ name: 'documentId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Cancelado (job estava na fila)' },
+          202: { description: 'Cancelamento solicitado; aplicado após a etapa atual' },
+          404: { description: 'Documento não encontrado' },
+          409: { description: 'Documento não está em processamento' },
+        },
+      },
+    },
+    '/process/{documentId}/pause': {
+      post: {
+        tags: ['Process'],
+        summary: 'Pausar processamento do documento',
+        description:
+          'Como o cancelamento, mas o documento fica PAUSED e pode ser retomado dos batches pendentes',
+        parameters: [{ name: 'documentId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Pausado (job estava na fila)' },
+          202: { description: 'Pausa solicitada; aplicada após a etapa atual' },
+          404: { description: 'Documento não encontrado' },
+          409: { description: 'Documento não está em processamento' },
+        },
+      },
+    },
+    '/process/{documentId}/resume': {
+      post: {
+        tags: ['Process'],
+        summary: 'Retomar documento pausado',
+        description: 'Enfileira o documento em modo resume (só os batches pendentes rodam de novo)',
+        parameters: [{ name: 'documentId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          202: { description: 'Processamento retomado' },
+          404: { description: 'Documento não encontrado' },
+          409: { description: 'Documento não está pausado' },
+        },
+      },
+    },
+    '/process/jobs/{jobId}/cancel': {
+      post: {
+        tags: ['Process'],
+        summary: 'Cancelar job',
+        description:
+          'Cancela um job QUEUED na hora. Para um job RUNNING, o worker para no próximo ponto de checagem (na licitação, o filho em processamento e antes do próximo filho); o job fica RUNNING com cancelRequestedAt até lá e depois vai para CANCELLED, sem nova tentativa',
+        parameters: [{ name: 'jobId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Job cancelado' },
+          202: { description: 'Cancelamento solicitado (job em execução)' },
+          404: { description: 'Job não encontrado' },
+          409: { description: 'Job já finalizado' },
+        },
+      },
+    },
+
+    // ========================================================================
+    // PROCUREMENTS
+    // ========================================================================
+    '/procurements': {
+      get: {
+        tags: ['Procurements'],
+        summary: 'Listar licitações',
+        parameters: [
+          { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
+        ],
+        responses: {
+          200: { description: 'Lista de licitações' },
+        },
+      },
+    },
+    '/procurements/{id}': {
+      get: {
+        tags: ['Procurements'],
+        summary: 'Detalhes da licitação',
+        description: 'Retorna a licitação com os documentos filhos e seus papéis',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Licitação' },
+          404: { description: 'Licitação não encontrada' },
+        },
+      },
+    },
+    '/procurements/{id}/entities': {
+      get: {
+        tags: ['Procurements'],
+        summary: 'Entidades agregadas',
+        description: 'Entidades de todos os documentos, cada uma com sourceDocument (arquivo e papel de origem)',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Entidades agregadas' },
+        },
+      },
+    },
+    '/procurements/{id}/timeline': {
+      get: {
+        tags: ['Procurements'],
+        summary: 'Timeline agregada',
+        description: 'Eventos de todos os documentos ordenados por data, cada um com sourceDocument',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Timeline agregada' },
+        },
+      },
+    },
+    '/procurements/{id}/risks': {
+      get: {
+        tags: ['Procurements'],
+        summary: 'Riscos agregados',
+        description: 'Riscos de todos os documentos, cada um com sourceDocument',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Riscos agregados' },
+        },
+      },
+    },
+
+    // ========================================================================
+    // BUDGETS
+    // ========================================================================
+    '/budgets': {
+      get: {
+        tags: ['Budgets'],
+        summary: 'Listar orçamentos',
+        description: 'Organizações com orçamento próprio ou uso de IA no mês, com limites efetivos e saldo. Exige o header X-Admin-Key (sem ADMIN_API_KEY configurada, responde 503).',
+        parameters: [
+          { name: 'X-Admin-Key', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: {
+            description: 'Orçamentos',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    budgets: { type: 'array', items: { $ref: '#/components/schemas/BudgetStatus' } },
+                    total: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+          403: { description: 'X-Admin-Key ausente ou inválida' },
+          503: { description: 'ADMIN_API_KEY não configurada (rotas administrativas desligadas)' },
+        },
+      },
+    },
+    '/budgets/{organizationId}': {
+      get: {
+        tags: ['Budgets'],
+        summary: 'Orçamento da organização',
+        parameters: [
+          { name: 'organizationId', in: 'path', required: true, schema: { type: 'string', example: 'default' } },
+          { name: 'X-Admin-Key', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: {
+            description: 'Limites, uso do mês e saldo',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/BudgetStatus' } } },
+          },
+          403: { description: 'X-Admin-Key ausente ou inválida' },
+          503: { description: 'ADMIN_API_KEY não configurada (rotas administrativas desligadas)' },
+        },
+      },
+      put: {
+        tags: ['Budgets'],
+        summary: 'Definir orçamento da organização',
+        description: 'Atualiza só os limites informados; null remove o limite. Documentos pausados por orçamento podem ser retomados depois do aumento.',
+        parameters: [
+          { name: 'organizationId', in: 'path', required: true, schema: { type: 'string', example: 'default' } },
+          { name: 'X-Admin-Key', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/BudgetLimits' },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Orçamento atualizado',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/BudgetStatus' } } },
+          },
+          400: { description: 'Limite inválido' },
+          403: { description: 'X-Admin-Key ausente ou inválida' },
+          503: { description: 'ADMIN_API_KEY não configurada (rotas administrativas desligadas)' },
+        },
+      },
+    },
+
+    // ========================================================================
+    // CALENDARS
+    // ========================================================================
+    '/calendars': {
+      get: {
+        tags: ['Calendars'],
+        summary: 'Listar calendários',
+        responses: {
+          200: { description: 'Calendários de feriados cadastrados' },
+        },
+      },
+    },
+    '/calendars/{calendarId}': {
+      get: {
+        tags: ['Calendars'],
+        summary: 'Calendário do órgão',
+        parameters: [
+          { name: 'calendarId', in: 'path', required: true, schema: { type: 'string', example: 'sp-sao-paulo' } },
+        ],
+        responses: {
+          200: {
+            description: 'Feriados configurados',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/HolidayCalendar' } } },
+          },
+          404: { description: 'Calendário não encontrado' },
+        },
+      },
+      put: {
+        tags: ['Calendars'],
+        summary: 'Criar ou substituir calendário',
+        description: 'Feriados estaduais, municipais e do órgão; os nacionais (incluindo Carnaval, Sexta-feira Santa e Corpus Christi) são calculados e entram sempre',
+        parameters: [
+          { name: 'calendarId', in: 'path', required: true, schema: { type: 'string', example: 'sp-sao-paulo' } },
+          { name: 'X-Admin-Key', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['name'],
+                properties: {
+                  name: { type: 'string', example: 'Prefeitura de São Paulo' },
+                  state: { type: 'string', example: 'SP' },
+                  holidays: { type: 'array', items: { $ref: '#/components/schemas/CalendarHoliday' } },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Calendário salvo',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/HolidayCalendar' } } },
+          },
+          400: { description: 'Dados inválidos' },
+          403: { description: 'X-Admin-Key ausente ou inválida' },
+          503: { description: 'ADMIN_API_KEY não configurada (rotas administrativas desligadas)' },
+        },
+      },
+      delete: {
+        tags: ['Calendars'],
+        summary: 'Remover calendário',
+        parameters: [
+          { name: 'calendarId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'X-Admin-Key', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'Calendário removido' },
+          403: { description: 'X-Admin-Key ausente ou inválida' },
+          503: { description: 'ADMIN_API_KEY não configurada (rotas administrativas desligadas)' },
+          404: { description: 'Calendário não encontrado' },
+        },
+      },
+    },
+    '/calendars/{calendarId}/holidays': {
+      get: {
+        tags: ['Calendars'],
+        summary: 'Feriados do ano',
+        description: "Nacionais + do calendário; use calendarId 'nacional' para só os nacionais",
+        parameters: [
+          { name: 'calendarId', in: 'path', required: true, schema: { type: 'string', example: 'nacional' } },
+          { name: 'year', in: 'query', schema: { type: 'integer', example: 2026 } },
+        ],
+        responses: {
+          200: { description: 'Feriados por data (date, name, scope)' },
+          404: { description: 'Calendário não encontrado' },
+        },
+      },
+    },
+    '/calendars/{calendarId}/deadline': {
+      get: {
+        tags: ['Calendars'],
+        summary: 'Calcular prazo',
+        description: 'Lei 14.133, art. 183: exclui o dia do começo, conta dias úteis só com expediente e prorroga o vencimento em dia sem expediente para o próximo dia útil (prazos antes da referência são antecipados)',
+        parameters: [
+          { name: 'calendarId', in: 'path', required: true, schema: { type: 'string', example: 'nacional' } },
+          { name: 'from', in: 'query', required: true, schema: { type: 'string', format: 'date' } },
+          { name: 'offset', in: 'query', required: true, description: 'Até 3650 (DAYS/BUSINESS_DAYS) ou 120 (MONTHS)', schema: { type: 'integer', minimum: 0, example: 3 } },
+          { name: 'unit', in: 'query', schema: { type: 'string', enum: ['DAYS', 'BUSINESS_DAYS', 'MONTHS'], default: 'DAYS' } },
+          { name: 'direction', in: 'query', schema: { type: 'string', enum: ['BEFORE', 'AFTER'], default: 'AFTER' } },
+        ],
+        responses: {
+          200: { description: 'Data do vencimento, se foi prorrogado (rolled) e feriados considerados' },
+          400: { description: 'Parâmetros inválidos' },
+        },
+      },
+    },
+
+    // ========================================================================
+    // LIBRARY
+    // ========================================================================
+    '/library/documents': {
+      get: {
+        tags: ['Library'],
+        summary: 'Documentos da biblioteca',
+        description: 'Documentos da organização que atendem aos filtros (padrão: COMPLETED), mais recentes primeiro',
+        parameters: [
+          { name: 'organizationId', in: 'query', schema: { type: 'string', default: 'default' } },
+          { name: 'status', in: 'query', schema: { type: 'string', example: 'COMPLETED,PROCESSING' } },
+          { name: 'from', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Enviados a partir de' },
+          { name: 'to', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Enviados até' },
+          { name: 'tags', in: 'query', schema: { type: 'string', example: 'obras,ti' }, description: 'Pelo menos uma das tags' },
+        ],
+        responses: {
+          200: { description: 'Documentos filtrados' },
+          400: { description: 'Filtro inválido' },
+        },
+      },
+    },
+    '/library/search': {
+      post: {
+        tags: ['Library'],
+        summary: 'Busca na biblioteca',
+        description: 'Busca híbrida (vetorial + BM25) nos trechos de todos os documentos filtrados, sem gerar resposta',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['query'],
+                properties: {
+                  query: { type: 'string', example: 'atestado de capacidade técnica 50% do quantitativo' },
+                  organizationId: { type: 'string', default: 'default' },
+                  filters: { $ref: '#/components/schemas/LibraryFilters' },
+                  topK: { type: 'integer', default: 10 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Trechos com documento e página',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    documentsSearched: { type: 'integer' },
+                    results: { type: 'array', items: { $ref: '#/components/schemas/LibrarySnippet' } },
+                  },
+                },
+              },
+            },
+          },
+          400: { description: 'Query ou filtro inválido' },
+          402: { description: 'Orçamento mensal da organização esgotado' },
+          403: { description: 'Organização não cadastrada' },
+        },
+      },
+    },
+    '/library/chat': {
+      get: {
+        tags: ['Library'],
+        summary: 'Conversas da biblioteca',
+        parameters: [
+          { name: 'organizationId', in: 'query', schema: { type: 'string', default: 'default' } },
+        ],
+        responses: {
+          200: { description: 'Conversas da organização' },
+        },
+      },
+      post: {
+        tags: ['Library'],
+        summary: 'Chat na biblioteca',
+        description: 'Responde com base nos trechos e na análise estruturada (entidades, cronogramas, páginas) de todos os documentos filtrados. Cada fonte traz documento e página.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['message'],
+                properties: {
+                  message: { type: 'string', example: 'Quais órgãos aplicam multa diária acima de 0,5%?' },
+                  conversationId: { type: 'string' },
+                  organizationId: { type: 'string', default: 'default' },
+                  filters: { $ref: '#/components/schemas/LibraryFilters' },
+                  topK: { type: 'integer', default: 8 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Resposta do assistente',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    messageId: { type: 'string' },
+                    conversationId: { type: 'string' },
+                    content: { type: 'string' },
+                    sources: { type: 'array', items: { $ref: '#/components/schemas/LibrarySource' } },
+                    documentsSearched: { type: 'integer' },
+                    toolCalls: { type: 'array', items: { type: 'object' } },
+                    sourceSnippets: { type: 'array', items: { $ref: '#/components/schemas/LibrarySnippet' } },
+                  },
+                },
+              },
+            },
+          },
+          400: { description: 'Mensagem ou filtro inválido, ou nenhum documento nos filtros' },
+          402: { description: 'Orçamento mensal da organização esgotado' },
+          403: { description: 'Organização não cadastrada' },
+        },
+      },
+    },
+    '/library/chat/{conversationId}': {
+      get: {
+        tags: ['Library'],
+        summary: 'Histórico de uma conversa da biblioteca',
+        parameters: [
+          { name: 'conversationId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'organizationId', in: 'query', schema: { type: 'string', default: 'default' } },
+        ],
+        responses: {
+          200: { description: 'Conversa e mensagens (com fontes por documento)' },
+          404: { description: 'Conversa não encontrada' },
+        },
+      },
+      delete: {
+        tags: ['Library'],
+        summary: 'Deletar conversa da biblioteca',
+        parameters: [
+          { name: 'conversationId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'organizationId', in: 'query', schema: { type: 'string', default: 'default' } },
+        ],
+        responses: {
+          200: { description: 'Conversa deletada' },
+          404: { description: 'Conversa não encontrada' },
+        },
+      },
+    },
+
+    // ========================================================================
+    // HEALTH
+    // ========================================================================
+    '/health': {
+      get: {
+        tags: ['System'],
+        summary: 'Health check',
+        responses: {
+          200: {
+            description: 'API funcionando',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    status: { type: 'string', example: 'ok' },
+                    timestamp: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      DocumentSummary: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          filename: { type: 'string' },
+          status: {
+            type: 'string',
+            enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'PAUSED', 'CANCELLED'],
+          },
+          controlRequest: {
+            type: 'string',
+            enum: ['cancel', 'pause'],
+            description: 'Cancelamento/pausa pedido e ainda não aplicado pelo worker',
+          },
+          pauseReason: {
+            type: 'string',
+            description: 'Motivo de uma pausa automática (ex.: orçamento de IA esgotado)',
+          },
+          organizationId: { type: 'string' },
+          percentage: { type: 'integer' },
+          currentStage: { type: 'string' },
+          totalPages: { type: 'integer' },
+          pagesProcessed: { type: 'integer' },
+          usage: {
+            type: 'object',
+            description: 'Tokens e custo de IA acumulados',
+            properties: {
+              calls: { type: 'integer' },
+              inputTokens: { type: 'integer' },
+              outputTokens: { type: 'integer' },
+              costUsd: { type: 'number' },
+            },
+          },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      UsageGroup: {
+        type: 'object',
+        properties: {
+          calls: { type: 'integer' },
+          inputTokens: { type: 'integer' },
+          outputTokens: { type: 'integer' },
+          costUsd: { type: 'number', description: 'Custo estimado em US$' },
+          latencyMs: { type: 'integer', description: 'Soma das latências das chamadas' },
+        },
+      },
+      LibraryFilters: {
+        type: 'object',
+        properties: {
+          status: {
+            type: 'array',
+            items: { type: 'string', enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'PAUSED', 'CANCELLED'] },
+            description: 'Padrão: COMPLETED',
+          },
+          from: { type: 'string', format: 'date', description: 'Enviados a partir de' },
+          to: { type: 'string', format: 'date', description: 'Enviados até (inclusive)' },
+          tags: { type: 'array', items: { type: 'string' }, description: 'Pelo menos uma das tags' },
+        },
+      },
+      LibrarySource: {
+        type: 'object',
+        properties: {
+          documentId: { type: 'string' },
+          filename: { type: 'string' },
+          pageNumber: { type: 'integer' },
+        },
+      },
+      LibrarySnippet: {
+        type: 'object',
+        properties: {
+          documentId: { type: 'string' },
+          filename: { type: 'string' },
+          pageNumber: { type: 'integer' },
+          lineStart: { type: 'integer' },
+          lineEnd: { type: 'integer' },
+          sectionTitle: { type: 'string' },
+          excerpt: { type: 'string' },
+          relevance: { type: 'number' },
+        },
+      },
+      RelativeDatesSummary: {
+        type: 'object',
+        properties: {
+          projected: { type: 'integer', description: 'Eventos com data projetada' },
+          unresolved: { type: 'integer', description: 'Eventos relativos sem data' },
+          cycles: { type: 'array', items: { type: 'array', items: { type: 'string' } }, description: 'Ciclos de relativeTo (IDs dos eventos)' },
+          updated: { type: 'integer', description: 'Eventos alterados' },
+        },
+      },
+      CriticalPathEvent: {
+        type: 'object',
+        properties: {
+          eventId: { type: 'string' },
+          title: { type: 'string' },
+          eventType: { type: 'string' },
+          phase: { type: 'string' },
+          date: { type: 'string', format: 'date-time' },
+          dateStatus: { type: 'string', enum: ['EXTRACTED', 'PROJECTED', 'UNRESOLVED'] },
+          slackDays: { type: 'integer', nullable: true, description: 'Dias que pode atrasar sem atrasar a assinatura (null = não leva à assinatura)' },
+          critical: { type: 'boolean' },
+        },
+      },
+      CriticalPathAnalysis: {
+        type: 'object',
+        properties: {
+          documentId: { type: 'string' },
+          start: { $ref: '#/components/schemas/CriticalPathEvent' },
+          end: { $ref: '#/components/schemas/CriticalPathEvent' },
+          missingMilestones: { type: 'array', items: { type: 'string', enum: ['PUBLICACAO', 'ASSINATURA'] }, description: 'Marcos sem evento com data (substituídos pelo evento mais próximo)' },
+          totalDays: { type: 'integer', nullable: true },
+          path: { type: 'array', items: { $ref: '#/components/schemas/CriticalPathEvent' } },
+          events: { type: 'array', items: { $ref: '#/components/schemas/CriticalPathEvent' } },
+          gates: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                phase: { type: 'string' },
+                deadline: { type: 'string', format: 'date-time', nullable: true, description: 'Primeiro evento da fase que depende dos requisitos' },
+                requirements: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      entityId: { type: 'string' },
+                      type: { type: 'string', enum: ['REQUISITO', 'CERTIDAO_TECNICA', 'DOCUMENTACAO'] },
+                      name: { type: 'string' },
+                      mandatory: { type: 'boolean' },
+                      eventIds: { type: 'array', items: { type: 'string' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          conflicts: {
+            type: 'array',
+            description: 'Dependências contrariadas pelas datas (destino marcado antes da origem)',
+            items: {
+              type: 'object',
+              properties: {
+                fromEventId: { type: 'string' },
+                toEventId: { type: 'string' },
+                kind: { type: 'string', enum: ['RELATIVE', 'DEPENDS_ON', 'TRIGGERS', 'PREREQUISITE'] },
+                days: { type: 'integer' },
+              },
+            },
+          },
+          undatedEvents: { type: 'integer' },
+        },
+      },
+      CalendarHoliday: {
+        type: 'object',
+        required: ['date', 'name', 'scope'],
+        properties: {
+          date: { type: 'string', example: '07-09', description: 'MM-DD (todo ano) ou YYYY-MM-DD' },
+          name: { type: 'string', example: 'Revolução Constitucionalista' },
+          scope: { type: 'string', enum: ['ESTADUAL', 'MUNICIPAL', 'ORGAO'] },
+        },
+      },
+      HolidayCalendar: {
+        type: 'object',
+        properties: {
+          calendarId: { type: 'string' },
+          name: { type: 'string' },
+          state: { type: 'string' },
+          holidays: { type: 'array', items: { $ref: '#/components/schemas/CalendarHoliday' } },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      BudgetLimits: {
+        type: 'object',
+        description: 'Limites de IA (null = sem limite)',
+        properties: {
+          monthlyTokenLimit: { type: 'integer', nullable: true, description: 'Tokens por mês (entrada + saída)' },
+          monthlyCostLimitUsd: { type: 'number', nullable: true, description: 'Custo por mês em US$' },
+          documentTokenLimit: { type: 'integer', nullable: true, description: 'Tokens por documento' },
+          documentCostLimitUsd: { type: 'number', nullable: true, description: 'Custo por documento em US$' },
+        },
+      },
+      BudgetStatus: {
+        type: 'object',
+        properties: {
+          organizationId: { type: 'string' },
+          limits: { $ref: '#/components/schemas/BudgetLimits' },
+          customized: { type: 'boolean', description: 'false = usa os limites padrão (BUDGET_*)' },
+          monthlyUsage: {
+            type: 'object',
+            properties: {
+              calls: { type: 'integer' },
+              inputTokens: { type: 'integer' },
+              outputTokens: { type: 'integer' },
+              costUsd: { type: 'number' },
+            },
+          },
+          remaining: {
+            type: 'object',
+            properties: {
+              monthlyTokens: { type: 'integer', nullable: true },
+              monthlyCostUsd: { type: 'number', nullable: true },
+            },
+          },
+          updatedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      CitationVerification: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['VERIFIED', 'RELOCATED', 'UNVERIFIED'] },
+          score: { type: 'number', description: 'Fração do trecho encontrada na página (0-1)' },
+          originalPageNumber: { type: 'integer', description: 'Página citada pela IA (RELOCATED)' },
+          originalConfidence: { type: 'number', description: 'Confiança antes da redução (UNVERIFIED)' },
+          verifiedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      CitationCounts: {
+        type: 'object',
+        properties: {
+          total: { type: 'integer' },
+          verified: { type: 'integer' },
+          relocated: { type: 'integer' },
+          unverified: { type: 'integer' },
+          pending: { type: 'integer', description: 'Ainda não verificadas' },
+        },
+      },
+      CitationStats: {
+        type: 'object',
+        properties: {
+          documentId: { type: 'string' },
+          entities: { $ref: '#/components/schemas/CitationCounts' },
+          timelineEvents: { $ref: '#/components/schemas/CitationCounts' },
+          risks: { $ref: '#/components/schemas/CitationCounts' },
+          total: { $ref: '#/components/schemas/CitationCounts' },
+          foundRate: { type: 'number', nullable: true, description: '(VERIFIED + RELOCATED) / verificadas' },
+        },
+      },
+      TimelineEvent: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          date: { type: 'string', format: 'date-time', nullable: true },
+          dateRaw: { type: 'string' },
+          dateType: { type: 'string', enum: ['FIXED', 'RELATIVE', 'RANGE'] },
+          relativeTo: { type: 'object', description: 'eventId, eventSemanticKey, offset, unit (DAYS/BUSINESS_DAYS/MONTHS), direction' },
+          dateStatus: { type: 'string', enum: ['EXTRACTED', 'PROJECTED', 'UNRESOLVED'], description: 'Data do documento, projetada a partir de relativeTo ou sem data' },
+          unresolvedReason: { type: 'string', enum: ['ANCHOR_NOT_FOUND', 'ANCHOR_WITHOUT_DATE', 'CYCLE'] },
+          dateResolution: {
+            type: 'object',
+            description: 'Cálculo da data relativa pelo calendário do órgão',
+            properties: {
+              calendarId: { type: 'string' },
+              rolled: { type: 'boolean' },
+              holidays: { type: 'array', items: { type: 'string' } },
+            },
+          },
           eventType: { type: 'string' },
           phase: { type: 'string' },
           title: { type: 'string' },
@@ -516,6 +1592,10 @@ API para processamento e extração de informações de editais de licitação p
           linkedRequirements: { type: 'array', items: { type: 'object' } },
           tags: { type: 'array', items: { type: 'string' } },
           urgency: { type: 'object' },
+          sourcePages: { type: 'array', items: { type: 'integer' } },
+          excerpt: { type: 'string' },
+          confidence: { type: 'number' },
+          verification: { $ref: '#/components/schemas/CitationVerification' },
           commentsCount: { type: 'integer' },
         },
       },
@@ -3,6 +3,7 @@ import { ObjectId } from 'mongodb';
 import { getDatabase } from '../services/database.js';
 import { getTimelineService } from '../services/timeline.js';
 import { getCommentsService } from '../services/comments.js';
+import { getCriticalPathService } from '../services/critical-path.js';
 import { getPhaseFromEventType, getSemanticOrder, PHASE_ORDER } from '../types/entities.js';
 import type { PDFDocument, TimelineEvent } from '../types/index.js';
 
@@ -162,6 +163,37 @@ timeline.get('/:documentId/critical', async (c) => {
   }
 });
 
+/**
+ * GET /timeline/:documentId/critical-path
+ * Caminho crítico da publicação à assinatura, folga de cada evento e
+ * requisitos (certidões, atestados) que liberam cada fase
+ */
+timeline.get('/:documentId/critical-path', async (c) => {
+  try {
+    const documentId = c.req.param('documentId');
+    
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+    
+    const doc = await getDatabase().collection<PDFDocument>('documents').findOne(
+      { _id: new ObjectId(documentId) },
+      { projection: { _id: 1 } }
+    );
+    
+    if (!doc) {
+      return c.json({ error: 'Documento não encontrado' }, 404);
+    }
+    
+    const analysis = await getCriticalPathService().analyze(documentId);
+    
+    return c.json(analysis);
+  } catch (error) {
+    console.error('Erro ao calcular caminho crítico:', error);
+    return c.json({ error: 'Erro ao calcular caminho crítico' }, 500);
+  }
+});
+
 /**
  * GET /timeline/:documentId/by-phase
  * Retorna eventos agrupados por fase do processo
@@ -246,6 +278,67 @@ timeline.get('/:documentId/events/:eventId', async (c) => {
   }
 });
 
+/**
+ * PUT /timeline/:documentId/events/:eventId/date
+ * Corrige a data de um evento (null remove) e recalcula os eventos que dependem dele
+ */
+timeline.put('/:documentId/events/:eventId/date', async (c) => {
+  try {
+    const documentId = c.req.param('documentId');
+    const eventId = c.req.param('eventId');
+    const body = await c.req.json<{ date?: unknown }>().catch(() => null);
+    
+    if (!body || (body.date !== null && typeof body.date !== 'string')) {
+      return c.json({ error: 'date deve ser uma data (YYYY-MM-DD ou ISO) ou null' }, 400);
+    }
+    
+    const date = typeof body.date === 'string' ? new Date(body.date) : null;
+    if (date && isNaN(date.getTime())) {
+      return c.json({ error: 'date inválida' }, 400);
+    }
+    
+    const timelineService = getTimelineService();
+    const existing = await timelineService.getEventById(eventId);
+    if (!existing || existing.documentId !== documentId) {
+      return c.json({ error: 'Evento não encontrado' }, 404);
+    }
+    
+    const result = await timelineService.updateEventDate(eventId, date);
+    if (!result) {
+      return c.json({ error: 'Evento não encontrado' }, 404);
+    }
+    
+    return c.json({
+      event: formatEventForResponse(result.event),
+      relativeDates: result.summary,
+    });
+  } catch (error) {
+    console.error('Erro ao atualizar data do evento:', error);
+    return c.json({ error: 'Erro ao atualizar data do evento' }, 500);
+  }
+});
+
+/**
+ * POST /timeline/:documentId/resolve
+ * Recalcula as datas projetadas dos eventos relativos (grafo de relativeTo)
+ */
+timeline.post('/:documentId/resolve', async (c) => {
+  try {
+    const documentId = c.req.param('documentId');
+    
+    if (!ObjectId.isValid(documentId)) {
+      return c.json({ error: 'ID inválido' }, 400);
+    }
+    
+    const summary = await getTimelineService().resolveRelativeDates(documentId);
+    
+    return c.json({ documentId, ...summary });
+  } catch (error) {
+    console.error('Erro ao resolver datas relativas:', error);
+    return c.json({ error: 'Erro ao resolver datas relativas' }, 500);
+  }
+});
+
 // ============================================================================
 // COMENTÁRIOS
 // ============================================================================
@@ -394,6 +487,9 @@ function formatEventForResponse(event: TimelineEvent) {
     dateRaw: event.dateRaw,
     dateType: event.dateType,
     relativeTo: event.relativeTo,
+    dateStatus: event.dateStatus ?? (event.date ? 'EXTRACTED' : undefined),
+    unresolvedReason: event.unresolvedReason,
+    dateResolution: event.dateResolution,
     eventType: event.eventType,
     phase: event.phase || getPhaseFromEventType(event.eventType),
     semanticOrder: event.semanticOrder ?? getSemanticOrder(event.eventType),
@@ -408,6 +504,9 @@ function formatEventForResponse(event: TimelineEvent) {
     urgency: event.urgency,
     tags: event.tags,
     sourcePages: event.sourcePages,
+    excerpt: event.excerpt,
+    confidence: event.confidence,
+    verification: event.verification,
     commentsCount: event.commentsCount || 0,
     createdAt: event.createdAt,
   };
@@ -1,5 +1,10 @@
 import { getDatabase } from './database.js';
 import { getPageService } from './page.js';
+import { getEntityUnificationService } from './entity-unification.js';
+import { getDocumentStructureService } from './document-structure.js';
+import { getTimelineService } from './timeline.js';
+import { getRiskService } from './risk.js';
+import { numberPageLines } from '../utils/pdf-extraction.js';
 import type {
   DocumentPage,
   ProcessingConfig,
@@ -73,6 +78,73 @@ export interface BatchContext {
   riskIds: string[];
 }
 
+/**
+ * Cópia do contexto entregue a um batch
+ * Batches em paralelo recebem cada um a sua cópia: o contexto compartilhado só
+ * muda quando um batch termina, e não no meio da montagem de um prompt
+ */
+export function snapshotContext(context: BatchContext): BatchContext {
+  return {
+    existingSemanticKeys: [...context.existingSemanticKeys],
+    existingSections: [...context.existingSections],
+    entitySummary: [...context.entitySummary],
+    timelineEventKeys: [...context.timelineEventKeys],
+    riskIds: [...context.riskIds],
+  };
+}
+
+/**
+ * Incorpora ao contexto compartilhado o resultado de um batch concluído
+ *
+ * Roda de forma síncrona (sem await), então batches que terminam ao mesmo tempo
+ * não se sobrescrevem. Entidades repetidas entre batches que rodaram em paralelo
+ * são deduplicadas aqui e, no banco, pela unificação por semanticKey.
+ */
+export function mergeBatchResult(context: BatchContext, result: BatchExtractionResult): void {
+  const semanticKeys = new Set(context.existingSemanticKeys);
+  const timelineKeys = new Set(context.timelineEventKeys);
+  const riskIds = new Set(context.riskIds);
+
+  // Adicionar seções
+  for (const section of result.sections) {
+    context.existingSections.push({
+      number: section.number,
+      title: section.title,
+      level: section.level,
+    });
+  }
+
+  // Adicionar semantic keys das entidades
+  for (const entity of result.entities) {
+    if (!semanticKeys.has(entity.semanticKey)) {
+      semanticKeys.add(entity.semanticKey);
+      context.existingSemanticKeys.push(entity.semanticKey);
+      context.entitySummary.push({
+        type: entity.type,
+        semanticKey: entity.semanticKey,
+        name: entity.name,
+      });
+    }
+  }
+
+  // Adicionar eventos do timeline
+  for (const event of result.timelineEvents) {
+    if (!timelineKeys.has(event.sourceSemanticKey)) {
+      timelineKeys.add(event.sourceSemanticKey);
+      context.timelineEventKeys.push(event.sourceSemanticKey);
+    }
+  }
+
+  // Adicionar riscos (usando category + title como identificador)
+  for (const risk of result.risks) {
+    const riskId = `${risk.category}:${risk.title}`;
+    if (!riskIds.has(riskId)) {
+      riskIds.add(riskId);
+      context.riskIds.push(riskId);
+    }
+  }
+}
+
 /**
  * Callback para processar um batch
  */
@@ -169,8 +241,9 @@ export class BatchProcessorService {
     totalWords: number
   ): PageBatch {
     // Monta texto consolidado no formato especificado
+    // Linhas numeradas por página para que lineStart/lineEnd sejam confiáveis
     const consolidatedText = pages
-      .map(p => `Página ${p.pageNumber}:\n${p.text}`)
+      .map(p => `Página ${p.pageNumber}:\n${numberPageLines(p.text)}`)
       .join('\n\n---\n\n');
     
     return {
@@ -246,7 +319,7 @@ export class BatchProcessorService {
         const processingTimeMs = Date.now() - batchStartTime;
         
         // Atualizar contexto com resultados
-        this.updateContext(context, extractionResult);
+        mergeBatchResult(context, extractionResult);
         
         // Marcar páginas como concluídas
         for (const page of batch.pages) {
@@ -337,49 +410,47 @@ export class BatchProcessorService {
   }
   
   /**
-   * Atualiza o contexto com os resultados de um batch
+   * Reconstrói o contexto a partir do que já está salvo no banco
+   * Usado na retomada: os batches refeitos enxergam o que os batches
+   * concluídos já extraíram
    */
-  private updateContext(
-    context: BatchContext,
-    result: BatchExtractionResult
-  ): void {
-    // Adicionar semantic keys das entidades
-    for (const entity of result.entities) {
-      if (!context.existingSemanticKeys.includes(entity.semanticKey)) {
-        context.existingSemanticKeys.push(entity.semanticKey);
-        context.entitySummary.push({
-          type: entity.type,
-          semanticKey: entity.semanticKey,
-          name: entity.name,
-        });
-      }
-    }
-    
-    // Adicionar seções
-    for (const section of result.sections) {
-      context.existingSections.push({
-        number: section.number,
-        title: section.title,
-        level: section.level,
-      });
-    }
-    
-    // Adicionar eventos do timeline
-    for (const event of result.timelineEvents) {
-      if (!context.timelineEventKeys.includes(event.sourceSemanticKey)) {
-        context.timelineEventKeys.push(event.sourceSemanticKey);
-      }
-    }
-    
-    // Adicionar riscos (usando category + title como identificador)
-    for (const risk of result.risks) {
-      const riskId = `${risk.category}:${risk.title}`;
-      if (!context.riskIds.includes(riskId)) {
-        context.riskIds.push(riskId);
-      }
-    }
+  async loadContext(documentId: string): Promise<BatchContext> {
+    const [entities, sections, events, risks] = await Promise.all([
+      getEntityUnificationService().findByDocumentId(documentId),
+      getDocumentStructureService().getSectionsByDocumentId(documentId),
+      getTimelineService().getEventsByDocumentId(documentId),
+      getRiskService().getRisksByDocumentId(documentId),
+    ]);
+
+    // Eventos guardam o ID da entidade fonte; o contexto usa a semanticKey
+    const keyById = new Map(entities.map(e => [e.id, e.semanticKey]));
+
+    return {
+      existingSemanticKeys: entities.map(e => e.semanticKey),
+      existingSections: sections.map(s => ({
+        number: s.number,
+        title: s.title,
+        level: s.level,
+      })),
+      entitySummary: entities.map(e => ({
+        type: e.type,
+        semanticKey: e.semanticKey,
+        name: e.name,
+      })),
+      timelineEventKeys: [
+        ...new Set(events.map(e => e.semanticKey ?? keyById.get(e.sourceEntityId) ?? e.sourceEntityId)),
+      ],
+      riskIds: [...new Set(risks.map(r => `${r.category}:${r.title}`))],
+    };
   }
-  
+
+  /**
+   * Batches que ainda precisam rodar: alguma página não está `completed`
+   */
+  getPendingBatches(batches: PageBatch[]): PageBatch[] {
+    return batches.filter(batch => batch.pages.some(page => page.status !== 'completed'));
+  }
+
   /**
    * Gera texto de contexto para passar ao prompt da IA
    */
@@ -0,0 +1,290 @@
+import { ObjectId } from 'mongodb';
+import { getDatabase } from './database.js';
+import { DEFAULT_ORGANIZATION_ID, getUsageService } from './usage.js';
+import type {
+  BudgetLimits,
+  DocumentUsage,
+  OrganizationBudget,
+  PDFDocument,
+} from '../types/index.js';
+
+const LIMIT_FIELDS = [
+  'monthlyTokenLimit',
+  'monthlyCostLimitUsd',
+  'documentTokenLimit',
+  'documentCostLimitUsd',
+] as const satisfies ReadonlyArray<keyof BudgetLimits>;
+
+/**
+ * Lançado quando o documento ou a organização atingiu um limite de uso de IA
+ * O processamento é pausado (não falha) e o chat responde 402
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public scope: 'document' | 'monthly',
+    message: string
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Situação do orçamento de uma organização no mês corrente
+ */
+export interface BudgetStatus {
+  organizationId: string;
+
+  /** Limites efetivos (registro da organização ou padrão das variáveis BUDGET_*) */
+  limits: Required<BudgetLimits>;
+
+  /** A organização tem orçamento próprio (senão usa o padrão) */
+  customized: boolean;
+
+  monthlyUsage: DocumentUsage;
+
+  /** Saldo do mês (null = sem limite) */
+  remaining: {
+    monthlyTokens: number | null;
+    monthlyCostUsd: number | null;
+  };
+
+  updatedAt?: Date;
+}
+
+/**
+ * Limite padrão de uma variável de ambiente (ausente = sem limite)
+ */
+function readLimit(name: string): number | null {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Limites de organizações sem orçamento próprio
+ */
+function getDefaultLimits(): Required<BudgetLimits> {
+  return {
+    monthlyTokenLimit: readLimit('BUDGET_MONTHLY_TOKENS'),
+    monthlyCostLimitUsd: readLimit('BUDGET_MONTHLY_COST_USD'),
+    documentTokenLimit: readLimit('BUDGET_DOCUMENT_TOKENS'),
+    documentCostLimitUsd: readLimit('BUDGET_DOCUMENT_COST_USD'),
+  };
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('pt-BR');
+}
+
+function formatUsd(value: number): string {
+  return `US$ ${value.toFixed(2)}`;
+}
+
+/**
+ * Serviço de orçamentos de IA por organização
+ *
+ * Cada organização tem limites mensais (tokens e custo, somando todos os
+ * documentos no mês) e um teto por documento. Os limites são checados antes
+ * de cada batch da análise e antes de cada mensagem do chat, com base no uso
+ * já registrado (services/usage.ts): a chamada em andamento pode passar um
+ * pouco do limite, a seguinte não começa.
+ */
+export class BudgetService {
+  private db = getDatabase();
+  private collection = this.db.collection<OrganizationBudget>('budgets');
+  private documents = this.db.collection<PDFDocument>('documents');
+
+  /**
+   * Limites efetivos: campos do orçamento da organização sobre o padrão
+   */
+  private async getLimits(organizationId: string): Promise<{
+    limits: Required<BudgetLimits>;
+    budget: OrganizationBudget | null;
+  }> {
+    const budget = await this.collection.findOne({ organizationId });
+    const limits = getDefaultLimits();
+
+    if (budget) {
+      for (const field of LIMIT_FIELDS) {
+        if (budget[field] !== undefined) {
+          limits[field] = budget[field];
+        }
+      }
+    }
+
+    return { limits, budget };
+  }
+
+  /**
+   * A organização foi cadastrada (orçamento criado em PUT /budgets) ou é a padrão
+   *
+   * O ID vem do cliente (header/corpo); um ID desconhecido não pode ganhar um
+   * orçamento padrão novo, então as rotas que gastam IA o rejeitam.
+   */
+  async isRegistered(organizationId: string): Promise<boolean> {
+    if (organizationId === DEFAULT_ORGANIZATION_ID) return true;
+    const budget = await this.collection.findOne({ organizationId }, { projection: { _id: 1 } });
+    return budget !== null;
+  }
+
+  /**
+   * Orçamento e uso do mês da organização
+   */
+  async getStatus(organizationId: string): Promise<BudgetStatus> {
+    const [{ limits, budget }, monthlyUsage] = await Promise.all([
+      this.getLimits(organizationId),
+      getUsageService().getMonthlyUsage(organizationId),
+    ]);
+    const monthlyTokens = monthlyUsage.inputTokens + monthlyUsage.outputTokens;
+
+    return {
+      organizationId,
+      limits,
+      customized: budget !== null,
+      monthlyUsage,
+      remaining: {
+        monthlyTokens: limits.monthlyTokenLimit !== null
+          ? Math.max(0, limits.monthlyTokenLimit - monthlyTokens)
+          : null,
+        monthlyCostUsd: limits.monthlyCostLimitUsd !== null
+          ? Math.max(0, limits.monthlyCostLimitUsd - monthlyUsage.costUsd)
+          : null,
+      },
+      updatedAt: budget?.updatedAt,
+    };
+  }
+
+  /**
+   * Organizações com orçamento próprio ou uso no mês (mais a padrão)
+   */
+  async listStatuses(): Promise<BudgetStatus[]> {
+    const [budgeted, active] = await Promise.all([
+      this.collection.distinct('organizationId'),
+      getUsageService().getMonthlyOrganizations(),
+    ]);
+    const organizationIds = [...new Set([DEFAULT_ORGANIZATION_ID, ...budgeted, ...active])].sort();
+
+    return Promise.all(organizationIds.map(id => this.getStatus(id)));
+  }
+
+  /**
+   * Define limites da organização (só os campos informados; null remove o limite)
+   */
+  async setLimits(organizationId: string, limits: BudgetLimits): Promise<BudgetStatus> {
+    const now = new Date();
+    const updates: BudgetLimits = {};
+    for (const field of LIMIT_FIELDS) {
+      if (limits[field] !== undefined) {
+        updates[field] = limits[field];
+      }
+    }
+
+    await this.collection.updateOne(
+      { organizationId },
+      {
+        $set: { ...updates, updatedAt: now },
+        $setOnInsert: { organizationId, createdAt: now },
+      },
+      { upsert: true }
+    );
+
+    return this.getStatus(organizationId);
+  }
+
+  /**
+   * Limite atingido pelo documento ou pela organização dele (null se dentro do orçamento)
+   */
+  async checkDocument(documentId: string): Promise<BudgetExceededError | null> {
+    const doc = await this.documents.findOne(
+      { _id: new ObjectId(documentId) },
+      { projection: { organizationId: 1, usage: 1 } }
+    );
+    const organizationId = doc?.organizationId ?? DEFAULT_ORGANIZATION_ID;
+    const { limits } = await this.getLimits(organizationId);
+
+    // Teto por documento (uso acumulado no próprio documento)
+    const documentTokens = (doc?.usage?.inputTokens ?? 0) + (doc?.usage?.outputTokens ?? 0);
+    const documentCost = doc?.usage?.costUsd ?? 0;
+
+    if (limits.documentTokenLimit !== null && documentTokens >= limits.documentTokenLimit) {
+      return new BudgetExceededError(
+        'document',
+        `Limite de tokens por documento atingido (${formatTokens(documentTokens)} de ${formatTokens(limits.documentTokenLimit)})`
+      );
+    }
+    if (limits.documentCostLimitUsd !== null && documentCost >= limits.documentCostLimitUsd) {
+      return new BudgetExceededError(
+        'document',
+        `Limite de custo por documento atingido (${formatUsd(documentCost)} de ${formatUsd(limits.documentCostLimitUsd)})`
+      );
+    }
+
+    return this.checkMonthly(organizationId, limits);
+  }
+
+  /**
+   * Orçamento mensal da organização (null se dentro do orçamento)
+   * Usado direto pelo chat da biblioteca, que não pertence a um documento
+   */
+  async checkOrganization(organizationId: string): Promise<BudgetExceededError | null> {
+    const { limits } = await this.getLimits(organizationId);
+    return this.checkMonthly(organizationId, limits);
+  }
+
+  private async checkMonthly(
+    organizationId: string,
+    limits: Required<BudgetLimits>
+  ): Promise<BudgetExceededError | null> {
+    if (limits.monthlyTokenLimit === null && limits.monthlyCostLimitUsd === null) {
+      return null;
+    }
+
+    const monthly = await getUsageService().getMonthlyUsage(organizationId);
+    const monthlyTokens = monthly.inputTokens + monthly.outputTokens;
+
+    if (limits.monthlyTokenLimit !== null && monthlyTokens >= limits.monthlyTokenLimit) {
+      return new BudgetExceededError(
+        'monthly',
+        `Orçamento mensal de tokens da organização ${organizationId} esgotado (${formatTokens(monthlyTokens)} de ${formatTokens(limits.monthlyTokenLimit)})`
+      );
+    }
+    if (limits.monthlyCostLimitUsd !== null && monthly.costUsd >= limits.monthlyCostLimitUsd) {
+      return new BudgetExceededError(
+        'monthly',
+        `Orçamento mensal da organização ${organizationId} esgotado (${formatUsd(monthly.costUsd)} de ${formatUsd(limits.monthlyCostLimitUsd)})`
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Lança BudgetExceededError se algum limite foi atingido
+   */
+  async assertWithinBudget(documentId: string): Promise<void> {
+    const exceeded = await this.checkDocument(documentId);
+    if (exceeded) {
+      throw exceeded;
+    }
+  }
+
+  /**
+   * Lança BudgetExceededError se o orçamento mensal da organização acabou
+   */
+  async assertOrganizationWithinBudget(organizationId: string): Promise<void> {
+    const exceeded = await this.checkOrganization(organizationId);
+    if (exceeded) {
+      throw exceeded;
+    }
+  }
+}
+
+// Singleton
+let serviceInstance: BudgetService | null = null;
+
+export function getBudgetService(): BudgetService {
+  if (!serviceInstance) {
+    serviceInstance = new BudgetService();
+  }
+  return serviceInstance;
+}
@@ -1,6 +1,12 @@
 import crypto from 'crypto';
 import { getDatabase } from './database.js';
-import type { ChatMessage, Conversation, FormattedHistory } from '../types/rag.js';
+import type {
+  ChatMessage,
+  Conversation,
+  FormattedHistory,
+  LibraryFilters,
+  LibrarySource,
+} from '../types/rag.js';
 
 /**
  * Gera um ID único
@@ -19,12 +25,18 @@ export class ChatService {
 
   /**
    * Cria uma nova conversa
+   * Conversas da biblioteca informam a organização e os filtros
    */
-  async createConversation(documentId: string, title?: string): Promise<Conversation> {
+  async createConversation(
+    documentId: string,
+    title?: string,
+    library?: { organizationId: string; filters?: LibraryFilters }
+  ): Promise<Conversation> {
     const now = new Date();
     const conversation: Conversation = {
       id: generateId(),
       documentId,
+      ...library,
       title: title || `Conversa ${now.toLocaleDateString('pt-BR')}`,
       createdAt: now,
       lastMessageAt: now,
@@ -62,6 +74,16 @@ export class ChatService {
     );
   }
 
+  /**
+   * Guarda os últimos filtros usados numa conversa da biblioteca
+   */
+  async updateConversationFilters(conversationId: string, filters: LibraryFilters): Promise<void> {
+    await this.conversationsCollection.updateOne(
+      { id: conversationId },
+      { $set: { filters } }
+    );
+  }
+
   /**
    * Deleta uma conversa e suas mensagens
    */
@@ -79,7 +101,8 @@ export class ChatService {
     conversationId: string,
     role: 'user' | 'assistant',
     content: string,
-    sourcePagesUsed?: number[]
+    sourcePagesUsed?: number[],
+    sources?: LibrarySource[]
   ): Promise<ChatMessage> {
     const now = new Date();
     const message: ChatMessage = {
@@ -89,6 +112,7 @@ export class ChatService {
       role,
       content,
       sourcePagesUsed,
+      ...(sources && { sources }),
       createdAt: now,
     };
 
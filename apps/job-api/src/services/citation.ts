@@ -0,0 +1,387 @@
+import { getDatabase } from './database.js';
+import { normalizeText } from '../utils/normalizers.js';
+import type {
+  CitationCounts,
+  CitationStats,
+  CitationVerification,
+  DocumentPage,
+  ExtractedEntity,
+  Risk,
+  TimelineEvent,
+} from '../types/entities.js';
+
+/** Fração mínima do trecho presente na página para a citação contar como encontrada */
+const MIN_CITATION_SCORE = 0.6;
+
+/** Tamanho (em palavras) das sequências comparadas entre trecho e página */
+const SHINGLE_SIZE = 3;
+
+/** Fator aplicado à confiança de itens cujo trecho não foi encontrado */
+const UNVERIFIED_CONFIDENCE_FACTOR = 0.5;
+
+// ============================================================================
+// COMPARAÇÃO DE TEXTO
+// ============================================================================
+
+/**
+ * Palavras normalizadas (sem acento, maiúsculas), juntando hifenização de fim de linha
+ */
+function toTokens(text: string): string[] {
+  return normalizeText(text.replace(/-\s*\n\s*/g, ''))
+    .split(/[^A-Z0-9]+/)
+    .filter(token => token.length > 0);
+}
+
+function toShingles(tokens: string[], size: number): Set<string> {
+  const shingles = new Set<string>();
+  for (let i = 0; i + size <= tokens.length; i++) {
+    shingles.add(tokens.slice(i, i + size).join(' '));
+  }
+  return shingles;
+}
+
+/**
+ * Texto de uma página preparado para comparação (sequências calculadas sob demanda)
+ */
+class IndexedPage {
+  private joined: string;
+  private shingles = new Map<number, Set<string>>();
+
+  constructor(
+    public pageNumber: number,
+    private tokens: string[]
+  ) {
+    this.joined = ` ${tokens.join(' ')} `;
+  }
+
+  /**
+   * Fração das sequências de palavras do trecho presentes na página (0-1)
+   * O trecho inteiro na página vale 1; reticências e cortes do modelo só
+   * derrubam as sequências que atravessam o corte
+   */
+  score(excerptTokens: string[]): number {
+    if (excerptTokens.length === 0) return 0;
+    if (this.joined.includes(` ${excerptTokens.join(' ')} `)) return 1;
+
+    const size = Math.min(SHINGLE_SIZE, excerptTokens.length);
+    const excerptShingles = toShingles(excerptTokens, size);
+
+    let pageShingles = this.shingles.get(size);
+    if (!pageShingles) {
+      pageShingles = toShingles(this.tokens, size);
+      this.shingles.set(size, pageShingles);
+    }
+
+    let found = 0;
+    for (const shingle of excerptShingles) {
+      if (pageShingles.has(shingle)) found++;
+    }
+    return found / excerptShingles.size;
+  }
+}
+
+/**
+ * Procura o trecho na página citada e, se não estiver lá, nas demais páginas
+ * (em empate, vence a página mais próxima da citada)
+ */
+function locateExcerpt(
+  excerpt: string,
+  citedPage: number,
+  pages: IndexedPage[]
+): { pageNumber: number; score: number } {
+  const excerptTokens = toTokens(excerpt);
+  const cited = pages.find(page => page.pageNumber === citedPage);
+  const citedScore = cited ? cited.score(excerptTokens) : 0;
+
+  if (citedScore >= MIN_CITATION_SCORE) {
+    return { pageNumber: citedPage, score: citedScore };
+  }
+
+  let best = { pageNumber: citedPage, score: citedScore };
+  for (const page of pages) {
+    if (page === cited) continue;
+    const score = page.score(excerptTokens);
+    const closer = Math.abs(page.pageNumber - citedPage) < Math.abs(best.pageNumber - citedPage);
+    if (score > best.score || (score === best.score && score > 0 && closer)) {
+      best = { pageNumber: page.pageNumber, score };
+    }
+  }
+  return best;
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Verifica um trecho e calcula a página e a confiança resultantes
+ */
+function verifyExcerpt(
+  excerpt: string | undefined,
+  citedPage: number,
+  confidence: number,
+  pages: IndexedPage[],
+  verifiedAt: Date
+): { pageNumber: number; confidence: number; verification: CitationVerification } {
+  const match = excerpt
+    ? locateExcerpt(excerpt, citedPage, pages)
+    : { pageNumber: citedPage, score: 0 };
+  const score = roundScore(match.score);
+
+  if (match.score < MIN_CITATION_SCORE) {
+    return {
+      pageNumber: citedPage,
+      confidence: roundScore(confidence * UNVERIFIED_CONFIDENCE_FACTOR),
+      verification: { status: 'UNVERIFIED', score, originalConfidence: confidence, verifiedAt },
+    };
+  }
+
+  if (match.pageNumber !== citedPage) {
+    return {
+      pageNumber: match.pageNumber,
+      confidence,
+      verification: { status: 'RELOCATED', score, originalPageNumber: citedPage, verifiedAt },
+    };
+  }
+
+  return {
+    pageNumber: citedPage,
+    confidence,
+    verification: { status: 'VERIFIED', score, verifiedAt },
+  };
+}
+
+// ============================================================================
+// SERVIÇO
+// ============================================================================
+
+/**
+ * Resultado da verificação de um batch
+ */
+export type CitationVerificationSummary = Omit<CitationCounts, 'total' | 'pending'>;
+
+function emptyCounts(): CitationCounts {
+  return { total: 0, verified: 0, relocated: 0, unverified: 0, pending: 0 };
+}
+
+function countVerification(counts: CitationCounts, verification?: CitationVerification): void {
+  counts.total++;
+  switch (verification?.status) {
+    case 'VERIFIED': counts.verified++; break;
+    case 'RELOCATED': counts.relocated++; break;
+    case 'UNVERIFIED': counts.unverified++; break;
+    default: counts.pending++;
+  }
+}
+
+/**
+ * Serviço de verificação de citações
+ *
+ * Depois de cada batch, confere se o trecho (excerpt) de cada fonte de
+ * entidade, evento do timeline e risco aparece no texto da página citada
+ * (DocumentPage.text). Trecho encontrado em outra página corrige a página;
+ * trecho não encontrado marca a fonte como UNVERIFIED e reduz a confiança.
+ * Cada fonte é verificada uma única vez (as que já têm `verification` são puladas).
+ */
+export class CitationVerificationService {
+  private db = getDatabase();
+  private pages = this.db.collection<DocumentPage>('pages');
+  private entities = this.db.collection<ExtractedEntity>('entities');
+  private timelineEvents = this.db.collection<TimelineEvent>('timeline_events');
+  private risks = this.db.collection<Risk>('risks');
+
+  /**
+   * Texto de todas as páginas do documento (a citação pode estar fora do batch)
+   */
+  private async loadPages(documentId: string): Promise<IndexedPage[]> {
+    const pages = await this.pages
+      .find({ documentId }, { projection: { pageNumber: 1, text: 1 } })
+      .sort({ pageNumber: 1 })
+      .toArray();
+    return pages.map(page => new IndexedPage(page.pageNumber, toTokens(page.text || '')));
+  }
+
+  /**
+   * Verifica as citações extraídas em um batch
+   * Entidades são unificadas entre batches: verifica as fontes ainda não
+   * verificadas que apontam para páginas do batch
+   */
+  async verifyBatch(
+    documentId: string,
+    batchNumber: number,
+    pageNumbers: number[]
+  ): Promise<CitationVerificationSummary> {
+    const summary: CitationVerificationSummary = { verified: 0, relocated: 0, unverified: 0 };
+    const count = (verification: CitationVerification) => {
+      if (verification.status === 'VERIFIED') summary.verified++;
+      else if (verification.status === 'RELOCATED') summary.relocated++;
+      else summary.unverified++;
+    };
+
+    const [pages, entities, events, risks] = await Promise.all([
+      this.loadPages(documentId),
+      this.entities
+        .find({
+          documentId,
+          sources: { $elemMatch: { pageNumber: { $in: pageNumbers }, verification: { $exists: false } } },
+        })
+        .toArray(),
+      this.timelineEvents
+        .find({ documentId, batchNumber, excerpt: { $exists: true }, verification: { $exists: false } })
+        .toArray(),
+      this.risks
+        .find({ documentId, batchNumber, sources: { $elemMatch: { verification: { $exists: false } } } })
+        .toArray(),
+    ]);
+    const verifiedAt = new Date();
+
+    // Entidades: cada fonte é localizada por página + trecho (arrayFilters), não
+    // pela posição — a unificação de outro batch pode mexer no array em paralelo
+    for (const entity of entities) {
+      const $set: Record<string, unknown> = {};
+      const $unset: Record<string, ''> = {};
+      const arrayFilters: Array<Record<string, unknown>> = [];
+      const seen = new Set<string>();
+      const confidences: number[] = [];
+
+      for (const source of entity.sources) {
+        const key = `${source.pageNumber}\u0000${source.excerpt}`;
+        if (source.verification || !pageNumbers.includes(source.pageNumber) || seen.has(key)) {
+          confidences.push(source.confidence);
+          continue;
+        }
+        seen.add(key);
+
+        const checked = verifyExcerpt(source.excerpt, source.pageNumber, source.confidence, pages, verifiedAt);
+        const id = `s${arrayFilters.length}`;
+        const path = `sources.$[${id}]`;
+        arrayFilters.push({
+          [`${id}.pageNumber`]: source.pageNumber,
+          [`${id}.excerpt`]: source.excerpt,
+          [`${id}.verification`]: { $exists: false },
+        });
+
+        $set[`${path}.verification`] = checked.verification;
+        $set[`${path}.confidence`] = checked.confidence;
+        if (checked.pageNumber !== source.pageNumber) {
+          // Linhas se referem à página citada
+          $set[`${path}.pageNumber`] = checked.pageNumber;
+          $unset[`${path}.lineStart`] = '';
+          $unset[`${path}.lineEnd`] = '';
+        }
+        confidences.push(checked.confidence);
+        count(checked.verification);
+      }
+
+      if (arrayFilters.length === 0) continue;
+
+      // Confiança da entidade: a da melhor fonte
+      const confidence = Math.max(...confidences);
+      if (confidence < entity.confidence) {
+        $set.confidence = confidence;
+      }
+
+      await this.entities.updateOne(
+        { id: entity.id },
+        Object.keys($unset).length > 0 ? { $set, $unset } : { $set },
+        { arrayFilters }
+      );
+    }
+
+    for (const event of events) {
+      const citedPage = event.sourcePages[0];
+      if (citedPage === undefined) continue;
+
+      const checked = verifyExcerpt(event.excerpt, citedPage, event.confidence ?? 1, pages, verifiedAt);
+      const $set: Partial<TimelineEvent> = { verification: checked.verification };
+
+      if (event.confidence !== undefined) {
+        $set.confidence = checked.confidence;
+      }
+      if (checked.pageNumber !== citedPage) {
+        $set.sourcePages = [checked.pageNumber, ...event.sourcePages.filter(page => page !== citedPage)];
+      }
+
+      await this.timelineEvents.updateOne({ id: event.id }, { $set });
+      count(checked.verification);
+    }
+
+    for (const risk of risks) {
+      const sources = risk.sources.map(source => {
+        if (source.verification) return source;
+
+        const checked = verifyExcerpt(source.excerpt, source.pageNumber, source.confidence, pages, verifiedAt);
+        count(checked.verification);
+        return {
+          ...source,
+          pageNumber: checked.pageNumber,
+          confidence: checked.confidence,
+          verification: checked.verification,
+        };
+      });
+
+      await this.risks.updateOne({ id: risk.id }, { $set: { sources } });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Estatísticas de verificação do documento
+   */
+  async getStats(documentId: string): Promise<CitationStats> {
+    const [entities, events, risks] = await Promise.all([
+      this.entities.find({ documentId }, { projection: { 'sources.verification': 1 } }).toArray(),
+      this.timelineEvents
+        .find({ documentId, excerpt: { $exists: true } }, { projection: { verification: 1 } })
+        .toArray(),
+      this.risks.find({ documentId }, { projection: { 'sources.verification': 1 } }).toArray(),
+    ]);
+
+    const stats: CitationStats = {
+      documentId,
+      entities: emptyCounts(),
+      timelineEvents: emptyCounts(),
+      risks: emptyCounts(),
+      total: emptyCounts(),
+      foundRate: null,
+    };
+
+    for (const entity of entities) {
+      for (const source of entity.sources) {
+        countVerification(stats.entities, source.verification);
+      }
+    }
+    for (const event of events) {
+      countVerification(stats.timelineEvents, event.verification);
+    }
+    for (const risk of risks) {
+      for (const source of risk.sources) {
+        countVerification(stats.risks, source.verification);
+      }
+    }
+
+    for (const counts of [stats.entities, stats.timelineEvents, stats.risks]) {
+      for (const field of Object.keys(counts) as Array<keyof CitationCounts>) {
+        stats.total[field] += counts[field];
+      }
+    }
+
+    const checked = stats.total.verified + stats.total.relocated + stats.total.unverified;
+    if (checked > 0) {
+      stats.foundRate = roundScore((stats.total.verified + stats.total.relocated) / checked);
+    }
+
+    return stats;
+  }
+}
+
+// Singleton
+let serviceInstance: CitationVerificationService | null = null;
+
+export function getCitationVerificationService(): CitationVerificationService {
+  if (!serviceInstance) {
+    serviceInstance = new CitationVerificationService();
+  }
+  return serviceInstance;
+}
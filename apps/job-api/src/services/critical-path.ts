@@ -0,0 +1,447 @@
+import { getDatabase } from './database.js';
+import { analyzeSchedule, type ScheduleEdge, type ScheduleEdgeKind } from '../utils/timeline-graph.js';
+import { PHASE_ORDER, getPhaseFromEventType } from '../types/entities.js';
+import type {
+  ExtractedEntity,
+  LicitacaoPhase,
+  LinkedRequirement,
+  TimelineDateStatus,
+  TimelineEvent,
+} from '../types/entities.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REQUIREMENT_TYPES: Array<LinkedRequirement['type']> = ['REQUISITO', 'CERTIDAO_TECNICA', 'DOCUMENTACAO'];
+
+/**
+ * Fases que entram na rede da publicação até a assinatura, em ordem
+ */
+const NETWORK_PHASES = (Object.keys(PHASE_ORDER) as LicitacaoPhase[])
+  .filter(phase => PHASE_ORDER[phase] <= PHASE_ORDER.ASSINATURA)
+  .sort((a, b) => PHASE_ORDER[a] - PHASE_ORDER[b]);
+
+/**
+ * Evento na análise de caminho crítico
+ */
+export interface CriticalPathEvent {
+  eventId: string;
+  title: string;
+  eventType: string;
+  phase: LicitacaoPhase;
+  date: Date;
+  dateStatus?: TimelineDateStatus;
+
+  /** Dias que pode atrasar sem atrasar a assinatura (null = não leva à assinatura) */
+  slackDays: number | null;
+
+  /** Se está no caminho crítico */
+  critical: boolean;
+}
+
+/**
+ * Requisito (certidão, atestado, documento) que libera eventos de uma fase
+ */
+export interface GatingRequirement {
+  entityId: string;
+  type: LinkedRequirement['type'];
+  name: string;
+  mandatory: boolean;
+
+  /** Eventos da fase que dependem do requisito */
+  eventIds: string[];
+}
+
+/**
+ * Requisitos que precisam estar prontos para uma fase
+ */
+export interface PhaseGate {
+  phase: LicitacaoPhase;
+
+  /** Data do primeiro evento da fase que depende dos requisitos */
+  deadline: Date | null;
+
+  requirements: GatingRequirement[];
+}
+
+/**
+ * Precedência contrariada pelas datas extraídas
+ */
+export interface ScheduleConflict {
+  fromEventId: string;
+  toEventId: string;
+  kind: ScheduleEdgeKind;
+
+  /** Dias em que o evento de destino está marcado antes do de origem */
+  days: number;
+}
+
+/**
+ * Análise de caminho crítico e bloqueios do timeline
+ */
+export interface CriticalPathAnalysis {
+  documentId: string;
+
+  /** Publicação (ou o primeiro evento, se não houver) */
+  start: CriticalPathEvent | null;
+
+  /** Assinatura do contrato (ou o último evento antes dela, se não houver) */
+  end: CriticalPathEvent | null;
+
+  /** Marcos sem evento com data, substituídos pelo mais próximo */
+  missingMilestones: LicitacaoPhase[];
+
+  /** Dias corridos do início ao fim */
+  totalDays: number | null;
+
+  /** Caminho crítico, do início ao fim */
+  path: CriticalPathEvent[];
+
+  /** Eventos com data, com a folga de cada um */
+  events: CriticalPathEvent[];
+
+  /** Requisitos que liberam cada fase, na ordem das fases */
+  gates: PhaseGate[];
+
+  conflicts: ScheduleConflict[];
+
+  /** Eventos sem data (fora da análise) */
+  undatedEvents: number;
+}
+
+/**
+ * Análise de agenda do timeline: caminho crítico, folgas e requisitos por fase
+ *
+ * As precedências vêm dos prazos relativos (relativeTo), dos relacionamentos
+ * DEPENDS_ON/TRIGGERS/PREREQUISITE entre as entidades de origem dos eventos e
+ * da ordem das fases da licitação. O resultado alimenta o endpoint
+ * /timeline/:documentId/critical-path e os campos de urgência dos eventos.
+ */
+export class CriticalPathService {
+  private db = getDatabase();
+  private collection = this.db.collection<TimelineEvent>('timeline_events');
+  private entitiesCollection = this.db.collection<ExtractedEntity>('entities');
+
+  /**
+   * Analisa o cronograma do documento
+   */
+  async analyze(documentId: string): Promise<CriticalPathAnalysis> {
+    const [events, entities] = await Promise.all([
+      this.collection.find({ documentId }).toArray(),
+      this.entitiesCollection.find({ documentId }).toArray(),
+    ]);
+
+    return this.buildAnalysis(documentId, events, entities).analysis;
+  }
+
+  /**
+   * Grava nos eventos a folga, o caminho crítico e quem bloqueia outros prazos
+   * Só os eventos que mudaram são atualizados
+   */
+  async updateEventUrgency(documentId: string): Promise<CriticalPathAnalysis> {
+    const [events, entities] = await Promise.all([
+      this.collection.find({ documentId }).toArray(),
+      this.entitiesCollection.find({ documentId }).toArray(),
+    ]);
+    const { analysis, blocking } = this.buildAnalysis(documentId, events, entities);
+    const byId = new Map(analysis.events.map(event => [event.eventId, event]));
+
+    const writes = events
+      .map(event => {
+        const scheduled = byId.get(event.id);
+        const slackDays = scheduled?.slackDays ?? undefined;
+        const onCriticalPath = scheduled?.critical ?? false;
+        const blockingForOthers = blocking.has(event.id);
+
+        if (
+          event.urgency.blockingForOthers === blockingForOthers &&
+          event.urgency.slackDays === slackDays &&
+          (event.urgency.onCriticalPath ?? false) === onCriticalPath
+        ) {
+          return null;
+        }
+
+        return {
+          updateOne: {
+            filter: { id: event.id },
+            update: slackDays !== undefined
+              ? {
+                  $set: {
+                    'urgency.blockingForOthers': blockingForOthers,
+                    'urgency.onCriticalPath': onCriticalPath,
+                    'urgency.slackDays': slackDays,
+                  },
+                }
+              : {
+                  $set: {
+                    'urgency.blockingForOthers': blockingForOthers,
+                    'urgency.onCriticalPath': onCriticalPath,
+                  },
+                  $unset: { 'urgency.slackDays': '' as const },
+                },
+          },
+        };
+      })
+      .filter(write => write !== null);
+
+    if (writes.length > 0) {
+      await this.collection.bulkWrite(writes);
+    }
+
+    return analysis;
+  }
+
+  private buildAnalysis(
+    documentId: string,
+    events: TimelineEvent[],
+    entities: ExtractedEntity[]
+  ): { analysis: CriticalPathAnalysis; blocking: Set<string> } {
+    const phaseOf = (event: TimelineEvent): LicitacaoPhase =>
+      (event.phase as LicitacaoPhase | undefined) || getPhaseFromEventType(event.eventType);
+
+    const eventIds = new Set(events.map(event => event.id));
+    const entitiesById = new Map(entities.map(entity => [entity.id, entity]));
+
+    // Eventos por entidade de origem (sourceEntityId é a semanticKey quando o vínculo falhou)
+    const eventsByEntity = new Map<string, TimelineEvent[]>();
+    for (const event of events) {
+      eventsByEntity.set(event.sourceEntityId, [...(eventsByEntity.get(event.sourceEntityId) ?? []), event]);
+    }
+    const eventsOf = (entity: ExtractedEntity): TimelineEvent[] =>
+      eventsByEntity.get(entity.id) ?? eventsByEntity.get(entity.semanticKey) ?? [];
+
+    // ------------------------------------------------------------------------
+    // Precedências explícitas
+    // ------------------------------------------------------------------------
+
+    const edges: ScheduleEdge[] = [];
+
+    for (const event of events) {
+      const anchorId = event.relativeTo?.eventId;
+      if (!anchorId || !eventIds.has(anchorId)) continue;
+
+      edges.push(
+        event.relativeTo!.direction === 'BEFORE'
+          ? { from: event.id, to: anchorId, kind: 'RELATIVE' }
+          : { from: anchorId, to: event.id, kind: 'RELATIVE' }
+      );
+    }
+
+    for (const entity of entities) {
+      for (const relation of entity.relatedEntities) {
+        const related = entitiesById.get(relation.entityId);
+        if (!related) continue;
+
+        let before: TimelineEvent[];
+        let after: TimelineEvent[];
+        if (relation.relationship === 'DEPENDS_ON') {
+          before = eventsOf(related);
+          after = eventsOf(entity);
+        } else if (relation.relationship === 'TRIGGERS' || relation.relationship === 'PREREQUISITE') {
+          before = eventsOf(entity);
+          after = eventsOf(related);
+        } else {
+          continue;
+        }
+
+        for (const from of before) {
+          for (const to of after) {
+            edges.push({ from: from.id, to: to.id, kind: relation.relationship });
+          }
+        }
+      }
+    }
+
+    // Um evento bloqueia outros quando há precedência explícita saindo dele,
+    // mesmo que o dependente ainda não tenha data
+    const blocking = new Set(edges.map(edge => edge.from));
+
+    // ------------------------------------------------------------------------
+    // Ordem das fases e marcos
+    // ------------------------------------------------------------------------
+
+    const dated = events
+      .filter((event): event is TimelineEvent & { date: Date } => event.date !== null)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const byPhase = new Map<LicitacaoPhase, Array<TimelineEvent & { date: Date }>>();
+    for (const event of dated) {
+      const phase = phaseOf(event);
+      byPhase.set(phase, [...(byPhase.get(phase) ?? []), event]);
+    }
+
+    const phaseGroups = NETWORK_PHASES.map(phase => byPhase.get(phase)).filter(group => group !== undefined);
+    for (let i = 1; i < phaseGroups.length; i++) {
+      for (const from of phaseGroups[i - 1]!) {
+        for (const to of phaseGroups[i]!) {
+          // A ordem das fases é implícita: não vira conflito quando as datas discordam
+          if (from.date.getTime() <= to.date.getTime()) {
+            edges.push({ from: from.id, to: to.id, kind: 'PHASE' });
+          }
+        }
+      }
+    }
+
+    const missingMilestones: LicitacaoPhase[] = [];
+    let start = byPhase.get('PUBLICACAO')?.[0];
+    let end = byPhase.get('ASSINATURA')?.[0];
+
+    if (!end) {
+      missingMilestones.push('ASSINATURA');
+      end = dated.filter(event => PHASE_ORDER[phaseOf(event)] < PHASE_ORDER.ASSINATURA).at(-1);
+    }
+    if (!start) {
+      missingMilestones.unshift('PUBLICACAO');
+      start = dated.find(event => PHASE_ORDER[phaseOf(event)] <= PHASE_ORDER.ASSINATURA);
+    }
+
+    const schedule = analyzeSchedule(
+      dated.map(event => ({ id: event.id, date: event.date })),
+      edges,
+      start?.id ?? null,
+      end?.id ?? null
+    );
+
+    const critical = new Set(schedule.criticalPath);
+    const scheduled = new Map<string, CriticalPathEvent>(
+      dated.map(event => [
+        event.id,
+        {
+          eventId: event.id,
+          title: event.title,
+          eventType: event.eventType,
+          phase: phaseOf(event),
+          date: event.date,
+          dateStatus: event.dateStatus,
+          slackDays: schedule.slack.get(event.id) ?? null,
+          critical: critical.has(event.id),
+        },
+      ])
+    );
+
+    const datesById = new Map(dated.map(event => [event.id, event.date]));
+    const conflicts: ScheduleConflict[] = schedule.conflicts.map(edge => ({
+      fromEventId: edge.from,
+      toEventId: edge.to,
+      kind: edge.kind,
+      days: Math.round((datesById.get(edge.from)!.getTime() - datesById.get(edge.to)!.getTime()) / DAY_MS),
+    }));
+
+    if (conflicts.length > 0) {
+      console.warn(`⚠️ ${conflicts.length} dependência(s) contrariada(s) pelas datas do timeline de ${documentId}`);
+    }
+
+    const startEvent = start ? scheduled.get(start.id)! : null;
+    const endEvent = end ? scheduled.get(end.id)! : null;
+
+    return {
+      analysis: {
+        documentId,
+        start: startEvent,
+        end: endEvent,
+        missingMilestones,
+        totalDays: startEvent && endEvent
+          ? Math.round((endEvent.date.getTime() - startEvent.date.getTime()) / DAY_MS)
+          : null,
+        path: schedule.criticalPath.map(id => scheduled.get(id)!),
+        events: [...scheduled.values()],
+        gates: this.buildGates(events, entities, eventsOf, phaseOf),
+        conflicts,
+        undatedEvents: events.length - dated.length,
+      },
+      blocking,
+    };
+  }
+
+  /**
+   * Requisitos que liberam cada fase
+   *
+   * Vêm dos requisitos vinculados ao evento e dos relacionamentos entre
+   * entidades: requisito PREREQUISITE/REQUIRED_BY da entidade do evento, ou
+   * entidade do evento DEPENDS_ON o requisito.
+   */
+  private buildGates(
+    events: TimelineEvent[],
+    entities: ExtractedEntity[],
+    eventsOf: (entity: ExtractedEntity) => TimelineEvent[],
+    phaseOf: (event: TimelineEvent) => LicitacaoPhase
+  ): PhaseGate[] {
+    const gates = new Map<LicitacaoPhase, { deadline: Date | null; requirements: Map<string, GatingRequirement> }>();
+    const entitiesById = new Map(entities.map(entity => [entity.id, entity]));
+
+    const addGate = (
+      event: TimelineEvent,
+      requirement: Omit<GatingRequirement, 'eventIds'>
+    ) => {
+      const phase = phaseOf(event);
+      const gate = gates.get(phase) ?? { deadline: null, requirements: new Map() };
+      gates.set(phase, gate);
+
+      if (event.date && (!gate.deadline || event.date < gate.deadline)) {
+        gate.deadline = event.date;
+      }
+
+      const existing = gate.requirements.get(requirement.entityId);
+      if (existing) {
+        if (!existing.eventIds.includes(event.id)) existing.eventIds.push(event.id);
+        existing.mandatory ||= requirement.mandatory;
+      } else {
+        gate.requirements.set(requirement.entityId, { ...requirement, eventIds: [event.id] });
+      }
+    };
+
+    const fromEntity = (entity: ExtractedEntity) => ({
+      entityId: entity.id,
+      type: entity.type as LinkedRequirement['type'],
+      name: entity.name,
+      mandatory: entity.obligationDetails?.mandatory ?? true,
+    });
+
+    for (const event of events) {
+      for (const link of event.linkedRequirements) {
+        addGate(event, {
+          entityId: link.entityId,
+          type: link.type,
+          name: link.description,
+          mandatory: link.mandatory,
+        });
+      }
+    }
+
+    for (const entity of entities) {
+      for (const relation of entity.relatedEntities) {
+        const related = entitiesById.get(relation.entityId);
+        if (!related) continue;
+
+        if (
+          REQUIREMENT_TYPES.includes(entity.type as LinkedRequirement['type']) &&
+          (relation.relationship === 'PREREQUISITE' || relation.relationship === 'REQUIRED_BY')
+        ) {
+          for (const event of eventsOf(related)) addGate(event, fromEntity(entity));
+        } else if (
+          REQUIREMENT_TYPES.includes(related.type as LinkedRequirement['type']) &&
+          relation.relationship === 'DEPENDS_ON'
+        ) {
+          for (const event of eventsOf(entity)) addGate(event, fromEntity(related));
+        }
+      }
+    }
+
+    return [...gates.entries()]
+      .sort(([a], [b]) => PHASE_ORDER[a] - PHASE_ORDER[b])
+      .map(([phase, gate]) => ({
+        phase,
+        deadline: gate.deadline,
+        requirements: [...gate.requirements.values()],
+      }));
+  }
+}
+
+// Singleton
+let serviceInstance: CriticalPathService | null = null;
+
+export function getCriticalPathService(): CriticalPathService {
+  if (!serviceInstance) {
+    serviceInstance = new CriticalPathService();
+  }
+  return serviceInstance;
+}
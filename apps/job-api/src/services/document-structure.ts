@@ -36,6 +36,7 @@ export class DocumentStructureService {
       sourcePages: number[];
       startLine?: number;
       endLine?: number;
+      batchNumber?: number;
     }
   ): Promise<DocumentSection> {
     const section: DocumentSection = {
@@ -54,7 +55,8 @@ export class DocumentStructureService {
    */
   async processSections(
     documentId: string,
-    rawSections: RawDocumentSection[]
+    rawSections: RawDocumentSection[],
+    batchNumber?: number
   ): Promise<DocumentSection[]> {
     const createdSections: DocumentSection[] = [];
     
@@ -91,6 +93,7 @@ export class DocumentStructureService {
         sourcePages: [raw.pageNumber],
         startLine: raw.lineStart,
         endLine: raw.lineEnd,
+        batchNumber,
       });
 
       createdSections.push(section);
@@ -263,6 +266,14 @@ export class DocumentStructureService {
     return result.deletedCount;
   }
 
+  /**
+   * Remove as seções extraídas por batches específicos (retomada)
+   */
+  async clearBatchSections(documentId: string, batchNumbers: number[]): Promise<number> {
+    const result = await this.collection.deleteMany({ documentId, batchNumber: { $in: batchNumbers } });
+    return result.deletedCount;
+  }
+
   /**
    * Obtém estatísticas da estrutura do documento (otimizado)
    */
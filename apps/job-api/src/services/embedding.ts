@@ -1,50 +1,47 @@
-import { openai } from '@ai-sdk/openai';
+import crypto from 'crypto';
 import { embed, embedMany } from 'ai';
 import { getDatabase } from './database.js';
+import { describeModel, getEmbeddingModel } from '../ai/providers.js';
+import { getUsageService } from './usage.js';
+import { chunkPages, type ChunkablePage, type ChunkableSection } from '../utils/chunking.js';
+import { getVectorIndex } from '../vector-index/index.js';
+import type { UsageContext } from '../ai/usage.js';
 import type { DocumentEmbedding, SimilarityResult, RagStatus } from '../types/rag.js';
 
-/**
- * Calcula a similaridade de cosseno entre dois vetores
- */
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have the same length');
-  }
-
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    const aVal = a[i]!;
-    const bVal = b[i]!;
-    dotProduct += aVal * bVal;
-    normA += aVal * aVal;
-    normB += bVal * bVal;
-  }
-
-  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-  if (denominator === 0) return 0;
-
-  return dotProduct / denominator;
-}
-
 /**
  * Serviço para gerenciar embeddings de documentos
  */
 export class EmbeddingService {
   private db = getDatabase();
   private collection = this.db.collection<DocumentEmbedding>('document_embeddings');
-  private embeddingModel = openai.embedding('text-embedding-3-small');
+  private embeddingModel = getEmbeddingModel();
+
+  /**
+   * Registra tokens e latência de uma chamada de embeddings
+   */
+  private async recordUsage(usage: UsageContext | undefined, tokens: number, startedAt: number): Promise<void> {
+    if (!usage) return;
+
+    await getUsageService().record({
+      ...usage,
+      stage: 'embeddings',
+      model: describeModel('embeddings'),
+      inputTokens: tokens,
+      outputTokens: 0,
+      latencyMs: Date.now() - startedAt,
+    });
+  }
 
   /**
    * Gera embedding para um texto
    */
-  async generateEmbedding(text: string): Promise<number[]> {
-    const { embedding } = await embed({
+  async generateEmbedding(text: string, usage?: UsageContext): Promise<number[]> {
+    const startedAt = Date.now();
+    const { embedding, usage: { tokens } } = await embed({
       model: this.embeddingModel,
       value: text,
     });
+    await this.recordUsage(usage, tokens, startedAt);
 
     return embedding;
   }
@@ -52,126 +49,194 @@ export class EmbeddingService {
   /**
    * Gera embeddings para múltiplos textos em batch
    */
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbeddings(texts: string[], usage?: UsageContext): Promise<number[][]> {
     if (texts.length === 0) return [];
 
-    const { embeddings } = await embedMany({
+    const startedAt = Date.now();
+    const { embeddings, usage: { tokens } } = await embedMany({
       model: this.embeddingModel,
       values: texts,
     });
+    await this.recordUsage(usage, tokens, startedAt);
 
     return embeddings;
   }
 
   /**
-   * Cria embeddings para todas as páginas de um documento
+   * Cria embeddings dos trechos de todas as páginas de um documento
+   * As seções orientam os cortes e identificam o trecho (utils/chunking.ts)
+   * `onProgress` recebe trechos com embedding / trechos a processar a cada lote
    */
   async createDocumentEmbeddings(
     documentId: string,
-    pages: Array<{ id: string; pageNumber: number; text: string }>
+    pages: ChunkablePage[],
+    sections: ChunkableSection[],
+    onProgress?: (current: number, total: number) => void | Promise<void>
   ): Promise<{ created: number; skipped: number }> {
     const now = new Date();
     let created = 0;
     let skipped = 0;
 
-    // Filtrar páginas que já têm embedding
-    const existingEmbeddings = await this.collection
-      .find({ documentId })
-      .project({ pageId: 1 })
-      .toArray();
+    // Embeddings de página inteira (anteriores aos trechos) são refeitos
+    const legacyIds = await this.collection.distinct('id', { documentId, chunkIndex: { $exists: false } });
+    if (legacyIds.length > 0) {
+      await this.collection.deleteMany({ documentId, chunkIndex: { $exists: false } });
+      await (await getVectorIndex()).remove(legacyIds);
+    }
 
-    const existingPageIds = new Set(existingEmbeddings.map(e => e.pageId));
+    // Filtrar páginas que já têm embedding
+    const existingPageIds = new Set(
+      await this.collection.distinct('pageId', { documentId })
+    );
 
-    const pagesToEmbed = pages.filter(p => {
-      if (existingPageIds.has(p.id)) {
+    const pageIdsToEmbed = new Set<string>();
+    for (const page of pages) {
+      if (existingPageIds.has(page.id)) {
         skipped++;
-        return false;
-      }
-      // Pular páginas vazias ou muito curtas
-      if (!p.text || p.text.trim().length < 50) {
+      } else if (!page.text || page.text.trim().length < 50) {
+        // Pular páginas vazias ou muito curtas
         skipped++;
-        return false;
+      } else {
+        pageIdsToEmbed.add(page.id);
       }
-      return true;
-    });
+    }
 
-    if (pagesToEmbed.length === 0) {
+    if (pageIdsToEmbed.size === 0) {
       return { created, skipped };
     }
 
+    // Todas as páginas entram no chunking (a seção em curso passa de uma página à seguinte)
+    const sortedPages = [...pages].sort((a, b) => a.pageNumber - b.pageNumber);
+    const chunks = chunkPages(sortedPages, sections).filter(chunk => pageIdsToEmbed.has(chunk.pageId));
+
     // Gerar embeddings em batches de 100 (limite da API)
     const batchSize = 100;
-    for (let i = 0; i < pagesToEmbed.length; i += batchSize) {
-      const batch = pagesToEmbed.slice(i, i + batchSize);
-      const texts = batch.map(p => p.text);
+    for (let i = 0; i < chunks.length; i += batchSize) {
+      const batch = chunks.slice(i, i + batchSize);
+
+      // O título da seção entra no texto embedado (não no texto guardado)
+      const texts = batch.map(chunk =>
+        chunk.sectionTitle ? `${chunk.sectionTitle}\n${chunk.text}` : chunk.text
+      );
 
-      console.log(`   🔢 Gerando embeddings para páginas ${i + 1}-${Math.min(i + batchSize, pagesToEmbed.length)}...`);
+      console.log(`   🔢 Gerando embeddings para trechos ${i + 1}-${Math.min(i + batchSize, chunks.length)} de ${chunks.length}...`);
 
-      const embeddings = await this.generateEmbeddings(texts);
+      const embeddings = await this.generateEmbeddings(texts, { documentId });
 
-      const documents: DocumentEmbedding[] = batch.map((page, idx) => ({
+      const documents: DocumentEmbedding[] = batch.map((chunk, idx) => ({
+        ...chunk,
+        id: crypto.randomUUID(),
         documentId,
-        pageId: page.id,
-        pageNumber: page.pageNumber,
-        text: page.text,
         embedding: embeddings[idx]!,
         createdAt: now,
       }));
 
       await this.collection.insertMany(documents);
+      await (await getVectorIndex()).add(documents.map(document => ({
+        id: document.id,
+        documentId,
+        vector: document.embedding,
+      })));
       created += documents.length;
+
+      if (onProgress) {
+        await onProgress(created, chunks.length);
+      }
     }
 
     return { created, skipped };
   }
 
   /**
-   * Busca páginas mais similares a uma query
+   * Busca os trechos mais similares a uma query
    */
-  async findSimilarPages(
+  async findSimilarChunks(
     documentId: string,
     query: string,
-    topK: number = 5
+    topK: number = 8
   ): Promise<SimilarityResult[]> {
-    // Gerar embedding da query
-    const queryEmbedding = await this.generateEmbedding(query);
+    return this.findSimilarChunksInDocuments([documentId], query, topK, { documentId });
+  }
 
-    // Buscar todos os embeddings do documento
-    const pageEmbeddings = await this.collection
-      .find({ documentId })
-      .toArray();
+  /**
+   * Busca os trechos mais similares a uma query em vários documentos
+   * (chat da biblioteca); o uso do embedding da query vai para `usage`
+   */
+  async findSimilarChunksInDocuments(
+    documentIds: string[],
+    query: string,
+    topK: number,
+    usage: UsageContext
+  ): Promise<SimilarityResult[]> {
+    if (documentIds.length === 0) return [];
 
-    if (pageEmbeddings.length === 0) {
-      return [];
+    // Gerar embedding da query
+    const queryEmbedding = await this.generateEmbedding(query, usage);
+
+    // Vizinhos mais próximos no índice vetorial; o texto vem do MongoDB
+    const index = await getVectorIndex();
+    const matches = await index.search(queryEmbedding, { topK, documentIds });
+    const chunks = new Map(
+      (await this.collection
+        .find(
+          { documentId: { $in: documentIds }, id: { $in: matches.map(match => match.id) } },
+          { projection: { embedding: 0 } }
+        )
+        .toArray()
+      ).map(chunk => [chunk.id, chunk])
+    );
+
+    const results: SimilarityResult[] = [];
+    for (const match of matches) {
+      const chunk = chunks.get(match.id);
+      if (!chunk) continue;
+
+      results.push({
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        pageId: chunk.pageId,
+        pageNumber: chunk.pageNumber,
+        chunkIndex: chunk.chunkIndex,
+        lineStart: chunk.lineStart,
+        lineEnd: chunk.lineEnd,
+        sectionId: chunk.sectionId,
+        sectionTitle: chunk.sectionTitle,
+        text: chunk.text,
+        similarity: match.similarity,
+      });
     }
 
-    // Calcular similaridade para cada página
-    const similarities: SimilarityResult[] = pageEmbeddings.map(page => ({
-      pageId: page.pageId,
-      pageNumber: page.pageNumber,
-      text: page.text,
-      similarity: cosineSimilarity(queryEmbedding, page.embedding),
-    }));
-
-    // Ordenar por similaridade e retornar top K
-    return similarities
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, topK);
+    return results;
+  }
+
+  /**
+   * Busca trechos pelo id (sem o vetor)
+   */
+  async getChunksByIds(documentId: string, chunkIds: string[]): Promise<DocumentEmbedding[]> {
+    if (chunkIds.length === 0) return [];
+
+    return this.collection
+      .find({ documentId, id: { $in: chunkIds } }, { projection: { embedding: 0 } })
+      .toArray();
   }
 
   /**
    * Verifica o status do RAG para um documento
    */
   async getRagStatus(documentId: string, totalPages: number): Promise<RagStatus> {
-    const embeddedCount = await this.collection.countDocuments({ documentId });
-    const lastEmbedding = await this.collection
-      .findOne({ documentId }, { sort: { createdAt: -1 } });
+    const [embeddedPageIds, embeddedChunks, lastEmbedding] = await Promise.all([
+      this.collection.distinct('pageId', { documentId }),
+      this.collection.countDocuments({ documentId }),
+      this.collection.findOne({ documentId }, { sort: { createdAt: -1 } }),
+    ]);
+    const embeddedPages = embeddedPageIds.length;
 
     return {
       documentId,
-      isReady: embeddedCount > 0 && embeddedCount >= totalPages * 0.8, // 80% das páginas
+      isReady: embeddedPages > 0 && embeddedPages >= totalPages * 0.8, // 80% das páginas
       totalPages,
-      embeddedPages: embeddedCount,
+      embeddedPages,
+      embeddedChunks,
       lastUpdated: lastEmbedding?.createdAt,
     };
   }
@@ -181,6 +246,7 @@ export class EmbeddingService {
    */
   async deleteDocumentEmbeddings(documentId: string): Promise<number> {
     const result = await this.collection.deleteMany({ documentId });
+    await (await getVectorIndex()).removeDocument(documentId);
     return result.deletedCount;
   }
 
@@ -193,7 +259,7 @@ export class EmbeddingService {
   }
 
   /**
-   * Conta embeddings de um documento
+   * Conta trechos com embedding de um documento
    */
   async countEmbeddings(documentId: string): Promise<number> {
     return this.collection.countDocuments({ documentId });
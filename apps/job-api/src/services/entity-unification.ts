@@ -28,12 +28,38 @@ export class EntityUnificationService {
   private db = getDatabase();
   private collection = this.db.collection<ExtractedEntity>('entities');
 
+  /** Última unificação em andamento por documento */
+  private pendingByDocument = new Map<string, Promise<unknown>>();
+
   /**
    * Processa e unifica uma lista de entidades brutas extraídas pela IA
+   *
+   * Batches do mesmo documento rodam em paralelo; as unificações de um documento
+   * são enfileiradas para que o "busca pela semanticKey → cria" não crie a mesma
+   * entidade duas vezes.
    */
   async unifyEntities(
     documentId: string,
     rawEntities: RawExtractedEntity[]
+  ): Promise<UnificationResult> {
+    const previous = this.pendingByDocument.get(documentId) ?? Promise.resolve();
+    const current = previous
+      .catch(() => undefined)
+      .then(() => this.unifyEntitiesInOrder(documentId, rawEntities));
+
+    this.pendingByDocument.set(documentId, current);
+    try {
+      return await current;
+    } finally {
+      if (this.pendingByDocument.get(documentId) === current) {
+        this.pendingByDocument.delete(documentId);
+      }
+    }
+  }
+
+  private async unifyEntitiesInOrder(
+    documentId: string,
+    rawEntities: RawExtractedEntity[]
   ): Promise<UnificationResult> {
     const result: UnificationResult = {
       entities: [],
@@ -129,6 +155,8 @@ export class EntityUnificationService {
 
     const source: EntitySource = {
       pageNumber: raw.pageNumber,
+      lineStart: raw.lineStart,
+      lineEnd: raw.lineEnd,
       excerpt: raw.excerptText.slice(0, 300),
       confidence: raw.confidence,
     };
@@ -286,6 +314,16 @@ export class EntityUnificationService {
     return this.collection.find({ documentId, type }).toArray();
   }
 
+  /**
+   * Busca entidades por tipo em vários documentos (biblioteca)
+   */
+  async findByTypeInDocuments(
+    documentIds: string[],
+    type: EntityType
+  ): Promise<ExtractedEntity[]> {
+    return this.collection.find({ documentId: { $in: documentIds }, type }).toArray();
+  }
+
   /**
    * Retorna todas as semantic keys de um documento
    */
@@ -360,18 +398,17 @@ export class EntityUnificationService {
     };
 
     if (incoming.confidence > existing.confidence) {
-      const mergedSources = [
-        ...existing.sources,
-        ...incoming.sources.filter(
-          (s) =>
-            !existing.sources.some(
-              (es) =>
-                es.pageNumber === s.pageNumber &&
-                es.excerpt === s.excerpt
-            )
-        ),
-      ];
+      const newSources = incoming.sources.filter(
+        (s) =>
+          !existing.sources.some(
+            (es) =>
+              es.pageNumber === s.pageNumber &&
+              es.excerpt === s.excerpt
+          )
+      );
 
+      // $push em vez de regravar o array: a verificação de citações de outro
+      // batch pode ter gravado nas fontes existentes depois da leitura
       await this.collection.updateOne(
         { id: existing.id },
         {
@@ -380,9 +417,9 @@ export class EntityUnificationService {
             normalizedValue: incoming.normalizedValue,
             metadata: incoming.metadata,
             confidence: incoming.confidence,
-            sources: mergedSources,
             updatedAt: new Date(),
           },
+          $push: { sources: { $each: newSources } },
         }
       );
 
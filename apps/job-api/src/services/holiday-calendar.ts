@@ -0,0 +1,86 @@
+import { ObjectId } from 'mongodb';
+import { getDatabase } from './database.js';
+import { BusinessCalendar } from '../utils/business-calendar.js';
+import type { CalendarHoliday, HolidayCalendar, PDFDocument } from '../types/index.js';
+
+/**
+ * Calendários de feriados estaduais/municipais por órgão
+ *
+ * O documento aponta para um calendário (calendarId); os prazos em dias
+ * úteis do documento descontam os feriados nacionais e os configurados nele.
+ */
+export class HolidayCalendarService {
+  private db = getDatabase();
+  private collection = this.db.collection<HolidayCalendar>('holiday_calendars');
+  private documents = this.db.collection<PDFDocument>('documents');
+
+  async listCalendars(): Promise<HolidayCalendar[]> {
+    return this.collection.find().sort({ calendarId: 1 }).toArray();
+  }
+
+  async getCalendar(calendarId: string): Promise<HolidayCalendar | null> {
+    return this.collection.findOne({ calendarId });
+  }
+
+  /**
+   * Cria ou substitui o calendário (a lista de feriados é trocada inteira)
+   */
+  async saveCalendar(
+    calendarId: string,
+    data: { name: string; state?: string; holidays: CalendarHoliday[] }
+  ): Promise<HolidayCalendar> {
+    const now = new Date();
+
+    await this.collection.updateOne(
+      { calendarId },
+      {
+        $set: { name: data.name, state: data.state, holidays: data.holidays, updatedAt: now },
+        $setOnInsert: { calendarId, createdAt: now },
+      },
+      { upsert: true }
+    );
+
+    return (await this.getCalendar(calendarId))!;
+  }
+
+  async deleteCalendar(calendarId: string): Promise<boolean> {
+    const result = await this.collection.deleteOne({ calendarId });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Calendário de dias úteis (sem calendarId ou não cadastrado = só feriados nacionais)
+   */
+  async getBusinessCalendar(calendarId?: string): Promise<BusinessCalendar> {
+    if (!calendarId) return new BusinessCalendar();
+
+    const calendar = await this.getCalendar(calendarId);
+    if (!calendar) {
+      console.warn(`⚠️ Calendário ${calendarId} não encontrado, usando só feriados nacionais`);
+      return new BusinessCalendar();
+    }
+
+    return new BusinessCalendar(calendar.holidays, calendarId);
+  }
+
+  /**
+   * Calendário de dias úteis do órgão do documento
+   */
+  async getDocumentCalendar(documentId: string): Promise<BusinessCalendar> {
+    const doc = ObjectId.isValid(documentId)
+      ? await this.documents.findOne({ _id: new ObjectId(documentId) }, { projection: { calendarId: 1 } })
+      : null;
+
+    return this.getBusinessCalendar(doc?.calendarId);
+  }
+}
+
+// Singleton
+let serviceInstance: HolidayCalendarService | null = null;
+
+export function getHolidayCalendarService(): HolidayCalendarService {
+  if (!serviceInstance) {
+    serviceInstance = new HolidayCalendarService();
+  }
+  return serviceInstance;
+}
@@ -0,0 +1,223 @@
+import { getDatabase } from './database.js';
+import { getDocumentStructureService } from './document-structure.js';
+import { normalizeText } from '../utils/normalizers.js';
+import type {
+  DocumentEmbedding,
+  LexicalIndex,
+  LexicalIndexChunk,
+  LexicalResult,
+} from '../types/rag.js';
+
+/** Parâmetros do BM25 (saturação da frequência e normalização pelo tamanho) */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Palavras sem valor de busca (já normalizadas: maiúsculas, sem acento)
+ */
+const STOPWORDS = new Set([
+  'A', 'AO', 'AOS', 'AS', 'COM', 'DA', 'DAS', 'DE', 'DO', 'DOS', 'E', 'EM', 'ENTRE',
+  'ESSE', 'ESSA', 'ESTE', 'ESTA', 'HA', 'ISSO', 'MAIS', 'NA', 'NAS', 'NO', 'NOS', 'O',
+  'OS', 'OU', 'PARA', 'PELA', 'PELAS', 'PELO', 'PELOS', 'POR', 'QUAL', 'QUAIS', 'QUANDO',
+  'QUE', 'SE', 'SEM', 'SER', 'SOBRE', 'UM', 'UMA', 'UNS', 'UMAS',
+]);
+
+/**
+ * Termos de um texto para o índice e para a query
+ *
+ * Números com separadores ficam inteiros ("5.3.2", "90/2024"); os longos
+ * (CNPJ, processo) ganham também a forma só com dígitos, para que
+ * "12.345.678/0001-90" e "12345678000190" se encontrem.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const matches = normalizeText(text).match(/[A-Z0-9]+(?:[./-][A-Z0-9]+)*/g) ?? [];
+
+  for (const match of matches) {
+    if (STOPWORDS.has(match) || /^[A-Z]$/.test(match)) continue;
+    terms.push(match);
+
+    if (/[./-]/.test(match) && /\d/.test(match)) {
+      const digits = match.replace(/[./-]/g, '');
+      if (/^\d+$/.test(digits) && digits.length >= 8) {
+        terms.push(digits);
+      }
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Identificadores da query: termos com dígito e separador (cláusula, processo,
+ * CNPJ) ou com cinco caracteres ou mais (UASG, CNPJ sem pontuação)
+ * Números curtos ("5", "2024") são comuns demais para servir de identificador
+ */
+export function extractIdentifiers(query: string): string[] {
+  return [...new Set(
+    tokenize(query).filter(term => /\d/.test(term) && (/[./-]/.test(term) || term.length >= 5))
+  )];
+}
+
+/**
+ * Serviço de índice lexical (BM25) por documento
+ *
+ * Complementa a busca vetorial do chat em perguntas com números e
+ * identificadores ("prazo do item 5.3.2", CNPJ, UASG), que embeddings
+ * representam mal. O índice é gerado a partir dos trechos com embedding
+ * (mesmos chunkIds) e guardado em um registro por documento.
+ */
+export class LexicalIndexService {
+  private db = getDatabase();
+  private collection = this.db.collection<LexicalIndex>('lexical_indexes');
+  private embeddings = this.db.collection<DocumentEmbedding>('document_embeddings');
+
+  /**
+   * (Re)gera o índice do documento a partir dos trechos com embedding
+   */
+  async buildIndex(documentId: string): Promise<number> {
+    const [chunks, sections] = await Promise.all([
+      this.embeddings
+        .find({ documentId }, { projection: { id: 1, text: 1, sectionId: 1, sectionTitle: 1 } })
+        .toArray(),
+      getDocumentStructureService().getSectionsByDocumentId(documentId),
+    ]);
+    const sectionNumbers = new Map(
+      sections.filter(section => section.number).map(section => [section.id, section.number!])
+    );
+
+    const indexChunks: LexicalIndexChunk[] = chunks.map(chunk => {
+      // O título da seção entra no texto indexado, como no embedding
+      const terms = tokenize(chunk.sectionTitle ? `${chunk.sectionTitle}\n${chunk.text}` : chunk.text);
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+
+      const sectionNumber = chunk.sectionId ? sectionNumbers.get(chunk.sectionId) : undefined;
+      return {
+        chunkId: chunk.id,
+        length: terms.length,
+        terms: [...frequencies.keys()],
+        frequencies: [...frequencies.values()],
+        sectionNumber: sectionNumber ? tokenize(sectionNumber)[0] : undefined,
+      };
+    });
+
+    const totalLength = indexChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+    await this.collection.replaceOne(
+      { documentId },
+      {
+        documentId,
+        chunks: indexChunks,
+        averageLength: indexChunks.length > 0 ? totalLength / indexChunks.length : 0,
+        createdAt: new Date(),
+      },
+      { upsert: true }
+    );
+
+    return indexChunks.length;
+  }
+
+  /**
+   * Busca BM25 nos trechos do documento
+   * Sem índice (documento preparado antes da busca híbrida), gera na hora se houver trechos
+   */
+  async search(documentId: string, query: string, topK: number): Promise<LexicalResult[]> {
+    let index = await this.collection.findOne({ documentId });
+    if (!index) {
+      const built = await this.buildIndex(documentId);
+      if (built === 0) return [];
+      console.log(`   🔤 Índice lexical gerado sob demanda para ${documentId} (${built} trechos)`);
+      index = await this.collection.findOne({ documentId });
+      if (!index) return [];
+    }
+
+    const queryTerms = [...new Set(tokenize(query))];
+    const identifiers = extractIdentifiers(query);
+    if (queryTerms.length === 0 || index.chunks.length === 0) return [];
+
+    // IDF dos termos da query
+    const documentFrequency = new Map<string, number>(queryTerms.map(term => [term, 0]));
+    for (const chunk of index.chunks) {
+      for (const term of chunk.terms) {
+        const count = documentFrequency.get(term);
+        if (count !== undefined) documentFrequency.set(term, count + 1);
+      }
+    }
+
+    const totalChunks = index.chunks.length;
+    const idf = new Map<string, number>();
+    for (const [term, frequency] of documentFrequency) {
+      idf.set(term, Math.log(1 + (totalChunks - frequency + 0.5) / (frequency + 0.5)));
+    }
+
+    // Referência para 0-1: todos os termos da query uma vez num trecho de tamanho médio
+    let maxScore = 0;
+    for (const value of idf.values()) {
+      maxScore += value;
+    }
+
+    const averageLength = index.averageLength || 1;
+    const results: LexicalResult[] = [];
+
+    for (const chunk of index.chunks) {
+      let score = 0;
+      const matchedIdentifiers: string[] = [];
+      const matchedDigits = new Set<string>();
+
+      chunk.terms.forEach((term, position) => {
+        const termIdf = idf.get(term);
+        if (termIdf === undefined) return;
+
+        const frequency = chunk.frequencies[position] ?? 0;
+        score += termIdf * (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (chunk.length / averageLength)));
+
+        // Um identificador conta uma vez, com ou sem pontuação
+        const digits = term.replace(/[./-]/g, '');
+        if (identifiers.includes(term) && !matchedDigits.has(digits)) {
+          matchedDigits.add(digits);
+          matchedIdentifiers.push(term);
+        }
+      });
+
+      const sectionMatch = chunk.sectionNumber !== undefined && identifiers.includes(chunk.sectionNumber);
+      if (score <= 0 && !sectionMatch) continue;
+
+      results.push({
+        chunkId: chunk.chunkId,
+        score,
+        normalizedScore: maxScore > 0 ? Math.min(1, score / maxScore) : 0,
+        matchedIdentifiers,
+        sectionMatch,
+      });
+    }
+
+    // Trechos com identificador da query ficam mesmo fora do topK (recebem boost na fusão)
+    return results
+      .sort((a, b) => b.score - a.score)
+      .filter((result, position) =>
+        position < topK || result.sectionMatch || result.matchedIdentifiers.length > 0
+      );
+  }
+
+  /**
+   * Remove o índice do documento
+   */
+  async deleteIndex(documentId: string): Promise<boolean> {
+    const result = await this.collection.deleteOne({ documentId });
+    return result.deletedCount > 0;
+  }
+}
+
+// Singleton
+let serviceInstance: LexicalIndexService | null = null;
+
+export function getLexicalIndexService(): LexicalIndexService {
+  if (!serviceInstance) {
+    serviceInstance = new LexicalIndexService();
+  }
+  return serviceInstance;
+}
@@ -0,0 +1,292 @@
+import { generateText } from 'ai';
+import type { Filter } from 'mongodb';
+import { getDatabase } from './database.js';
+import { getChatService } from './chat.js';
+import { getRagService } from './rag.js';
+import { getBudgetService } from './budget.js';
+import { DEFAULT_ORGANIZATION_ID } from './usage.js';
+import {
+  LIBRARY_CHAT_SYSTEM_PROMPT,
+  createLibraryRagPrompt,
+  NO_CONTEXT_PROMPT,
+} from '../ai/prompts/chat.js';
+import { getLanguageModel } from '../ai/providers.js';
+import { createLibraryChatTools } from '../ai/chat-tools.js';
+import type { PDFDocument } from '../types/index.js';
+import type {
+  Conversation,
+  LibraryChatResponse,
+  LibraryDocument,
+  LibraryFilters,
+  LibrarySnippet,
+  LibrarySource,
+  RetrievedChunk,
+} from '../types/rag.js';
+
+/**
+ * Documentos consultados por pergunta (os enviados mais recentemente)
+ */
+const LIBRARY_MAX_DOCUMENTS = 200;
+
+/**
+ * Passos do chat da biblioteca (consultas a vários documentos + resposta final)
+ */
+const LIBRARY_CHAT_MAX_STEPS = 8;
+
+/**
+ * Prefixo do documentId das conversas da biblioteca (`library:<organização>`)
+ */
+const LIBRARY_CONVERSATION_PREFIX = 'library:';
+
+export function getLibraryConversationKey(organizationId: string): string {
+  return `${LIBRARY_CONVERSATION_PREFIX}${organizationId}`;
+}
+
+/**
+ * Normaliza tags (minúsculas, sem espaços nas pontas, sem repetição)
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Biblioteca de editais: busca e chat sobre vários documentos da organização
+ *
+ * Os documentos entram pelos filtros (status, período de envio e tags); a
+ * recuperação híbrida e as tools de consulta cobrem todos eles, e cada fonte
+ * da resposta traz documento e página.
+ */
+export class LibraryService {
+  private db = getDatabase();
+  private documentsCollection = this.db.collection<PDFDocument>('documents');
+  private chatService = getChatService();
+
+  /**
+   * Documentos da organização que atendem aos filtros (mais recentes primeiro)
+   */
+  async findDocuments(organizationId: string, filters: LibraryFilters = {}): Promise<LibraryDocument[]> {
+    const query: Filter<PDFDocument> = {
+      status: { $in: filters.status?.length ? filters.status : ['COMPLETED'] },
+    };
+
+    // Documentos sem organizationId são da organização padrão
+    if (organizationId === DEFAULT_ORGANIZATION_ID) {
+      query.$or = [{ organizationId }, { organizationId: { $exists: false } }];
+    } else {
+      query.organizationId = organizationId;
+    }
+
+    if (filters.from || filters.to) {
+      query.createdAt = {
+        ...(filters.from && { $gte: new Date(filters.from) }),
+        ...(filters.to && { $lte: new Date(`${filters.to}T23:59:59.999Z`) }),
+      };
+    }
+
+    if (filters.tags?.length) {
+      query.tags = { $in: normalizeTags(filters.tags) };
+    }
+
+    const docs = await this.documentsCollection
+      .find(query, { projection: { filename: 1, status: 1, tags: 1, procurementId: 1, createdAt: 1 } })
+      .sort({ createdAt: -1 })
+      .limit(LIBRARY_MAX_DOCUMENTS)
+      .toArray();
+
+    return docs.map(doc => ({
+      documentId: doc._id!.toString(),
+      filename: doc.filename,
+      status: doc.status,
+      tags: doc.tags ?? [],
+      procurementId: doc.procurementId,
+      createdAt: doc.createdAt,
+    }));
+  }
+
+  /**
+   * Busca híbrida nos documentos filtrados, sem geração de resposta
+   */
+  async search(
+    organizationId: string,
+    query: string,
+    filters: LibraryFilters = {},
+    topK: number = 10
+  ): Promise<{ documentsSearched: number; results: LibrarySnippet[] }> {
+    await getBudgetService().assertOrganizationWithinBudget(organizationId);
+
+    const documents = await this.findDocuments(organizationId, filters);
+    if (documents.length === 0) {
+      return { documentsSearched: 0, results: [] };
+    }
+
+    const chunks = await getRagService().retrieveLibraryContext(
+      documents.map(doc => doc.documentId),
+      query,
+      topK,
+      { organizationId }
+    );
+
+    return {
+      documentsSearched: documents.length,
+      results: this.toSnippets(chunks, documents),
+    };
+  }
+
+  /**
+   * Processa uma mensagem do chat da biblioteca
+   */
+  async chat(
+    organizationId: string,
+    message: string,
+    options: { conversationId?: string; topK?: number; filters?: LibraryFilters } = {}
+  ): Promise<LibraryChatResponse> {
+    const { topK = 8, filters = {} } = options;
+    const conversationKey = getLibraryConversationKey(organizationId);
+
+    // Orçamento mensal da organização (a conversa não pertence a um documento)
+    await getBudgetService().assertOrganizationWithinBudget(organizationId);
+
+    const documents = await this.findDocuments(organizationId, filters);
+    if (documents.length === 0) {
+      throw new Error('Nenhum documento da biblioteca atende aos filtros');
+    }
+
+    // Criar ou recuperar conversa (só as da biblioteca da organização)
+    const existing = options.conversationId
+      ? await this.chatService.getConversation(options.conversationId)
+      : null;
+
+    let conversation: Conversation;
+    if (existing && existing.documentId === conversationKey) {
+      conversation = existing;
+      await this.chatService.updateConversationFilters(conversation.id, filters);
+    } else {
+      const title = this.chatService.generateConversationTitle(message);
+      conversation = await this.chatService.createConversation(conversationKey, title, {
+        organizationId,
+        filters,
+      });
+    }
+
+    // Salvar mensagem do usuário
+    await this.chatService.addMessage(conversationKey, conversation.id, 'user', message);
+
+    const usage = { organizationId, conversationId: conversation.id };
+    const chunks = await getRagService().retrieveLibraryContext(
+      documents.map(doc => doc.documentId),
+      message,
+      topK,
+      usage
+    );
+    const snippets = this.toSnippets(chunks, documents);
+
+    // Buscar histórico recente
+    const recentMessages = await this.chatService.getRecentMessages(conversation.id, 10);
+    const formattedHistory = this.chatService.formatMessagesForModel(
+      recentMessages.slice(0, -1) // Excluir a mensagem atual que já foi salva
+    );
+
+    const ragPrompt = createLibraryRagPrompt(
+      message,
+      chunks.map((chunk, i) => ({ ...chunk, filename: snippets[i]!.filename })),
+      documents.length
+    );
+
+    // Gerar resposta (o modelo pode consultar a análise dos documentos via tools)
+    const citedPages = new Map<string, Set<number>>();
+    const { text, steps } = await generateText({
+      model: getLanguageModel('chat', usage),
+      system: LIBRARY_CHAT_SYSTEM_PROMPT,
+      messages: [
+        ...formattedHistory.map(m => ({
+          role: m.role as 'user' | 'assistant',
+          content: m.content,
+        })),
+        { role: 'user' as const, content: ragPrompt },
+      ],
+      tools: createLibraryChatTools(documents, citedPages),
+      maxSteps: LIBRARY_CHAT_MAX_STEPS,
+    });
+
+    const responseContent = text.trim() || NO_CONTEXT_PROMPT;
+    const toolCalls = steps.flatMap(step =>
+      step.toolCalls.map(call => ({ toolName: call.toolName, args: call.args as Record<string, unknown> }))
+    );
+
+    // Fontes: trechos recuperados e páginas citadas pelas tools
+    for (const chunk of chunks) {
+      const cited = citedPages.get(chunk.documentId) ?? new Set<number>();
+      cited.add(chunk.pageNumber);
+      citedPages.set(chunk.documentId, cited);
+    }
+    const sources = this.toSources(citedPages, documents);
+
+    const assistantMessage = await this.chatService.addMessage(
+      conversationKey,
+      conversation.id,
+      'assistant',
+      responseContent,
+      undefined,
+      sources
+    );
+
+    return {
+      messageId: assistantMessage.id,
+      conversationId: conversation.id,
+      content: responseContent,
+      sources,
+      documentsSearched: documents.length,
+      toolCalls,
+      sourceSnippets: snippets,
+    };
+  }
+
+  /**
+   * Conversas da biblioteca da organização
+   */
+  async listConversations(organizationId: string): Promise<Conversation[]> {
+    return this.chatService.listConversations(getLibraryConversationKey(organizationId));
+  }
+
+  /**
+   * Conversa da biblioteca da organização (null se não existe ou é de outra)
+   */
+  async getConversation(organizationId: string, conversationId: string): Promise<Conversation | null> {
+    const conversation = await this.chatService.getConversation(conversationId);
+    return conversation?.documentId === getLibraryConversationKey(organizationId) ? conversation : null;
+  }
+
+  private toSnippets(chunks: RetrievedChunk[], documents: LibraryDocument[]): LibrarySnippet[] {
+    const filenames = new Map(documents.map(doc => [doc.documentId, doc.filename]));
+
+    return chunks.map(chunk => ({
+      documentId: chunk.documentId,
+      filename: filenames.get(chunk.documentId) ?? chunk.documentId,
+      pageNumber: chunk.pageNumber,
+      lineStart: chunk.lineStart,
+      lineEnd: chunk.lineEnd,
+      sectionTitle: chunk.sectionTitle,
+      excerpt: chunk.text.substring(0, 300) + (chunk.text.length > 300 ? '...' : ''),
+      relevance: chunk.relevance,
+    }));
+  }
+
+  private toSources(citedPages: Map<string, Set<number>>, documents: LibraryDocument[]): LibrarySource[] {
+    // Na ordem da lista de documentos (mais recentes primeiro), páginas crescentes
+    return documents.flatMap(doc =>
+      [...(citedPages.get(doc.documentId) ?? [])]
+        .sort((a, b) => a - b)
+        .map(pageNumber => ({ documentId: doc.documentId, filename: doc.filename, pageNumber }))
+    );
+  }
+}
+
+// Singleton
+let serviceInstance: LibraryService | null = null;
+
+export function getLibraryService(): LibraryService {
+  if (!serviceInstance) {
+    serviceInstance = new LibraryService();
+  }
+  return serviceInstance;
+}
@@ -0,0 +1,226 @@
+import { createRequire } from 'module';
+import { createWorker, OEM, type Worker, type Line } from 'tesseract.js';
+import { pdf as pdfToImages } from 'pdf-to-img';
+import type { PageContent } from '../utils/pdf-extraction.js';
+import type { PageTextItem } from '../types/entities.js';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Modelo de português empacotado no @tesseract.js-data/por
+ * (evita download do traineddata em tempo de execução)
+ */
+const PORTUGUESE_DATA = require('@tesseract.js-data/por') as {
+  code: string;
+  gzip: boolean;
+  langPath: string;
+};
+
+/**
+ * Máximo de caracteres (sem espaços) na camada de texto de uma página
+ * escaneada: cabe um número de página ou carimbo, não um parágrafo
+ */
+function getMaxNativeChars(): number {
+  return parseInt(process.env.OCR_MAX_NATIVE_CHARS || '10', 10);
+}
+
+/**
+ * Escala de renderização da página (1 = 72 DPI). 2.5 ≈ 180 DPI,
+ * suficiente para o Tesseract sem estourar memória
+ */
+function getRenderScale(): number {
+  return parseFloat(process.env.OCR_RENDER_SCALE || '2.5');
+}
+
+function isOcrEnabled(): boolean {
+  return process.env.OCR_ENABLED !== 'false';
+}
+
+/**
+ * Arredonda para 2 casas decimais (mesma precisão do layout nativo)
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Lê largura e altura do cabeçalho IHDR de um PNG
+ */
+function getPngSize(png: Buffer): { width: number; height: number } {
+  return {
+    width: png.readUInt32BE(16),
+    height: png.readUInt32BE(20),
+  };
+}
+
+/**
+ * Converte uma página reconhecida pelo Tesseract para o formato PageContent
+ * (texto por linha visual + layout em percentuais, origem superior esquerda)
+ */
+function toPageContent(
+  pageNumber: number,
+  lines: Line[],
+  confidence: number,
+  image: { width: number; height: number },
+  pdfSize: { width: number; height: number }
+): PageContent {
+  const textLines: string[] = [];
+  const items: PageTextItem[] = [];
+
+  for (const line of lines) {
+    const text = line.text.replace(/\s+$/, '');
+    if (!text.trim()) continue;
+
+    textLines.push(text);
+    const lineNumber = textLines.length;
+
+    for (const word of line.words) {
+      if (!word.text.trim()) continue;
+      const { x0, y0, x1, y1 } = word.bbox;
+      items.push({
+        text: word.text,
+        line: lineNumber,
+        left: round((x0 / image.width) * 100),
+        top: round((y0 / image.height) * 100),
+        width: round(((x1 - x0) / image.width) * 100),
+        height: round(((y1 - y0) / image.height) * 100),
+      });
+    }
+  }
+
+  return {
+    pageNumber,
+    text: textLines.join('\n'),
+    lineCount: textLines.length,
+    layout: {
+      width: pdfSize.width,
+      height: pdfSize.height,
+      items,
+    },
+    textSource: 'ocr',
+    ocrConfidence: round(confidence),
+  };
+}
+
+/**
+ * Serviço de OCR para páginas escaneadas
+ * Renderiza as páginas sem texto nativo e reconhece o texto com Tesseract (por)
+ */
+export class OcrService {
+  private workerPromise: Promise<Worker> | null = null;
+
+  /**
+   * Cria (uma única vez) o worker do Tesseract com o modelo de português local
+   */
+  private getWorker(): Promise<Worker> {
+    if (!this.workerPromise) {
+      this.workerPromise = createWorker(PORTUGUESE_DATA.code, OEM.LSTM_ONLY, {
+        langPath: PORTUGUESE_DATA.langPath,
+        gzip: PORTUGUESE_DATA.gzip,
+        cacheMethod: 'none',
+      }).catch((error) => {
+        this.workerPromise = null;
+        throw error;
+      });
+    }
+    return this.workerPromise;
+  }
+
+  /**
+   * Indica se a página é escaneada: camada de texto vazia ou quase vazia
+   * (até OCR_MAX_NATIVE_CHARS caracteres) e sem nenhuma letra extraível
+   *
+   * Páginas nativas curtas (ex.: "ANEXO I", uma assinatura) têm letras e
+   * mantêm o texto nativo; só números e sinais soltos (numeração de página
+   * carimbada na digitalização) não contam como texto.
+   */
+  needsOcr(page: PageContent): boolean {
+    const glyphs = page.text.replace(/\s+/g, '');
+    return glyphs.length <= getMaxNativeChars() && !/\p{L}/u.test(glyphs);
+  }
+
+  /**
+   * Aplica OCR nas páginas sem texto nativo, mantendo as demais intactas
+   *
+   * Falhas no OCR não interrompem o processamento: a página (ou, se o
+   * Tesseract/renderização nem iniciar, o documento) segue com o texto
+   * nativo, possivelmente vazio.
+   */
+  async applyOcrFallback(buffer: Buffer, pages: PageContent[]): Promise<PageContent[]> {
+    const targets = pages.filter(page => this.needsOcr(page));
+
+    if (!isOcrEnabled() || targets.length === 0) {
+      return pages;
+    }
+
+    console.log(`   🔎 Aplicando OCR em ${targets.length} página(s) escaneada(s)...`);
+
+    let worker: Worker;
+    let document: Awaited<ReturnType<typeof pdfToImages>>;
+    try {
+      worker = await this.getWorker();
+      document = await pdfToImages(buffer, { scale: getRenderScale() });
+    } catch (error) {
+      console.error('      ✗ Falha ao iniciar o OCR, mantendo o texto nativo:', error);
+      return pages;
+    }
+
+    const ocrPages = new Map<number, PageContent>();
+
+    for (const target of targets) {
+      try {
+        const png = await document.getPage(target.pageNumber);
+        const { data } = await worker.recognize(png, {}, { text: true, blocks: true });
+
+        const lines = (data.blocks ?? []).flatMap(block =>
+          block.paragraphs.flatMap(paragraph => paragraph.lines)
+        );
+
+        const ocrPage = toPageContent(
+          target.pageNumber,
+          lines,
+          data.confidence,
+          getPngSize(png),
+          {
+            width: target.layout?.width ?? 0,
+            height: target.layout?.height ?? 0,
+          }
+        );
+
+        // Mantém o texto nativo se o OCR não encontrou nada melhor
+        if (ocrPage.text.length > target.text.trim().length) {
+          ocrPages.set(target.pageNumber, ocrPage);
+        }
+
+        console.log(
+          `      ✓ Página ${target.pageNumber}: ${ocrPage.lineCount} linha(s), confiança ${ocrPage.ocrConfidence}%`
+        );
+      } catch (error) {
+        console.error(`      ✗ Falha no OCR da página ${target.pageNumber}:`, error);
+      }
+    }
+
+    return pages.map(page => ocrPages.get(page.pageNumber) ?? page);
+  }
+
+  /**
+   * Encerra o worker do Tesseract
+   */
+  async terminate(): Promise<void> {
+    if (this.workerPromise) {
+      const worker = await this.workerPromise;
+      this.workerPromise = null;
+      await worker.terminate();
+    }
+  }
+}
+
+// Singleton
+let serviceInstance: OcrService | null = null;
+
+export function getOcrService(): OcrService {
+  if (!serviceInstance) {
+    serviceInstance = new OcrService();
+  }
+  return serviceInstance;
+}
@@ -1,6 +1,6 @@
 import crypto from 'crypto';
 import { getDatabase } from './database.js';
-import type { DocumentPage, PageStatus } from '../types/entities.js';
+import type { DocumentPage, PageLayout, PageStatus, PageTextSource } from '../types/entities.js';
 
 /**
  * Gera um ID único para uma página
@@ -31,7 +31,14 @@ export class PageService {
    */
   async createPages(
     documentId: string,
-    pages: Array<{ pageNumber: number; text: string }>
+    pages: Array<{
+      pageNumber: number;
+      text: string;
+      lineCount?: number;
+      layout?: PageLayout;
+      textSource?: PageTextSource;
+      ocrConfidence?: number;
+    }>
   ): Promise<DocumentPage[]> {
     const now = new Date();
     
@@ -41,6 +48,10 @@ export class PageService {
       pageNumber: page.pageNumber,
       text: page.text,
       wordCount: countWords(page.text),
+      lineCount: page.lineCount ?? (page.text ? page.text.split('\n').length : 0),
+      layout: page.layout,
+      textSource: page.textSource ?? 'native',
+      ocrConfidence: page.ocrConfidence,
       status: 'pending' as PageStatus,
       entitiesExtracted: 0,
       createdAt: now,
@@ -138,14 +149,35 @@ export class PageService {
 
   /**
    * Busca todas as páginas de um documento
+   * O layout não é carregado (use getPageLayout)
    */
   async getPagesByDocumentId(documentId: string): Promise<DocumentPage[]> {
     return this.collection
-      .find({ documentId })
+      .find({ documentId }, { projection: { layout: 0 } })
       .sort({ pageNumber: 1 })
       .toArray();
   }
 
+  /**
+   * Busca o layout (coordenadas dos itens de texto) de uma página
+   */
+  async getPageLayout(
+    documentId: string,
+    pageNumber: number
+  ): Promise<{ lineCount: number; layout: PageLayout } | null> {
+    const page = await this.collection.findOne(
+      { documentId, pageNumber },
+      { projection: { lineCount: 1, layout: 1 } }
+    );
+
+    if (!page?.layout) return null;
+
+    return {
+      lineCount: page.lineCount ?? 0,
+      layout: page.layout,
+    };
+  }
+
   /**
    * Busca uma página pelo ID
    */
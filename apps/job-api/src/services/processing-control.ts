@@ -0,0 +1,130 @@
+import { ObjectId } from 'mongodb';
+import { getDatabase } from './database.js';
+import type { PDFDocument, ProcessingControlAction, Procurement } from '../types/index.js';
+
+/**
+ * Lançado nos pontos de checagem quando há cancelamento/pausa pedido
+ * A fila trata como interrupção (sem nova tentativa), não como falha
+ */
+export class ProcessingInterruptedError extends Error {
+  constructor(
+    public action: ProcessingControlAction,
+    /** Motivo de uma interrupção automática (ex.: orçamento de IA esgotado) */
+    public reason?: string
+  ) {
+    super(reason ?? (action === 'cancel' ? 'Processamento cancelado' : 'Processamento pausado'));
+    this.name = 'ProcessingInterruptedError';
+  }
+}
+
+/**
+ * Serviço de controle do processamento em andamento (cancelar/pausar)
+ *
+ * O pedido fica gravado no documento (`controlRequest`) e o worker o consulta
+ * entre batches e entre os estágios de cada batch, então funciona mesmo com o
+ * job rodando em outra instância da job-api.
+ */
+export class ProcessingControlService {
+  private db = getDatabase();
+  private collection = this.db.collection<PDFDocument>('documents');
+  private procurements = this.db.collection<Procurement>('procurements');
+
+  /**
+   * Registra o pedido de cancelamento/pausa
+   * Cancelamento prevalece sobre uma pausa ainda não aplicada
+   */
+  async request(documentId: string, action: ProcessingControlAction): Promise<void> {
+    const filter = action === 'cancel'
+      ? { _id: new ObjectId(documentId) }
+      : { _id: new ObjectId(documentId), controlRequest: { $ne: 'cancel' as const } };
+
+    await this.collection.updateOne(filter, {
+      $set: { controlRequest: action, updatedAt: new Date() },
+    });
+  }
+
+  /**
+   * Pedido pendente para o documento (null se nenhum)
+   */
+  async getRequest(documentId: string): Promise<ProcessingControlAction | null> {
+    const doc = await this.collection.findOne(
+      { _id: new ObjectId(documentId) },
+      { projection: { controlRequest: 1 } }
+    );
+    return doc?.controlRequest ?? null;
+  }
+
+  /**
+   * Ponto de checagem: lança ProcessingInterruptedError se há pedido pendente
+   */
+  async throwIfRequested(documentId: string): Promise<void> {
+    const action = await this.getRequest(documentId);
+    if (action) {
+      throw new ProcessingInterruptedError(action);
+    }
+  }
+
+  /**
+   * Descarta o pedido (processamento encerrado, aplicado ou não)
+   */
+  async clear(documentId: string): Promise<void> {
+    await this.collection.updateOne(
+      { _id: new ObjectId(documentId) },
+      { $unset: { controlRequest: '' } }
+    );
+  }
+
+  // ==========================================================================
+  // LICITAÇÕES
+  // ==========================================================================
+
+  /**
+   * Registra o pedido para uma licitação em andamento
+   *
+   * Vale para o filho em processamento (repassado a ele, que para no próximo
+   * ponto de checagem) e para os seguintes: o worker checa entre um filho e outro.
+   */
+  async requestProcurement(procurementId: string, action: ProcessingControlAction): Promise<void> {
+    await this.procurements.updateOne(
+      { _id: new ObjectId(procurementId) },
+      { $set: { controlRequest: action, updatedAt: new Date() } }
+    );
+
+    const active = await this.collection
+      .find({ procurementId, status: 'PROCESSING' }, { projection: { _id: 1 } })
+      .toArray();
+    for (const child of active) {
+      await this.request(child._id.toString(), action);
+    }
+  }
+
+  /**
+   * Ponto de checagem entre filhos: lança ProcessingInterruptedError se há pedido
+   */
+  async throwIfProcurementRequested(procurementId: string): Promise<void> {
+    const procurement = await this.procurements.findOne(
+      { _id: new ObjectId(procurementId) },
+      { projection: { controlRequest: 1 } }
+    );
+    if (procurement?.controlRequest) {
+      throw new ProcessingInterruptedError(procurement.controlRequest);
+    }
+  }
+
+  async clearProcurement(procurementId: string): Promise<void> {
+    await this.procurements.updateOne(
+      { _id: new ObjectId(procurementId) },
+      { $unset: { controlRequest: '' } }
+    );
+  }
+}
+
+// Singleton
+let serviceInstance: ProcessingControlService | null = null;
+
+export function getProcessingControlService(): ProcessingControlService {
+  if (!serviceInstance) {
+    serviceInstance = new ProcessingControlService();
+  }
+  return serviceInstance;
+}
@@ -0,0 +1,399 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from './database.js';
+import { uploadFile } from './storage.js';
+import { getTimelineService } from './timeline.js';
+import { getRiskService } from './risk.js';
+import { getEntityUnificationService } from './entity-unification.js';
+import { detectSourceFormat } from '../converters/index.js';
+import { normalizeText } from '../utils/normalizers.js';
+import { DEFAULT_PROCESSING_CONFIG } from '../types/entities.js';
+import type {
+  PDFDocument,
+  Procurement,
+  DocumentRole,
+  DocumentStatus,
+  SourceFormat,
+  ExtractedEntity,
+  TimelineEvent,
+  Risk,
+} from '../types/index.js';
+
+// ============================================================================
+// CLASSIFICAÇÃO
+// ============================================================================
+
+/**
+ * Ordem de processamento: o edital primeiro, planilhas por último
+ */
+export const DOCUMENT_ROLE_ORDER: DocumentRole[] = [
+  'EDITAL',
+  'TERMO_REFERENCIA',
+  'MINUTA_CONTRATO',
+  'ANEXO',
+  'PLANILHA',
+];
+
+const SPREADSHEET_FORMATS: SourceFormat[] = ['xlsx', 'ods', 'csv'];
+
+/**
+ * Remove acentos e normaliza separadores para comparação
+ */
+function normalizeForMatch(text: string): string {
+  return normalizeText(text)
+    .replace(/[_\-.]+/g, ' ')
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Classifica um arquivo do pacote pelo nome
+ * Retorna null quando o nome não é conclusivo
+ *
+ * A ordem importa: "Anexo I - Termo de Referência" é TERMO_REFERENCIA,
+ * "Anexo III - Minuta do Contrato" é MINUTA_CONTRATO.
+ */
+export function classifyByFilename(filename: string): DocumentRole | null {
+  const name = normalizeForMatch(path.basename(filename, path.extname(filename)));
+  const format = detectSourceFormat(filename);
+
+  if (format && SPREADSHEET_FORMATS.includes(format)) return 'PLANILHA';
+  if (/PLANILHA|ORCAMENTO|COMPOSICAO DE CUSTOS|\bBDI\b|CRONOGRAMA FISICO/.test(name)) return 'PLANILHA';
+  if (/TERMO DE REFERENCIA|\bTR\b|PROJETO BASICO/.test(name)) return 'TERMO_REFERENCIA';
+  if (/MINUTA|CONTRATO/.test(name)) return 'MINUTA_CONTRATO';
+  if (/\bANEXO\b/.test(name)) return 'ANEXO';
+  if (/EDITAL/.test(name)) return 'EDITAL';
+
+  return null;
+}
+
+/**
+ * Classifica pelo início do texto (primeira página) quando o nome não ajuda
+ */
+export function classifyByContent(text: string): DocumentRole {
+  const head = normalizeForMatch(text.slice(0, 1500));
+
+  if (/TERMO DE REFERENCIA|PROJETO BASICO/.test(head)) return 'TERMO_REFERENCIA';
+  if (/MINUTA (DO|DE) CONTRATO|CONTRATO N/.test(head)) return 'MINUTA_CONTRATO';
+  if (/PLANILHA (DE|ORCAMENTARIA)|ORCAMENTO ESTIMADO|COMPOSICAO DE CUSTOS/.test(head)) return 'PLANILHA';
+  if (/EDITAL (DE|DO)|PREGAO ELETRONICO|CONCORRENCIA|AVISO DE LICITACAO/.test(head)) return 'EDITAL';
+
+  return 'ANEXO';
+}
+
+// ============================================================================
+// EXPANSÃO DO ZIP
+// ============================================================================
+
+/**
+ * Limites do pacote contra ZIPs maliciosos (zip bomb): número de arquivos e
+ * tamanho total descompactado dos arquivos lidos
+ */
+function getBundleLimits(): { maxFiles: number; maxBytes: number } {
+  return {
+    maxFiles: parseInt(process.env.BUNDLE_MAX_FILES || '200', 10),
+    maxBytes: parseInt(process.env.BUNDLE_MAX_UNCOMPRESSED_MB || '500', 10) * 1024 * 1024,
+  };
+}
+
+/**
+ * Descompacta um arquivo do ZIP em streaming, abortando assim que passar do
+ * que resta do limite (o tamanho declarado no ZIP não é confiável)
+ */
+async function readEntry(entry: JSZip.JSZipObject, remainingBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const stream = entry.nodeStream('nodebuffer');
+    stream
+      .on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > remainingBytes) {
+          stream.pause();
+          reject(new Error('Pacote excede o tamanho descompactado máximo (BUNDLE_MAX_UNCOMPRESSED_MB)'));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// ============================================================================
+// AGREGAÇÃO
+// ============================================================================
+
+/**
+ * Referência ao arquivo de origem de um item agregado
+ */
+export interface SourceDocumentRef {
+  documentId: string;
+  filename: string;
+  documentRole?: DocumentRole;
+}
+
+export type WithSourceDocument<T> = T & { sourceDocument: SourceDocumentRef };
+
+/**
+ * Serviço para licitações enviadas como pacote ZIP
+ * Expande o pacote em documentos filhos e agrega os resultados no nível da licitação
+ */
+export class ProcurementService {
+  private db = getDatabase();
+  private collection = this.db.collection<Procurement>('procurements');
+  private documents = this.db.collection<PDFDocument>('documents');
+
+  /**
+   * Busca uma licitação pelo ID
+   */
+  async getProcurement(procurementId: string): Promise<Procurement | null> {
+    return this.collection.findOne({ _id: new ObjectId(procurementId) });
+  }
+
+  /**
+   * Lista licitações (mais recentes primeiro)
+   */
+  async listProcurements(options: { skip: number; limit: number }): Promise<{
+    procurements: Procurement[];
+    total: number;
+  }> {
+    const [procurements, total] = await Promise.all([
+      this.collection
+        .find({})
+        .sort({ createdAt: -1 })
+        .skip(options.skip)
+        .limit(options.limit)
+        .toArray(),
+      this.collection.countDocuments({}),
+    ]);
+
+    return { procurements, total };
+  }
+
+  /**
+   * Atualiza status e campos da licitação
+   */
+  async updateProcurement(
+    procurementId: string,
+    status: DocumentStatus,
+    updates: Partial<Procurement> = {}
+  ): Promise<void> {
+    await this.collection.updateOne(
+      { _id: new ObjectId(procurementId) },
+      { $set: { status, updatedAt: new Date(), ...updates } }
+    );
+  }
+
+  /**
+   * Documentos filhos na ordem de processamento (edital, TR, minuta, anexos, planilhas)
+   */
+  async getChildren(procurementId: string): Promise<PDFDocument[]> {
+    const children = await this.documents.find({ procurementId }).toArray();
+
+    return children.sort((a, b) => {
+      const roleA = DOCUMENT_ROLE_ORDER.indexOf(a.documentRole ?? 'ANEXO');
+      const roleB = DOCUMENT_ROLE_ORDER.indexOf(b.documentRole ?? 'ANEXO');
+      return roleA - roleB || a.filename.localeCompare(b.filename, 'pt-BR');
+    });
+  }
+
+  /**
+   * Atualiza o papel de um documento filho
+   */
+  async updateDocumentRole(documentId: string, documentRole: DocumentRole): Promise<void> {
+    await this.documents.updateOne(
+      { _id: new ObjectId(documentId) },
+      { $set: { documentRole, updatedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Expande o ZIP: envia cada arquivo suportado ao storage e cria um documento filho
+   *
+   * Idempotente por arquivo do pacote (`bundleEntry`): uma nova tentativa depois de
+   * falha no meio da expansão só cria os filhos que faltam. Ao final grava
+   * `expandedAt` na licitação. Arquivos cujo nome não permite classificar ficam
+   * como ANEXO com `roleFromFilename: false`, para serem reclassificados pelo
+   * conteúdo depois da extração.
+   *
+   * Retorna os filhos criados nesta chamada e a lista de arquivos ignorados.
+   */
+  async expandBundle(
+    procurementId: string,
+    zipBuffer: Buffer
+  ): Promise<{
+    children: PDFDocument[];
+    skippedFiles: string[];
+  }> {
+    const zip = await JSZip.loadAsync(zipBuffer);
+    const procurement = await this.collection.findOne(
+      { _id: new ObjectId(procurementId) },
+      { projection: { organizationId: 1 } }
+    );
+    const existing = await this.documents.find({ procurementId }).toArray();
+    const expandedEntries = new Set(existing.map(child => child.bundleEntry));
+    const usedNames = new Set(existing.map(child => child.filename.toLowerCase()));
+
+    const entries = Object.values(zip.files).filter(entry => !entry.dir);
+    const limits = getBundleLimits();
+    if (entries.length > limits.maxFiles) {
+      throw new Error(`Pacote com ${entries.length} arquivos excede o limite de ${limits.maxFiles} (BUNDLE_MAX_FILES)`);
+    }
+
+    const children: PDFDocument[] = [];
+    const skippedFiles: string[] = [];
+    let totalBytes = 0;
+
+    for (const entry of entries) {
+      const basename = path.basename(entry.name);
+
+      // Metadados do macOS e arquivos ocultos
+      if (entry.name.startsWith('__MACOSX/') || basename.startsWith('.')) continue;
+
+      const sourceFormat = detectSourceFormat(basename);
+      if (!sourceFormat) {
+        skippedFiles.push(entry.name);
+        continue;
+      }
+
+      // Já virou documento filho numa tentativa anterior
+      if (expandedEntries.has(entry.name)) continue;
+
+      // Pastas diferentes podem ter arquivos com o mesmo nome
+      let filename = basename;
+      for (let i = 2; usedNames.has(filename.toLowerCase()); i++) {
+        const ext = path.extname(basename);
+        filename = `${path.basename(basename, ext)} (${i})${ext}`;
+      }
+      usedNames.add(filename.toLowerCase());
+
+      const documentId = new ObjectId();
+      const s3Key = `uploads/${documentId.toString()}/${filename}`;
+      const buffer = await readEntry(entry, limits.maxBytes - totalBytes);
+      totalBytes += buffer.length;
+      await uploadFile(s3Key, buffer, 'application/octet-stream');
+
+      const filenameRole = classifyByFilename(entry.name);
+      const now = new Date();
+      const document: PDFDocument = {
+        _id: documentId,
+        filename,
+        s3Key,
+        sourceFormat,
+        procurementId,
+        // Filhos herdam a organização do pacote (orçamento de IA)
+        ...(procurement?.organizationId && { organizationId: procurement.organizationId }),
+        documentRole: filenameRole ?? 'ANEXO',
+        roleFromFilename: filenameRole !== null,
+        bundleEntry: entry.name,
+        status: 'PENDING',
+        totalPages: 0,
+        pagesProcessed: 0,
+        currentBatch: 0,
+        totalBatches: 0,
+        config: {
+          wordCap: DEFAULT_PROCESSING_CONFIG.wordCap,
+          maxPagesPerBatch: DEFAULT_PROCESSING_CONFIG.maxPagesPerBatch,
+        },
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.documents.insertOne(document);
+      children.push(document);
+    }
+
+    const all = await this.getChildren(procurementId);
+    await this.collection.updateOne(
+      { _id: new ObjectId(procurementId) },
+      {
+        $set: {
+          documentIds: all.map(child => child._id!.toString()),
+          skippedFiles,
+          expandedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      }
+    );
+
+    return { children, skippedFiles };
+  }
+
+  /**
+   * Mapa documentId → referência de origem dos filhos
+   */
+  private async getSourceRefs(procurementId: string): Promise<Map<string, SourceDocumentRef>> {
+    const children = await this.getChildren(procurementId);
+    return new Map(
+      children.map(child => [
+        child._id!.toString(),
+        {
+          documentId: child._id!.toString(),
+          filename: child.filename,
+          documentRole: child.documentRole,
+        },
+      ])
+    );
+  }
+
+  /**
+   * Busca um tipo de item em todos os filhos, anotando o arquivo de origem
+   * (a página continua nos campos originais de cada item)
+   */
+  private async aggregate<T extends { documentId: string }>(
+    procurementId: string,
+    fetch: (documentId: string) => Promise<T[]>
+  ): Promise<Array<WithSourceDocument<T>>> {
+    const refs = await this.getSourceRefs(procurementId);
+    const results = await Promise.all(
+      [...refs.values()].map(async (ref) => {
+        const items = await fetch(ref.documentId);
+        return items.map(item => ({ ...item, sourceDocument: ref }));
+      })
+    );
+    return results.flat();
+  }
+
+  /**
+   * Entidades de todos os documentos da licitação
+   */
+  async getAggregatedEntities(procurementId: string): Promise<Array<WithSourceDocument<ExtractedEntity>>> {
+    const unificationService = getEntityUnificationService();
+    return this.aggregate(procurementId, id => unificationService.findByDocumentId(id));
+  }
+
+  /**
+   * Timeline unificada da licitação (ordenada por data; eventos sem data no fim)
+   */
+  async getAggregatedTimeline(procurementId: string): Promise<Array<WithSourceDocument<TimelineEvent>>> {
+    const timelineService = getTimelineService();
+    const events = await this.aggregate(procurementId, id => timelineService.getEventsByDocumentId(id));
+
+    return events.sort((a, b) => {
+      if (a.date && b.date) return a.date.getTime() - b.date.getTime();
+      if (a.date) return -1;
+      if (b.date) return 1;
+      return 0;
+    });
+  }
+
+  /**
+   * Riscos de todos os documentos da licitação
+   */
+  async getAggregatedRisks(procurementId: string): Promise<Array<WithSourceDocument<Risk>>> {
+    const riskService = getRiskService();
+    return this.aggregate(procurementId, id => riskService.getRisksByDocumentId(id));
+  }
+}
+
+// Singleton
+let serviceInstance: ProcurementService | null = null;
+
+export function getProcurementService(): ProcurementService {
+  if (!serviceInstance) {
+    serviceInstance = new ProcurementService();
+  }
+  return serviceInstance;
+}
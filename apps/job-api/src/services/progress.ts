@@ -0,0 +1,76 @@
+import { ObjectId } from 'mongodb';
+import { getDatabase } from './database.js';
+import type { ProcessingEvent } from '../types/index.js';
+
+/** Eventos antigos são removidos pelo MongoDB (índice TTL) */
+const EVENTS_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Tipos de evento que encerram o processamento de um documento */
+export const TERMINAL_EVENT_TYPES: ProcessingEvent['type'][] = ['completed', 'failed', 'cancelled', 'paused'];
+
+export type ProgressEventInput = Omit<ProcessingEvent, '_id' | 'documentId' | 'createdAt'>;
+
+/**
+ * Serviço de eventos de progresso do processamento
+ *
+ * Os eventos ficam na coleção `processing_events`, então o stream SSE funciona
+ * mesmo quando o job roda em outra instância da job-api (a rota lê por polling).
+ */
+export class ProgressService {
+  private db = getDatabase();
+  private collection = this.db.collection<ProcessingEvent>('processing_events');
+  private indexesReady: Promise<void> | null = null;
+
+  private ensureIndexes(): Promise<void> {
+    if (!this.indexesReady) {
+      this.indexesReady = Promise.all([
+        this.collection.createIndex({ documentId: 1, _id: 1 }),
+        this.collection.createIndex({ createdAt: 1 }, { expireAfterSeconds: EVENTS_TTL_SECONDS }),
+      ]).then(() => undefined);
+    }
+    return this.indexesReady;
+  }
+
+  /**
+   * Registra um evento de progresso
+   * Nunca lança: falha ao registrar progresso não pode derrubar o processamento
+   */
+  async emit(documentId: string, event: ProgressEventInput): Promise<void> {
+    try {
+      await this.ensureIndexes();
+      await this.collection.insertOne({ ...event, documentId, createdAt: new Date() });
+    } catch (error) {
+      console.warn(`   ⚠️  Falha ao registrar evento de progresso (${event.type}):`, error);
+    }
+  }
+
+  /**
+   * Eventos de um documento em ordem de criação, opcionalmente após um evento
+   */
+  async getEvents(documentId: string, afterId?: string): Promise<ProcessingEvent[]> {
+    const filter: Record<string, unknown> = { documentId };
+    if (afterId && ObjectId.isValid(afterId)) {
+      filter._id = { $gt: new ObjectId(afterId) };
+    }
+
+    return this.collection.find(filter).sort({ _id: 1 }).limit(500).toArray();
+  }
+
+  /**
+   * Remove os eventos de um documento (reprocessamento completo)
+   */
+  async clearEvents(documentId: string): Promise<number> {
+    const result = await this.collection.deleteMany({ documentId });
+    return result.deletedCount;
+  }
+}
+
+// Singleton
+let serviceInstance: ProgressService | null = null;
+
+export function getProgressService(): ProgressService {
+  if (!serviceInstance) {
+    serviceInstance = new ProgressService();
+  }
+  return serviceInstance;
+}
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { getDatabase } from './database.js';
+import type { InvalidExtractionItem, QuarantinedItem } from '../types/entities.js';
+
+/**
+ * Serviço de quarentena da extração
+ *
+ * Guarda os itens que continuaram inválidos após as rodadas de correção
+ * (ai/agent.ts), com os erros de validação, para revisão manual.
+ */
+export class QuarantineService {
+  private db = getDatabase();
+  private collection = this.db.collection<QuarantinedItem>('quarantined_items');
+
+  /**
+   * Coloca em quarentena os itens inválidos de um batch
+   */
+  async addItems(
+    documentId: string,
+    batchNumber: number,
+    items: InvalidExtractionItem[],
+    repairRounds: number
+  ): Promise<number> {
+    if (items.length === 0) return 0;
+
+    const now = new Date();
+    await this.collection.insertMany(
+      items.map(item => ({
+        ...item,
+        id: crypto.randomUUID(),
+        documentId,
+        batchNumber,
+        repairRounds,
+        createdAt: now,
+      }))
+    );
+    return items.length;
+  }
+
+  /**
+   * Itens em quarentena do documento, por batch
+   */
+  async getByDocumentId(documentId: string): Promise<QuarantinedItem[]> {
+    return this.collection
+      .find({ documentId }, { projection: { _id: 0 } })
+      .sort({ batchNumber: 1, createdAt: 1 })
+      .toArray();
+  }
+
+  /**
+   * Remove a quarentena do documento (reprocessamento)
+   */
+  async clearDocumentItems(documentId: string): Promise<number> {
+    const result = await this.collection.deleteMany({ documentId });
+    return result.deletedCount;
+  }
+
+  /**
+   * Remove a quarentena de batches específicos (retomada e novas tentativas)
+   */
+  async clearBatchItems(documentId: string, batchNumbers: number[]): Promise<number> {
+    const result = await this.collection.deleteMany({ documentId, batchNumber: { $in: batchNumbers } });
+    return result.deletedCount;
+  }
+}
+
+// Singleton
+let serviceInstance: QuarantineService | null = null;
+
+export function getQuarantineService(): QuarantineService {
+  if (!serviceInstance) {
+    serviceInstance = new QuarantineService();
+  }
+  return serviceInstance;
+}
@@ -1,45 +1,763 @@
-import PQueue from 'p-queue';
-import type { ProcessJobData } from '../types/index.js';
+import os from 'os';
+import { MongoServerError, ObjectId, type Filter } from 'mongodb';
+import { getDatabase } from './database.js';
+import { getProcessingControlService, ProcessingInterruptedError } from './processing-control.js';
+import type {
+  Job,
+  JobStatus,
+  JobType,
+  PDFDocument,
+  Procurement,
+  ProcessingControlAction,
+  ProcessJobData,
+  ProcessProcurementJobData,
+} from '../types/index.js';
 
-// Fila com concorrência de 2 jobs simultâneos
-const queue = new PQueue({ concurrency: 2 });
+// ============================================================================
+// CONFIGURAÇÃO
+// ============================================================================
+
+/**
+ * Jobs executados em paralelo por processo
+ */
+function getConcurrency(): number {
+  return parseInt(process.env.QUEUE_CONCURRENCY || '2', 10);
+}
+
+/**
+ * Duração do lease; o heartbeat renova a cada 1/3 desse tempo
+ */
+function getLeaseMs(): number {
+  return parseInt(process.env.QUEUE_LEASE_MS || '60000', 10);
+}
+
+function getPollIntervalMs(): number {
+  return parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '2000', 10);
+}
+
+function getMaxAttempts(): number {
+  return parseInt(process.env.QUEUE_MAX_ATTEMPTS || '3', 10);
+}
+
+/**
+ * Espera antes da 2ª tentativa; dobra a cada nova falha
+ */
+function getRetryDelayMs(attempt: number): number {
+  const base = parseInt(process.env.QUEUE_RETRY_DELAY_MS || '30000', 10);
+  return base * 2 ** Math.max(0, attempt - 1);
+}
+
+/** Status em que o job ainda vai (ou está) rodando */
+const ACTIVE_STATUSES: JobStatus[] = ['QUEUED', 'RUNNING'];
+
+/** Status a partir dos quais um job pode ser reenfileirado manualmente */
+const RETRYABLE_STATUSES: JobStatus[] = ['DEAD_LETTER', 'CANCELLED'];
+
+/** Identificador deste processo nos leases */
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
 
 // Tipo para o handler de processamento
 type ProcessHandler = (data: ProcessJobData) => Promise<void>;
+type ProcurementHandler = (data: ProcessProcurementJobData) => Promise<void>;
 
 let processHandler: ProcessHandler | null = null;
+let procurementHandler: ProcurementHandler | null = null;
 
 export function setProcessHandler(handler: ProcessHandler): void {
   processHandler = handler;
 }
 
-export async function addJob(data: ProcessJobData): Promise<void> {
+export function setProcurementHandler(handler: ProcurementHandler): void {
+  procurementHandler = handler;
+}
+
+/**
+ * Executa o handler do tipo do job
+ * Handlers devem lançar erro para que a fila registre a falha
+ */
+async function runHandler(job: Job): Promise<void> {
+  if (job.type === 'procurement') {
+    if (!procurementHandler) {
+      throw new Error('Procurement handler não configurado. Chame setProcurementHandler() primeiro.');
+    }
+    return procurementHandler(job.data as ProcessProcurementJobData);
+  }
+
   if (!processHandler) {
     throw new Error('Process handler não configurado. Chame setProcessHandler() primeiro.');
   }
+  return processHandler(job.data as ProcessJobData);
+}
+
+// ============================================================================
+// PERSISTÊNCIA
+// ============================================================================
+
+function getJobsCollection() {
+  return getDatabase().collection<Job>('jobs');
+}
+
+/**
+ * Novas tentativas de documento retomam dos batches com falha em vez de
+ * refazer tudo (as páginas e os resultados já unificados são mantidos)
+ */
+function resumeOnRetry(job: Job): Record<string, unknown> {
+  return job.type === 'document' ? { 'data.mode': 'resume' } : {};
+}
+
+/**
+ * Violação do índice único de job ativo por alvo (ver ensureIndexes)
+ */
+function isDuplicateKeyError(error: unknown): boolean {
+  return error instanceof MongoServerError && error.code === 11000;
+}
+
+function findActiveJob(targetId: string): Promise<Job | null> {
+  return getJobsCollection().findOne({ targetId, status: { $in: ACTIVE_STATUSES } });
+}
+
+/**
+ * Descarta pedido de cancelamento/pausa que sobrou de uma execução anterior
+ * (ex.: worker parou antes de aplicá-lo), para não interromper a nova
+ */
+async function clearControlRequest(job: Pick<Job, 'type' | 'targetId'>): Promise<void> {
+  const control = getProcessingControlService();
+  if (job.type === 'procurement') {
+    await control.clearProcurement(job.targetId);
+  } else {
+    await control.clear(job.targetId);
+  }
+}
+
+function describeJob(job: Job): string {
+  const label = job.type === 'procurement' ? 'licitação' : 'documento';
+  return `${label}: ${job.targetId}`;
+}
+
+/**
+ * Reflete no documento/licitação o destino de um job que não chegou
+ * ao fim pelo handler (lease expirado, cancelamento, retry manual)
+ */
+async function updateTargetStatus(
+  job: Job,
+  status: PDFDocument['status'],
+  error?: string
+): Promise<void> {
+  const db = getDatabase();
+  const $set = { status, updatedAt: new Date(), ...(error ? { error } : {}) };
+
+  if (job.type === 'procurement') {
+    await db.collection<Procurement>('procurements').updateOne(
+      { _id: new ObjectId(job.targetId) },
+      { $set }
+    );
+    // Filho que estava no meio do processamento quando o worker parou
+    await db.collection<PDFDocument>('documents').updateMany(
+      { procurementId: job.targetId, status: 'PROCESSING' },
+      { $set }
+    );
+    return;
+  }
+
+  await db.collection<PDFDocument>('documents').updateOne(
+    { _id: new ObjectId(job.targetId) },
+    { $set }
+  );
+}
+
+/**
+ * Cria os índices usados pelo polling e pela busca de job ativo por alvo
+ *
+ * O índice único parcial garante no banco no máximo um job QUEUED/RUNNING por
+ * alvo, mesmo com pedidos concorrentes (process/retry) ou vários workers.
+ */
+async function ensureIndexes(): Promise<void> {
+  const collection = getJobsCollection();
+  await collection.createIndex({ status: 1, runAfter: 1, createdAt: 1 });
+  await collection.createIndex({ targetId: 1, status: 1 });
+  await collection.createIndex(
+    { targetId: 1 },
+    {
+      name: 'targetId_active_unique',
+      unique: true,
+      partialFilterExpression: { status: { $in: ACTIVE_STATUSES } },
+    }
+  );
+  await collection.createIndex({ createdAt: -1 });
+}
+
+// ============================================================================
+// ENFILEIRAMENTO
+// ============================================================================
+
+/**
+ * Persiste um job na coleção `jobs`
+ * Se já existe um job ativo para o mesmo alvo, ele é retornado (sem duplicar)
+ */
+async function enqueue<T extends ProcessJobData | ProcessProcurementJobData>(
+  type: JobType,
+  targetId: string,
+  data: T
+): Promise<Job> {
+  const collection = getJobsCollection();
+
+  const active = await findActiveJob(targetId);
+  if (active) {
+    console.log(`= Job ${active._id} já ativo para ${describeJob(active)} (${active.status})`);
+    return active;
+  }
+
+  await clearControlRequest({ type, targetId });
+
+  const now = new Date();
+  const job: Job = {
+    type,
+    targetId,
+    data,
+    status: 'QUEUED',
+    attempts: 0,
+    maxAttempts: getMaxAttempts(),
+    runAfter: now,
+    errors: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  let result;
+  try {
+    result = await collection.insertOne(job);
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) throw error;
+
+    // Outro pedido enfileirou o mesmo alvo entre a consulta e a inserção
+    const concurrent = await findActiveJob(targetId);
+    if (!concurrent) throw error;
+    console.log(`= Job ${concurrent._id} já ativo para ${describeJob(concurrent)} (${concurrent.status})`);
+    return concurrent;
+  }
+  const created = { ...job, _id: result.insertedId };
+
+  console.log(`+ Job ${result.insertedId} adicionado à fila (${describeJob(created)})`);
+  schedulePoll(0);
+
+  return created;
+}
+
+export async function addJob(data: ProcessJobData): Promise<Job> {
+  return enqueue('document', data.documentId, data);
+}
+
+/**
+ * Enfileira uma licitação (pacote ZIP); os documentos filhos são
+ * processados em sequência dentro do mesmo job
+ */
+export async function addProcurementJob(data: ProcessProcurementJobData): Promise<Job> {
+  return enqueue('procurement', data.procurementId, data);
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+let stopped = true;
+let pollTimer: NodeJS.Timeout | null = null;
+let recoveryTimer: NodeJS.Timeout | null = null;
+const runningJobs = new Map<string, Promise<void>>();
+
+/**
+ * Pega o próximo job disponível, adquirindo o lease atomicamente
+ */
+async function claimNextJob(): Promise<Job | null> {
+  const now = new Date();
+
+  return getJobsCollection().findOneAndUpdate(
+    { status: 'QUEUED', runAfter: { $lte: now } },
+    {
+      $set: {
+        status: 'RUNNING',
+        lockedBy: WORKER_ID,
+        lockedUntil: new Date(now.getTime() + getLeaseMs()),
+        heartbeatAt: now,
+        startedAt: now,
+        updatedAt: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAfter: 1, createdAt: 1 }, returnDocument: 'after' }
+  );
+}
+
+/**
+ * Filtro que só casa enquanto este worker ainda detém o lease
+ * (um job cancelado ou recuperado por outro worker não é sobrescrito)
+ */
+function ownedBy(job: Job): Filter<Job> {
+  return { _id: job._id, status: 'RUNNING', lockedBy: WORKER_ID };
+}
+
+async function renewLease(job: Job): Promise<void> {
+  const now = new Date();
+  const result = await getJobsCollection().updateOne(ownedBy(job), {
+    $set: {
+      lockedUntil: new Date(now.getTime() + getLeaseMs()),
+      heartbeatAt: now,
+      updatedAt: now,
+    },
+  });
+
+  if (result.matchedCount === 0) {
+    console.warn(`⚠️  Job ${job._id} não pertence mais a este worker (cancelado ou recuperado)`);
+  }
+}
+
+async function completeJob(job: Job): Promise<void> {
+  const now = new Date();
+  await getJobsCollection().updateOne(ownedBy(job), {
+    $set: { status: 'COMPLETED', finishedAt: now, updatedAt: now },
+    $unset: { lockedBy: '', lockedUntil: '' },
+  });
+}
+
+/**
+ * Encerra um job interrompido por cancelamento/pausa do usuário
+ * (sem nova tentativa; o handler já deixou o documento em CANCELLED/PAUSED)
+ */
+async function interruptJob(job: Job, error: ProcessingInterruptedError): Promise<void> {
+  const now = new Date();
+  await getJobsCollection().updateOne(ownedBy(job), {
+    $set: { status: 'CANCELLED', cancelledAt: now, finishedAt: now, lastError: error.message, updatedAt: now },
+    $unset: { lockedBy: '', lockedUntil: '' },
+  });
+}
+
+/**
+ * Registra a falha: reagenda com backoff exponencial ou manda para o dead-letter
+ */
+async function failJob(job: Job, error: unknown): Promise<void> {
+  const now = new Date();
+  const message = error instanceof Error ? error.message : String(error);
+  const exhausted = job.attempts >= job.maxAttempts;
+
+  const result = await getJobsCollection().updateOne(ownedBy(job), {
+    $set: exhausted
+      ? { status: 'DEAD_LETTER', finishedAt: now, lastError: message, updatedAt: now }
+      : {
+          status: 'QUEUED',
+          runAfter: new Date(now.getTime() + getRetryDelayMs(job.attempts)),
+          lastError: message,
+          updatedAt: now,
+          ...resumeOnRetry(job),
+        },
+    $unset: { lockedBy: '', lockedUntil: '' },
+    $push: { errors: { attempt: job.attempts, message, at: now } },
+  });
+
+  if (result.matchedCount === 0) return;
+
+  if (exhausted) {
+    console.error(`☠️  Job ${job._id} movido para dead-letter após ${job.attempts} tentativa(s)`);
+  } else {
+    const delaySeconds = Math.round(getRetryDelayMs(job.attempts) / 1000);
+    console.log(`↻ Job ${job._id} reagendado em ${delaySeconds}s (tentativa ${job.attempts}/${job.maxAttempts})`);
+  }
+}
+
+/**
+ * Executa o job em background mantendo o lease vivo por heartbeat
+ */
+function runJob(job: Job): void {
+  const jobId = job._id!.toString();
+  const heartbeat = setInterval(() => {
+    renewLease(job).catch(error => console.error(`✗ Falha no heartbeat do job ${jobId}`, error));
+  }, Math.max(1000, Math.floor(getLeaseMs() / 3)));
 
-  const handler = processHandler;
+  const task = (async () => {
+    console.log(`→ Iniciando job ${jobId} para ${describeJob(job)} (tentativa ${job.attempts}/${job.maxAttempts})`);
 
-  queue.add(async () => {
-    console.log(`→ Iniciando job para documento: ${data.documentId}`);
-    
     try {
-      await handler(data);
-      console.log(`✓ Job concluído para documento: ${data.documentId}`);
+      await runHandler(job);
+      await completeJob(job);
+      console.log(`✓ Job ${jobId} concluído para ${describeJob(job)}`);
     } catch (error) {
-      console.error(`✗ Erro no job para documento: ${data.documentId}`, error);
-      // O erro é logado mas não re-lançado para não derrubar a fila
+      if (error instanceof ProcessingInterruptedError) {
+        console.log(`⏹️  Job ${jobId} interrompido para ${describeJob(job)} (${error.message.toLowerCase()})`);
+        await interruptJob(job, error).catch(err => console.error(`✗ Falha ao registrar interrupção do job ${jobId}`, err));
+        return;
+      }
+
+      console.error(`✗ Erro no job ${jobId} para ${describeJob(job)}`, error);
+      // Se nem o registro da falha funcionar, o lease expira e a recuperação assume
+      await failJob(job, error).catch(err => console.error(`✗ Falha ao registrar erro do job ${jobId}`, err));
+    } finally {
+      clearInterval(heartbeat);
+      runningJobs.delete(jobId);
+      schedulePoll(0);
     }
-  });
+  })();
+
+  runningJobs.set(jobId, task);
+}
+
+async function poll(): Promise<void> {
+  try {
+    while (!stopped && runningJobs.size < getConcurrency()) {
+      const job = await claimNextJob();
+      if (!job) break;
+      runJob(job);
+    }
+  } catch (error) {
+    console.error('✗ Erro ao buscar jobs na fila', error);
+  }
+
+  schedulePoll(getPollIntervalMs());
+}
+
+function schedulePoll(delayMs: number): void {
+  if (stopped) return;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = setTimeout(() => void poll(), delayMs);
+}
+
+/**
+ * Devolve à fila os jobs RUNNING cujo lease expirou (worker morto ou travado)
+ * Jobs que já esgotaram as tentativas vão para o dead-letter e os com
+ * cancelamento pedido, para CANCELLED
+ */
+export async function recoverStaleJobs(): Promise<{
+  requeued: number;
+  deadLettered: number;
+  cancelled: number;
+}> {
+  const collection = getJobsCollection();
+  const now = new Date();
+  const stale = await collection
+    .find({ status: 'RUNNING', lockedUntil: { $lt: now } })
+    .toArray();
+
+  let requeued = 0;
+  let deadLettered = 0;
+  let cancelled = 0;
+
+  for (const job of stale) {
+    // Cancelamento pedido que o worker não chegou a aplicar: encerra aqui
+    if (job.cancelRequestedAt) {
+      const result = await collection.updateOne(
+        { _id: job._id, status: 'RUNNING', lockedUntil: job.lockedUntil },
+        {
+          $set: { status: 'CANCELLED', cancelledAt: now, finishedAt: now, updatedAt: now },
+          $unset: { lockedBy: '', lockedUntil: '' },
+        }
+      );
+      if (result.modifiedCount === 0) continue;
+
+      await updateTargetStatus(job, 'CANCELLED', 'Processamento cancelado');
+      await clearControlRequest(job);
+      cancelled++;
+      continue;
+    }
+
+    const message = `Lease expirado: worker ${job.lockedBy} parou sem concluir o job`;
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    // lockedUntil no filtro evita corrida com outro worker recuperando o mesmo job
+    const result = await collection.updateOne(
+      { _id: job._id, status: 'RUNNING', lockedUntil: job.lockedUntil },
+      {
+        $set: exhausted
+          ? { status: 'DEAD_LETTER', finishedAt: now, lastError: message, updatedAt: now }
+          : { status: 'QUEUED', runAfter: now, lastError: message, updatedAt: now, ...resumeOnRetry(job) },
+        $unset: { lockedBy: '', lockedUntil: '' },
+        $push: { errors: { attempt: job.attempts, message, at: now } },
+      }
+    );
+
+    if (result.modifiedCount === 0) continue;
+
+    if (exhausted) {
+      await updateTargetStatus(job, 'FAILED', message);
+      deadLettered++;
+    } else {
+      await updateTargetStatus(job, 'PENDING');
+      requeued++;
+    }
+  }
+
+  if (requeued > 0 || deadLettered > 0 || cancelled > 0) {
+    console.log(
+      `♻️  Jobs recuperados: ${requeued} reenfileirado(s), ${deadLettered} em dead-letter, ${cancelled} cancelado(s)`
+    );
+  }
+
+  return { requeued, deadLettered, cancelled };
+}
+
+/**
+ * Inicia o worker: cria índices, recupera jobs órfãos e começa o polling
+ */
+export async function startQueue(): Promise<void> {
+  await ensureIndexes();
+  await recoverStaleJobs();
+
+  stopped = false;
+  schedulePoll(0);
+
+  recoveryTimer = setInterval(() => {
+    recoverStaleJobs().catch(error => console.error('✗ Erro ao recuperar jobs', error));
+  }, getLeaseMs());
+
+  console.log(`✓ Fila iniciada (worker ${WORKER_ID}, concorrência ${getConcurrency()})`);
+}
+
+/**
+ * Para o polling e devolve à fila os jobs deste worker
+ *
+ * Usado no shutdown (deploy/restart): a tentativa interrompida não conta
+ * para o limite de tentativas.
+ */
+export async function stopQueue(): Promise<void> {
+  stopped = true;
+  if (pollTimer) clearTimeout(pollTimer);
+  if (recoveryTimer) clearInterval(recoveryTimer);
+
+  if (runningJobs.size === 0) return;
+
+  const collection = getJobsCollection();
+  const now = new Date();
+  // Jobs com cancelamento pedido ficam RUNNING: a recuperação por lease os encerra
+  const owned = await collection
+    .find({ status: 'RUNNING', lockedBy: WORKER_ID, cancelRequestedAt: { $exists: false } })
+    .toArray();
+
+  let returned = 0;
+  for (const job of owned) {
+    const result = await collection.updateOne(ownedBy(job), {
+      $set: { status: 'QUEUED', runAfter: now, updatedAt: now, ...resumeOnRetry(job) },
+      $unset: { lockedBy: '', lockedUntil: '' },
+      $inc: { attempts: -1 },
+    });
+    returned += result.modifiedCount;
+  }
+
+  console.log(`↩️  ${returned} job(s) devolvido(s) à fila`);
+}
+
+// ============================================================================
+// CONSULTA E OPERAÇÕES
+// ============================================================================
+
+export async function getJob(jobId: string): Promise<Job | null> {
+  return getJobsCollection().findOne({ _id: new ObjectId(jobId) });
+}
+
+/**
+ * Lista jobs (mais recentes primeiro)
+ */
+export async function listJobs(options: {
+  status?: JobStatus;
+  type?: JobType;
+  targetId?: string;
+  skip: number;
+  limit: number;
+}): Promise<{ jobs: Job[]; total: number }> {
+  const filter: Filter<Job> = {};
+  if (options.status) filter.status = options.status;
+  if (options.type) filter.type = options.type;
+  if (options.targetId) filter.targetId = options.targetId;
 
-  console.log(`+ Job adicionado à fila. Tamanho atual: ${queue.size}, Pendentes: ${queue.pending}`);
+  const collection = getJobsCollection();
+  const [jobs, total] = await Promise.all([
+    collection.find(filter).sort({ createdAt: -1 }).skip(options.skip).limit(options.limit).toArray(),
+    collection.countDocuments(filter),
+  ]);
+
+  return { jobs, total };
+}
+
+export class JobStateError extends Error {
+  constructor(
+    public status: JobStatus,
+    message: string
+  ) {
+    super(message);
+    this.name = 'JobStateError';
+  }
+}
+
+/**
+ * Reenfileira um job em dead-letter ou cancelado, zerando as tentativas
+ * Retorna null se o job não existe
+ */
+export async function retryJob(jobId: string): Promise<Job | null> {
+  const collection = getJobsCollection();
+  const job = await getJob(jobId);
+  if (!job) return null;
+
+  if (!RETRYABLE_STATUSES.includes(job.status)) {
+    throw new JobStateError(job.status, `Job em ${job.status} não pode ser reenfileirado`);
+  }
+
+  const active = await findActiveJob(job.targetId);
+  if (active) {
+    throw new JobStateError(active.status, `Já existe um job ativo para este alvo (${active._id})`);
+  }
+
+  await clearControlRequest(job);
+
+  const now = new Date();
+  let updated: Job | null;
+  try {
+    updated = await collection.findOneAndUpdate(
+      { _id: job._id, status: job.status },
+      {
+        $set: { status: 'QUEUED', attempts: 0, runAfter: now, updatedAt: now, ...resumeOnRetry(job) },
+        $unset: { finishedAt: '', cancelledAt: '' },
+      },
+      { returnDocument: 'after' }
+    );
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) throw error;
+    const concurrent = await findActiveJob(job.targetId);
+    throw new JobStateError(
+      concurrent?.status ?? job.status,
+      `Já existe um job ativo para este alvo${concurrent ? ` (${concurrent._id})` : ''}`
+    );
+  }
+
+  if (!updated) {
+    throw new JobStateError(job.status, 'Job alterado durante a operação, tente novamente');
+  }
+
+  await updateTargetStatus(updated, 'PENDING');
+  console.log(`↻ Job ${jobId} reenfileirado manualmente (${describeJob(updated)})`);
+  schedulePoll(0);
+
+  return updated;
+}
+
+/**
+ * Cancela um job na fila ou em execução
+ *
+ * Job QUEUED: vai para CANCELLED na hora.
+ * Job RUNNING: o pedido fica no alvo e o worker para no próximo ponto de
+ * checagem (na licitação, o filho em processamento e antes do próximo filho).
+ * O job continua RUNNING (com cancelRequestedAt) até o worker confirmar a
+ * interrupção, então nenhum retry ou novo enfileiramento do mesmo alvo roda
+ * em paralelo com a tentativa que ainda está terminando.
+ * Retorna null se o job não existe.
+ */
+export async function cancelJob(jobId: string): Promise<Job | null> {
+  const collection = getJobsCollection();
+  const job = await getJob(jobId);
+  if (!job) return null;
+
+  if (!ACTIVE_STATUSES.includes(job.status)) {
+    throw new JobStateError(job.status, `Job em ${job.status} não pode ser cancelado`);
+  }
+
+  const now = new Date();
+  const updated = job.status === 'QUEUED'
+    ? await collection.findOneAndUpdate(
+        { _id: job._id, status: 'QUEUED' },
+        { $set: { status: 'CANCELLED', cancelledAt: now, finishedAt: now, updatedAt: now } },
+        { returnDocument: 'after' }
+      )
+    : await collection.findOneAndUpdate(
+        { _id: job._id, status: 'RUNNING' },
+        { $set: { cancelRequestedAt: now, updatedAt: now } },
+        { returnDocument: 'after' }
+      );
+
+  if (!updated) {
+    throw new JobStateError(job.status, 'Job alterado durante a operação, tente novamente');
+  }
+
+  if (updated.status === 'CANCELLED') {
+    await updateTargetStatus(updated, 'CANCELLED', 'Processamento cancelado');
+    console.log(`⨯ Job ${jobId} cancelado (${describeJob(updated)})`);
+    return updated;
+  }
+
+  if (job.type === 'document') {
+    await getProcessingControlService().request(job.targetId, 'cancel');
+  } else {
+    await getProcessingControlService().requestProcurement(job.targetId, 'cancel');
+  }
+  console.log(`⨯ Cancelamento pedido para o job ${jobId} (${describeJob(updated)})`);
+
+  return updated;
 }
 
-export function getQueueStats() {
+/**
+ * Cancela ou pausa o processamento de um documento
+ *
+ * Job na fila: sai da fila na hora e o documento vai para CANCELLED/PAUSED.
+ * Job em execução: o pedido fica no documento e o worker interrompe no próximo
+ * ponto de checagem (entre batches ou entre os estágios de um batch); o status
+ * muda quando a interrupção acontece.
+ * Retorna null se não há job ativo para o documento.
+ */
+export async function interruptDocumentJob(
+  documentId: string,
+  action: ProcessingControlAction
+): Promise<Job | null> {
+  const collection = getJobsCollection();
+  const now = new Date();
+
+  const queued = await collection.findOneAndUpdate(
+    { type: 'document', targetId: documentId, status: 'QUEUED' },
+    { $set: { status: 'CANCELLED', cancelledAt: now, finishedAt: now, updatedAt: now } },
+    { returnDocument: 'after' }
+  );
+
+  if (queued) {
+    await updateTargetStatus(queued, action === 'cancel' ? 'CANCELLED' : 'PAUSED');
+    console.log(`⏹️  Job ${queued._id} retirado da fila (${describeJob(queued)}, ${action})`);
+    return queued;
+  }
+
+  const running = await collection.findOne({ type: 'document', targetId: documentId, status: 'RUNNING' });
+  if (!running) return null;
+
+  await getProcessingControlService().request(documentId, action);
+  console.log(`⏹️  Interrupção (${action}) pedida para o job ${running._id} (${describeJob(running)})`);
+
+  return running;
+}
+
+/**
+ * Contagem de jobs por status + jobs em execução neste processo
+ */
+export async function getQueueStats(): Promise<{
+  workerId: string;
+  running: number;
+  concurrency: number;
+  byStatus: Record<JobStatus, number>;
+}> {
+  const counts = await getJobsCollection()
+    .aggregate<{ _id: JobStatus; count: number }>([
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ])
+    .toArray();
+
+  const byStatus: Record<JobStatus, number> = {
+    QUEUED: 0,
+    RUNNING: 0,
+    COMPLETED: 0,
+    DEAD_LETTER: 0,
+    CANCELLED: 0,
+  };
+  for (const { _id, count } of counts) {
+    byStatus[_id] = count;
+  }
+
   return {
-    size: queue.size,
-    pending: queue.pending,
-    isPaused: queue.isPaused,
+    workerId: WORKER_ID,
+    running: runningJobs.size,
+    concurrency: getConcurrency(),
+    byStatus,
   };
 }
-
@@ -1,27 +1,115 @@
-import { generateText } from 'ai';
-import { openai } from '@ai-sdk/openai';
+import { generateText, streamText, type CoreMessage } from 'ai';
+import PQueue from 'p-queue';
 import { getDatabase } from './database.js';
 import { getEmbeddingService } from './embedding.js';
 import { getChatService } from './chat.js';
 import { getPageService } from './page.js';
+import { getDocumentStructureService } from './document-structure.js';
+import { getLexicalIndexService } from './lexical-index.js';
+import { getBudgetService } from './budget.js';
 import {
   RAG_CHAT_SYSTEM_PROMPT,
   createRagPrompt,
   NO_CONTEXT_PROMPT,
 } from '../ai/prompts/chat.js';
+import { getLanguageModel } from '../ai/providers.js';
+import { createChatTools } from '../ai/chat-tools.js';
 import type {
   ChatResponse,
+  ChatStreamEvent,
+  DocumentChunk,
+  LexicalResult,
+  RetrievedChunk,
   RetrievedContext,
   RagStatus,
   SimilarityResult,
 } from '../types/rag.js';
+import type { UsageContext } from '../ai/usage.js';
 import type { PDFDocument } from '../types/index.js';
 import { ObjectId } from 'mongodb';
 
 /**
- * Limiar mínimo de similaridade para considerar uma página relevante
+ * Constante da reciprocal rank fusion (amortece a diferença entre as primeiras posições)
  */
-const MIN_SIMILARITY_THRESHOLD = 0.3;
+const RRF_K = 60;
+
+/**
+ * Candidatos de cada busca (vetorial e BM25) antes da fusão, em múltiplos do topK
+ */
+const CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * Boosts da fusão: identificador da query no trecho vale um 1º lugar em uma
+ * lista; a query citar o número da seção do trecho vale 1º lugar nas duas
+ */
+const IDENTIFIER_BOOST = 1 / (RRF_K + 1);
+const SECTION_MATCH_BOOST = 2 / (RRF_K + 1);
+
+/**
+ * Calibração da similaridade de cosseno para 0-1: abaixo do piso é ruído,
+ * acima do teto é resposta direta (faixa típica do text-embedding-3-small)
+ */
+const SIMILARITY_FLOOR = 0.2;
+const SIMILARITY_CEILING = 0.6;
+
+/**
+ * Relevância de trechos que contêm um identificador da query (número de cláusula, CNPJ...)
+ */
+const IDENTIFIER_RELEVANCE = 0.75;
+
+/**
+ * Relevância calibrada mínima para um trecho entrar no contexto
+ * (0.25 equivale à antiga similaridade mínima de 0.3 na busca só vetorial)
+ */
+const MIN_RELEVANCE = 0.25;
+
+/**
+ * Passos do chat com tools (chamadas de consulta + resposta final)
+ */
+const CHAT_MAX_STEPS = 6;
+
+/**
+ * Índices BM25 consultados ao mesmo tempo na busca da biblioteca (um por documento)
+ */
+const LIBRARY_LEXICAL_CONCURRENCY = 10;
+
+/** Resultado lexical com o documento (a busca da biblioteca junta vários índices) */
+type LexicalMatch = LexicalResult & { documentId: string };
+
+function calibrateSimilarity(similarity: number): number {
+  const scaled = (similarity - SIMILARITY_FLOOR) / (SIMILARITY_CEILING - SIMILARITY_FLOOR);
+  return Math.min(1, Math.max(0, scaled));
+}
+
+function toRetrievedChunk(chunkId: string, chunk: DocumentChunk & { documentId: string }): RetrievedChunk {
+  return {
+    chunkId,
+    documentId: chunk.documentId,
+    pageId: chunk.pageId,
+    pageNumber: chunk.pageNumber,
+    chunkIndex: chunk.chunkIndex,
+    lineStart: chunk.lineStart,
+    lineEnd: chunk.lineEnd,
+    sectionId: chunk.sectionId,
+    sectionTitle: chunk.sectionTitle,
+    text: chunk.text,
+    similarity: null,
+    lexicalScore: null,
+    fusedScore: 0,
+    relevance: 0,
+    matchedIdentifiers: [],
+  };
+}
+
+/**
+ * Mensagem do chat pronta para a geração (ver RagService.prepareChat)
+ */
+export interface ChatTurn {
+  documentId: string;
+  conversationId: string;
+  context: RetrievedContext;
+  messages: CoreMessage[];
+}
 
 /**
  * Serviço RAG (Retrieval-Augmented Generation)
@@ -37,7 +125,10 @@ export class RagService {
   /**
    * Prepara um documento para RAG (gera embeddings)
    */
-  async prepareDocument(documentId: string): Promise<{
+  async prepareDocument(
+    documentId: string,
+    onProgress?: (current: number, total: number) => void | Promise<void>
+  ): Promise<{
     success: boolean;
     created: number;
     skipped: number;
@@ -58,6 +149,9 @@ export class RagService {
         };
       }
 
+      // Seções orientam os cortes dos trechos
+      const sections = await getDocumentStructureService().getSectionsByDocumentId(documentId);
+
       // Gerar embeddings
       const result = await this.embeddingService.createDocumentEmbeddings(
         documentId,
@@ -65,11 +159,17 @@ export class RagService {
           id: p.id,
           pageNumber: p.pageNumber,
           text: p.text,
-        }))
+        })),
+        sections,
+        onProgress
       );
 
       console.log(`   ✓ Embeddings criados: ${result.created}, ignorados: ${result.skipped}`);
 
+      // Índice BM25 sobre todos os trechos (inclusive os de preparações anteriores)
+      const indexedChunks = await getLexicalIndexService().buildIndex(documentId);
+      console.log(`   ✓ Índice lexical: ${indexedChunks} trechos`);
+
       return {
         success: true,
         created: result.created,
@@ -102,48 +202,159 @@ export class RagService {
 
   /**
    * Recupera contexto relevante para uma query
+   * Busca híbrida: vetorial e BM25 fundidas por reciprocal rank fusion, com
+   * boost para identificadores; o corte usa a relevância calibrada (0-1)
    */
   async retrieveContext(
     documentId: string,
     query: string,
-    topK: number = 5
+    topK: number = 8
   ): Promise<RetrievedContext> {
-    const similarPages = await this.embeddingService.findSimilarPages(
-      documentId,
-      query,
+    const candidates = Math.max(topK * CANDIDATE_MULTIPLIER, 20);
+    const [vectorResults, lexicalResults] = await Promise.all([
+      this.embeddingService.findSimilarChunks(documentId, query, candidates),
+      getLexicalIndexService().search(documentId, query, candidates),
+    ]);
+
+    const chunks = await this.fuseResults(
+      vectorResults,
+      lexicalResults.map(result => ({ ...result, documentId })),
       topK
     );
 
-    // Filtrar páginas com similaridade muito baixa
-    const relevantPages = similarPages.filter(
-      p => p.similarity >= MIN_SIMILARITY_THRESHOLD
+    const combinedText = chunks
+      .map(c => `[Página ${c.pageNumber}, linhas ${c.lineStart}-${c.lineEnd}]\n${c.text}`)
+      .join('\n\n---\n\n');
+
+    return { chunks, combinedText };
+  }
+
+  /**
+   * Recupera contexto em vários documentos (chat da biblioteca)
+   *
+   * A busca vetorial e o BM25 cobrem todos os documentos; o BM25, que é por
+   * documento, consulta até LIBRARY_LEXICAL_CONCURRENCY índices em paralelo.
+   * As listas lexicais se juntam pelo score normalizado (comparável entre
+   * documentos).
+   */
+  async retrieveLibraryContext(
+    documentIds: string[],
+    query: string,
+    topK: number,
+    usage: UsageContext
+  ): Promise<RetrievedChunk[]> {
+    const candidates = Math.max(topK * CANDIDATE_MULTIPLIER, 20);
+    const [vectorResults, resultsByDocument] = await Promise.all([
+      this.embeddingService.findSimilarChunksInDocuments(documentIds, query, candidates, usage),
+      this.searchLexicalIndexes(documentIds, query, candidates),
+    ]);
+
+    const lexicalResults = resultsByDocument.flat();
+    lexicalResults.sort((a, b) => b.normalizedScore - a.normalizedScore);
+
+    return this.fuseResults(vectorResults, lexicalResults, topK);
+  }
+
+  /**
+   * BM25 em cada documento, na ordem da lista (um índice por documento)
+   */
+  private async searchLexicalIndexes(
+    documentIds: string[],
+    query: string,
+    candidates: number
+  ): Promise<LexicalMatch[][]> {
+    const lexicalService = getLexicalIndexService();
+    const queue = new PQueue({ concurrency: LIBRARY_LEXICAL_CONCURRENCY });
+    const resultsByDocument: LexicalMatch[][] = [];
+
+    await Promise.all(
+      [...new Set(documentIds)].map((documentId, position) =>
+        queue.add(async () => {
+          const results = await lexicalService.search(documentId, query, candidates);
+          resultsByDocument[position] = results.map(result => ({ ...result, documentId }));
+        })
+      )
     );
 
-    const combinedText = relevantPages
-      .map(p => `[Página ${p.pageNumber}]\n${p.text}`)
-      .join('\n\n---\n\n');
+    return resultsByDocument;
+  }
 
-    return {
-      pages: relevantPages,
-      combinedText,
-    };
+  /**
+   * Funde as listas vetorial e lexical (já ordenadas) e aplica o corte de relevância
+   */
+  private async fuseResults(
+    vectorResults: SimilarityResult[],
+    lexicalResults: LexicalMatch[],
+    topK: number
+  ): Promise<RetrievedChunk[]> {
+    const fused = new Map<string, RetrievedChunk>();
+
+    vectorResults.forEach((result, rank) => {
+      const chunk = toRetrievedChunk(result.chunkId, result);
+      chunk.similarity = result.similarity;
+      chunk.fusedScore = 1 / (RRF_K + rank + 1);
+      chunk.relevance = calibrateSimilarity(result.similarity);
+      fused.set(result.chunkId, chunk);
+    });
+
+    // Trechos encontrados só pelo BM25
+    const lexicalOnlyByDocument = new Map<string, string[]>();
+    for (const result of lexicalResults) {
+      if (fused.has(result.chunkId)) continue;
+      const ids = lexicalOnlyByDocument.get(result.documentId) ?? [];
+      ids.push(result.chunkId);
+      lexicalOnlyByDocument.set(result.documentId, ids);
+    }
+    for (const [documentId, chunkIds] of lexicalOnlyByDocument) {
+      const stored = await this.embeddingService.getChunksByIds(documentId, chunkIds);
+      for (const chunk of stored) {
+        fused.set(chunk.id, toRetrievedChunk(chunk.id, chunk));
+      }
+    }
+
+    lexicalResults.forEach((result, rank) => {
+      const chunk = fused.get(result.chunkId);
+      if (!chunk) return;
+
+      chunk.lexicalScore = result.normalizedScore;
+      chunk.matchedIdentifiers = result.matchedIdentifiers;
+      chunk.fusedScore += 1 / (RRF_K + rank + 1)
+        + result.matchedIdentifiers.length * IDENTIFIER_BOOST
+        + (result.sectionMatch ? SECTION_MATCH_BOOST : 0);
+
+      const identifierRelevance = result.sectionMatch
+        ? 1
+        : result.matchedIdentifiers.length > 0 ? IDENTIFIER_RELEVANCE : 0;
+      chunk.relevance = Math.max(chunk.relevance, result.normalizedScore, identifierRelevance);
+    });
+
+    // Filtrar trechos pouco relevantes e ordenar pela fusão
+    return [...fused.values()]
+      .filter(c => c.relevance >= MIN_RELEVANCE)
+      .sort((a, b) => b.fusedScore - a.fusedScore)
+      .slice(0, topK);
   }
 
   /**
-   * Processa uma mensagem do chat
+   * Prepara uma mensagem do chat: valida, salva a mensagem do usuário,
+   * recupera o contexto e monta o prompt
+   * Erros (documento não preparado, orçamento) acontecem aqui, antes de qualquer geração
    */
-  async chat(
+  async prepareChat(
     documentId: string,
     message: string,
     conversationId?: string,
-    topK: number = 5
-  ): Promise<ChatResponse> {
+    topK: number = 8
+  ): Promise<ChatTurn> {
     // Verificar se documento está pronto para RAG
     const status = await this.getStatus(documentId);
     if (!status.isReady) {
       throw new Error('Documento não está pronto para chat. Execute a preparação primeiro.');
     }
 
+    // Orçamento de IA (antes de gravar a mensagem, para não deixá-la sem resposta)
+    await getBudgetService().assertWithinBudget(documentId);
+
     // Criar ou recuperar conversa
     let conversation = conversationId
       ? await this.chatService.getConversation(conversationId)
@@ -174,47 +385,60 @@ export class RagService {
       recentMessages.slice(0, -1) // Excluir a mensagem atual que já foi salva
     );
 
-    // Gerar resposta
-    let responseContent: string;
-    const sourcePagesUsed = context.pages.map(p => p.pageNumber);
-
-    if (context.pages.length === 0) {
-      responseContent = NO_CONTEXT_PROMPT;
-    } else {
-      // Buscar nome do documento
-      const doc = await this.documentsCollection.findOne({
-        _id: new ObjectId(documentId),
-      });
-
-      const ragPrompt = createRagPrompt(
-        message,
-        context.pages.map(p => ({
-          pageNumber: p.pageNumber,
-          text: p.text,
-          similarity: p.similarity,
+    // Buscar nome do documento
+    const doc = await this.documentsCollection.findOne({
+      _id: new ObjectId(documentId),
+    });
+
+    const ragPrompt = createRagPrompt(
+      message,
+      context.chunks,
+      doc?.filename
+    );
+
+    return {
+      documentId,
+      conversationId: conversation.id,
+      context,
+      messages: [
+        ...formattedHistory.map(m => ({
+          role: m.role as 'user' | 'assistant',
+          content: m.content,
         })),
-        doc?.filename
-      );
+        { role: 'user' as const, content: ragPrompt },
+      ],
+    };
+  }
 
-      const { text } = await generateText({
-        model: openai('gpt-4o-mini'),
-        system: RAG_CHAT_SYSTEM_PROMPT,
-        messages: [
-          ...formattedHistory.map(m => ({
-            role: m.role as 'user' | 'assistant',
-            content: m.content,
-          })),
-          { role: 'user' as const, content: ragPrompt },
-        ],
-      });
-
-      responseContent = text;
-    }
+  /**
+   * Parâmetros da geração (o modelo pode consultar a análise estruturada via tools)
+   */
+  private createModelCall(turn: ChatTurn, citedPages: Set<number>) {
+    return {
+      model: getLanguageModel('chat', { documentId: turn.documentId, conversationId: turn.conversationId }),
+      system: RAG_CHAT_SYSTEM_PROMPT,
+      messages: turn.messages,
+      tools: createChatTools(turn.documentId, citedPages),
+      maxSteps: CHAT_MAX_STEPS,
+    };
+  }
+
+  /**
+   * Salva a resposta do assistente e monta o ChatResponse
+   */
+  private async completeChat(
+    turn: ChatTurn,
+    text: string,
+    toolCalls: NonNullable<ChatResponse['toolCalls']>,
+    citedPages: Set<number>
+  ): Promise<ChatResponse> {
+    const responseContent = text.trim() || NO_CONTEXT_PROMPT;
+    const { chunks } = turn.context;
+    const sourcePagesUsed = [...new Set([...chunks.map(c => c.pageNumber), ...citedPages])];
 
-    // Salvar resposta do assistente
     const assistantMessage = await this.chatService.addMessage(
-      documentId,
-      conversation.id,
+      turn.documentId,
+      turn.conversationId,
       'assistant',
       responseContent,
       sourcePagesUsed
@@ -222,17 +446,76 @@ export class RagService {
 
     return {
       messageId: assistantMessage.id,
-      conversationId: conversation.id,
+      conversationId: turn.conversationId,
       content: responseContent,
       sourcePagesUsed,
-      sourceSnippets: context.pages.map(p => ({
-        pageNumber: p.pageNumber,
-        excerpt: p.text.substring(0, 300) + (p.text.length > 300 ? '...' : ''),
-        similarity: p.similarity,
+      toolCalls,
+      sourceSnippets: chunks.map(c => ({
+        pageNumber: c.pageNumber,
+        lineStart: c.lineStart,
+        lineEnd: c.lineEnd,
+        sectionId: c.sectionId,
+        sectionTitle: c.sectionTitle,
+        excerpt: c.text.substring(0, 300) + (c.text.length > 300 ? '...' : ''),
+        relevance: c.relevance,
       })),
     };
   }
 
+  /**
+   * Processa uma mensagem do chat
+   */
+  async chat(
+    documentId: string,
+    message: string,
+    conversationId?: string,
+    topK: number = 8
+  ): Promise<ChatResponse> {
+    const turn = await this.prepareChat(documentId, message, conversationId, topK);
+
+    const citedPages = new Set<number>();
+    const { text, steps } = await generateText(this.createModelCall(turn, citedPages));
+
+    const toolCalls = steps.flatMap(step =>
+      step.toolCalls.map(call => ({ toolName: call.toolName, args: call.args as Record<string, unknown> }))
+    );
+
+    return this.completeChat(turn, text, toolCalls, citedPages);
+  }
+
+  /**
+   * Gera a resposta de uma mensagem preparada em stream
+   *
+   * A resposta do assistente só é salva quando o stream termina (evento done);
+   * se o consumidor parar de ler ou `abortSignal` disparar, nada é salvo.
+   */
+  async *streamChat(turn: ChatTurn, abortSignal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    yield { event: 'start', data: { conversationId: turn.conversationId } };
+
+    const citedPages = new Set<number>();
+    const toolCalls: NonNullable<ChatResponse['toolCalls']> = [];
+    let text = '';
+
+    const result = streamText({ ...this.createModelCall(turn, citedPages), abortSignal });
+
+    for await (const part of result.fullStream) {
+      if (part.type === 'text-delta') {
+        text += part.textDelta;
+        yield { event: 'delta', data: { text: part.textDelta } };
+      } else if (part.type === 'tool-call') {
+        const call = { toolName: part.toolName, args: part.args as Record<string, unknown> };
+        toolCalls.push(call);
+        yield { event: 'tool', data: call };
+      } else if (part.type === 'error') {
+        throw part.error;
+      }
+    }
+
+    // Salva o texto exibido (inclui o de passos intermediários entre tools)
+    const response = await this.completeChat(turn, text, toolCalls, citedPages);
+    yield { event: 'done', data: response };
+  }
+
   /**
    * Regenera embeddings de um documento
    */
@@ -240,7 +523,7 @@ export class RagService {
     deleted: number;
     created: number;
   }> {
-    // Deletar embeddings existentes
+    // Deletar embeddings existentes (o índice lexical é refeito no prepareDocument)
     const deleted = await this.embeddingService.deleteDocumentEmbeddings(documentId);
 
     // Recriar embeddings
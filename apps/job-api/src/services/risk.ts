@@ -49,7 +49,8 @@ export class RiskService {
     documentId: string,
     rawRisks: RawRisk[],
     entityMap: Map<string, string>, // semanticKey -> entityId
-    timelineMap: Map<string, string> // semanticKey -> timelineId
+    timelineMap: Map<string, string>, // semanticKey -> timelineId
+    batchNumber?: number
   ): Promise<Risk[]> {
     const createdRisks: Risk[] = [];
 
@@ -97,6 +98,7 @@ export class RiskService {
         linkedTimelineIds,
         linkedSectionIds: [],
         sources,
+        batchNumber,
       });
 
       createdRisks.push(risk);
@@ -241,6 +243,14 @@ export class RiskService {
     return result.deletedCount;
   }
 
+  /**
+   * Remove os riscos extraídos por batches específicos (retomada)
+   */
+  async clearBatchRisks(documentId: string, batchNumbers: number[]): Promise<number> {
+    const result = await this.collection.deleteMany({ documentId, batchNumber: { $in: batchNumbers } });
+    return result.deletedCount;
+  }
+
   /**
    * Obtém estatísticas dos riscos
    */
@@ -1,5 +1,9 @@
 import crypto from 'crypto';
 import { getDatabase } from './database.js';
+import { getHolidayCalendarService } from './holiday-calendar.js';
+import { getCriticalPathService } from './critical-path.js';
+import { analyzeDependencies } from '../utils/timeline-graph.js';
+import type { BusinessCalendar } from '../utils/business-calendar.js';
 import type {
   TimelineEvent,
   LinkedPenalty,
@@ -7,6 +11,10 @@ import type {
   LinkedObligation,
   UrgencyMetadata,
   RawTimelineEvent,
+  RelativeDateResolution,
+  RelativeTimeReference,
+  TimelineDateStatus,
+  UnresolvedDateReason,
   ImportanceLevel,
   DateType,
   ExtractedEntity,
@@ -19,6 +27,50 @@ function generateEventId(): string {
   return crypto.randomUUID();
 }
 
+/**
+ * Dias (arredondados para cima) de agora até a data
+ */
+function daysUntil(date: Date): number {
+  return Math.ceil((date.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * A data do evento veio do documento (ou de correção manual), não de projeção
+ * Eventos antigos não têm dateStatus: projetados são os que têm dateResolution
+ */
+function hasExtractedDate(event: TimelineEvent): boolean {
+  if (event.dateStatus) return event.dateStatus === 'EXTRACTED';
+  return event.date !== null && !event.dateResolution;
+}
+
+/**
+ * Nova situação da data de um evento relativo
+ */
+interface ProjectionUpdate {
+  event: TimelineEvent;
+  date: Date | null;
+  status: TimelineDateStatus;
+  reason?: UnresolvedDateReason;
+  resolution?: RelativeDateResolution;
+}
+
+/**
+ * Resultado da projeção das datas relativas de um documento
+ */
+export interface RelativeDatesSummary {
+  /** Eventos com data projetada */
+  projected: number;
+
+  /** Eventos relativos sem data (âncora ausente, âncora sem data ou ciclo) */
+  unresolved: number;
+
+  /** Ciclos de relativeTo (IDs dos eventos) */
+  cycles: string[][];
+
+  /** Eventos alterados nesta passada */
+  updated: number;
+}
+
 /**
  * Serviço para gerenciar o cronograma/timeline de eventos
  * Responsável por criar, vincular e consultar eventos temporais
@@ -52,7 +104,8 @@ export class TimelineService {
   async processTimelineEvents(
     documentId: string,
     rawEvents: RawTimelineEvent[],
-    entityMap: Map<string, string> // semanticKey -> entityId
+    entityMap: Map<string, string>, // semanticKey -> entityId
+    batchNumber?: number
   ): Promise<TimelineEvent[]> {
     const createdEvents: TimelineEvent[] = [];
     const eventKeyToId = new Map<string, string>();
@@ -138,26 +191,28 @@ export class TimelineService {
         const parsed = new Date(raw.dateNormalized);
         if (!isNaN(parsed.getTime())) {
           date = parsed;
-          // Calcular dias até o deadline
-          const now = new Date();
-          const diffTime = parsed.getTime() - now.getTime();
-          const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-          urgency.daysUntilDeadline = diffDays;
         }
       }
 
-      // Resolver referência relativa
+      // Referência relativa: a semanticKey vincula eventos de outros batches,
+      // e a data é projetada em resolveRelativeDates
       let relativeTo: TimelineEvent['relativeTo'];
       if (raw.relativeTo) {
-        const refEventId = eventKeyToId.get(raw.relativeTo.eventSemanticKey);
-        if (refEventId) {
-          relativeTo = {
-            eventId: refEventId,
-            offset: raw.relativeTo.offset,
-            unit: raw.relativeTo.unit,
-            direction: raw.relativeTo.direction,
-          };
-        }
+        relativeTo = {
+          eventId: eventKeyToId.get(raw.relativeTo.eventSemanticKey),
+          eventSemanticKey: raw.relativeTo.eventSemanticKey,
+          offset: raw.relativeTo.offset,
+          unit: raw.relativeTo.unit,
+          direction: raw.relativeTo.direction,
+        };
+      }
+
+      let dateStatus: TimelineDateStatus | undefined;
+      if (date) {
+        dateStatus = 'EXTRACTED';
+        urgency.daysUntilDeadline = daysUntil(date);
+      } else if (relativeTo) {
+        dateStatus = 'UNRESOLVED';
       }
 
       // Resolver sourceEntityId
@@ -168,6 +223,8 @@ export class TimelineService {
         dateRaw: raw.dateRaw,
         dateType: raw.dateType,
         relativeTo,
+        dateStatus,
+        semanticKey: raw.sourceSemanticKey,
         eventType: raw.eventType,
         title: raw.title,
         description: raw.description,
@@ -181,36 +238,192 @@ export class TimelineService {
         tags: raw.tags,
         sourceEntityId,
         sourcePages: [raw.pageNumber],
+        excerpt: raw.excerpt,
+        confidence: raw.confidence,
         commentsCount: 0,
+        batchNumber,
       });
 
       createdEvents.push(event);
       eventKeyToId.set(raw.sourceSemanticKey, event.id);
     }
 
-    // Calcular blockingForOthers
-    await this.calculateBlockingStatus(documentId);
+    // Os novos eventos podem ser âncoras (ou dependentes) de eventos já salvos
+    await this.resolveRelativeDates(documentId);
 
     return createdEvents;
   }
 
   /**
-   * Calcula quais eventos bloqueiam outros
+   * Projeta as datas dos eventos relativos do documento
+   *
+   * Monta o grafo de relativeTo com todos os eventos do documento (os de
+   * outros batches são vinculados pela semanticKey), detecta ciclos e, em
+   * ordem topológica, calcula a data de cada evento sem data explícita a
+   * partir da âncora, marcando-a como PROJECTED. Deve rodar de novo sempre que
+   * a data de uma âncora muda: os dependentes são recalculados em cadeia.
    */
-  private async calculateBlockingStatus(documentId: string): Promise<void> {
+  async resolveRelativeDates(documentId: string): Promise<RelativeDatesSummary> {
     const events = await this.getEventsByDocumentId(documentId);
-    
+    const byId = new Map(events.map(event => [event.id, event]));
+    const byKey = new Map<string, TimelineEvent[]>();
     for (const event of events) {
-      // Um evento é bloqueante se outro evento depende dele (relativeTo)
-      const dependentEvents = events.filter(e => e.relativeTo?.eventId === event.id);
-      
-      if (dependentEvents.length > 0) {
-        await this.collection.updateOne(
-          { id: event.id },
-          { $set: { 'urgency.blockingForOthers': true } }
-        );
+      if (!event.semanticKey) continue;
+      byKey.set(event.semanticKey, [...(byKey.get(event.semanticKey) ?? []), event]);
+    }
+
+    const findAnchor = (event: TimelineEvent): TimelineEvent | undefined => {
+      const ref = event.relativeTo!;
+      const linked = ref.eventId ? byId.get(ref.eventId) : undefined;
+      if (linked) return linked;
+      return ref.eventSemanticKey
+        ? byKey.get(ref.eventSemanticKey)?.find(candidate => candidate.id !== event.id)
+        : undefined;
+    };
+
+    const projectable = events.filter(event => event.relativeTo && !hasExtractedDate(event));
+    const anchors = new Map(projectable.map(event => [event.id, findAnchor(event)]));
+    const { order, cycles, blocked } = analyzeDependencies(
+      events.map(event => ({ id: event.id, anchorId: anchors.get(event.id)?.id }))
+    );
+
+    const calendar = projectable.length > 0
+      ? await getHolidayCalendarService().getDocumentCalendar(documentId)
+      : undefined;
+    const dates = new Map<string, Date | null>();
+    const updates: ProjectionUpdate[] = [];
+
+    for (const id of order) {
+      const event = byId.get(id)!;
+      if (!anchors.has(id)) {
+        dates.set(id, hasExtractedDate(event) ? event.date : null);
+        continue;
       }
+
+      const anchor = anchors.get(id);
+      const anchorDate = anchor ? dates.get(anchor.id) : null;
+      if (!anchor || !anchorDate) {
+        dates.set(id, null);
+        updates.push({ event, date: null, status: 'UNRESOLVED', reason: anchor ? 'ANCHOR_WITHOUT_DATE' : 'ANCHOR_NOT_FOUND' });
+        continue;
+      }
+
+      const resolved = this.resolveRelativeDate(anchorDate, event.relativeTo!, calendar!);
+      dates.set(id, resolved.date);
+      updates.push({ event, date: resolved.date, status: 'PROJECTED', resolution: resolved.resolution });
+    }
+
+    for (const id of blocked) {
+      updates.push({ event: byId.get(id)!, date: null, status: 'UNRESOLVED', reason: 'CYCLE' });
     }
+
+    if (cycles.length > 0) {
+      const titles = cycles.map(cycle => cycle.map(id => byId.get(id)?.title ?? id).join(' → '));
+      console.warn(`⚠️ Ciclo(s) de datas relativas em ${documentId}: ${titles.join('; ')}`);
+    }
+
+    // Gravar só o que mudou
+    const writes = updates
+      .filter(({ event, date, status, reason, resolution }) =>
+        event.dateStatus !== status ||
+        event.unresolvedReason !== reason ||
+        (event.date?.getTime() ?? null) !== (date?.getTime() ?? null) ||
+        event.relativeTo!.eventId !== anchors.get(event.id)?.id ||
+        JSON.stringify(event.dateResolution) !== JSON.stringify(resolution)
+      )
+      .map(({ event, date, status, reason, resolution }) => {
+        const anchorId = anchors.get(event.id)?.id;
+        const set: Record<string, unknown> = { date, dateStatus: status };
+        const unset: Record<string, ''> = {};
+
+        if (anchorId) set['relativeTo.eventId'] = anchorId;
+        else unset['relativeTo.eventId'] = '';
+        if (date) set['urgency.daysUntilDeadline'] = daysUntil(date);
+        else unset['urgency.daysUntilDeadline'] = '';
+        if (reason) set.unresolvedReason = reason;
+        else unset.unresolvedReason = '';
+        if (resolution) set.dateResolution = resolution;
+        else unset.dateResolution = '';
+
+        return { updateOne: { filter: { id: event.id }, update: { $set: set, $unset: unset } } };
+      });
+
+    if (writes.length > 0) {
+      await this.collection.bulkWrite(writes);
+    }
+
+    // Datas mudaram: folgas, caminho crítico e bloqueios também
+    await getCriticalPathService().updateEventUrgency(documentId);
+
+    return {
+      projected: updates.filter(update => update.status === 'PROJECTED').length,
+      unresolved: updates.filter(update => update.status === 'UNRESOLVED').length,
+      cycles,
+      updated: writes.length,
+    };
+  }
+
+  /**
+   * Corrige (ou remove) a data de um evento e recalcula os eventos que dependem dele
+   * Com data, o evento passa a EXTRACTED; sem data, um evento relativo volta a ser projetado
+   */
+  async updateEventDate(
+    eventId: string,
+    date: Date | null
+  ): Promise<{ event: TimelineEvent; summary: RelativeDatesSummary } | null> {
+    const event = await this.getEventById(eventId);
+    if (!event) return null;
+
+    if (date) {
+      await this.collection.updateOne(
+        { id: eventId },
+        {
+          $set: { date, dateStatus: 'EXTRACTED', 'urgency.daysUntilDeadline': daysUntil(date) },
+          $unset: { unresolvedReason: '', dateResolution: '' },
+        }
+      );
+    } else {
+      await this.collection.updateOne(
+        { id: eventId },
+        {
+          $set: { date: null, ...(event.relativeTo && { dateStatus: 'UNRESOLVED' as const }) },
+          $unset: {
+            'urgency.daysUntilDeadline': '',
+            dateResolution: '',
+            ...(!event.relativeTo && { dateStatus: '' as const }),
+          },
+        }
+      );
+    }
+
+    const summary = await this.resolveRelativeDates(event.documentId);
+    return { event: (await this.getEventById(eventId))!, summary };
+  }
+
+  /**
+   * Calcula a data de um evento relativo (Lei 14.133, art. 183)
+   * Dias úteis e prorrogações seguem o calendário de feriados do órgão
+   */
+  resolveRelativeDate(
+    referenceDate: Date,
+    relativeTo: Pick<RelativeTimeReference, 'offset' | 'unit' | 'direction'>,
+    calendar: BusinessCalendar
+  ): { date: Date; resolution: RelativeDateResolution } {
+    const result = calendar.computeDeadline(
+      referenceDate,
+      relativeTo.offset,
+      relativeTo.unit,
+      relativeTo.direction
+    );
+
+    return {
+      date: result.date,
+      resolution: {
+        calendarId: calendar.calendarId,
+        rolled: result.rolled,
+        holidays: result.holidays.map(holiday => `${holiday.date} ${holiday.name}`),
+      },
+    };
   }
 
   /**
@@ -223,14 +436,28 @@ export class TimelineService {
       .toArray();
   }
 
+  /**
+   * Busca eventos de vários documentos, por data (biblioteca)
+   */
+  async getEventsByDocumentIds(documentIds: string[]): Promise<TimelineEvent[]> {
+    return this.collection
+      .find({ documentId: { $in: documentIds } })
+      .sort({ date: 1 })
+      .toArray();
+  }
+
   /**
    * Busca eventos ordenados por data (timeline view)
+   * Inclui eventos relativos ainda sem data (projetados entram com a data calculada)
    */
   async getTimeline(documentId: string): Promise<TimelineEvent[]> {
-    return this.collection
-      .find({ documentId, date: { $ne: null } })
+    const events = await this.collection
+      .find({ documentId, $or: [{ date: { $ne: null } }, { relativeTo: { $exists: true } }] })
       .sort({ date: 1 })
       .toArray();
+
+    // Sem data vão para o fim
+    return [...events.filter(event => event.date), ...events.filter(event => !event.date)];
   }
 
   /**
@@ -374,6 +601,14 @@ export class TimelineService {
     return result.deletedCount;
   }
 
+  /**
+   * Remove os eventos extraídos por batches específicos (retomada)
+   */
+  async clearBatchEvents(documentId: string, batchNumbers: number[]): Promise<number> {
+    const result = await this.collection.deleteMany({ documentId, batchNumber: { $in: batchNumbers } });
+    return result.deletedCount;
+  }
+
   /**
    * Obtém estatísticas do timeline
    */
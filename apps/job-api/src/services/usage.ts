@@ -0,0 +1,176 @@
+import { ObjectId } from 'mongodb';
+import { getDatabase } from './database.js';
+import { computeCost } from '../ai/pricing.js';
+import type { DocumentUsage, LlmUsageRecord, PDFDocument } from '../types/index.js';
+
+/**
+ * Organização atribuída a documentos sem organizationId (uploads sem workspace)
+ */
+export const DEFAULT_ORGANIZATION_ID = 'default';
+
+/**
+ * Início do mês corrente (UTC), base dos totais mensais
+ */
+function getMonthStart(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export type UsageEntry = Omit<LlmUsageRecord, '_id' | 'organizationId' | 'costUsd' | 'createdAt'> & {
+  /** Organização da chamada sem documento; com documento, vale a do documento */
+  organizationId?: string;
+};
+
+/**
+ * Totais de um agrupamento (etapa, modelo ou batch)
+ */
+export interface UsageGroup extends DocumentUsage {
+  latencyMs: number;
+}
+
+export interface DocumentUsageReport {
+  documentId: string;
+  totals: UsageGroup;
+  byStage: Array<UsageGroup & { stage: LlmUsageRecord['stage'] }>;
+  byModel: Array<UsageGroup & { model: string }>;
+  byBatch: Array<UsageGroup & { batchNumber: number }>;
+}
+
+/**
+ * Serviço de uso de IA: registra tokens, latência e custo de cada chamada e
+ * mantém o total acumulado no documento (`PDFDocument.usage`)
+ *
+ * Reprocessamentos somam ao total: o custo é o gasto real com o edital.
+ */
+export class UsageService {
+  private db = getDatabase();
+  private collection = this.db.collection<LlmUsageRecord>('llm_usage');
+  private documents = this.db.collection<PDFDocument>('documents');
+
+  /**
+   * Registra uma chamada
+   * Falha ao registrar não interrompe o processamento (só loga)
+   */
+  async record(entry: UsageEntry): Promise<void> {
+    const inputTokens = Number.isFinite(entry.inputTokens) ? entry.inputTokens : 0;
+    const outputTokens = Number.isFinite(entry.outputTokens) ? entry.outputTokens : 0;
+    const costUsd = computeCost(entry.model, inputTokens, outputTokens);
+
+    try {
+      const doc = entry.documentId
+        ? await this.documents.findOneAndUpdate(
+          { _id: new ObjectId(entry.documentId) },
+          {
+            $inc: {
+              'usage.calls': 1,
+              'usage.inputTokens': inputTokens,
+              'usage.outputTokens': outputTokens,
+              'usage.costUsd': costUsd,
+            },
+          },
+          { projection: { organizationId: 1 } }
+        )
+        : null;
+
+      await this.collection.insertOne({
+        ...entry,
+        organizationId: doc?.organizationId ?? entry.organizationId ?? DEFAULT_ORGANIZATION_ID,
+        inputTokens,
+        outputTokens,
+        costUsd,
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      console.warn(`⚠️  Erro ao registrar uso de IA (${entry.stage}, ${entry.documentId ?? entry.organizationId}):`, error);
+    }
+  }
+
+  /**
+   * Uso da organização desde o início do mês corrente (UTC)
+   */
+  async getMonthlyUsage(organizationId: string): Promise<DocumentUsage> {
+    const [totals] = await this.collection
+      .aggregate<DocumentUsage>([
+        { $match: { organizationId, createdAt: { $gte: getMonthStart() } } },
+        {
+          $group: {
+            _id: null,
+            calls: { $sum: 1 },
+            inputTokens: { $sum: '$inputTokens' },
+            outputTokens: { $sum: '$outputTokens' },
+            costUsd: { $sum: '$costUsd' },
+          },
+        },
+        { $project: { _id: 0 } },
+      ])
+      .toArray();
+
+    return totals ?? { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  }
+
+  /**
+   * Organizações com uso de IA no mês corrente
+   */
+  async getMonthlyOrganizations(): Promise<string[]> {
+    return this.collection.distinct('organizationId', { createdAt: { $gte: getMonthStart() } });
+  }
+
+  /**
+   * Uso do documento agrupado por etapa, modelo e batch
+   */
+  async getDocumentUsage(documentId: string): Promise<DocumentUsageReport> {
+    const groupTotals = {
+      calls: { $sum: 1 },
+      inputTokens: { $sum: '$inputTokens' },
+      outputTokens: { $sum: '$outputTokens' },
+      costUsd: { $sum: '$costUsd' },
+      latencyMs: { $sum: '$latencyMs' },
+    };
+
+    const [result] = await this.collection
+      .aggregate<{
+        totals: Array<UsageGroup & { _id: null }>;
+        byStage: Array<UsageGroup & { _id: LlmUsageRecord['stage'] }>;
+        byModel: Array<UsageGroup & { _id: string }>;
+        byBatch: Array<UsageGroup & { _id: number }>;
+      }>([
+        { $match: { documentId } },
+        {
+          $facet: {
+            totals: [{ $group: { _id: null, ...groupTotals } }],
+            byStage: [{ $group: { _id: '$stage', ...groupTotals } }, { $sort: { _id: 1 } }],
+            byModel: [{ $group: { _id: '$model', ...groupTotals } }, { $sort: { _id: 1 } }],
+            byBatch: [
+              { $match: { batchNumber: { $exists: true } } },
+              { $group: { _id: '$batchNumber', ...groupTotals } },
+              { $sort: { _id: 1 } },
+            ],
+          },
+        },
+      ])
+      .toArray();
+
+    const strip = <T extends { _id: unknown }>({ _id, ...group }: T) => group;
+    const totals = result?.totals[0];
+
+    return {
+      documentId,
+      totals: totals
+        ? strip(totals)
+        : { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, latencyMs: 0 },
+      byStage: (result?.byStage ?? []).map(group => ({ stage: group._id, ...strip(group) })),
+      byModel: (result?.byModel ?? []).map(group => ({ model: group._id, ...strip(group) })),
+      byBatch: (result?.byBatch ?? []).map(group => ({ batchNumber: group._id, ...strip(group) })),
+    };
+  }
+}
+
+// Singleton
+let serviceInstance: UsageService | null = null;
+
+export function getUsageService(): UsageService {
+  if (!serviceInstance) {
+    serviceInstance = new UsageService();
+  }
+  return serviceInstance;
+}
@@ -72,6 +72,51 @@ export type ResponsibleParty = 'LICITANTE' | 'ORGAO' | 'AMBOS';
 // ESTRUTURA DE PÁGINAS
 // ============================================================================
 
+/**
+ * Item de texto posicionado na página (coordenadas em % da página,
+ * origem no canto superior esquerdo)
+ */
+export interface PageTextItem {
+  /** Texto do item */
+  text: string;
+  
+  /** Linha da página onde o item aparece (1-indexed) */
+  line: number;
+  
+  /** Posição horizontal em % da largura */
+  left: number;
+  
+  /** Posição vertical em % da altura */
+  top: number;
+  
+  /** Largura em % da página */
+  width: number;
+  
+  /** Altura em % da página */
+  height: number;
+}
+
+/**
+ * Origem do texto de uma página
+ * - native: camada de texto do PDF
+ * - ocr: reconhecido por OCR (página escaneada)
+ */
+export type PageTextSource = 'native' | 'ocr';
+
+/**
+ * Layout de uma página extraído do PDF
+ */
+export interface PageLayout {
+  /** Largura da página em pontos */
+  width: number;
+  
+  /** Altura da página em pontos */
+  height: number;
+  
+  /** Itens de texto com suas coordenadas */
+  items: PageTextItem[];
+}
+
 /**
  * Representa uma página de um documento no MongoDB
  */
@@ -93,6 +138,18 @@ export interface DocumentPage {
   /** Contagem de palavras da página */
   wordCount: number;
   
+  /** Quantidade de linhas do texto (base para lineStart/lineEnd) */
+  lineCount?: number;
+  
+  /** Coordenadas dos itens de texto da página */
+  layout?: PageLayout;
+  
+  /** Origem do texto (camada nativa do PDF ou OCR) */
+  textSource?: PageTextSource;
+  
+  /** Confiança média do OCR (0-100) */
+  ocrConfidence?: number;
+  
   /** Número do batch que processou esta página */
   batchNumber?: number;
   
@@ -158,6 +215,9 @@ export interface DocumentSection {
   /** Linha final no texto */
   endLine?: number;
   
+  /** Batch que extraiu a seção (permite refazer só os batches com falha) */
+  batchNumber?: number;
+  
   /** Data de criação */
   createdAt: Date;
 }
@@ -184,6 +244,9 @@ export interface EntitySource {
   
   /** Confiança desta fonte específica */
   confidence: number;
+  
+  /** Resultado da verificação do trecho no texto da página */
+  verification?: CitationVerification;
 }
 
 /**
@@ -293,8 +356,11 @@ export interface ExtractedEntity {
  * Referência temporal relativa
  */
 export interface RelativeTimeReference {
-  /** ID do evento de referência */
-  eventId: string;
+  /** ID do evento de referência (ausente enquanto ele não foi encontrado no documento) */
+  eventId?: string;
+  
+  /** semanticKey do evento de referência (vincula eventos extraídos em outro batch) */
+  eventSemanticKey?: string;
   
   /** Offset (quantidade) */
   offset: number;
@@ -306,6 +372,36 @@ export interface RelativeTimeReference {
   direction: 'BEFORE' | 'AFTER';
 }
 
+/**
+ * Origem da data do evento
+ * - EXTRACTED: data explícita no documento (ou corrigida manualmente)
+ * - PROJECTED: calculada a partir da data do evento de referência (relativeTo)
+ * - UNRESOLVED: relativa sem como calcular (ver unresolvedReason)
+ */
+export type TimelineDateStatus = 'EXTRACTED' | 'PROJECTED' | 'UNRESOLVED';
+
+/**
+ * Por que a data relativa não pôde ser projetada
+ */
+export type UnresolvedDateReason =
+  | 'ANCHOR_NOT_FOUND'
+  | 'ANCHOR_WITHOUT_DATE'
+  | 'CYCLE';
+
+/**
+ * Como a data de um evento relativo foi calculada (calendário de dias úteis)
+ */
+export interface RelativeDateResolution {
+  /** Calendário de feriados do órgão (ausente = só feriados nacionais) */
+  calendarId?: string;
+  
+  /** Se o vencimento caiu em dia sem expediente e foi movido para um dia útil */
+  rolled: boolean;
+  
+  /** Feriados descontados ou que motivaram a prorrogação ('YYYY-MM-DD Nome') */
+  holidays: string[];
+}
+
 /**
  * Penalidade vinculada a um evento do timeline
  */
@@ -367,8 +463,14 @@ export interface UrgencyMetadata {
   /** Valor da penalidade (se houver) */
   penaltyAmount?: string;
   
-  /** Se bloqueia outros prazos */
+  /** Se bloqueia outros prazos (outro evento depende dele) */
   blockingForOthers: boolean;
+  
+  /** Dias que o evento pode atrasar sem atrasar a assinatura do contrato */
+  slackDays?: number;
+  
+  /** Se está no caminho crítico da publicação até a assinatura */
+  onCriticalPath?: boolean;
 }
 
 /**
@@ -395,6 +497,18 @@ export interface TimelineEvent {
   /** Referência relativa (se dateType === 'RELATIVE') */
   relativeTo?: RelativeTimeReference;
   
+  /** Origem da data (ausente em eventos antigos: EXTRACTED se há data) */
+  dateStatus?: TimelineDateStatus;
+  
+  /** Motivo de dateStatus === 'UNRESOLVED' */
+  unresolvedReason?: UnresolvedDateReason;
+  
+  /** Cálculo da data a partir de relativeTo (quando o evento de referência tem data) */
+  dateResolution?: RelativeDateResolution;
+  
+  /** semanticKey de origem do evento (alvo de relativeTo de outros eventos) */
+  semanticKey?: string;
+  
   /** Tipo do evento (sugerido pela IA) */
   eventType: string;
   
@@ -434,6 +548,15 @@ export interface TimelineEvent {
   /** Páginas de origem */
   sourcePages: number[];
   
+  /** Trecho de origem (página sourcePages[0]) */
+  excerpt?: string;
+  
+  /** Confiança da extração */
+  confidence?: number;
+  
+  /** Resultado da verificação do trecho no texto da página */
+  verification?: CitationVerification;
+  
   /** Ordem semântica para ordenação (baseado na fase do processo) */
   semanticOrder?: number;
   
@@ -443,6 +566,9 @@ export interface TimelineEvent {
   /** Quantidade de comentários */
   commentsCount: number;
   
+  /** Batch que extraiu o evento */
+  batchNumber?: number;
+  
   /** Data de criação */
   createdAt: Date;
 }
@@ -477,6 +603,9 @@ export interface RiskSource {
   
   /** Confiança */
   confidence: number;
+  
+  /** Resultado da verificação do trecho no texto da página */
+  verification?: CitationVerification;
 }
 
 /**
@@ -530,6 +659,9 @@ export interface Risk {
   /** Fontes/origens no documento */
   sources: RiskSource[];
   
+  /** Batch que identificou o risco */
+  batchNumber?: number;
+  
   /** Data de criação */
   createdAt: Date;
 }
@@ -593,6 +725,8 @@ export interface RawExtractedEntity {
   confidence: number;
   pageNumber: number;
   pageId: string;
+  lineStart?: number;
+  lineEnd?: number;
   sectionId?: string;
   sectionTitle?: string;
   excerptText: string;
@@ -714,6 +848,105 @@ export interface BatchExtractionResult {
   }>;
 }
 
+// ============================================================================
+// VALIDAÇÃO E QUARENTENA
+// ============================================================================
+
+/**
+ * Tipo de item validado antes de salvar
+ */
+export type ExtractionItemKind = 'section' | 'entity' | 'timelineEvent' | 'risk';
+
+/**
+ * Item rejeitado pela validação (devolvido ao modelo para correção)
+ */
+export interface InvalidExtractionItem {
+  kind: ExtractionItemKind;
+  
+  /** Identificação do item entre rodadas (semanticKey, número ou título) */
+  key: string;
+  
+  /** Item como o modelo enviou na tool */
+  item: Record<string, unknown>;
+  
+  /** Erros de validação (`campo: mensagem`) */
+  errors: string[];
+}
+
+/**
+ * Item que continuou inválido após as rodadas de correção
+ * Fica na coleção quarantined_items para revisão, sem ser salvo
+ */
+export interface QuarantinedItem extends InvalidExtractionItem {
+  _id?: ObjectId;
+  id: string;
+  documentId: string;
+  batchNumber: number;
+  
+  /** Rodadas de correção tentadas */
+  repairRounds: number;
+  
+  createdAt: Date;
+}
+
+// ============================================================================
+// VERIFICAÇÃO DE CITAÇÕES
+// ============================================================================
+
+/**
+ * Situação do trecho citado pela IA
+ * - VERIFIED: encontrado na página citada
+ * - RELOCATED: encontrado em outra página (a página foi corrigida)
+ * - UNVERIFIED: não encontrado no documento (confiança reduzida)
+ */
+export type CitationStatus = 'VERIFIED' | 'RELOCATED' | 'UNVERIFIED';
+
+/**
+ * Resultado da verificação de um trecho (excerpt) contra o texto das páginas
+ */
+export interface CitationVerification {
+  status: CitationStatus;
+  
+  /** Fração do trecho encontrada na página (0-1) */
+  score: number;
+  
+  /** Página citada originalmente (RELOCATED) */
+  originalPageNumber?: number;
+  
+  /** Confiança antes da redução (UNVERIFIED) */
+  originalConfidence?: number;
+  
+  verifiedAt: Date;
+}
+
+/**
+ * Contagem de citações por situação
+ */
+export interface CitationCounts {
+  total: number;
+  verified: number;
+  relocated: number;
+  unverified: number;
+  
+  /** Ainda não verificadas (batch em andamento ou extraídas antes da verificação) */
+  pending: number;
+}
+
+/**
+ * Estatísticas de verificação de citações de um documento
+ * Entidades e riscos contam por fonte; eventos do timeline, por evento
+ */
+export interface CitationStats {
+  documentId: string;
+  entities: CitationCounts;
+  timelineEvents: CitationCounts;
+  risks: CitationCounts;
+  total: CitationCounts;
+  
+  /** Fração das citações verificadas encontradas no documento (VERIFIED + RELOCATED) */
+  foundRate: number | null;
+}
+
 // ============================================================================
 // CONFIGURAÇÃO DE PROCESSAMENTO
 // ============================================================================
@@ -0,0 +1,100 @@
+import type { EntityType } from './entities.js';
+
+// ============================================================================
+// GOLD (ANOTAÇÕES)
+// ============================================================================
+
+/**
+ * Entidade esperada no edital
+ *
+ * `value` depende do tipo:
+ * - PRAZO/DATA: data normalizada (AAAA-MM-DD)
+ * - MULTA/SANCAO: percentual em decimal ou valor em reais (ex.: "0.1" para 10%)
+ * - demais tipos: descrição do item (comparada por sobreposição de palavras)
+ */
+export interface GoldEntity {
+  value: string;
+
+  /** Texto como aparece no edital (usado na acurácia de normalização de datas) */
+  raw?: string;
+}
+
+/**
+ * Seção esperada na estrutura do edital
+ */
+export interface GoldSection {
+  number?: string;
+  title: string;
+}
+
+/**
+ * Arquivo gold de um edital (eval/gold/<nome>.json)
+ *
+ * Só os tipos presentes em `entities` são avaliados: um tipo sem anotação
+ * não conta as extrações dele como falsos positivos.
+ */
+export interface GoldFile {
+  /** Identificador do edital nos relatórios */
+  name: string;
+
+  /** Arquivo do edital, relativo ao arquivo gold (PDF, DOCX, HTML...) */
+  file: string;
+
+  entities: Partial<Record<EntityType, GoldEntity[]>>;
+
+  sections?: GoldSection[];
+}
+
+// ============================================================================
+// MÉTRICAS
+// ============================================================================
+
+export interface PrfMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface DateNormalizationMetrics {
+  /** Datas do gold (com `raw`) encontradas entre as entidades extraídas */
+  evaluated: number;
+
+  /** Das encontradas, quantas foram normalizadas para a data esperada */
+  correct: number;
+
+  accuracy: number;
+}
+
+export interface EditalEvaluation {
+  name: string;
+  documentId: string;
+  byType: Partial<Record<EntityType, PrfMetrics>>;
+  sections?: PrfMetrics;
+  dateNormalization: DateNormalizationMetrics;
+}
+
+/**
+ * Execução completa da avaliação (eval/runs/<runId>.json)
+ */
+export interface EvaluationRun {
+  runId: string;
+  createdAt: string;
+
+  /** live: chama o modelo; replay/record: usa/grava fixtures de IA */
+  mode: 'live' | 'replay' | 'record';
+
+  /** Modelo da extração (`provedor:modelo`) */
+  model: string;
+
+  editais: EditalEvaluation[];
+
+  /** Métricas somando todos os editais (micro) */
+  overall: {
+    byType: Partial<Record<EntityType, PrfMetrics>>;
+    sections?: PrfMetrics;
+    dateNormalization: DateNormalizationMetrics;
+  };
+}
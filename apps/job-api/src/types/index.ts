@@ -1,9 +1,28 @@
 import type { ObjectId } from 'mongodb';
+import type { ModelStage } from '../ai/providers.js';
 
 // Re-exportar tipos de entidades
 export * from './entities.js';
 
-export type DocumentStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+export type DocumentStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'PAUSED'
+  | 'CANCELLED';
+
+/**
+ * Interrupção pedida pelo usuário para um processamento em andamento
+ * - pause: para e pode ser retomado dos batches pendentes
+ * - cancel: para de vez (reprocessar começa do zero)
+ */
+export type ProcessingControlAction = 'cancel' | 'pause';
+
+/**
+ * Formato do arquivo enviado (não-PDF é convertido antes do processamento)
+ */
+export type SourceFormat = 'pdf' | 'docx' | 'odt' | 'html' | 'xlsx' | 'ods' | 'csv';
 
 /**
  * Configuração de processamento do documento
@@ -14,6 +33,12 @@ export interface DocumentConfig {
   
   /** Máximo de páginas por batch (fallback) */
   maxPagesPerBatch: number;
+  
+  /** Batches processados em paralelo (default: 5) */
+  concurrency?: number;
+  
+  /** Novas tentativas por estágio de um batch, com backoff exponencial (default: 2) */
+  retryAttempts?: number;
 }
 
 /**
@@ -25,9 +50,36 @@ export interface PDFDocument {
   /** Nome do arquivo */
   filename: string;
   
-  /** Chave no S3/Minio */
+  /** Chave no S3/Minio (PDF renderizado, quando convertido) */
   s3Key: string;
   
+  /** Formato do arquivo original */
+  sourceFormat?: SourceFormat;
+  
+  /** Chave do arquivo original no S3/Minio (quando convertido para PDF) */
+  originalS3Key?: string;
+  
+  /** Organização (workspace) dona do documento; sem valor = organização padrão */
+  organizationId?: string;
+  
+  /** Tags da biblioteca para filtros (ex: 'obras', 'ti', 'prefeitura') */
+  tags?: string[];
+  
+  /** Calendário de feriados do órgão (coleção holiday_calendars); sem valor = só nacionais */
+  calendarId?: string;
+  
+  /** Licitação (pacote ZIP) à qual o documento pertence */
+  procurementId?: string;
+  
+  /** Papel do documento dentro da licitação */
+  documentRole?: DocumentRole;
+  
+  /** Se o papel veio do nome do arquivo (false = reclassificar pelo conteúdo) */
+  roleFromFilename?: boolean;
+  
+  /** Caminho do arquivo dentro do ZIP da licitação */
+  bundleEntry?: string;
+  
   /** Status do processamento */
   status: DocumentStatus;
   
@@ -55,6 +107,15 @@ export interface PDFDocument {
   /** Mensagem de erro (se houver) */
   error?: string;
   
+  /** Cancelamento/pausa pedido, aplicado no próximo ponto de checagem do worker */
+  controlRequest?: ProcessingControlAction;
+  
+  /** Motivo de uma pausa automática (ex.: orçamento de IA esgotado) */
+  pauseReason?: string;
+  
+  /** Tokens e custo acumulados das chamadas de IA (análise, embeddings e chat) */
+  usage?: DocumentUsage;
+  
   /** Data de criação */
   createdAt: Date;
   
@@ -79,8 +140,347 @@ export interface GlobalContext {
   description?: string;
 }
 
+/**
+ * Modo de processamento
+ * - full: limpa os dados anteriores e refaz todos os batches
+ * - resume: mantém páginas e resultados já unificados e refaz só os
+ *   batches com páginas pendentes ou com falha
+ */
+export type ProcessingMode = 'full' | 'resume';
+
 export interface ProcessJobData {
   documentId: string;
   s3Key: string;
   config?: Partial<DocumentConfig>;
+  mode?: ProcessingMode;
+}
+
+// ============================================================================
+// LICITAÇÕES (PACOTES ZIP)
+// ============================================================================
+
+/**
+ * Papel de um arquivo dentro do pacote da licitação
+ */
+export type DocumentRole =
+  | 'EDITAL'
+  | 'TERMO_REFERENCIA'
+  | 'MINUTA_CONTRATO'
+  | 'ANEXO'
+  | 'PLANILHA';
+
+/**
+ * Licitação enviada como pacote ZIP (documento "pai")
+ * Cada arquivo do pacote vira um PDFDocument filho com procurementId
+ */
+export interface Procurement {
+  _id?: ObjectId;
+  
+  /** Nome do arquivo ZIP */
+  filename: string;
+  
+  /** Chave do ZIP no S3/Minio */
+  s3Key: string;
+  
+  /** Organização (workspace) dona da licitação, herdada pelos documentos filhos */
+  organizationId?: string;
+  
+  /** Status consolidado dos documentos filhos */
+  status: DocumentStatus;
+  
+  /** IDs dos documentos filhos, na ordem de processamento */
+  documentIds: string[];
+  
+  /** Arquivos do pacote ignorados (formato não suportado) */
+  skippedFiles?: string[];
+  
+  /** Quando a expansão do ZIP terminou (todos os arquivos viraram documentos filhos) */
+  expandedAt?: Date;
+  
+  /** Cancelamento pedido, aplicado pelo worker antes do próximo documento filho */
+  controlRequest?: ProcessingControlAction;
+  
+  /** Mensagem de erro (se houver) */
+  error?: string;
+  
+  /** Timestamp de início do processamento */
+  processingStartedAt?: Date;
+  
+  /** Timestamp de conclusão do processamento */
+  processingCompletedAt?: Date;
+  
+  /** Data de criação */
+  createdAt: Date;
+  
+  /** Data de última atualização */
+  updatedAt: Date;
+}
+
+export interface ProcessProcurementJobData {
+  procurementId: string;
+  s3Key: string;
+  config?: Partial<DocumentConfig>;
+}
+
+// ============================================================================
+// FILA DE JOBS (PERSISTIDA NO MONGODB)
+// ============================================================================
+
+export type JobType = 'document' | 'procurement';
+
+/**
+ * Ciclo de vida de um job:
+ * QUEUED → RUNNING → COMPLETED
+ *                  → QUEUED (nova tentativa com backoff)
+ *                  → DEAD_LETTER (tentativas esgotadas)
+ * QUEUED → CANCELLED
+ * RUNNING → CANCELLED (quando o worker aplica o cancelamento/pausa pedido)
+ */
+export type JobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'DEAD_LETTER' | 'CANCELLED';
+
+/**
+ * Falha registrada em uma tentativa
+ */
+export interface JobAttemptError {
+  attempt: number;
+  message: string;
+  at: Date;
+}
+
+/**
+ * Job da coleção `jobs`
+ *
+ * O worker que pega o job recebe um lease (lockedBy/lockedUntil) renovado
+ * por heartbeat; se o processo morrer, o lease expira e o job volta para a fila.
+ */
+export interface Job<T = ProcessJobData | ProcessProcurementJobData> {
+  _id?: ObjectId;
+  
+  type: JobType;
+  
+  /** documentId ou procurementId */
+  targetId: string;
+  
+  /** Payload repassado ao handler */
+  data: T;
+  
+  status: JobStatus;
+  
+  /** Tentativas já iniciadas */
+  attempts: number;
+  
+  /** Limite de tentativas antes do dead-letter */
+  maxAttempts: number;
+  
+  /** Só é pego pelo worker a partir deste instante (backoff) */
+  runAfter: Date;
+  
+  /** Worker que detém o lease */
+  lockedBy?: string;
+  
+  /** Expiração do lease */
+  lockedUntil?: Date;
+  
+  /** Último heartbeat do worker */
+  heartbeatAt?: Date;
+  
+  /** Mensagem da última falha */
+  lastError?: string;
+  
+  /** Histórico de falhas por tentativa */
+  errors: JobAttemptError[];
+  
+  startedAt?: Date;
+  finishedAt?: Date;
+  cancelledAt?: Date;
+  
+  /** Cancelamento pedido para o job em execução, ainda não aplicado pelo worker */
+  cancelRequestedAt?: Date;
+  
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// EVENTOS DE PROGRESSO
+// ============================================================================
+
+/**
+ * Etapas do pipeline de um documento
+ */
+export type ProcessingStage =
+  | 'download'
+  | 'extraction'
+  | 'analysis'
+  | 'consolidation'
+  | 'embeddings';
+
+/**
+ * Tipos de evento emitidos durante o processamento
+ * - completed/failed/cancelled/paused encerram o stream do documento
+ */
+export type ProcessingEventType =
+  | 'stage_started'
+  | 'stage_finished'
+  | 'batch_started'
+  | 'batch_finished'
+  | 'batch_retry'
+  | 'embedding_progress'
+  | 'error'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'paused';
+
+/**
+ * Evento de progresso (coleção processing_events, transmitido via SSE)
+ */
+export interface ProcessingEvent {
+  _id?: ObjectId;
+  documentId: string;
+  type: ProcessingEventType;
+  stage?: ProcessingStage;
+
+  /** Mensagem legível para o log de processamento */
+  message: string;
+
+  batchNumber?: number;
+  totalBatches?: number;
+
+  /** Resultado de um batch concluído */
+  counts?: {
+    sections: number;
+    entities: number;
+    timelineEvents: number;
+    risks: number;
+  };
+
+  /** Progresso da etapa (ex.: páginas com embedding / total) */
+  progress?: {
+    current: number;
+    total: number;
+  };
+
+  error?: string;
+  createdAt: Date;
+}
+
+// ============================================================================
+// USO DE IA (TOKENS E CUSTO)
+// ============================================================================
+
+/**
+ * Uma chamada a modelo de IA (coleção llm_usage)
+ * Cada passo de um generateText com tools é uma chamada
+ */
+export interface LlmUsageRecord {
+  _id?: ObjectId;
+
+  /** Documento da chamada (ausente no chat da biblioteca, atribuído só à organização) */
+  documentId?: string;
+
+  /** Organização do documento (base dos orçamentos mensais) */
+  organizationId: string;
+
+  stage: ModelStage;
+
+  /** Batch da análise (structure/extraction) */
+  batchNumber?: number;
+
+  /** Conversa do chat */
+  conversationId?: string;
+
+  /** `provedor:modelo` */
+  model: string;
+
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+
+  /** Custo estimado em US$ pela tabela de preços (ai/pricing.ts) */
+  costUsd: number;
+
+  createdAt: Date;
+}
+
+/**
+ * Totais de uso acumulados no documento
+ */
+export interface DocumentUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Limites de uso de IA; ausente ou null = sem limite
+ */
+export interface BudgetLimits {
+  /** Tokens (entrada + saída) por mês na organização */
+  monthlyTokenLimit?: number | null;
+
+  /** Custo em US$ por mês na organização */
+  monthlyCostLimitUsd?: number | null;
+
+  /** Tokens acumulados por documento */
+  documentTokenLimit?: number | null;
+
+  /** Custo em US$ acumulado por documento */
+  documentCostLimitUsd?: number | null;
+}
+
+/**
+ * Orçamento de IA de uma organização (coleção budgets)
+ * Organização sem registro usa os limites padrão das variáveis BUDGET_*
+ */
+export interface OrganizationBudget extends BudgetLimits {
+  _id?: ObjectId;
+  organizationId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// CALENDÁRIO DE DIAS ÚTEIS
+// ============================================================================
+
+/**
+ * Abrangência do feriado
+ */
+export type HolidayScope = 'NACIONAL' | 'ESTADUAL' | 'MUNICIPAL' | 'ORGAO';
+
+/**
+ * Feriado ou dia sem expediente configurado para um órgão
+ */
+export interface CalendarHoliday {
+  /** MM-DD (todo ano) ou YYYY-MM-DD (só naquele ano) */
+  date: string;
+
+  /** Nome do feriado (ex: 'Revolução Constitucionalista') */
+  name: string;
+
+  /** Abrangência (feriados nacionais são calculados, não configurados) */
+  scope: Exclude<HolidayScope, 'NACIONAL'>;
+}
+
+/**
+ * Calendário de feriados estaduais/municipais de um órgão (coleção holiday_calendars)
+ * Os feriados nacionais entram sempre, somados aos configurados aqui
+ */
+export interface HolidayCalendar {
+  _id?: ObjectId;
+
+  /** Identificador do calendário (ex: 'sp-sao-paulo', 'tce-mg') */
+  calendarId: string;
+
+  /** Nome do órgão ou da localidade */
+  name: string;
+
+  /** UF (informativa) */
+  state?: string;
+
+  holidays: CalendarHoliday[];
+  createdAt: Date;
+  updatedAt: Date;
 }
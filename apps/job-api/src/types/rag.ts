@@ -1,26 +1,51 @@
 import type { ObjectId } from 'mongodb';
+import type { DocumentStatus } from './index.js';
 
 // ============================================================================
 // EMBEDDINGS
 // ============================================================================
 
 /**
- * Embedding de uma página do documento para RAG
+ * Trecho (chunk) de uma página, alinhado às seções do documento
+ * Gerado por utils/chunking.ts; trechos vizinhos da mesma seção se sobrepõem
  */
-export interface DocumentEmbedding {
-  _id?: ObjectId;
-  
-  /** ID do documento */
-  documentId: string;
-  
+export interface DocumentChunk {
   /** ID da página */
   pageId: string;
   
   /** Número da página */
   pageNumber: number;
   
-  /** Texto da página (para referência) */
+  /** Posição do trecho na página (0, 1, ...) */
+  chunkIndex: number;
+  
+  /** Linha inicial na página (numeração [L n] da extração) */
+  lineStart: number;
+  
+  /** Linha final na página */
+  lineEnd: number;
+  
+  /** Seção do documento em que o trecho começa */
+  sectionId?: string;
+  
+  /** Número e título da seção (ex: "7.2 Das Multas") */
+  sectionTitle?: string;
+  
+  /** Texto do trecho */
   text: string;
+}
+
+/**
+ * Embedding de um trecho do documento para RAG
+ */
+export interface DocumentEmbedding extends DocumentChunk {
+  _id?: ObjectId;
+  
+  /** Identificador único do trecho */
+  id: string;
+  
+  /** ID do documento */
+  documentId: string;
   
   /** Vetor de embedding (1536 dimensões para text-embedding-3-small) */
   embedding: number[];
@@ -36,20 +61,101 @@ export interface RagStatus {
   documentId: string;
   isReady: boolean;
   totalPages: number;
+  
+  /** Páginas com ao menos um trecho indexado */
   embeddedPages: number;
+  
+  /** Trechos indexados */
+  embeddedChunks: number;
+  
   lastUpdated?: Date;
 }
 
 /**
- * Resultado de busca por similaridade
+ * Resultado de busca por similaridade (um trecho)
  */
-export interface SimilarityResult {
-  pageId: string;
-  pageNumber: number;
-  text: string;
+export interface SimilarityResult extends DocumentChunk {
+  chunkId: string;
+  documentId: string;
   similarity: number;
 }
 
+// ============================================================================
+// BUSCA LEXICAL (BM25) E HÍBRIDA
+// ============================================================================
+
+/**
+ * Trecho no índice lexical (termos e frequências em listas paralelas:
+ * termos como "5.3.2" não podem ser chaves de objeto no MongoDB)
+ */
+export interface LexicalIndexChunk {
+  chunkId: string;
+  
+  /** Quantidade de termos do trecho */
+  length: number;
+  
+  terms: string[];
+  frequencies: number[];
+  
+  /** Número da seção do trecho (ex: "5.3.2"), para o boost de identificadores */
+  sectionNumber?: string;
+}
+
+/**
+ * Índice BM25 de um documento (gerado no prepareDocument)
+ */
+export interface LexicalIndex {
+  _id?: ObjectId;
+  documentId: string;
+  chunks: LexicalIndexChunk[];
+  
+  /** Tamanho médio dos trechos, em termos */
+  averageLength: number;
+  
+  createdAt: Date;
+}
+
+/**
+ * Resultado da busca lexical
+ */
+export interface LexicalResult {
+  chunkId: string;
+  
+  /** Pontuação BM25 */
+  score: number;
+  
+  /** BM25 sobre o máximo possível para a query (0-1) */
+  normalizedScore: number;
+  
+  /** Identificadores da query (números de cláusula, CNPJ...) presentes no trecho */
+  matchedIdentifiers: string[];
+  
+  /** A query cita o número da seção do trecho */
+  sectionMatch: boolean;
+}
+
+/**
+ * Trecho recuperado pela busca híbrida (vetorial + BM25)
+ */
+export interface RetrievedChunk extends DocumentChunk {
+  chunkId: string;
+  documentId: string;
+  
+  /** Similaridade de cosseno (null se fora dos candidatos vetoriais) */
+  similarity: number | null;
+  
+  /** BM25 normalizado (null se fora dos candidatos lexicais) */
+  lexicalScore: number | null;
+  
+  /** Reciprocal rank fusion das duas listas, mais o boost de identificadores (ordena) */
+  fusedScore: number;
+  
+  /** Relevância calibrada (0-1) usada no corte */
+  relevance: number;
+  
+  matchedIdentifiers: string[];
+}
+
 // ============================================================================
 // CHAT / CONVERSATIONS
 // ============================================================================
@@ -83,6 +189,9 @@ export interface ChatMessage {
   /** Páginas usadas como contexto (apenas para assistant) */
   sourcePagesUsed?: number[];
   
+  /** Documento e página de cada fonte (chat da biblioteca, apenas para assistant) */
+  sources?: LibrarySource[];
+  
   /** Data de criação */
   createdAt: Date;
 }
@@ -96,9 +205,15 @@ export interface Conversation {
   /** ID único da conversa */
   id: string;
   
-  /** ID do documento relacionado */
+  /** ID do documento relacionado (`library:<organização>` no chat da biblioteca) */
   documentId: string;
   
+  /** Organização da conversa da biblioteca */
+  organizationId?: string;
+  
+  /** Últimos filtros usados na conversa da biblioteca */
+  filters?: LibraryFilters;
+  
   /** Título da conversa (gerado automaticamente ou definido pelo usuário) */
   title: string;
   
@@ -122,7 +237,7 @@ export interface ChatRequest {
   /** ID da conversa (opcional, cria nova se não informado) */
   conversationId?: string;
   
-  /** Quantidade de páginas a recuperar para contexto */
+  /** Quantidade de trechos a recuperar para contexto */
   topK?: number;
 }
 
@@ -139,22 +254,48 @@ export interface ChatResponse {
   /** Resposta do assistente */
   content: string;
   
-  /** Páginas usadas como contexto */
+  /** Páginas usadas como contexto (trechos recuperados e resultados das tools) */
   sourcePagesUsed: number[];
   
-  /** Snippets relevantes das páginas */
+  /** Consultas à análise estruturada feitas pelo assistente */
+  toolCalls?: Array<{
+    toolName: string;
+    args: Record<string, unknown>;
+  }>;
+  
+  /** Trechos usados como contexto (página, linhas e seção citáveis) */
   sourceSnippets?: Array<{
     pageNumber: number;
+    lineStart: number;
+    lineEnd: number;
+    sectionId?: string;
+    sectionTitle?: string;
     excerpt: string;
-    similarity: number;
+    relevance: number;
   }>;
 }
 
+/**
+ * Evento do stream de resposta do chat (SSE: `event` + `data` em JSON)
+ *
+ * - start: conversa criada/recuperada e mensagem do usuário salva
+ * - delta: pedaço do texto da resposta
+ * - tool: consulta à análise estruturada feita pelo assistente
+ * - done: resposta completa, com páginas e trechos de origem (mensagem já salva)
+ * - error: falha na geração (a resposta não é salva)
+ */
+export type ChatStreamEvent =
+  | { event: 'start'; data: { conversationId: string } }
+  | { event: 'delta'; data: { text: string } }
+  | { event: 'tool'; data: { toolName: string; args: Record<string, unknown> } }
+  | { event: 'done'; data: ChatResponse }
+  | { event: 'error'; data: { error: string } };
+
 /**
  * Contexto recuperado para RAG
  */
 export interface RetrievedContext {
-  pages: SimilarityResult[];
+  chunks: RetrievedChunk[];
   combinedText: string;
 }
 
@@ -166,3 +307,83 @@ export interface FormattedHistory {
   content: string;
 }
 
+// ============================================================================
+// BIBLIOTECA (CHAT E BUSCA EM VÁRIOS DOCUMENTOS)
+// ============================================================================
+
+/**
+ * Filtros dos documentos consultados pelo chat e pela busca da biblioteca
+ */
+export interface LibraryFilters {
+  /** Status dos documentos (padrão: COMPLETED) */
+  status?: DocumentStatus[];
+  
+  /** Documentos enviados a partir desta data (YYYY-MM-DD) */
+  from?: string;
+  
+  /** Documentos enviados até esta data (YYYY-MM-DD, inclusive) */
+  to?: string;
+  
+  /** Documentos com pelo menos uma das tags */
+  tags?: string[];
+}
+
+/**
+ * Documento da biblioteca (resumo usado nos filtros e pelas tools)
+ */
+export interface LibraryDocument {
+  documentId: string;
+  filename: string;
+  status: DocumentStatus;
+  tags: string[];
+  procurementId?: string;
+  createdAt: Date;
+}
+
+/**
+ * Fonte citada numa resposta da biblioteca
+ */
+export interface LibrarySource {
+  documentId: string;
+  filename: string;
+  pageNumber: number;
+}
+
+/**
+ * Trecho encontrado na biblioteca (busca e contexto do chat)
+ */
+export interface LibrarySnippet extends LibrarySource {
+  lineStart: number;
+  lineEnd: number;
+  sectionTitle?: string;
+  excerpt: string;
+  relevance: number;
+}
+
+/**
+ * Request do chat da biblioteca
+ */
+export interface LibraryChatRequest extends ChatRequest {
+  /** Organização dona dos documentos (padrão: default) */
+  organizationId?: string;
+  
+  filters?: LibraryFilters;
+}
+
+/**
+ * Response do chat da biblioteca
+ */
+export interface LibraryChatResponse {
+  messageId: string;
+  conversationId: string;
+  content: string;
+  
+  /** Documento e página de cada fonte (trechos recuperados e resultados das tools) */
+  sources: LibrarySource[];
+  
+  /** Documentos que passaram nos filtros */
+  documentsSearched: number;
+  
+  toolCalls?: ChatResponse['toolCalls'];
+  sourceSnippets: LibrarySnippet[];
+}
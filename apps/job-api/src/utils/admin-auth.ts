@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+import type { MiddlewareHandler } from 'hono';
+
+/**
+ * Exige o header X-Admin-Key igual a ADMIN_API_KEY
+ *
+ * Sem ADMIN_API_KEY configurada as rotas administrativas ficam desligadas
+ * (503), para um deploy sem a variável não expor orçamentos e calendários.
+ */
+export const requireAdminKey: MiddlewareHandler = async (c, next) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return c.json({ error: 'Rotas administrativas desabilitadas: defina ADMIN_API_KEY' }, 503);
+  }
+
+  const provided = Buffer.from(c.req.header('X-Admin-Key') ?? '');
+  const expected = Buffer.from(adminKey);
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return c.json({ error: 'Acesso restrito a administradores' }, 403);
+  }
+
+  await next();
+};
@@ -0,0 +1,263 @@
+import type { CalendarHoliday, HolidayScope, RelativeTimeReference } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Feriado em uma data específica
+ */
+export interface Holiday {
+  /** YYYY-MM-DD */
+  date: string;
+  name: string;
+  scope: HolidayScope;
+}
+
+/**
+ * Resultado do cálculo de um prazo
+ */
+export interface DeadlineResult {
+  /** Data final (mantém a hora da data de referência) */
+  date: Date;
+
+  /** Se o vencimento caiu em dia sem expediente e foi prorrogado/antecipado */
+  rolled: boolean;
+
+  /** Feriados que caíram dentro do prazo ou no vencimento original */
+  holidays: Holiday[];
+}
+
+/**
+ * Maior offset aceito por unidade (10 anos): dias úteis são contados um a um
+ */
+export const MAX_DEADLINE_OFFSET: Record<RelativeTimeReference['unit'], number> = {
+  DAYS: 3650,
+  BUSINESS_DAYS: 3650,
+  MONTHS: 120,
+};
+
+/**
+ * Chave YYYY-MM-DD de uma data (dia em UTC)
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function addUtcDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher, calendário gregoriano)
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return utcDate(year, month, day);
+}
+
+/**
+ * Feriados nacionais e pontos facultativos federais do ano
+ *
+ * Carnaval e Corpus Christi são pontos facultativos, mas sem expediente na
+ * administração pública, então contam como dias não úteis para os prazos.
+ */
+export function getNationalHolidays(year: number): Holiday[] {
+  const easter = getEasterSunday(year);
+  const fixed: Array<[number, number, string]> = [
+    [1, 1, 'Confraternização Universal'],
+    [4, 21, 'Tiradentes'],
+    [5, 1, 'Dia do Trabalho'],
+    [9, 7, 'Independência do Brasil'],
+    [10, 12, 'Nossa Senhora Aparecida'],
+    [11, 2, 'Finados'],
+    [11, 15, 'Proclamação da República'],
+    [12, 25, 'Natal'],
+  ];
+
+  // Lei 14.759/2023
+  if (year >= 2024) {
+    fixed.push([11, 20, 'Dia Nacional de Zumbi e da Consciência Negra']);
+  }
+
+  const holidays: Holiday[] = fixed.map(([month, day, name]) => ({
+    date: toDateKey(utcDate(year, month, day)),
+    name,
+    scope: 'NACIONAL',
+  }));
+
+  const movable: Array<[number, string]> = [
+    [-48, 'Carnaval (segunda-feira)'],
+    [-47, 'Carnaval (terça-feira)'],
+    [-2, 'Sexta-feira Santa'],
+    [60, 'Corpus Christi'],
+  ];
+
+  for (const [offset, name] of movable) {
+    holidays.push({ date: toDateKey(addUtcDays(easter, offset)), name, scope: 'NACIONAL' });
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Calendário de dias úteis de um órgão
+ *
+ * Dias úteis são os dias de semana sem feriado nacional nem feriado
+ * configurado do órgão (estadual, municipal ou recesso próprio). Os prazos
+ * seguem o art. 183 da Lei 14.133/2021:
+ * - exclui o dia do começo e inclui o do vencimento
+ * - dias corridos contam de forma contínua; dias úteis só contam dias com expediente
+ * - meses contam de data a data; sem o dia equivalente, vence no último dia do mês
+ * - início em dia sem expediente é prorrogado para o próximo dia útil (§ 1º):
+ *   dias corridos e meses contam a partir dele; em dias úteis já não faz diferença
+ * - vencimento em dia sem expediente é prorrogado para o próximo dia útil
+ *
+ * Prazos contados para trás (ex.: impugnação até 3 dias úteis antes da
+ * abertura) são antecipados para o dia útil anterior, para o ato não ficar
+ * depois da data de referência.
+ */
+export class BusinessCalendar {
+  private holidaysByYear = new Map<number, Map<string, Holiday>>();
+
+  constructor(
+    private customHolidays: CalendarHoliday[] = [],
+    readonly calendarId?: string
+  ) {}
+
+  /**
+   * Feriados do ano (nacionais + configurados), por data
+   */
+  getHolidays(year: number): Holiday[] {
+    return [...this.getHolidayMap(year).values()].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  getHoliday(date: Date): Holiday | null {
+    return this.getHolidayMap(date.getUTCFullYear()).get(toDateKey(date)) ?? null;
+  }
+
+  isBusinessDay(date: Date): boolean {
+    const weekday = date.getUTCDay();
+    return weekday !== 0 && weekday !== 6 && !this.getHoliday(date);
+  }
+
+  /**
+   * A própria data, se for dia útil, ou o próximo dia útil
+   */
+  nextBusinessDay(date: Date): Date {
+    let current = date;
+    while (!this.isBusinessDay(current)) {
+      current = addUtcDays(current, 1);
+    }
+    return current;
+  }
+
+  /**
+   * A própria data, se for dia útil, ou o dia útil anterior
+   */
+  previousBusinessDay(date: Date): Date {
+    let current = date;
+    while (!this.isBusinessDay(current)) {
+      current = addUtcDays(current, -1);
+    }
+    return current;
+  }
+
+  /**
+   * Calcula a data de um prazo relativo a uma data de referência
+   */
+  computeDeadline(
+    reference: Date,
+    offset: number,
+    unit: RelativeTimeReference['unit'],
+    direction: RelativeTimeReference['direction']
+  ): DeadlineResult {
+    const step = direction === 'BEFORE' ? -1 : 1;
+    const holidays: Holiday[] = [];
+    let target: Date;
+
+    if (unit === 'BUSINESS_DAYS') {
+      // Exclui o dia do começo: conta a partir do dia seguinte (ou anterior)
+      target = reference;
+      let counted = 0;
+      while (counted < offset) {
+        target = addUtcDays(target, step);
+        const holiday = this.getHoliday(target);
+        if (holiday) holidays.push(holiday);
+        if (this.isBusinessDay(target)) counted++;
+      }
+    } else {
+      // Início em dia sem expediente (só para frente; para trás a referência é o limite)
+      let start = reference;
+      if (step > 0 && !this.isBusinessDay(reference)) {
+        const holiday = this.getHoliday(reference);
+        if (holiday) holidays.push(holiday);
+        start = this.nextBusinessDay(reference);
+      }
+
+      target = unit === 'MONTHS'
+        ? this.addMonths(start, offset * step)
+        : addUtcDays(start, offset * step);
+    }
+
+    // Vencimento em dia sem expediente
+    const unrolled = target;
+    if (!this.isBusinessDay(target)) {
+      const holiday = this.getHoliday(target);
+      if (holiday && !holidays.includes(holiday)) holidays.push(holiday);
+      target = step > 0 ? this.nextBusinessDay(target) : this.previousBusinessDay(target);
+    }
+
+    return {
+      date: target,
+      rolled: target.getTime() !== unrolled.getTime(),
+      holidays,
+    };
+  }
+
+  /**
+   * Soma meses de data a data, preservando a hora (31/01 + 1 mês = 28 ou 29/02)
+   */
+  private addMonths(date: Date, months: number): Date {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + months;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const result = new Date(date.getTime());
+    result.setUTCDate(1);
+    result.setUTCMonth(month);
+    result.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+    return result;
+  }
+
+  private getHolidayMap(year: number): Map<string, Holiday> {
+    let map = this.holidaysByYear.get(year);
+    if (map) return map;
+
+    map = new Map(getNationalHolidays(year).map(holiday => [holiday.date, holiday]));
+
+    for (const custom of this.customHolidays) {
+      const date = custom.date.length === 5 ? `${year}-${custom.date}` : custom.date;
+      if (!date.startsWith(`${year}-`) || map.has(date)) continue;
+      map.set(date, { date, name: custom.name, scope: custom.scope });
+    }
+
+    this.holidaysByYear.set(year, map);
+    return map;
+  }
+}
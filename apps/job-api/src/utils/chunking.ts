@@ -0,0 +1,178 @@
+/**
+ * Divisão das páginas em trechos (chunks) para embeddings
+ *
+ * Cada trecho fica dentro de uma página, com o intervalo de linhas (mesma
+ * numeração [L n] da extração) e a seção do documento em que começa, para que
+ * o chat cite página, linhas e cláusula. Os cortes preferem o início de uma
+ * seção (DocumentSection.startLine); trechos cortados por tamanho no meio de
+ * uma seção repetem as últimas linhas do anterior (sobreposição).
+ */
+
+import type { DocumentSection, DocumentSectionLevel } from '../types/entities.js';
+import type { DocumentChunk } from '../types/rag.js';
+
+/** Tamanho máximo de um trecho, em palavras */
+const CHUNK_MAX_WORDS = 250;
+
+/** Abaixo disso, o início de uma seção não corta o trecho (junta cláusulas curtas) */
+const CHUNK_MIN_WORDS = 60;
+
+/** Palavras repetidas do trecho anterior quando o corte é no meio de uma seção */
+const CHUNK_OVERLAP_WORDS = 50;
+
+const LEVEL_DEPTH: Record<DocumentSectionLevel, number> = {
+  CHAPTER: 1,
+  SECTION: 2,
+  CLAUSE: 3,
+  SUBCLAUSE: 4,
+  ITEM: 5,
+};
+
+export interface ChunkablePage {
+  id: string;
+  pageNumber: number;
+  text: string;
+}
+
+export type ChunkableSection = Pick<
+  DocumentSection,
+  'id' | 'level' | 'number' | 'title' | 'sourcePages' | 'startLine'
+>;
+
+/**
+ * Início de seção em uma página
+ */
+interface SectionBoundary {
+  pageNumber: number;
+  line: number;
+  section: ChunkableSection;
+}
+
+function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/**
+ * Rótulo da seção para citação (ex: "7.2 Das Multas")
+ */
+export function formatSectionTitle(section: Pick<DocumentSection, 'number' | 'title'>): string {
+  return section.number ? `${section.number} ${section.title}` : section.title;
+}
+
+/**
+ * Inícios de seção conhecidos, na ordem do documento
+ * Na mesma linha, a seção mais profunda vem por último (é a que vale)
+ */
+function getBoundaries(sections: ChunkableSection[]): SectionBoundary[] {
+  const boundaries: SectionBoundary[] = [];
+
+  for (const section of sections) {
+    const pageNumber = section.sourcePages[0];
+    if (pageNumber === undefined || !section.startLine || section.startLine < 1) continue;
+    boundaries.push({ pageNumber, line: section.startLine, section });
+  }
+
+  return boundaries.sort((a, b) =>
+    a.pageNumber - b.pageNumber ||
+    a.line - b.line ||
+    LEVEL_DEPTH[a.section.level] - LEVEL_DEPTH[b.section.level]
+  );
+}
+
+/**
+ * Divide as páginas em trechos sobrepostos, alinhados às seções
+ * Páginas devem vir na ordem do documento (a seção em curso passa para a página seguinte)
+ */
+export function chunkPages(pages: ChunkablePage[], sections: ChunkableSection[]): DocumentChunk[] {
+  const boundaries = getBoundaries(sections);
+  const chunks: DocumentChunk[] = [];
+  let boundaryIndex = 0;
+  let currentSection: ChunkableSection | undefined;
+
+  for (const page of pages) {
+    const lines = page.text.split('\n');
+    let chunkIndex = 0;
+
+    // Seção em curso em cada linha (índice 0 = linha 1)
+    const lineSections: Array<ChunkableSection | undefined> = [];
+
+    // Primeira linha e palavras do trecho em montagem
+    let start = 1;
+    let words = 0;
+
+    const flush = (end: number) => {
+      // Linhas em branco nas pontas não entram no intervalo citado
+      let first = start;
+      let last = end;
+      while (first <= last && !lines[first - 1]!.trim()) first++;
+      while (last >= first && !lines[last - 1]!.trim()) last--;
+      if (first > last) return;
+
+      // Antes da primeira seção conhecida, vale a que começa dentro do trecho
+      const section = lineSections[first - 1] ?? lineSections.slice(first - 1, last).find(Boolean);
+      chunks.push({
+        pageId: page.id,
+        pageNumber: page.pageNumber,
+        chunkIndex: chunkIndex++,
+        lineStart: first,
+        lineEnd: last,
+        sectionId: section?.id,
+        sectionTitle: section ? formatSectionTitle(section) : undefined,
+        text: lines.slice(first - 1, last).join('\n'),
+      });
+    };
+
+    for (let line = 1; line <= lines.length; line++) {
+      // Seções que começam nesta linha
+      let sectionStarts = false;
+      while (
+        boundaryIndex < boundaries.length &&
+        (boundaries[boundaryIndex]!.pageNumber < page.pageNumber ||
+          (boundaries[boundaryIndex]!.pageNumber === page.pageNumber && boundaries[boundaryIndex]!.line <= line))
+      ) {
+        currentSection = boundaries[boundaryIndex]!.section;
+        sectionStarts = true;
+        boundaryIndex++;
+      }
+      lineSections.push(currentSection);
+
+      const lineWords = countWords(lines[line - 1]!);
+
+      if (sectionStarts && words >= CHUNK_MIN_WORDS) {
+        // Corte na fronteira da seção, sem sobreposição
+        flush(line - 1);
+        start = line;
+        words = 0;
+      } else if (words > 0 && words + lineWords > CHUNK_MAX_WORDS) {
+        // Corte por tamanho: o próximo trecho repete as últimas linhas
+        flush(line - 1);
+        let overlapStart = line;
+        let overlapWords = 0;
+        while (overlapStart - 1 > start) {
+          const previousWords = countWords(lines[overlapStart - 2]!);
+          if (overlapWords + previousWords > CHUNK_OVERLAP_WORDS) break;
+          overlapWords += previousWords;
+          overlapStart--;
+        }
+        start = overlapStart;
+        words = overlapWords;
+      }
+
+      words += lineWords;
+    }
+
+    flush(lines.length);
+
+    // Seções desta página que começam depois da última linha (numeração divergente)
+    while (
+      boundaryIndex < boundaries.length &&
+      boundaries[boundaryIndex]!.pageNumber <= page.pageNumber
+    ) {
+      currentSection = boundaries[boundaryIndex]!.section;
+      boundaryIndex++;
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,226 @@
+import pdfParse from 'pdf-parse';
+import type { PageLayout, PageTextItem, PageTextSource } from '../types/entities.js';
+
+/**
+ * Conteúdo extraído de uma página do PDF
+ */
+export interface PageContent {
+  /** Número real da página no PDF (1-indexed) */
+  pageNumber: number;
+
+  /** Texto da página, uma linha visual por linha de texto */
+  text: string;
+
+  /** Quantidade de linhas do texto da página */
+  lineCount: number;
+
+  /** Coordenadas dos itens de texto (quando disponíveis) */
+  layout?: PageLayout;
+
+  /** Origem do texto: camada de texto do PDF ou OCR */
+  textSource: PageTextSource;
+
+  /** Confiança média do OCR (0-100), apenas quando textSource = 'ocr' */
+  ocrConfidence?: number;
+}
+
+/**
+ * Item de texto do pdf.js (subconjunto usado aqui)
+ */
+interface PdfJsTextItem {
+  str: string;
+  /** [scaleX, skewY, skewX, scaleY, x, y] - origem no canto inferior esquerdo */
+  transform: number[];
+  width: number;
+  height?: number;
+}
+
+/**
+ * Página do pdf.js entregue ao callback pagerender do pdf-parse
+ */
+interface PdfJsPage {
+  pageIndex: number;
+  getViewport(scale: number): { width: number; height: number };
+  getTextContent(options?: {
+    normalizeWhitespace?: boolean;
+    disableCombineTextItems?: boolean;
+  }): Promise<{ items: PdfJsTextItem[] }>;
+}
+
+/**
+ * Item posicionado em coordenadas do PDF (pontos)
+ */
+interface PositionedItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Arredonda para 2 casas decimais (reduz o tamanho do layout salvo)
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Agrupa os itens de texto em linhas visuais, de cima para baixo
+ * e da esquerda para a direita
+ */
+function groupIntoLines(items: PositionedItem[]): PositionedItem[][] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PositionedItem[][] = [];
+  let currentLine: PositionedItem[] = [];
+  let currentY: number | null = null;
+
+  for (const item of sorted) {
+    // Itens na mesma linha podem ter pequenas variações no baseline
+    const tolerance = Math.max(2, item.height * 0.5);
+
+    if (currentY === null || Math.abs(item.y - currentY) <= tolerance) {
+      currentLine.push(item);
+      currentY = currentY ?? item.y;
+    } else {
+      lines.push(currentLine);
+      currentLine = [item];
+      currentY = item.y;
+    }
+  }
+
+  if (currentLine.length > 0) {
+    lines.push(currentLine);
+  }
+
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Monta o texto de uma linha, inserindo espaço quando há distância
+ * horizontal entre dois itens consecutivos
+ */
+function joinLine(line: PositionedItem[]): string {
+  let text = '';
+  let previousEnd: number | null = null;
+
+  for (const item of line) {
+    const needsSpace =
+      previousEnd !== null &&
+      item.x - previousEnd > item.height * 0.15 &&
+      !text.endsWith(' ') &&
+      !item.text.startsWith(' ');
+
+    text += (needsSpace ? ' ' : '') + item.text;
+    previousEnd = item.x + item.width;
+  }
+
+  return text.replace(/\s+$/, '');
+}
+
+/**
+ * Extrai texto e layout de uma página do pdf.js
+ */
+async function renderPage(
+  page: PdfJsPage
+): Promise<Omit<PageContent, 'pageNumber' | 'textSource'>> {
+  const viewport = page.getViewport(1);
+  const textContent = await page.getTextContent({
+    normalizeWhitespace: true,
+    disableCombineTextItems: false,
+  });
+
+  const positioned: PositionedItem[] = textContent.items
+    .filter(item => item.str && item.str.trim().length > 0)
+    .map(item => {
+      const [, , skewX = 0, scaleY = 0, x = 0, y = 0] = item.transform;
+      const fontHeight = item.height || Math.hypot(skewX, scaleY) || 1;
+      return {
+        text: item.str,
+        x,
+        y,
+        width: item.width,
+        height: fontHeight,
+      };
+    });
+
+  const lines = groupIntoLines(positioned);
+  const items: PageTextItem[] = [];
+  const textLines: string[] = [];
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    textLines.push(joinLine(line));
+
+    for (const item of line) {
+      items.push({
+        text: item.text,
+        line: lineNumber,
+        // Percentuais com origem no canto superior esquerdo (mesma convenção do viewer)
+        left: round((item.x / viewport.width) * 100),
+        top: round(((viewport.height - item.y - item.height) / viewport.height) * 100),
+        width: round((item.width / viewport.width) * 100),
+        height: round((item.height / viewport.height) * 100),
+      });
+    }
+  });
+
+  return {
+    text: textLines.join('\n'),
+    lineCount: textLines.length,
+    layout: {
+      width: round(viewport.width),
+      height: round(viewport.height),
+      items,
+    },
+  };
+}
+
+/**
+ * Extrai o texto de cada página do PDF respeitando os limites reais de página
+ *
+ * O pdf-parse renderiza as páginas em sequência chamando `pagerender`;
+ * capturamos o resultado de cada chamada em vez de dividir o texto final.
+ * Páginas sem texto (ex: escaneadas) também são retornadas, com texto vazio,
+ * para que a numeração continue fiel ao PDF (o OCR é aplicado depois).
+ */
+export async function extractPagesFromPDF(buffer: Buffer): Promise<PageContent[]> {
+  const rendered = new Map<number, Omit<PageContent, 'pageNumber' | 'textSource'>>();
+
+  // O pdf.js embutido no pdf-parse lê Buffers do Node de forma inconsistente
+  // (falha com "bad XRef entry" em PDFs pequenos); uma cópia em Uint8Array é estável
+  const data = await pdfParse(new Uint8Array(buffer) as Buffer, {
+    pagerender: async (pageData: PdfJsPage) => {
+      const page = await renderPage(pageData);
+      rendered.set(pageData.pageIndex + 1, page);
+      return page.text;
+    },
+  });
+
+  const pages: PageContent[] = [];
+
+  for (let pageNumber = 1; pageNumber <= data.numpages; pageNumber++) {
+    const page = rendered.get(pageNumber);
+    pages.push({
+      pageNumber,
+      text: page?.text ?? '',
+      lineCount: page?.lineCount ?? 0,
+      layout: page?.layout,
+      textSource: 'native',
+    });
+  }
+
+  return pages;
+}
+
+/**
+ * Prefixa cada linha com seu número ([L1], [L2], ...) para que a IA
+ * possa informar lineStart/lineEnd relativos à página
+ */
+export function numberPageLines(text: string): string {
+  if (!text) return '';
+  return text
+    .split('\n')
+    .map((line, index) => `[L${index + 1}] ${line}`)
+    .join('\n');
+}
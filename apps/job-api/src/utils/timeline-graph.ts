@@ -0,0 +1,253 @@
+/**
+ * Nó do grafo de dependências das datas relativas
+ * `anchorId` é o evento de referência (relativeTo) de um evento a projetar
+ */
+export interface DependencyNode {
+  id: string;
+  anchorId?: string;
+}
+
+export interface DependencyAnalysis {
+  /** Ordem topológica: cada evento vem depois da sua âncora */
+  order: string[];
+
+  /** Ciclos encontrados (IDs na ordem das referências) */
+  cycles: string[][];
+
+  /** Eventos em ciclo ou que dependem (direta ou indiretamente) de um ciclo */
+  blocked: Set<string>;
+}
+
+/**
+ * Ordena o grafo de dependências (âncora → dependente) e detecta ciclos
+ *
+ * Cada evento tem no máximo uma âncora, então o que sobra da ordenação
+ * topológica (Kahn) são ciclos e os eventos pendurados neles; os ciclos saem
+ * seguindo as âncoras a partir desses eventos.
+ */
+export function analyzeDependencies(nodes: DependencyNode[]): DependencyAnalysis {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const dependents = new Map<string, string[]>();
+  const pending = new Map<string, number>();
+
+  for (const node of nodes) {
+    const hasAnchor = node.anchorId !== undefined && byId.has(node.anchorId);
+    pending.set(node.id, hasAnchor ? 1 : 0);
+    if (hasAnchor) {
+      const list = dependents.get(node.anchorId!) ?? [];
+      list.push(node.id);
+      dependents.set(node.anchorId!, list);
+    }
+  }
+
+  const order: string[] = [];
+  const queue = nodes.filter(node => pending.get(node.id) === 0).map(node => node.id);
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const dependent of dependents.get(id) ?? []) {
+      pending.set(dependent, 0);
+      queue.push(dependent);
+    }
+  }
+
+  const blocked = new Set(nodes.map(node => node.id).filter(id => pending.get(id) !== 0));
+  const cycles: string[][] = [];
+  const visited = new Set<string>();
+
+  for (const start of blocked) {
+    if (visited.has(start)) continue;
+
+    // Seguir as âncoras até repetir um evento do caminho atual
+    const path: string[] = [];
+    const position = new Map<string, number>();
+    let current: string | undefined = start;
+
+    while (current !== undefined && !visited.has(current)) {
+      visited.add(current);
+      position.set(current, path.length);
+      path.push(current);
+      current = byId.get(current)?.anchorId;
+    }
+
+    if (current !== undefined && position.has(current)) {
+      cycles.push(path.slice(position.get(current)!));
+    }
+  }
+
+  return { order, cycles, blocked };
+}
+
+// ============================================================================
+// CAMINHO CRÍTICO
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Origem de uma precedência entre eventos
+ * - RELATIVE: prazo relativo (relativeTo); rígida, o dependente anda junto com a âncora
+ * - DEPENDS_ON / TRIGGERS / PREREQUISITE: relacionamento entre as entidades de origem
+ * - PHASE: ordem das fases da licitação
+ */
+export type ScheduleEdgeKind = 'RELATIVE' | 'DEPENDS_ON' | 'TRIGGERS' | 'PREREQUISITE' | 'PHASE';
+
+export interface ScheduleNode {
+  id: string;
+  date: Date;
+}
+
+/**
+ * `from` precisa acontecer antes de `to`
+ */
+export interface ScheduleEdge {
+  from: string;
+  to: string;
+  kind: ScheduleEdgeKind;
+}
+
+export interface ScheduleAnalysis {
+  /** Dias que o evento pode atrasar sem empurrar o evento final (só quem chega nele) */
+  slack: Map<string, number>;
+
+  /** Cadeia de predecessores determinantes, do início ao fim */
+  criticalPath: string[];
+
+  /** Precedências contrariadas pelas datas (`to` marcado antes de `from`) */
+  conflicts: ScheduleEdge[];
+
+  /** Precedências mantidas no grafo */
+  edges: ScheduleEdge[];
+}
+
+function dayNumber(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+/**
+ * Análise de folgas de um cronograma de marcos com datas
+ *
+ * As datas são fixas, então a folga de um evento é quanto ele pode atrasar
+ * sem empurrar o evento final (passada de trás para frente): precedências
+ * RELATIVE repassam o atraso inteiro, as demais só depois de consumir o
+ * intervalo até o sucessor. O caminho crítico segue, a partir do fim, o
+ * predecessor com menor folga (o mais tardio no empate) até o início.
+ *
+ * Precedências que as datas contrariam viram conflitos e ficam fora do
+ * grafo; ciclos entre eventos do mesmo dia são quebrados na ordenação.
+ */
+export function analyzeSchedule(
+  nodes: ScheduleNode[],
+  edges: ScheduleEdge[],
+  startId: string | null,
+  endId: string | null
+): ScheduleAnalysis {
+  const days = new Map(nodes.map(node => [node.id, dayNumber(node.date)]));
+  const conflicts: ScheduleEdge[] = [];
+  const unique = new Map<string, ScheduleEdge>();
+
+  for (const edge of edges) {
+    const from = days.get(edge.from);
+    const to = days.get(edge.to);
+    if (from === undefined || to === undefined || edge.from === edge.to) continue;
+
+    if (to < from) {
+      conflicts.push(edge);
+      continue;
+    }
+
+    // Entre duas precedências do mesmo par, a rígida prevalece
+    const key = `${edge.from}>${edge.to}`;
+    const existing = unique.get(key);
+    if (!existing || (edge.kind === 'RELATIVE' && existing.kind !== 'RELATIVE')) {
+      unique.set(key, edge);
+    }
+  }
+
+  const successors = new Map<string, ScheduleEdge[]>();
+  for (const edge of unique.values()) {
+    successors.set(edge.from, [...(successors.get(edge.from) ?? []), edge]);
+  }
+
+  // Ordenação topológica por DFS; arestas de volta (ciclos no mesmo dia) são descartadas
+  const byDate = [...nodes].sort((a, b) => days.get(a.id)! - days.get(b.id)!);
+  const state = new Map<string, 'visiting' | 'done'>();
+  const postOrder: string[] = [];
+  const kept: ScheduleEdge[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    for (const edge of successors.get(id) ?? []) {
+      const next = state.get(edge.to);
+      if (next === 'visiting') continue;
+      kept.push(edge);
+      if (!next) visit(edge.to);
+    }
+    state.set(id, 'done');
+    postOrder.push(id);
+  };
+
+  for (const node of byDate) {
+    if (!state.has(node.id)) visit(node.id);
+  }
+
+  const keptSuccessors = new Map<string, ScheduleEdge[]>();
+  const keptPredecessors = new Map<string, ScheduleEdge[]>();
+  for (const edge of kept) {
+    keptSuccessors.set(edge.from, [...(keptSuccessors.get(edge.from) ?? []), edge]);
+    keptPredecessors.set(edge.to, [...(keptPredecessors.get(edge.to) ?? []), edge]);
+  }
+
+  // Passada de trás para frente: data mais tardia que não atrasa o fim
+  const latest = new Map<string, number>();
+  if (endId !== null && days.has(endId)) {
+    latest.set(endId, days.get(endId)!);
+  }
+
+  for (const id of postOrder) {
+    if (id === endId) continue;
+    for (const edge of keptSuccessors.get(id) ?? []) {
+      const successorLatest = latest.get(edge.to);
+      if (successorLatest === undefined) continue;
+
+      const lag = edge.kind === 'RELATIVE' ? days.get(edge.to)! - days.get(id)! : 0;
+      const candidate = successorLatest - lag;
+      if (!latest.has(id) || candidate < latest.get(id)!) {
+        latest.set(id, candidate);
+      }
+    }
+  }
+
+  const slack = new Map<string, number>();
+  for (const [id, value] of latest) {
+    slack.set(id, value - days.get(id)!);
+  }
+
+  // Eventos alcançáveis a partir do início
+  const reachable = new Set<string>();
+  const stack = startId !== null && days.has(startId) ? [startId] : [];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    for (const edge of keptSuccessors.get(id) ?? []) stack.push(edge.to);
+  }
+
+  const criticalPath: string[] = [];
+  let current = endId !== null && latest.has(endId) ? endId : null;
+
+  while (current !== null) {
+    criticalPath.unshift(current);
+    if (current === startId) break;
+
+    const candidates = (keptPredecessors.get(current) ?? [])
+      .map(edge => edge.from)
+      .filter(id => slack.has(id) && (reachable.size === 0 || reachable.has(id)));
+
+    candidates.sort((a, b) => slack.get(a)! - slack.get(b)! || days.get(b)! - days.get(a)!);
+    current = candidates[0] ?? null;
+  }
+
+  return { slack, criticalPath, conflicts, edges: kept };
+}
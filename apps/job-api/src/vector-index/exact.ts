@@ -0,0 +1,69 @@
+import { getDatabase } from '../services/database.js';
+import type { DocumentEmbedding } from '../types/rag.js';
+import type { VectorIndex, VectorMatch, VectorSearchOptions } from './types.js';
+
+/**
+ * Calcula a similaridade de cosseno entre dois vetores
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have the same length');
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const aVal = a[i]!;
+    const bVal = b[i]!;
+    dotProduct += aVal * bVal;
+    normA += aVal * aVal;
+    normB += bVal * bVal;
+  }
+
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  if (denominator === 0) return 0;
+
+  return dotProduct / denominator;
+}
+
+/**
+ * Busca exata direto nos embeddings do MongoDB
+ *
+ * Compara a query com todos os vetores dos documentos filtrados. Não guarda
+ * nada além do que já está em document_embeddings (inclusões e remoções são
+ * no-op); útil como referência para medir o recall do HNSW.
+ */
+export class ExactVectorIndex implements VectorIndex {
+  readonly backend = 'exact' as const;
+  private collection = getDatabase().collection<DocumentEmbedding>('document_embeddings');
+
+  async add(): Promise<void> {}
+
+  async remove(): Promise<void> {}
+
+  async removeDocument(): Promise<void> {}
+
+  async listIds(): Promise<string[]> {
+    return this.collection.distinct('id');
+  }
+
+  async search(query: number[], options: VectorSearchOptions): Promise<VectorMatch[]> {
+    const filter = options.documentIds ? { documentId: { $in: options.documentIds } } : {};
+    const embeddings = await this.collection
+      .find(filter, { projection: { id: 1, documentId: 1, embedding: 1 } })
+      .toArray();
+
+    return embeddings
+      .map(embedding => ({
+        id: embedding.id,
+        documentId: embedding.documentId,
+        similarity: cosineSimilarity(query, embedding.embedding),
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.topK);
+  }
+
+  async close(): Promise<void> {}
+}
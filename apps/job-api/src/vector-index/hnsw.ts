@@ -0,0 +1,563 @@
+/**
+ * Índice HNSW (Hierarchical Navigable Small World) em memória
+ *
+ * Grafo em camadas para busca aproximada de vizinhos mais próximos: a busca
+ * desce pelas camadas esparsas até a camada 0 e avalia só uma fração dos
+ * vetores, em vez de comparar a query com todos os trechos. Vetores são
+ * normalizados na inclusão (cosseno = produto escalar).
+ *
+ * Remoções marcam o nó como removido (o nó continua servindo de caminho na
+ * busca, mas não aparece nos resultados); quando os removidos passam de
+ * COMPACTION_RATIO, o grafo é reconstruído na próxima gravação.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { VectorIndex, VectorMatch, VectorRecord, VectorSearchOptions } from './types.js';
+
+/** Vizinhos por nó nas camadas superiores (a camada 0 guarda o dobro) */
+const HNSW_M = 16;
+
+/** Candidatos avaliados ao incluir um vetor */
+const HNSW_EF_CONSTRUCTION = 64;
+
+/** Candidatos avaliados na busca (mínimo; cresce com o topK e com filtros) */
+const HNSW_EF_SEARCH = 64;
+
+/** Fração de nós removidos a partir da qual o grafo é reconstruído */
+const COMPACTION_RATIO = 0.3;
+
+/** Removidos mínimos para reconstruir (abaixo disso o desperdício é irrelevante) */
+const COMPACTION_MIN_DELETED = 1000;
+
+/** Até esse número de vetores nos documentos filtrados, a busca compara todos */
+const EXACT_SCAN_LIMIT = 5000;
+
+/** Espera após a última alteração antes de gravar em disco */
+const SAVE_DELAY_MS = 5000;
+
+/** Versão do formato de graph.json */
+const GRAPH_FORMAT_VERSION = 1;
+
+// ============================================================================
+// VETORES
+// ============================================================================
+
+interface Candidate {
+  node: number;
+  similarity: number;
+}
+
+function normalize(vector: number[]): Float32Array {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm) || 1;
+
+  const result = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    result[i] = vector[i]! / norm;
+  }
+  return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * b[i]!;
+  }
+  return sum;
+}
+
+/**
+ * Insere mantendo a lista em ordem decrescente de similaridade
+ */
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (list[middle]!.similarity >= candidate.similarity) low = middle + 1;
+    else high = middle;
+  }
+  list.splice(low, 0, candidate);
+}
+
+// ============================================================================
+// GRAFO
+// ============================================================================
+
+/**
+ * Formato persistido do grafo (os vetores ficam em vectors.bin, na ordem dos nós)
+ */
+interface SerializedGraph {
+  version: number;
+  dimensions: number;
+  entryPoint: number;
+  maxLevel: number;
+  nodes: Array<{
+    id: string;
+    documentId: string;
+    /** Vizinhos por camada (índices de nós) */
+    neighbors: number[][];
+    deleted?: boolean;
+  }>;
+}
+
+export class HnswGraph {
+  private ids: string[] = [];
+  private documentIds: string[] = [];
+  private vectors: Float32Array[] = [];
+  private neighbors: number[][][] = [];
+  private deleted: boolean[] = [];
+  private nodeById = new Map<string, number>();
+  private nodesByDocument = new Map<string, Set<number>>();
+  private deletedCount = 0;
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private dimensions = 0;
+  private levelFactor = 1 / Math.log(HNSW_M);
+
+  /** Vetores ativos (sem os removidos) */
+  get size(): number {
+    return this.nodeById.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodeById.has(id);
+  }
+
+  /** Ids dos vetores ativos */
+  listIds(): string[] {
+    return [...this.nodeById.keys()];
+  }
+
+  /** Ids dos vetores ativos de um documento */
+  listDocumentIds(documentId: string): string[] {
+    return [...(this.nodesByDocument.get(documentId) ?? [])].map(node => this.ids[node]!);
+  }
+
+  /** Documento de um vetor ativo */
+  getDocumentId(id: string): string | undefined {
+    const node = this.nodeById.get(id);
+    return node === undefined ? undefined : this.documentIds[node];
+  }
+
+  /**
+   * Inclui um vetor (um id já existente é substituído)
+   */
+  add(id: string, documentId: string, vector: number[]): void {
+    if (this.dimensions === 0) {
+      this.dimensions = vector.length;
+    } else if (vector.length !== this.dimensions) {
+      throw new Error(`Vetor com ${vector.length} dimensões em índice de ${this.dimensions}`);
+    }
+
+    this.remove(id);
+    this.insert(id, documentId, normalize(vector));
+  }
+
+  private insert(id: string, documentId: string, vector: Float32Array): void {
+    const node = this.ids.length;
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelFactor);
+
+    this.ids.push(id);
+    this.documentIds.push(documentId);
+    this.vectors.push(vector);
+    this.neighbors.push(Array.from({ length: level + 1 }, () => []));
+    this.deleted.push(false);
+    this.nodeById.set(id, node);
+    this.trackDocument(documentId, node);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Desce pelas camadas acima do nível do nó pelo caminho mais próximo
+    let entry: Candidate = { node: this.entryPoint, similarity: dot(vector, this.vectors[this.entryPoint]!) };
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.searchLayer(vector, [entry], 1, layer)[0]!;
+    }
+
+    let entries = [entry];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(vector, entries, HNSW_EF_CONSTRUCTION, layer);
+      const selected = this.selectNeighbors(found.filter(candidate => !this.deleted[candidate.node]), HNSW_M);
+      this.neighbors[node]![layer] = selected.map(candidate => candidate.node);
+
+      // Ligações de volta, podando vizinhos que passarem do limite
+      const maxLinks = layer === 0 ? HNSW_M * 2 : HNSW_M;
+      for (const { node: neighbor } of selected) {
+        const links = this.neighbors[neighbor]![layer]!;
+        links.push(node);
+        if (links.length > maxLinks) {
+          const base = this.vectors[neighbor]!;
+          const scored = links
+            .filter(other => !this.deleted[other])
+            .map(other => ({ node: other, similarity: dot(base, this.vectors[other]!) }))
+            .sort((a, b) => b.similarity - a.similarity);
+          this.neighbors[neighbor]![layer] = scored.slice(0, maxLinks).map(candidate => candidate.node);
+        }
+      }
+
+      entries = found;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Marca o vetor como removido
+   */
+  remove(id: string): boolean {
+    const node = this.nodeById.get(id);
+    if (node === undefined) return false;
+
+    this.deleted[node] = true;
+    this.deletedCount++;
+    this.nodeById.delete(id);
+
+    const documentId = this.documentIds[node]!;
+    const nodes = this.nodesByDocument.get(documentId);
+    nodes?.delete(node);
+    if (nodes && nodes.size === 0) {
+      this.nodesByDocument.delete(documentId);
+    }
+    return true;
+  }
+
+  /**
+   * Remove os vetores de um documento
+   */
+  removeDocument(documentId: string): number {
+    const nodes = [...(this.nodesByDocument.get(documentId) ?? [])];
+    for (const node of nodes) {
+      this.remove(this.ids[node]!);
+    }
+    return nodes.length;
+  }
+
+  /**
+   * Vetores mais similares à query, opcionalmente só dos documentos informados
+   */
+  search(query: number[], topK: number, documentIds?: string[]): VectorMatch[] {
+    if (this.size === 0 || topK <= 0) return [];
+    const vector = normalize(query);
+
+    // Poucos vetores nos documentos filtrados: comparar todos é exato e barato
+    if (documentIds) {
+      const nodes = documentIds.flatMap(documentId => [...(this.nodesByDocument.get(documentId) ?? [])]);
+      if (nodes.length <= EXACT_SCAN_LIMIT) {
+        return nodes
+          .map(node => ({ node, similarity: dot(vector, this.vectors[node]!) }))
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, topK)
+          .map(candidate => this.toMatch(candidate));
+      }
+    }
+
+    const allowed = documentIds ? new Set(documentIds) : null;
+    const accepts = (node: number) =>
+      !this.deleted[node] && (!allowed || allowed.has(this.documentIds[node]!));
+
+    let entry: Candidate = { node: this.entryPoint, similarity: dot(vector, this.vectors[this.entryPoint]!) };
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.searchLayer(vector, [entry], 1, layer)[0]!;
+    }
+
+    // Removidos e outros documentos ocupam vagas: amplia a busca até ter topK
+    let ef = Math.max(HNSW_EF_SEARCH, topK);
+    for (;;) {
+      const found = this.searchLayer(vector, [entry], ef, 0).filter(candidate => accepts(candidate.node));
+      if (found.length >= topK || ef >= this.ids.length) {
+        return found.slice(0, topK).map(candidate => this.toMatch(candidate));
+      }
+      ef *= 4;
+    }
+  }
+
+  /**
+   * Muitos nós removidos: vale reconstruir
+   */
+  needsCompaction(): boolean {
+    return this.deletedCount >= COMPACTION_MIN_DELETED &&
+      this.deletedCount > this.ids.length * COMPACTION_RATIO;
+  }
+
+  /**
+   * Novo grafo só com os vetores ativos
+   */
+  compact(): HnswGraph {
+    const graph = new HnswGraph();
+    graph.dimensions = this.dimensions;
+    for (const [id, node] of this.nodeById) {
+      graph.insert(id, this.documentIds[node]!, this.vectors[node]!);
+    }
+    return graph;
+  }
+
+  /**
+   * Grafo (JSON) e vetores (float32 concatenados, na ordem dos nós)
+   */
+  serialize(): { graph: SerializedGraph; vectors: Buffer } {
+    const graph: SerializedGraph = {
+      version: GRAPH_FORMAT_VERSION,
+      dimensions: this.dimensions,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.ids.map((id, node) => ({
+        id,
+        documentId: this.documentIds[node]!,
+        neighbors: this.neighbors[node]!,
+        ...(this.deleted[node] ? { deleted: true } : {}),
+      })),
+    };
+
+    const vectors = Buffer.concat(
+      this.vectors.map(vector => Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength))
+    );
+
+    return { graph, vectors };
+  }
+
+  static deserialize(graph: SerializedGraph, vectors: Buffer): HnswGraph {
+    if (graph.version !== GRAPH_FORMAT_VERSION) {
+      throw new Error(`Formato de índice não suportado (versão ${graph.version})`);
+    }
+    if (vectors.byteLength !== graph.nodes.length * graph.dimensions * Float32Array.BYTES_PER_ELEMENT) {
+      throw new Error('Arquivo de vetores não corresponde ao grafo');
+    }
+
+    // Cópia alinhada: o Buffer lido pode começar em posição não múltipla de 4
+    const values = new Float32Array(vectors.buffer.slice(vectors.byteOffset, vectors.byteOffset + vectors.byteLength));
+    const result = new HnswGraph();
+    result.dimensions = graph.dimensions;
+    result.entryPoint = graph.entryPoint;
+    result.maxLevel = graph.maxLevel;
+
+    graph.nodes.forEach((stored, node) => {
+      result.ids.push(stored.id);
+      result.documentIds.push(stored.documentId);
+      result.vectors.push(values.subarray(node * graph.dimensions, (node + 1) * graph.dimensions));
+      result.neighbors.push(stored.neighbors);
+      result.deleted.push(stored.deleted === true);
+
+      if (stored.deleted) {
+        result.deletedCount++;
+      } else {
+        result.nodeById.set(stored.id, node);
+        result.trackDocument(stored.documentId, node);
+      }
+    });
+
+    return result;
+  }
+
+  private trackDocument(documentId: string, node: number): void {
+    let nodes = this.nodesByDocument.get(documentId);
+    if (!nodes) {
+      nodes = new Set();
+      this.nodesByDocument.set(documentId, nodes);
+    }
+    nodes.add(node);
+  }
+
+  private toMatch(candidate: Candidate): VectorMatch {
+    return {
+      id: this.ids[candidate.node]!,
+      documentId: this.documentIds[candidate.node]!,
+      similarity: candidate.similarity,
+    };
+  }
+
+  /**
+   * Busca gulosa em uma camada, mantendo os `ef` melhores encontrados
+   */
+  private searchLayer(query: Float32Array, entries: Candidate[], ef: number, layer: number): Candidate[] {
+    const visited = new Set(entries.map(entry => entry.node));
+    const candidates = [...entries].sort((a, b) => b.similarity - a.similarity);
+    const results = [...candidates];
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.similarity < results[results.length - 1]!.similarity) break;
+
+      for (const neighbor of this.neighbors[current.node]![layer] ?? []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const similarity = dot(query, this.vectors[neighbor]!);
+        if (results.length < ef || similarity > results[results.length - 1]!.similarity) {
+          const candidate = { node: neighbor, similarity };
+          insertSorted(candidates, candidate);
+          insertSorted(results, candidate);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Escolhe vizinhos diversos: um candidato entra se estiver mais perto do nó
+   * do que dos vizinhos já escolhidos; as vagas restantes vão para os descartados
+   */
+  private selectNeighbors(candidates: Candidate[], count: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) break;
+      const vector = this.vectors[candidate.node]!;
+      const diverse = selected.every(other => dot(vector, this.vectors[other.node]!) < candidate.similarity);
+      (diverse ? selected : skipped).push(candidate);
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= count) break;
+      selected.push(candidate);
+    }
+
+    return selected;
+  }
+}
+
+// ============================================================================
+// ÍNDICE PERSISTIDO EM DISCO
+// ============================================================================
+
+/**
+ * Índice HNSW gravado em disco (graph.json + vectors.bin)
+ *
+ * Alterações são gravadas alguns segundos depois da última (e no close);
+ * arquivos são escritos em .tmp e renomeados, para que uma interrupção não
+ * deixe um índice pela metade. Divergências com o MongoDB (índice antigo,
+ * gravação perdida) são corrigidas na carga (ver reconcileVectorIndex), e as
+ * alterações feitas por outras instâncias, antes de cada busca (ver sync.ts).
+ */
+export class HnswVectorIndex implements VectorIndex {
+  readonly backend = 'hnsw' as const;
+  private graph = new HnswGraph();
+  private dirty = false;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  private get graphPath(): string {
+    return path.join(this.directory, 'graph.json');
+  }
+
+  private get vectorsPath(): string {
+    return path.join(this.directory, 'vectors.bin');
+  }
+
+  /**
+   * Carrega o índice do disco (ausente ou inválido: começa vazio)
+   */
+  async load(): Promise<void> {
+    try {
+      const [graph, vectors] = await Promise.all([
+        fs.readFile(this.graphPath, 'utf-8'),
+        fs.readFile(this.vectorsPath),
+      ]);
+      this.graph = HnswGraph.deserialize(JSON.parse(graph) as SerializedGraph, vectors);
+      console.log(`✓ Índice vetorial HNSW carregado (${this.graph.size} vetores)`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('⚠️ Índice vetorial HNSW inválido, será reconstruído:', error);
+      }
+      this.graph = new HnswGraph();
+    }
+  }
+
+  async listIds(): Promise<string[]> {
+    return this.graph.listIds();
+  }
+
+  listDocumentIds(documentId: string): string[] {
+    return this.graph.listDocumentIds(documentId);
+  }
+
+  getDocumentId(id: string): string | undefined {
+    return this.graph.getDocumentId(id);
+  }
+
+  async add(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    for (const record of records) {
+      this.graph.add(record.id, record.documentId, record.vector);
+    }
+    this.scheduleSave();
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    let removed = 0;
+    for (const id of ids) {
+      if (this.graph.remove(id)) removed++;
+    }
+    if (removed > 0) this.scheduleSave();
+  }
+
+  async removeDocument(documentId: string): Promise<void> {
+    if (this.graph.removeDocument(documentId) > 0) this.scheduleSave();
+  }
+
+  async search(query: number[], options: VectorSearchOptions): Promise<VectorMatch[]> {
+    return this.graph.search(query, options.topK, options.documentIds);
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+  }
+
+  private scheduleSave(): void {
+    this.dirty = true;
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => void this.flush(), SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    this.saving = this.saving
+      .then(() => this.save())
+      .catch(error => console.error('❌ Erro ao gravar índice vetorial:', error));
+    return this.saving;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.dirty) return;
+    this.dirty = false;
+
+    try {
+      if (this.graph.needsCompaction()) {
+        const startedAt = Date.now();
+        this.graph = this.graph.compact();
+        console.log(`   🧹 Índice vetorial reconstruído sem removidos (${this.graph.size} vetores, ${Date.now() - startedAt}ms)`);
+      }
+
+      const { graph, vectors } = this.graph.serialize();
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(`${this.graphPath}.tmp`, JSON.stringify(graph));
+      await fs.writeFile(`${this.vectorsPath}.tmp`, vectors);
+      await fs.rename(`${this.vectorsPath}.tmp`, this.vectorsPath);
+      await fs.rename(`${this.graphPath}.tmp`, this.graphPath);
+    } catch (error) {
+      this.dirty = true;
+      throw error;
+    }
+  }
+}
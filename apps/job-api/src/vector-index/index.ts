@@ -0,0 +1,132 @@
+import path from 'path';
+import { getDatabase } from '../services/database.js';
+import { ExactVectorIndex } from './exact.js';
+import { HnswVectorIndex } from './hnsw.js';
+import { loadPgVectorIndex } from './pgvector.js';
+import { SyncedVectorIndex } from './sync.js';
+import type { DocumentEmbedding } from '../types/rag.js';
+import type { VectorIndex, VectorIndexBackend } from './types.js';
+
+export type {
+  VectorIndex,
+  VectorIndexBackend,
+  VectorMatch,
+  VectorRecord,
+  VectorSearchOptions,
+} from './types.js';
+
+/** Embeddings lidos do MongoDB por consulta ao sincronizar o índice */
+const RECONCILE_BATCH_SIZE = 500;
+
+const BACKENDS: VectorIndexBackend[] = ['hnsw', 'exact', 'pgvector'];
+
+/**
+ * Backend do índice (`VECTOR_INDEX_BACKEND`): hnsw (padrão), exact ou pgvector
+ */
+function getBackend(): VectorIndexBackend {
+  const backend = process.env.VECTOR_INDEX_BACKEND || 'hnsw';
+  if (!BACKENDS.includes(backend as VectorIndexBackend)) {
+    throw new Error(`VECTOR_INDEX_BACKEND inválido: ${backend} (use ${BACKENDS.join(', ')})`);
+  }
+  return backend as VectorIndexBackend;
+}
+
+/**
+ * Diretório dos arquivos do índice HNSW
+ */
+function getIndexDirectory(): string {
+  return path.resolve(process.env.VECTOR_INDEX_DIR || 'data/vector-index');
+}
+
+/**
+ * Alinha o índice com document_embeddings (fonte dos trechos)
+ *
+ * Inclui trechos sem vetor no índice (índice novo, gravação perdida, troca de
+ * backend) e remove vetores de trechos que não existem mais.
+ */
+async function reconcileVectorIndex(index: VectorIndex): Promise<void> {
+  const embeddings = getDatabase().collection<DocumentEmbedding>('document_embeddings');
+  const indexed = new Set(await index.listIds());
+  const stored = new Set<string>();
+  const missing: string[] = [];
+
+  for await (const embedding of embeddings.find({ chunkIndex: { $exists: true } }, { projection: { id: 1 } })) {
+    stored.add(embedding.id);
+    if (!indexed.has(embedding.id)) missing.push(embedding.id);
+  }
+
+  const stale = [...indexed].filter(id => !stored.has(id));
+  if (stale.length > 0) {
+    await index.remove(stale);
+  }
+
+  for (let i = 0; i < missing.length; i += RECONCILE_BATCH_SIZE) {
+    const batch = await embeddings
+      .find(
+        { id: { $in: missing.slice(i, i + RECONCILE_BATCH_SIZE) } },
+        { projection: { id: 1, documentId: 1, embedding: 1 } }
+      )
+      .toArray();
+
+    await index.add(batch.map(embedding => ({
+      id: embedding.id,
+      documentId: embedding.documentId,
+      vector: embedding.embedding,
+    })));
+  }
+
+  if (stale.length > 0 || missing.length > 0) {
+    console.log(`   🔄 Índice vetorial sincronizado: ${missing.length} incluído(s), ${stale.length} removido(s)`);
+  }
+}
+
+async function createVectorIndex(backend: VectorIndexBackend): Promise<VectorIndex> {
+  let index: VectorIndex;
+
+  switch (backend) {
+    case 'exact':
+      // Lê direto do MongoDB: nada a sincronizar
+      return new ExactVectorIndex();
+    case 'pgvector':
+      index = await loadPgVectorIndex();
+      await reconcileVectorIndex(index);
+      break;
+    case 'hnsw': {
+      const hnsw = new HnswVectorIndex(getIndexDirectory());
+      await hnsw.load();
+
+      // Versões lidas antes da sincronização completa, que mexe só no grafo
+      // local (sem avisar as outras instâncias)
+      index = await SyncedVectorIndex.create(hnsw);
+      await reconcileVectorIndex(hnsw);
+      break;
+    }
+  }
+
+  console.log(`✓ Índice vetorial: ${backend}`);
+  return index;
+}
+
+// Singleton (a carga e a sincronização acontecem uma vez)
+let indexPromise: Promise<VectorIndex> | null = null;
+
+export function getVectorIndex(): Promise<VectorIndex> {
+  if (!indexPromise) {
+    indexPromise = createVectorIndex(getBackend()).catch(error => {
+      indexPromise = null;
+      throw error;
+    });
+  }
+  return indexPromise;
+}
+
+/**
+ * Grava pendências do índice (chamado no shutdown, antes de fechar o MongoDB)
+ */
+export async function closeVectorIndex(): Promise<void> {
+  if (!indexPromise) return;
+
+  const index = await indexPromise.catch(() => null);
+  indexPromise = null;
+  await index?.close();
+}
@@ -0,0 +1,167 @@
+import { neon, type NeonQueryFunction } from '@neondatabase/serverless';
+import type { VectorIndex, VectorMatch, VectorRecord, VectorSearchOptions } from './types.js';
+
+/**
+ * Linhas por INSERT (3 parâmetros por linha, abaixo do limite de 65535 do Postgres)
+ */
+const INSERT_BATCH_SIZE = 500;
+
+type SqlClient = NeonQueryFunction<false, false>;
+
+/**
+ * hnsw.ef_search em buscas filtradas sem iterative scan (máximo aceito pelo pgvector)
+ *
+ * O índice HNSW do Postgres devolve ef_search candidatos antes do WHERE; com o
+ * padrão (40), filtrar poucos documentos pode sobrar menos que topK linhas.
+ */
+const FILTERED_EF_SEARCH = 1000;
+
+function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
+/**
+ * Dimensão da coluna chunk_embeddings.embedding (no pgvector, o typmod é a dimensão)
+ */
+async function getEmbeddingDimensions(sql: SqlClient): Promise<number> {
+  const rows = (await sql.query(
+    `SELECT atttypmod AS dimensions
+       FROM pg_attribute
+      WHERE attrelid = to_regclass('chunk_embeddings') AND attname = 'embedding'`
+  )) as Array<{ dimensions: number }>;
+
+  if (!rows[0]) {
+    throw new Error('Tabela chunk_embeddings não encontrada: rode as migrações do pacote drizzle');
+  }
+  return Number(rows[0].dimensions);
+}
+
+/**
+ * pgvector 0.8+ tem iterative scan: o índice continua buscando até o filtro
+ * devolver linhas suficientes
+ */
+async function supportsIterativeScan(sql: SqlClient): Promise<boolean> {
+  const rows = (await sql.query(
+    `SELECT extversion FROM pg_extension WHERE extname = 'vector'`
+  )) as Array<{ extversion: string }>;
+
+  const [major = 0, minor = 0] = (rows[0]?.extversion ?? '0').split('.').map(Number);
+  return major > 0 || minor >= 8;
+}
+
+/**
+ * Índice no Postgres com a extensão pgvector (índice HNSW do próprio banco)
+ *
+ * A tabela chunk_embeddings é criada pelas migrações do pacote drizzle (DATABASE_URL),
+ * mas as consultas ficam aqui para rodar no build compilado do job-api. A coluna
+ * tem dimensão fixa: vetores de outro tamanho (troca de AI_MODEL_EMBEDDINGS) são
+ * recusados com erro em vez de gravados ou comparados com os antigos.
+ */
+export async function loadPgVectorIndex(): Promise<VectorIndex> {
+  const url = process.env.DATABASE_URL;
+  if (!url) {
+    throw new Error('VECTOR_INDEX_BACKEND=pgvector requer DATABASE_URL');
+  }
+
+  const sql = neon(url);
+  const [dimensions, iterativeScan] = await Promise.all([
+    getEmbeddingDimensions(sql),
+    supportsIterativeScan(sql),
+  ]);
+
+  const assertDimensions = (vector: number[]) => {
+    if (vector.length !== dimensions) {
+      throw new Error(
+        `Embedding com ${vector.length} dimensões, mas chunk_embeddings.embedding é vector(${dimensions}): ` +
+          'ajuste a coluna ao modelo de AI_MODEL_EMBEDDINGS e regenere os embeddings'
+      );
+    }
+  };
+
+  return {
+    backend: 'pgvector',
+
+    async add(records: VectorRecord[]): Promise<void> {
+      for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+        const batch = records.slice(i, i + INSERT_BATCH_SIZE);
+        const params: string[] = [];
+        const values = batch.map((record, j) => {
+          assertDimensions(record.vector);
+          params.push(record.id, record.documentId, toVectorLiteral(record.vector));
+          return `($${j * 3 + 1}, $${j * 3 + 2}, $${j * 3 + 3}::vector)`;
+        });
+
+        await sql.query(
+          `INSERT INTO chunk_embeddings (id, document_id, embedding)
+           VALUES ${values.join(', ')}
+           ON CONFLICT (id) DO UPDATE
+             SET document_id = excluded.document_id, embedding = excluded.embedding`,
+          params
+        );
+      }
+    },
+
+    async remove(ids: string[]): Promise<void> {
+      if (ids.length === 0) return;
+      await sql.query('DELETE FROM chunk_embeddings WHERE id = ANY($1::text[])', [ids]);
+    },
+
+    async removeDocument(documentId: string): Promise<void> {
+      await sql.query('DELETE FROM chunk_embeddings WHERE document_id = $1', [documentId]);
+    },
+
+    async listIds(): Promise<string[]> {
+      const rows = (await sql.query('SELECT id FROM chunk_embeddings')) as Array<{ id: string }>;
+      return rows.map(row => row.id);
+    },
+
+    /**
+     * Ordena pela distância de cosseno (operador <=>), que usa o índice HNSW
+     * chunk_embeddings_embedding_idx; com filtro de documento, o Postgres pode
+     * preferir o índice de document_id e ordenar só os trechos do documento.
+     * Se usar o HNSW, a busca filtrada roda em uma transação com iterative scan
+     * (ou ef_search ampliado), para não devolver menos que topK trechos.
+     */
+    async search(query: number[], options: VectorSearchOptions): Promise<VectorMatch[]> {
+      assertDimensions(query);
+
+      const params: unknown[] = [toVectorLiteral(query), options.topK];
+      let filter = '';
+      if (options.documentIds) {
+        params.push(options.documentIds);
+        filter = 'WHERE document_id = ANY($3::text[])';
+      }
+
+      const select = sql.query(
+        `SELECT id, document_id, embedding <=> $1::vector AS distance
+           FROM chunk_embeddings
+           ${filter}
+          ORDER BY embedding <=> $1::vector
+          LIMIT $2`,
+        params
+      );
+
+      let result: unknown;
+      if (options.documentIds) {
+        const settings = iterativeScan
+          ? ['SET LOCAL hnsw.iterative_scan = strict_order']
+          : [`SET LOCAL hnsw.ef_search = ${FILTERED_EF_SEARCH}`];
+        const results = await sql.transaction([...settings.map(setting => sql.query(setting)), select]);
+        result = results[results.length - 1];
+      } else {
+        result = await select;
+      }
+
+      const rows = result as Array<{ id: string; document_id: string; distance: number | string }>;
+
+      return rows.map(row => ({
+        id: row.id,
+        documentId: row.document_id,
+        similarity: 1 - Number(row.distance),
+      }));
+    },
+
+    // Conexão HTTP (neon): nada a encerrar
+    async close(): Promise<void> {},
+  };
+}
@@ -0,0 +1,153 @@
+import { getDatabase } from '../services/database.js';
+import type { DocumentEmbedding } from '../types/rag.js';
+import type { HnswVectorIndex } from './hnsw.js';
+import type { VectorIndex, VectorMatch, VectorRecord, VectorSearchOptions } from './types.js';
+
+/**
+ * Versão dos vetores de um documento (coleção vector_index_versions)
+ */
+interface VectorIndexVersion {
+  documentId: string;
+  version: number;
+  updatedAt: Date;
+}
+
+/**
+ * Índice HNSW local sincronizado entre instâncias da job-api pelo MongoDB
+ *
+ * O grafo vive na memória (e no disco) de cada instância. Toda inclusão ou
+ * remoção incrementa a versão do documento em `vector_index_versions`; antes
+ * de buscar, a instância compara a versão dos documentos consultados com a que
+ * já aplicou e refaz a partir de document_embeddings os que mudaram (inclusive
+ * por outra instância). A versão é incrementada depois da gravação no MongoDB,
+ * então quem lê a versão nova também lê os trechos novos.
+ */
+export class SyncedVectorIndex implements VectorIndex {
+  readonly backend = 'hnsw' as const;
+  private db = getDatabase();
+  private versions = this.db.collection<VectorIndexVersion>('vector_index_versions');
+  private embeddings = this.db.collection<DocumentEmbedding>('document_embeddings');
+
+  /** Versão de cada documento já refletida no grafo local */
+  private applied = new Map<string, number>();
+
+  private constructor(private local: HnswVectorIndex) {}
+
+  /**
+   * Cria o índice registrando as versões atuais como aplicadas
+   *
+   * Deve ser chamado antes da sincronização completa da carga: o que mudar
+   * durante ela ganha versão nova e é refeito na primeira busca.
+   */
+  static async create(local: HnswVectorIndex): Promise<SyncedVectorIndex> {
+    const index = new SyncedVectorIndex(local);
+    await index.versions.createIndex({ documentId: 1 }, { unique: true });
+
+    for await (const { documentId, version } of index.versions.find({})) {
+      index.applied.set(documentId, version);
+    }
+    return index;
+  }
+
+  async add(records: VectorRecord[]): Promise<void> {
+    await this.local.add(records);
+    await this.bump(records.map(record => record.documentId));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const documentIds = ids
+      .map(id => this.local.getDocumentId(id))
+      .filter((documentId): documentId is string => documentId !== undefined);
+
+    await this.local.remove(ids);
+    await this.bump(documentIds);
+  }
+
+  async removeDocument(documentId: string): Promise<void> {
+    await this.local.removeDocument(documentId);
+    await this.bump([documentId]);
+  }
+
+  async listIds(): Promise<string[]> {
+    return this.local.listIds();
+  }
+
+  async search(query: number[], options: VectorSearchOptions): Promise<VectorMatch[]> {
+    await this.syncDocuments(options.documentIds);
+    return this.local.search(query, options);
+  }
+
+  async close(): Promise<void> {
+    await this.local.close();
+  }
+
+  /**
+   * Avisa as outras instâncias que os vetores dos documentos mudaram
+   */
+  private async bump(documentIds: string[]): Promise<void> {
+    const unique = [...new Set(documentIds)];
+    if (unique.length === 0) return;
+
+    const now = new Date();
+    await this.versions.bulkWrite(
+      unique.map(documentId => ({
+        updateOne: {
+          filter: { documentId },
+          update: { $inc: { version: 1 }, $set: { updatedAt: now } },
+          upsert: true,
+        },
+      }))
+    );
+  }
+
+  /**
+   * Refaz no grafo local os documentos com versão mais nova que a aplicada
+   * (sem filtro, todos os documentos)
+   */
+  private async syncDocuments(documentIds?: string[]): Promise<void> {
+    const current = await this.versions
+      .find(documentIds ? { documentId: { $in: documentIds } } : {}, { projection: { documentId: 1, version: 1 } })
+      .toArray();
+
+    for (const { documentId, version } of current) {
+      if (this.applied.get(documentId) === version) continue;
+
+      await this.syncDocument(documentId);
+      this.applied.set(documentId, version);
+    }
+  }
+
+  /**
+   * Alinha os vetores de um documento com document_embeddings
+   */
+  private async syncDocument(documentId: string): Promise<void> {
+    const stored = new Set(
+      await this.embeddings.distinct('id', { documentId, chunkIndex: { $exists: true } })
+    );
+    const indexed = this.local.listDocumentIds(documentId);
+
+    const stale = indexed.filter(id => !stored.has(id));
+    const indexedSet = new Set(indexed);
+    const missing = [...stored].filter(id => !indexedSet.has(id));
+
+    if (stale.length > 0) {
+      await this.local.remove(stale);
+    }
+
+    if (missing.length > 0) {
+      const records = await this.embeddings
+        .find({ documentId, id: { $in: missing } }, { projection: { id: 1, documentId: 1, embedding: 1 } })
+        .toArray();
+
+      await this.local.add(records.map(embedding => ({
+        id: embedding.id,
+        documentId: embedding.documentId,
+        vector: embedding.embedding,
+      })));
+    }
+
+    if (stale.length > 0 || missing.length > 0) {
+      console.log(`   🔄 Índice vetorial: ${documentId} atualizado por outra instância (+${missing.length}/-${stale.length})`);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Backends disponíveis para o índice vetorial
+ */
+export type VectorIndexBackend = 'hnsw' | 'exact' | 'pgvector';
+
+/**
+ * Vetor de um trecho (mesmo id do DocumentEmbedding)
+ */
+export interface VectorRecord {
+  id: string;
+  documentId: string;
+  vector: number[];
+}
+
+/**
+ * Resultado de uma busca no índice
+ */
+export interface VectorMatch {
+  id: string;
+  documentId: string;
+
+  /** Similaridade de cosseno (-1 a 1) */
+  similarity: number;
+}
+
+export interface VectorSearchOptions {
+  topK: number;
+
+  /** Restringe a busca aos documentos informados */
+  documentIds?: string[];
+}
+
+/**
+ * Índice de vizinhos mais próximos dos embeddings de trechos
+ *
+ * O MongoDB (document_embeddings) continua sendo a fonte dos trechos; o
+ * índice guarda só id, documento e vetor, e é atualizado a cada inclusão ou
+ * remoção de embeddings (reprocessamento, regeneração do RAG).
+ */
+export interface VectorIndex {
+  readonly backend: VectorIndexBackend;
+
+  /** Inclui vetores (um id já indexado é substituído) */
+  add(records: VectorRecord[]): Promise<void>;
+
+  /** Remove vetores pelo id */
+  remove(ids: string[]): Promise<void>;
+
+  /** Remove todos os vetores de um documento */
+  removeDocument(documentId: string): Promise<void>;
+
+  /** Ids de todos os vetores indexados */
+  listIds(): Promise<string[]>;
+
+  /** Vetores mais similares à query, do mais para o menos similar */
+  search(query: number[], options: VectorSearchOptions): Promise<VectorMatch[]>;
+
+  /** Persiste pendências e libera recursos */
+  close(): Promise<void>;
+}
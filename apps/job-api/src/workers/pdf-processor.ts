@@ -1,57 +1,29 @@
+import path from 'path';
 import { ObjectId } from 'mongodb';
-import pdfParse from 'pdf-parse';
 import { getDatabase } from '../services/database.js';
-import { downloadFile } from '../services/storage.js';
+import { downloadFile, uploadFile } from '../services/storage.js';
 import { getBatchProcessorService } from '../services/batch-processor.js';
 import { getPageService } from '../services/page.js';
 import { getDocumentStructureService } from '../services/document-structure.js';
 import { getTimelineService } from '../services/timeline.js';
 import { getRiskService } from '../services/risk.js';
 import { getEntityUnificationService } from '../services/entity-unification.js';
+import { getQuarantineService } from '../services/quarantine.js';
 import { getRagService } from '../services/rag.js';
+import { getEmbeddingService } from '../services/embedding.js';
+import { getLexicalIndexService } from '../services/lexical-index.js';
+import { getOcrService } from '../services/ocr.js';
+import { getProgressService } from '../services/progress.js';
+import {
+  getProcessingControlService,
+  ProcessingInterruptedError,
+} from '../services/processing-control.js';
 import { analyzeDocumentWithBatches } from '../ai/agent.js';
+import { extractPagesFromPDF, type PageContent } from '../utils/pdf-extraction.js';
+import { convertToPdf, detectSourceFormat } from '../converters/index.js';
 import type { PDFDocument, ProcessJobData, DocumentConfig } from '../types/index.js';
-import { DEFAULT_PROCESSING_CONFIG } from '../types/entities.js';
-
-interface PageContent {
-  pageNumber: number;
-  text: string;
-}
-
-/**
- * Extrai texto de cada página do PDF
- */
-async function extractPagesFromPDF(buffer: Buffer): Promise<PageContent[]> {
-  const data = await pdfParse(buffer);
-  
-  const totalPages = data.numpages;
-  const fullText = data.text;
-  
-  const pages: PageContent[] = [];
-  
-  if (totalPages === 1) {
-    pages.push({ pageNumber: 1, text: fullText });
-  } else {
-    // Estratégia: dividir por marcadores de página ou proporcionalmente
-    const lines = fullText.split('\n');
-    const linesPerPage = Math.ceil(lines.length / totalPages);
-    
-    for (let i = 0; i < totalPages; i++) {
-      const start = i * linesPerPage;
-      const end = Math.min(start + linesPerPage, lines.length);
-      const pageText = lines.slice(start, end).join('\n').trim();
-      
-      if (pageText) {
-        pages.push({
-          pageNumber: i + 1,
-          text: pageText,
-        });
-      }
-    }
-  }
-  
-  return pages;
-}
+import type { BatchContext } from '../services/batch-processor.js';
+import { DEFAULT_PROCESSING_CONFIG, type DocumentPage } from '../types/entities.js';
 
 /**
  * Atualiza o status do documento no MongoDB
@@ -59,7 +31,8 @@ async function extractPagesFromPDF(buffer: Buffer): Promise<PageContent[]> {
 async function updateDocumentStatus(
   documentId: string,
   status: PDFDocument['status'],
-  updates: Partial<PDFDocument> = {}
+  updates: Partial<PDFDocument> = {},
+  unset: Array<keyof PDFDocument> = []
 ): Promise<void> {
   const db = getDatabase();
   
@@ -71,6 +44,9 @@ async function updateDocumentStatus(
         updatedAt: new Date(),
         ...updates,
       },
+      ...(unset.length > 0 && {
+        $unset: Object.fromEntries(unset.map(field => [field, ''])),
+      }),
     }
   );
 }
@@ -84,6 +60,8 @@ async function clearPreviousData(documentId: string): Promise<{
   sections: number;
   timeline: number;
   risks: number;
+  quarantined: number;
+  embeddings: number;
 }> {
   const pageService = getPageService();
   const structureService = getDocumentStructureService();
@@ -91,15 +69,78 @@ async function clearPreviousData(documentId: string): Promise<{
   const riskService = getRiskService();
   const unificationService = getEntityUnificationService();
 
-  const [entities, pages, sections, timeline, risks] = await Promise.all([
+  // Trechos do RAG saem também do índice vetorial e do índice lexical
+  const [entities, pages, sections, timeline, risks, quarantined, embeddings] = await Promise.all([
     unificationService.clearDocumentEntities(documentId),
     pageService.clearDocumentPages(documentId),
     structureService.clearDocumentSections(documentId),
     timelineService.clearDocumentEvents(documentId),
     riskService.clearDocumentRisks(documentId),
+    getQuarantineService().clearDocumentItems(documentId),
+    getEmbeddingService().deleteDocumentEmbeddings(documentId),
+    getLexicalIndexService().deleteIndex(documentId),
   ]);
 
-  return { entities, pages, sections, timeline, risks };
+  return { entities, pages, sections, timeline, risks, quarantined, embeddings };
+}
+
+/**
+ * Extrai as páginas do arquivo enviado
+ * 
+ * - PDF: texto nativo por página + OCR nas páginas escaneadas
+ * - DOCX/ODT/HTML/planilhas: convertido para PDF (salvo no storage para o viewer)
+ *   e as páginas são extraídas do PDF renderizado
+ */
+async function extractDocumentPages(
+  documentId: string,
+  s3Key: string,
+  fileBuffer: Buffer
+): Promise<PageContent[]> {
+  const sourceFormat = detectSourceFormat(s3Key) ?? 'pdf';
+  
+  if (sourceFormat !== 'pdf') {
+    console.log(`\n🔄 Convertendo ${sourceFormat.toUpperCase()} para PDF...`);
+    const converted = await convertToPdf(fileBuffer, sourceFormat, path.basename(s3Key));
+    
+    const renderedKey = s3Key.replace(/\.[^./]+$/, '') + '.pdf';
+    await uploadFile(renderedKey, converted.pdf);
+    await updateDocumentStatus(documentId, 'PROCESSING', {
+      s3Key: renderedKey,
+      originalS3Key: s3Key,
+      sourceFormat,
+    });
+    
+    console.log(`   ✓ ${converted.blockCount} blocos → ${converted.pages.length} página(s) (${renderedKey})`);
+    return converted.pages;
+  }
+  
+  console.log(`\n📄 Extraindo texto das páginas...`);
+  const nativePages = await extractPagesFromPDF(fileBuffer);
+  
+  // OCR para páginas escaneadas (sem camada de texto)
+  const pages = await getOcrService().applyOcrFallback(fileBuffer, nativePages);
+  const ocrPages = pages.filter(p => p.textSource === 'ocr').length;
+  const emptyPages = pages.filter(p => !p.text.trim()).length;
+  console.log(
+    `   ✓ ${pages.length} página(s) extraída(s)` +
+      `${ocrPages > 0 ? ` (${ocrPages} via OCR)` : ''}` +
+      `${emptyPages > 0 ? ` (${emptyPages} sem texto)` : ''}`
+  );
+  
+  return pages;
+}
+
+/**
+ * Carrega as páginas salvas para retomar o processamento
+ *
+ * Retorna null quando não há progresso por batch registrado (documento
+ * processado antes do controle por batch, ou falha antes da análise):
+ * nesse caso a retomada geraria duplicatas e o documento é refeito do zero.
+ */
+async function loadResumePages(documentId: string): Promise<DocumentPage[] | null> {
+  const pages = await getPageService().getPagesByDocumentId(documentId);
+  const hasBatchProgress = pages.some(page => page.batchNumber !== undefined);
+  return pages.length > 0 && hasBatchProgress ? pages : null;
 }
 
 /**
@@ -107,65 +148,123 @@ async function clearPreviousData(documentId: string): Promise<{
  * 
  * Fluxo:
  * 1. Baixa do Minio
- * 2. Extrai texto por página
+ * 2. Extrai texto por página (convertendo DOCX/ODT/HTML/planilhas para PDF)
  * 3. Divide em batches baseado no wordCap
  * 4. Processa cada batch em dois estágios:
  *    - Estágio 1: Estrutura hierárquica
  *    - Estágio 2: Entidades, timeline, riscos
  * 5. Pós-processamento: Consolidação
+ *
+ * No modo `resume` os passos 1-2 são pulados: as páginas e os resultados já
+ * unificados são mantidos e só os batches pendentes ou com falha rodam de novo
+ * (o pós-processamento roda sempre).
+ *
+ * Cancelamento/pausa pedido pelo usuário interrompe a análise e deixa o
+ * documento em CANCELLED/PAUSED; a pausa é retomada com `mode: 'resume'`.
  */
 export async function processDocument(data: ProcessJobData): Promise<void> {
-  const { documentId, s3Key, config: customConfig } = data;
+  const { documentId, s3Key, config: customConfig, mode = 'full' } = data;
   
   // Merge config com defaults
-  const config: DocumentConfig = {
+  let config: DocumentConfig = {
     wordCap: customConfig?.wordCap ?? DEFAULT_PROCESSING_CONFIG.wordCap,
     maxPagesPerBatch: customConfig?.maxPagesPerBatch ?? DEFAULT_PROCESSING_CONFIG.maxPagesPerBatch,
+    concurrency: customConfig?.concurrency ?? DEFAULT_PROCESSING_CONFIG.concurrency,
+    retryAttempts: customConfig?.retryAttempts ?? DEFAULT_PROCESSING_CONFIG.retryAttempts,
   };
 
   const batchService = getBatchProcessorService();
   const pageService = getPageService();
+  const progress = getProgressService();
+  const control = getProcessingControlService();
   
   console.log(`\n${'='.repeat(60)}`);
-  console.log(`📄 PROCESSANDO EDITAL: ${documentId}`);
+  console.log(`📄 PROCESSANDO EDITAL: ${documentId}${mode === 'resume' ? ' (retomada)' : ''}`);
   console.log(`${'='.repeat(60)}`);
   console.log(`   S3 Key: ${s3Key}`);
-  console.log(`   Config: wordCap=${config.wordCap}, maxPagesPerBatch=${config.maxPagesPerBatch}`);
   
   try {
+    // Retomada: reaproveita páginas e o wordCap/maxPagesPerBatch da primeira
+    // execução (mesma divisão → mesmos batches)
+    const resumePages = mode === 'resume' ? await loadResumePages(documentId) : null;
+    
+    if (resumePages) {
+      const document = await getDatabase()
+        .collection<PDFDocument>('documents')
+        .findOne({ _id: new ObjectId(documentId) });
+      if (document?.config) {
+        config = {
+          ...config,
+          wordCap: document.config.wordCap,
+          maxPagesPerBatch: document.config.maxPagesPerBatch,
+        };
+      }
+    } else if (mode === 'resume') {
+      console.log(`   ⚠️  Sem progresso por batch para retomar; processando do zero`);
+    }
+    
+    console.log(`   Config: wordCap=${config.wordCap}, maxPagesPerBatch=${config.maxPagesPerBatch}, concurrency=${config.concurrency}, retryAttempts=${config.retryAttempts}`);
+    
     // Atualizar status para PROCESSING
     await updateDocumentStatus(documentId, 'PROCESSING', {
       processingStartedAt: new Date(),
       config,
-    });
+    }, ['pauseReason']);
     
-    // Limpar dados anteriores (reprocessamento)
-    console.log(`\n🗑️  Limpando dados anteriores...`);
-    const cleared = await clearPreviousData(documentId);
-    if (cleared.entities > 0 || cleared.pages > 0) {
-      console.log(`   Removidos: ${cleared.entities} entidades, ${cleared.pages} páginas, ${cleared.sections} seções, ${cleared.timeline} eventos, ${cleared.risks} riscos`);
+    // Log de eventos recomeça no processamento completo; a retomada continua o anterior
+    if (!resumePages) {
+      await progress.clearEvents(documentId);
     }
     
-    // 1. Baixar PDF do Minio
-    console.log(`\n📥 Baixando PDF do storage...`);
-    const pdfBuffer = await downloadFile(s3Key);
-    console.log(`   ✓ PDF baixado (${(pdfBuffer.length / 1024).toFixed(2)} KB)`);
+    let pageRecords: DocumentPage[];
     
-    // 2. Extrair texto por página
-    console.log(`\n📄 Extraindo texto das páginas...`);
-    const pages = await extractPagesFromPDF(pdfBuffer);
-    console.log(`   ✓ ${pages.length} página(s) extraída(s)`);
-    
-    // 3. Criar registros de páginas no banco
-    console.log(`\n💾 Criando registros de páginas...`);
-    const pageRecords = await pageService.createPages(documentId, pages);
-    console.log(`   ✓ ${pageRecords.length} registros criados`);
+    if (resumePages) {
+      console.log(`\n⏯️  Retomando com ${resumePages.length} páginas já extraídas`);
+      pageRecords = resumePages;
+    } else {
+      // Limpar dados anteriores (reprocessamento)
+      console.log(`\n🗑️  Limpando dados anteriores...`);
+      const cleared = await clearPreviousData(documentId);
+      if (cleared.entities > 0 || cleared.pages > 0) {
+        console.log(`   Removidos: ${cleared.entities} entidades, ${cleared.pages} páginas, ${cleared.sections} seções, ${cleared.timeline} eventos, ${cleared.risks} riscos, ${cleared.quarantined} em quarentena, ${cleared.embeddings} trechos do RAG`);
+      }
+      
+      // 1. Baixar arquivo do Minio
+      console.log(`\n📥 Baixando arquivo do storage...`);
+      await progress.emit(documentId, { type: 'stage_started', stage: 'download', message: 'Baixando arquivo' });
+      const fileBuffer = await downloadFile(s3Key);
+      console.log(`   ✓ Arquivo baixado (${(fileBuffer.length / 1024).toFixed(2)} KB)`);
+      await progress.emit(documentId, {
+        type: 'stage_finished',
+        stage: 'download',
+        message: `Arquivo baixado (${(fileBuffer.length / 1024).toFixed(2)} KB)`,
+      });
+      
+      // 2. Extrair texto por página (convertendo formatos não-PDF quando necessário)
+      await progress.emit(documentId, { type: 'stage_started', stage: 'extraction', message: 'Extraindo texto das páginas' });
+      const pages = await extractDocumentPages(documentId, s3Key, fileBuffer);
+      
+      // 3. Criar registros de páginas no banco
+      console.log(`\n💾 Criando registros de páginas...`);
+      pageRecords = await pageService.createPages(documentId, pages);
+      console.log(`   ✓ ${pageRecords.length} registros criados`);
+      
+      const ocrPages = pages.filter(p => p.textSource === 'ocr').length;
+      await progress.emit(documentId, {
+        type: 'stage_finished',
+        stage: 'extraction',
+        message: `${pageRecords.length} página(s) extraída(s)${ocrPages > 0 ? ` (${ocrPages} via OCR)` : ''}`,
+        progress: { current: pageRecords.length, total: pageRecords.length },
+      });
+    }
     
     // 4. Calcular batches
     const processingConfig = {
       ...DEFAULT_PROCESSING_CONFIG,
       wordCap: config.wordCap,
       maxPagesPerBatch: config.maxPagesPerBatch,
+      concurrency: config.concurrency ?? DEFAULT_PROCESSING_CONFIG.concurrency,
+      retryAttempts: config.retryAttempts ?? DEFAULT_PROCESSING_CONFIG.retryAttempts,
     };
     
     const batches = batchService.calculateBatches(pageRecords, processingConfig);
@@ -175,31 +274,92 @@ export async function processDocument(data: ProcessJobData): Promise<void> {
       console.log(`   Batch ${batch.batchNumber}: páginas ${batch.pages.map(p => p.pageNumber).join(', ')} (${batch.totalWords} palavras)`);
     }
     
+    // Na retomada, só os batches com páginas pendentes/com falha
+    const pendingBatches = resumePages ? batchService.getPendingBatches(batches) : batches;
+    let context: BatchContext | undefined;
+    
+    if (resumePages) {
+      const pendingNumbers = pendingBatches.map(b => b.batchNumber);
+      console.log(`\n⏯️  ${batches.length - pendingBatches.length}/${batches.length} batch(es) já concluídos; refazendo: ${pendingNumbers.join(', ') || 'nenhum'}`);
+      
+      // Descartar o que os batches refeitos chegaram a salvar; entidades não
+      // precisam, pois são unificadas pela semanticKey
+      if (pendingNumbers.length > 0) {
+        await Promise.all([
+          getDocumentStructureService().clearBatchSections(documentId, pendingNumbers),
+          getTimelineService().clearBatchEvents(documentId, pendingNumbers),
+          getRiskService().clearBatchRisks(documentId, pendingNumbers),
+          getQuarantineService().clearBatchItems(documentId, pendingNumbers),
+        ]);
+      }
+      
+      context = await batchService.loadContext(documentId);
+    }
+    
+    const pagesAlreadyProcessed =
+      pageRecords.length - pendingBatches.reduce((sum, b) => sum + b.pages.length, 0);
+    
     // Atualizar documento com info de batches
     await updateDocumentStatus(documentId, 'PROCESSING', {
-      totalPages: pages.length,
+      totalPages: pageRecords.length,
       totalBatches: batches.length,
-      pagesProcessed: 0,
+      pagesProcessed: pagesAlreadyProcessed,
       currentBatch: 0,
     });
     
+    // Ponto de checagem: cancelamento/pausa pedido durante a extração
+    await control.throwIfRequested(documentId);
+    
     // 5. Processar documento com batches
     console.log(`\n🤖 Iniciando análise com IA...`);
+    await progress.emit(documentId, {
+      type: 'stage_started',
+      stage: 'analysis',
+      message: resumePages
+        ? `Retomando análise: ${pendingBatches.length} de ${batches.length} batch(es)`
+        : `Analisando ${batches.length} batch(es)`,
+      totalBatches: batches.length,
+      progress: { current: batches.length - pendingBatches.length, total: batches.length },
+    });
+    
+    // Batches terminam fora de ordem quando rodam em paralelo
+    let pagesDone = pagesAlreadyProcessed;
     
     const analysisResult = await analyzeDocumentWithBatches(
       documentId,
-      batches,
-      async (currentBatch, totalBatches) => {
+      pendingBatches,
+      async (finishedBatch) => {
         // Callback de progresso
+        const batch = pendingBatches.find(b => b.batchNumber === finishedBatch);
+        pagesDone += batch?.pages.length ?? 0;
         await updateDocumentStatus(documentId, 'PROCESSING', {
-          currentBatch,
-          pagesProcessed: batches
-            .slice(0, currentBatch)
-            .reduce((sum, b) => sum + b.pages.length, 0),
+          currentBatch: finishedBatch,
+          pagesProcessed: pagesDone,
         });
-      }
+      },
+      { context, config: processingConfig }
     );
     
+    await progress.emit(documentId, {
+      type: 'stage_finished',
+      stage: 'analysis',
+      message: `${analysisResult.batchResults.filter(b => b.success).length}/${analysisResult.totalBatches} batch(es) concluídos`,
+      totalBatches: batches.length,
+      counts: {
+        sections: analysisResult.totalSections,
+        entities: analysisResult.totalEntities,
+        timelineEvents: analysisResult.totalTimelineEvents,
+        risks: analysisResult.totalRisks,
+      },
+    });
+    
+    // Batches em paralelo projetam as datas relativas com o que cada um já via;
+    // uma passada final com todos os eventos garante o resultado
+    const relativeDates = await getTimelineService().resolveRelativeDates(documentId);
+    if (relativeDates.projected > 0 || relativeDates.unresolved > 0) {
+      console.log(`   📅 Datas relativas: ${relativeDates.projected} projetada(s), ${relativeDates.unresolved} sem data`);
+    }
+    
     // 6. Atualizar status final
     const finalStatus: PDFDocument['status'] = analysisResult.success 
       ? 'COMPLETED' 
@@ -207,7 +367,7 @@ export async function processDocument(data: ProcessJobData): Promise<void> {
     
     await updateDocumentStatus(documentId, finalStatus, {
       processingCompletedAt: new Date(),
-      pagesProcessed: pages.length,
+      pagesProcessed: pageRecords.length,
       currentBatch: batches.length,
     });
     
@@ -215,14 +375,36 @@ export async function processDocument(data: ProcessJobData): Promise<void> {
     let embeddingsCreated = 0;
     if (analysisResult.success) {
       console.log(`\n🔢 Gerando embeddings para RAG...`);
+      await progress.emit(documentId, { type: 'stage_started', stage: 'embeddings', message: 'Gerando embeddings para o chat' });
       try {
         const ragService = getRagService();
-        const embeddingResult = await ragService.prepareDocument(documentId);
+        const embeddingResult = await ragService.prepareDocument(documentId, (current, total) =>
+          progress.emit(documentId, {
+            type: 'embedding_progress',
+            stage: 'embeddings',
+            message: `Embeddings: ${current}/${total} trecho(s)`,
+            progress: { current, total },
+          })
+        );
+        if (!embeddingResult.success) {
+          throw new Error(embeddingResult.error);
+        }
         embeddingsCreated = embeddingResult.created;
         console.log(`   ✓ ${embeddingsCreated} embeddings criados`);
+        await progress.emit(documentId, {
+          type: 'stage_finished',
+          stage: 'embeddings',
+          message: `${embeddingsCreated} embedding(s) criado(s)`,
+        });
       } catch (embeddingError) {
         console.error(`   ⚠️  Erro ao gerar embeddings (não crítico):`, embeddingError);
         // Não falha o processamento por erro de embedding
+        await progress.emit(documentId, {
+          type: 'error',
+          stage: 'embeddings',
+          message: 'Erro ao gerar embeddings (o chat pode ficar indisponível)',
+          error: embeddingError instanceof Error ? embeddingError.message : 'Erro desconhecido',
+        });
       }
     }
     
@@ -231,8 +413,8 @@ export async function processDocument(data: ProcessJobData): Promise<void> {
     console.log(`✅ PROCESSAMENTO CONCLUÍDO`);
     console.log(`${'='.repeat(60)}`);
     console.log(`   Status: ${finalStatus}`);
-    console.log(`   Páginas: ${pages.length}`);
-    console.log(`   Batches: ${analysisResult.totalBatches}`);
+    console.log(`   Páginas: ${pageRecords.length}`);
+    console.log(`   Batches: ${analysisResult.totalBatches}${resumePages ? ` de ${batches.length} (retomada)` : ''}`);
     console.log(`   Seções: ${analysisResult.totalSections}`);
     console.log(`   Entidades: ${analysisResult.totalEntities}`);
     console.log(`   Timeline: ${analysisResult.totalTimelineEvents} eventos`);
@@ -240,23 +422,67 @@ export async function processDocument(data: ProcessJobData): Promise<void> {
     console.log(`   Embeddings RAG: ${embeddingsCreated}`);
     console.log(`   Tempo total: ${(analysisResult.totalProcessingTimeMs / 1000).toFixed(2)}s`);
     
-    if (!analysisResult.success) {
+    if (analysisResult.success) {
+      // Pedido que chegou depois do último ponto de checagem não se aplica mais
+      await control.clear(documentId);
+      await progress.emit(documentId, {
+        type: 'completed',
+        message: `Processamento concluído em ${(analysisResult.totalProcessingTimeMs / 1000).toFixed(1)}s`,
+        counts: {
+          sections: analysisResult.totalSections,
+          entities: analysisResult.totalEntities,
+          timelineEvents: analysisResult.totalTimelineEvents,
+          risks: analysisResult.totalRisks,
+        },
+      });
+    } else {
       const failedBatches = analysisResult.batchResults.filter(b => !b.success);
       console.log(`\n⚠️  ${failedBatches.length} batch(es) falharam:`);
       for (const fb of failedBatches) {
         console.log(`   - Batch ${fb.batchNumber}: ${fb.error}`);
       }
+
+      // Falha do job: a fila agenda nova tentativa (o evento failed sai no catch)
+      throw new Error(
+        `${failedBatches.length} batch(es) falharam: ${failedBatches.map(fb => fb.batchNumber).join(', ')}`
+      );
     }
     
   } catch (error) {
+    if (error instanceof ProcessingInterruptedError) {
+      const status: PDFDocument['status'] = error.action === 'cancel' ? 'CANCELLED' : 'PAUSED';
+      console.log(`\n⏹️  ${error.message.toUpperCase()}: ${documentId}`);
+      
+      await updateDocumentStatus(documentId, status, {
+        processingCompletedAt: new Date(),
+        ...(error.reason && { pauseReason: error.reason }),
+      });
+      await control.clear(documentId);
+      await progress.emit(documentId, {
+        type: error.action === 'cancel' ? 'cancelled' : 'paused',
+        message: error.action === 'cancel'
+          ? 'Processamento cancelado'
+          : error.reason
+            ? `Processamento pausado: ${error.reason}; ajuste o orçamento e retome para continuar`
+            : 'Processamento pausado; retome para continuar dos batches pendentes',
+      });
+      
+      // Re-lança para a fila encerrar o job sem nova tentativa
+      throw error;
+    }
+    
     console.error(`\n❌ ERRO AO PROCESSAR EDITAL ${documentId}:`, error);
     
+    const message = error instanceof Error ? error.message : 'Erro desconhecido';
     await updateDocumentStatus(documentId, 'FAILED', {
       processingCompletedAt: new Date(),
-      error: error instanceof Error ? error.message : 'Erro desconhecido',
+      error: message,
     });
+    await control.clear(documentId);
+    await progress.emit(documentId, { type: 'failed', message: 'Processamento falhou', error: message });
     
-    // Não re-lança o erro para não derrubar a fila
+    // Re-lança para a fila registrar a tentativa (retry/dead-letter)
+    throw error;
   }
 }
 
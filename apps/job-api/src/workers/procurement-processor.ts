@@ -0,0 +1,149 @@
+import { downloadFile } from '../services/storage.js';
+import { getPageService } from '../services/page.js';
+import { getProcurementService, classifyByContent } from '../services/procurement.js';
+import { getProcessingControlService, ProcessingInterruptedError } from '../services/processing-control.js';
+import { processDocument } from './pdf-processor.js';
+import type { ProcessProcurementJobData } from '../types/index.js';
+
+/**
+ * Processa uma licitação enviada como ZIP
+ *
+ * Fluxo:
+ * 1. Expande o ZIP em documentos filhos (até a expansão ser concluída)
+ * 2. Processa cada filho em sequência, do edital às planilhas
+ * 3. Reclassifica pelo conteúdo os filhos cujo nome não era conclusivo
+ * 4. Consolida o status da licitação
+ *
+ * Se nenhum filho for concluído o erro é propagado para a fila, que agenda
+ * nova tentativa; filhos já COMPLETED não são reprocessados.
+ *
+ * Entidades, timeline e riscos continuam salvos por documento filho;
+ * a agregação no nível da licitação é feita na leitura (ProcurementService).
+ */
+export async function processProcurement(data: ProcessProcurementJobData): Promise<void> {
+  const { procurementId, s3Key, config } = data;
+  const procurementService = getProcurementService();
+  const pageService = getPageService();
+  const control = getProcessingControlService();
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`📦 PROCESSANDO LICITAÇÃO: ${procurementId}`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`   S3 Key: ${s3Key}`);
+
+  try {
+    await procurementService.updateProcurement(procurementId, 'PROCESSING', {
+      processingStartedAt: new Date(),
+      error: undefined,
+    });
+
+    // 1. Expandir o pacote; uma expansão interrompida é completada (os filhos
+    //    já criados são reaproveitados)
+    const procurement = await procurementService.getProcurement(procurementId);
+
+    if (!procurement?.expandedAt) {
+      console.log(`\n📥 Expandindo pacote ZIP...`);
+      const zipBuffer = await downloadFile(s3Key);
+      const expanded = await procurementService.expandBundle(procurementId, zipBuffer);
+
+      console.log(`   ✓ ${expanded.children.length} arquivo(s) extraído(s)`);
+      if (expanded.skippedFiles.length > 0) {
+        console.log(`   ⚠️  Ignorados (formato não suportado): ${expanded.skippedFiles.join(', ')}`);
+      }
+    }
+
+    const children = await procurementService.getChildren(procurementId);
+
+    if (children.length === 0) {
+      throw new Error('Nenhum arquivo suportado encontrado no pacote');
+    }
+
+    for (const child of children) {
+      console.log(`   - [${child.documentRole}] ${child.filename}`);
+    }
+
+    // 2. Processar filhos em sequência (nova tentativa pula os já concluídos)
+    for (const [index, child] of children.entries()) {
+      // Cancelamento pedido enquanto o filho anterior terminava
+      await control.throwIfProcurementRequested(procurementId);
+
+      const documentId = child._id!.toString();
+      console.log(`\n📄 [${index + 1}/${children.length}] ${child.filename}`);
+
+      if (child.status === 'COMPLETED') {
+        console.log(`   ⏭️  Já processado`);
+      } else {
+        try {
+          // Filho que falhou ou foi pausado retoma dos batches pendentes
+          const mode = child.status === 'FAILED' || child.status === 'PAUSED' ? 'resume' : 'full';
+          await processDocument({ documentId, s3Key: child.s3Key, config, mode });
+        } catch (error) {
+          // Cancelamento/pausa do filho interrompe a licitação inteira
+          if (error instanceof ProcessingInterruptedError) throw error;
+          // Falha já registrada no documento filho; segue para o próximo
+          continue;
+        }
+      }
+
+      // 3. Reclassificar pelo conteúdo da primeira página (também nos já
+      //    processados, caso a tentativa anterior tenha parado antes disso)
+      if (child.roleFromFilename === false) {
+        const firstPage = await pageService.getPageByNumber(documentId, 1);
+        if (firstPage?.text) {
+          const role = classifyByContent(firstPage.text);
+          if (role !== child.documentRole) {
+            await procurementService.updateDocumentRole(documentId, role);
+            console.log(`   🏷️  Reclassificado como ${role}`);
+          }
+        }
+      }
+    }
+
+    // 4. Consolidar status
+    //    (filhos pausados/cancelados também contam como não concluídos)
+    const processed = await procurementService.getChildren(procurementId);
+    const incomplete = processed.filter(child => child.status !== 'COMPLETED');
+    const incompleteSummary = `${incomplete.length} documento(s) não concluídos: ${incomplete.map(child => `${child.filename} (${child.status})`).join(', ')}`;
+
+    // Nenhum filho concluído: falha do job (a fila agenda nova tentativa)
+    if (incomplete.length === processed.length) {
+      throw new Error(incompleteSummary);
+    }
+
+    await procurementService.updateProcurement(procurementId, 'COMPLETED', {
+      processingCompletedAt: new Date(),
+      error: incomplete.length > 0 ? incompleteSummary : undefined,
+    });
+    await control.clearProcurement(procurementId);
+
+    console.log(`\n${'='.repeat(60)}`);
+    console.log(`✅ LICITAÇÃO CONCLUÍDA`);
+    console.log(`${'='.repeat(60)}`);
+    console.log(`   Documentos: ${processed.length} (${incomplete.length} não concluído(s))`);
+  } catch (error) {
+    if (error instanceof ProcessingInterruptedError) {
+      const status = error.action === 'cancel' ? 'CANCELLED' : 'PAUSED';
+      console.log(`\n⏹️  ${error.message.toUpperCase()}: licitação ${procurementId}`);
+
+      await procurementService.updateProcurement(procurementId, status, {
+        processingCompletedAt: new Date(),
+        error: error.reason,
+      });
+      await control.clearProcurement(procurementId);
+
+      // Re-lança para a fila encerrar o job sem nova tentativa
+      throw error;
+    }
+
+    console.error(`\n❌ ERRO AO PROCESSAR LICITAÇÃO ${procurementId}:`, error);
+
+    await procurementService.updateProcurement(procurementId, 'FAILED', {
+      processingCompletedAt: new Date(),
+      error: error instanceof Error ? error.message : 'Erro desconhecido',
+    });
+    await control.clearProcurement(procurementId);
+
+    // Re-lança para a fila registrar a tentativa (retry/dead-letter)
+    throw error;
+  }
+}
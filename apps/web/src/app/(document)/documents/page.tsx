@@ -1,13 +1,29 @@
 'use client'
 
 import Link from 'next/link'
-import { useDocuments } from '@/lib/hooks'
+import {
+  useDocuments,
+  useInterruptDocument,
+  useResumeDocument,
+} from '@/lib/hooks'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@workspace/ui/components/card'
 import { Badge } from '@workspace/ui/components/badge'
 import { Button } from '@workspace/ui/components/button'
-import { FileText, Clock, CheckCircle2, XCircle, Loader2 } from 'lucide-react'
-import { documentStatus as statusLabels, ui } from '@/lib/i18n'
-import type { DocumentStatus } from '@/lib/api-client'
+import {
+  FileText,
+  Clock,
+  CheckCircle2,
+  XCircle,
+  Loader2,
+  Pause,
+  PauseCircle,
+  Play,
+  Square,
+  Ban,
+  Library,
+} from 'lucide-react'
+import { documentStatus as statusLabels, documentRoles, ui } from '@/lib/i18n'
+import type { DocumentStatus, ProcessingControlAction } from '@/lib/api-client'
 
 export default function DocumentsPage() {
   const { data, isLoading, error } = useDocuments()
@@ -45,12 +61,20 @@ export default function DocumentsPage() {
             Gerencie e visualize seus documentos
           </p>
         </div>
-        <Button asChild>
-          <Link href="/">
-            <FileText className="mr-2 h-4 w-4" />
-            {ui.novoDocumento}
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/library">
+              <Library className="mr-2 h-4 w-4" />
+              {ui.biblioteca}
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/">
+              <FileText className="mr-2 h-4 w-4" />
+              {ui.novoDocumento}
+            </Link>
+          </Button>
+        </div>
       </div>
 
       {documents.length === 0 ? (
@@ -80,6 +104,20 @@ export default function DocumentsPage() {
                     <StatusBadge status={doc.status} />
                   </div>
                   <CardTitle className="line-clamp-1">{doc.filename}</CardTitle>
+                  {doc.documentRole && (
+                    <Badge variant="outline" className="w-fit">
+                      {documentRoles[doc.documentRole]}
+                    </Badge>
+                  )}
+                  {doc.tags && doc.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {doc.tags.map((tag) => (
+                        <Badge key={tag} variant="secondary" className="font-normal">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
                   <CardDescription>
                     {doc.totalPages
                       ? `${doc.totalPages} ${ui.paginas}`
@@ -100,6 +138,16 @@ export default function DocumentsPage() {
                       {doc.error}
                     </p>
                   )}
+                  {doc.status === 'PAUSED' && doc.pauseReason && (
+                    <p className="text-sm text-sky-800 dark:text-sky-200 mt-2 line-clamp-2">
+                      {doc.pauseReason}
+                    </p>
+                  )}
+                  <ProcessingControls
+                    documentId={docId}
+                    status={doc.status}
+                    controlRequest={doc.controlRequest}
+                  />
                 </CardContent>
               </Card>
             )
@@ -149,6 +197,19 @@ function StatusBadge({ status }: { status: DocumentStatus }) {
       icon: XCircle,
       className: '',
     },
+    PAUSED: {
+      label: statusLabels.PAUSED,
+      variant: 'outline' as const,
+      icon: PauseCircle,
+      className:
+        'bg-sky-100 text-sky-800 border-sky-300 dark:bg-sky-950 dark:text-sky-200 dark:border-sky-700',
+    },
+    CANCELLED: {
+      label: statusLabels.CANCELLED,
+      variant: 'secondary' as const,
+      icon: Ban,
+      className: '',
+    },
   }
 
   const config = statusConfig[status] || statusConfig.PENDING
@@ -161,3 +222,82 @@ function StatusBadge({ status }: { status: DocumentStatus }) {
     </Badge>
   )
 }
+
+/**
+ * Pausar/cancelar enquanto processa e retomar quando pausado
+ * Em execução o worker só para após a etapa atual: o pedido fica pendente até lá
+ */
+function ProcessingControls({
+  documentId,
+  status,
+  controlRequest,
+}: {
+  documentId: string
+  status: DocumentStatus
+  controlRequest?: ProcessingControlAction
+}) {
+  const interruptMutation = useInterruptDocument()
+  const resumeMutation = useResumeDocument()
+
+  const interrupt = (action: ProcessingControlAction) =>
+    interruptMutation.mutate({ documentId, action })
+
+  if (status === 'PAUSED') {
+    return (
+      <div className="mt-4 flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          disabled={resumeMutation.isPending}
+          onClick={() => resumeMutation.mutate(documentId)}
+          title={ui.retomarDescricao}
+        >
+          {resumeMutation.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Play className="h-4 w-4" />
+          )}
+          {ui.retomar}
+        </Button>
+      </div>
+    )
+  }
+
+  if (status !== 'PROCESSING' && status !== 'PENDING') return null
+
+  if (controlRequest) {
+    return (
+      <p className="mt-4 flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {controlRequest === 'cancel' ? ui.cancelando : ui.pausando}
+      </p>
+    )
+  }
+
+  return (
+    <div className="mt-4 flex gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        disabled={interruptMutation.isPending}
+        onClick={() => interrupt('pause')}
+      >
+        <Pause className="h-4 w-4" />
+        {ui.pausar}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2 text-destructive"
+        disabled={interruptMutation.isPending}
+        onClick={() => interrupt('cancel')}
+        title={ui.cancelarProcessamento}
+      >
+        <Square className="h-4 w-4" />
+        {ui.cancelar}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+'use client'
+
+import Link from 'next/link'
+import { Button } from '@workspace/ui/components/button'
+import { ArrowLeft } from 'lucide-react'
+import { LibraryChat } from '@/components'
+import { ui } from '@/lib/i18n'
+
+export default function LibraryPage() {
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">{ui.biblioteca}</h1>
+          <p className="text-muted-foreground mt-2">{ui.bibliotecaDescricao}</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/documents">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {ui.documentos}
+          </Link>
+        </Button>
+      </div>
+
+      <LibraryChat />
+    </div>
+  )
+}
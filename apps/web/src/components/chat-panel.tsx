@@ -26,6 +26,16 @@ import {
 } from '@/lib/hooks'
 import type { ChatMessage, Conversation } from '@/lib/api-client'
 
+// Rótulos das consultas do assistente à análise do documento (tools do chat)
+const TOOL_LABELS: Record<string, string> = {
+  getTimeline: 'Consultando o cronograma',
+  getCriticalEvents: 'Consultando eventos críticos',
+  findEntities: 'Buscando entidades extraídas',
+  getRisksByScore: 'Consultando riscos',
+  getSectionPath: 'Consultando a estrutura do documento',
+  getPageByNumber: 'Lendo a página',
+}
+
 interface ChatPanelProps {
   documentId?: string
   documentName?: string
@@ -39,6 +49,9 @@ export function ChatPanel({ documentId, documentName, className }: ChatPanelProp
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
   const [showConversations, setShowConversations] = useState(false)
   const [localMessages, setLocalMessages] = useState<ChatMessage[]>([])
+  // Resposta do assistente em stream (texto parcial e consulta em andamento)
+  const [streamingText, setStreamingText] = useState('')
+  const [activeTool, setActiveTool] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
@@ -63,7 +76,7 @@ export function ChatPanel({ documentId, documentName, className }: ChatPanelProp
   // Scroll para baixo quando mensagens mudam
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [localMessages])
+  }, [localMessages, streamingText])
 
   const handlePrepareRag = async () => {
     if (!documentId) return
@@ -100,6 +113,14 @@ export function ChatPanel({ documentId, documentName, className }: ChatPanelProp
         documentId,
         message: messageText,
         conversationId: activeConversationId || undefined,
+        onEvent: (event) => {
+          if (event.event === 'delta') {
+            setActiveTool(null)
+            setStreamingText((prev) => prev + event.data.text)
+          } else if (event.event === 'tool') {
+            setActiveTool(event.data.toolName)
+          }
+        },
       })
       console.log('Resposta recebida:', response)
 
@@ -121,6 +142,9 @@ export function ChatPanel({ documentId, documentName, className }: ChatPanelProp
       console.error('Erro ao enviar mensagem:', error)
       // Remover mensagem temporária em caso de erro
       setLocalMessages((prev) => prev.filter((m) => m.id !== tempUserMessage.id))
+    } finally {
+      setStreamingText('')
+      setActiveTool(null)
     }
   }
 
@@ -388,10 +412,27 @@ export function ChatPanel({ documentId, documentName, className }: ChatPanelProp
             <div className="w-8 h-8 rounded-full bg-card border border-border flex items-center justify-center shrink-0">
               <Bot className="w-4 h-4 text-primary" />
             </div>
-            <div className="bg-card border border-border p-3 rounded-2xl rounded-tl-none shadow-sm flex gap-1 items-center">
-              <span className="w-1.5 h-1.5 bg-muted-foreground rounded-full animate-bounce" />
-              <span className="w-1.5 h-1.5 bg-muted-foreground rounded-full animate-bounce [animation-delay:0.2s]" />
-              <span className="w-1.5 h-1.5 bg-muted-foreground rounded-full animate-bounce [animation-delay:0.4s]" />
+            <div className="flex flex-col gap-1 max-w-[80%]">
+              {streamingText ? (
+                <div className="bg-card border border-border text-foreground p-3 rounded-2xl rounded-tl-none text-sm leading-relaxed shadow-sm whitespace-pre-wrap">
+                  {streamingText}
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-muted-foreground animate-pulse" />
+                </div>
+              ) : (
+                <div className="bg-card border border-border p-3 rounded-2xl rounded-tl-none shadow-sm flex gap-1 items-center w-fit">
+                  <span className="w-1.5 h-1.5 bg-muted-foreground rounded-full animate-bounce" />
+                  <span className="w-1.5 h-1.5 bg-muted-foreground rounded-full animate-bounce [animation-delay:0.2s]" />
+                  <span className="w-1.5 h-1.5 bg-muted-foreground rounded-full animate-bounce [animation-delay:0.4s]" />
+                </div>
+              )}
+
+              {/* Consulta do assistente à análise do documento */}
+              {activeTool && (
+                <div className="flex items-center gap-1 text-xs text-muted-foreground px-1">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  {TOOL_LABELS[activeTool] || 'Consultando o documento'}...
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -5,6 +5,7 @@ import {
   useDocument,
   useDocumentPdfUrl,
   useProcessDocument,
+  useResumeDocument,
   useStructure,
   useTimeline,
   useRisks,
@@ -25,6 +26,7 @@ import {
   Loader2,
   MessageSquare,
   Play,
+  RotateCcw,
   ZoomIn,
   ZoomOut,
 } from 'lucide-react'
@@ -34,9 +36,10 @@ import { useState, useMemo, useEffect } from 'react'
 import type { PdfHighlightData } from './pdf-viewer'
 import { CommentsPanel } from './comments-panel'
 import { HierarchyTree } from './hierarchy-tree'
-import { TimelineView } from './timeline-view'
+import { CriticalPathPanel, TimelineView } from './timeline-view'
 import { RiskPanel } from './risk-panel'
 import { ChatPanel } from './chat-panel'
+import { ProcessingLog } from './processing-log'
 
 // Dynamic import para evitar SSR do PDF.js
 const PdfViewerWithStates = dynamic(
@@ -79,8 +82,11 @@ export function DocumentViewer({
     isLoading: docLoading,
     error: docError,
     refetch: refetchDoc,
+    events: processingEvents,
+    isStreaming,
   } = useDocument(documentId)
   const processMutation = useProcessDocument()
+  const resumeMutation = useResumeDocument()
   const {
     data: timelineData,
     isLoading: timelineLoading,
@@ -235,16 +241,27 @@ export function DocumentViewer({
     setCommentsOpen(true)
   }
 
-  const handleProcessDocument = async () => {
+  const handleProcessDocument = async (mode?: 'full' | 'resume') => {
     if (!documentId) return
     try {
-      await processMutation.mutateAsync(documentId)
+      await processMutation.mutateAsync({ documentId, mode })
       await refetchDoc()
     } catch (err) {
       console.error('Erro ao processar documento:', err)
     }
   }
 
+  // Pausado: retoma pelo endpoint próprio (volta a PENDING e reabre o log ao vivo)
+  const handleResumeDocument = async () => {
+    if (!documentId) return
+    try {
+      await resumeMutation.mutateAsync(documentId)
+      await refetchDoc()
+    } catch (err) {
+      console.error('Erro ao retomar documento:', err)
+    }
+  }
+
   const handlePageChange = (direction: 'prev' | 'next') => {
     if (direction === 'prev') {
       setCurrentPage((prev) => Math.max(1, prev - 1))
@@ -313,7 +330,7 @@ export function DocumentViewer({
             <Button
               variant="default"
               size="sm"
-              onClick={handleProcessDocument}
+              onClick={() => handleProcessDocument()}
               disabled={processMutation.isPending}
               className="gap-2 ml-4"
             >
@@ -330,6 +347,33 @@ export function DocumentViewer({
               )}
             </Button>
           )}
+
+          {(document.status === 'FAILED' || document.status === 'PAUSED') && (
+            <Button
+              variant="default"
+              size="sm"
+              onClick={() =>
+                document.status === 'PAUSED'
+                  ? handleResumeDocument()
+                  : handleProcessDocument('resume')
+              }
+              disabled={processMutation.isPending || resumeMutation.isPending}
+              className="gap-2 ml-4"
+              title={ui.retomarDescricao}
+            >
+              {processMutation.isPending || resumeMutation.isPending ? (
+                <>
+                  <Loader2 size={16} className="animate-spin" />
+                  {ui.processando}
+                </>
+              ) : (
+                <>
+                  <RotateCcw size={16} />
+                  {ui.retomar}
+                </>
+              )}
+            </Button>
+          )}
         </div>
 
         {/* Center: Zoom Controls */}
@@ -408,10 +452,22 @@ export function DocumentViewer({
                 ) : document.status === 'PROCESSING' ? (
                   <>
                     <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2" />
-                    <p className="font-medium">Processando documento...</p>
+                    <p className="font-medium mb-4">Processando documento...</p>
+                    <ProcessingLog
+                      events={processingEvents}
+                      isStreaming={isStreaming}
+                    />
                   </>
                 ) : (
-                  <p>PDF não disponível</p>
+                  <>
+                    <p>PDF não disponível</p>
+                    {processingEvents.length > 0 && (
+                      <ProcessingLog
+                        events={processingEvents}
+                        className="mt-4"
+                      />
+                    )}
+                  </>
                 )}
               </div>
             </div>
@@ -571,12 +627,24 @@ export function DocumentViewer({
                     {timelineError.message}
                   </div>
                 ) : (
-                  <TimelineView
-                    events={timeline}
-                    selectedId={selectedItem?.event?.id}
-                    onSelect={handleTimelineSelect}
-                    onCommentsClick={handleCommentsClick}
-                  />
+                  <>
+                    {documentId && (
+                      <CriticalPathPanel
+                        documentId={documentId}
+                        selectedId={selectedItem?.event?.id}
+                        onSelectEvent={(eventId) => {
+                          const event = timeline.find((e) => e.id === eventId)
+                          if (event) handleTimelineSelect(event)
+                        }}
+                      />
+                    )}
+                    <TimelineView
+                      events={timeline}
+                      selectedId={selectedItem?.event?.id}
+                      onSelect={handleTimelineSelect}
+                      onCommentsClick={handleCommentsClick}
+                    />
+                  </>
                 )}
               </>
             )}
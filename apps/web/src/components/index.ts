@@ -12,4 +12,6 @@ export { TimelineView, TimelineByPhase, EventDetail } from './timeline-view'
 export { CommentsPanel, CommentsInline } from './comments-panel'
 export { RiskPanel, RiskDetail } from './risk-panel'
 export { ChatPanel } from './chat-panel'
+export { ProcessingLog } from './processing-log'
 
+export { LibraryChat } from './library-chat'
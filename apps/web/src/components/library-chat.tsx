@@ -0,0 +1,391 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import Link from 'next/link'
+import { cn } from '@workspace/ui/lib/utils'
+import { Button } from '@workspace/ui/components/button'
+import { Badge } from '@workspace/ui/components/badge'
+import {
+  Send,
+  Bot,
+  User,
+  Sparkles,
+  Loader2,
+  AlertCircle,
+  MessageSquarePlus,
+  FileText,
+  Trash2,
+  Library,
+} from 'lucide-react'
+import {
+  useLibraryDocuments,
+  useLibraryConversations,
+  useLibraryConversation,
+  useSendLibraryMessage,
+  useDeleteLibraryConversation,
+} from '@/lib/hooks'
+import { documentStatus as statusLabels, ui } from '@/lib/i18n'
+import type {
+  DocumentStatus,
+  LibraryChatMessage,
+  LibraryFilters,
+  LibrarySource,
+} from '@/lib/api-client'
+
+const FILTER_STATUSES: DocumentStatus[] = ['COMPLETED', 'PROCESSING', 'PAUSED', 'FAILED']
+
+/**
+ * Chat sobre toda a biblioteca de editais
+ * Os filtros (status, período de envio e tags) definem os documentos consultados;
+ * cada resposta lista as fontes com documento e página
+ */
+export function LibraryChat({ className }: { className?: string }) {
+  const [inputValue, setInputValue] = useState('')
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
+  const [localMessages, setLocalMessages] = useState<LibraryChatMessage[]>([])
+  const [status, setStatus] = useState<DocumentStatus[]>(['COMPLETED'])
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [tagsInput, setTagsInput] = useState('')
+  const messagesEndRef = useRef<HTMLDivElement>(null)
+
+  const filters: LibraryFilters = {
+    status,
+    from: from || undefined,
+    to: to || undefined,
+    tags: tagsInput
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+  }
+
+  const { data: documentsData, isLoading: documentsLoading } = useLibraryDocuments(filters)
+  const { data: conversationsData } = useLibraryConversations()
+  const { data: conversationData, isLoading: conversationLoading } = useLibraryConversation(
+    activeConversationId || undefined,
+  )
+  const sendMessageMutation = useSendLibraryMessage()
+  const deleteConversationMutation = useDeleteLibraryConversation()
+
+  // Carregar histórico (e filtros) da conversa selecionada
+  useEffect(() => {
+    if (!conversationData) return
+    setLocalMessages(conversationData.messages)
+    const saved = conversationData.conversation.filters
+    if (saved) {
+      setStatus(saved.status?.length ? saved.status : ['COMPLETED'])
+      setFrom(saved.from || '')
+      setTo(saved.to || '')
+      setTagsInput(saved.tags?.join(', ') || '')
+    }
+  }, [conversationData])
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [localMessages])
+
+  const handleSendMessage = async () => {
+    const message = inputValue.trim()
+    if (!message || sendMessageMutation.isPending) return
+
+    setInputValue('')
+    setLocalMessages((prev) => [
+      ...prev,
+      {
+        id: `temp-${Date.now()}`,
+        role: 'user',
+        content: message,
+        createdAt: new Date().toISOString(),
+      },
+    ])
+
+    try {
+      const response = await sendMessageMutation.mutateAsync({
+        message,
+        conversationId: activeConversationId || undefined,
+        filters,
+      })
+
+      setActiveConversationId(response.conversationId)
+      setLocalMessages((prev) => [
+        ...prev,
+        {
+          id: response.messageId,
+          role: 'assistant',
+          content: response.content,
+          sources: response.sources,
+          createdAt: new Date().toISOString(),
+        },
+      ])
+    } catch (error) {
+      console.error('Erro ao enviar mensagem da biblioteca:', error)
+    }
+  }
+
+  const handleNewConversation = () => {
+    setActiveConversationId(null)
+    setLocalMessages([])
+  }
+
+  const handleDeleteConversation = async (conversationId: string) => {
+    await deleteConversationMutation.mutateAsync(conversationId)
+    if (conversationId === activeConversationId) {
+      handleNewConversation()
+    }
+  }
+
+  const toggleStatus = (value: DocumentStatus) => {
+    setStatus((prev) =>
+      prev.includes(value) ? prev.filter((item) => item !== value) : [...prev, value],
+    )
+  }
+
+  const conversations = conversationsData?.conversations || []
+  const documentCount = documentsData?.total ?? 0
+  const isLoading = sendMessageMutation.isPending
+
+  return (
+    <div className={cn('grid gap-4 lg:grid-cols-[280px_1fr]', className)}>
+      {/* Filtros e conversas */}
+      <aside className="flex flex-col gap-4">
+        <div className="bg-card border border-border rounded-xl p-4 space-y-4">
+          <h3 className="font-semibold text-sm">{ui.filtrosBiblioteca}</h3>
+
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">{ui.status}</p>
+            <div className="flex flex-wrap gap-1">
+              {FILTER_STATUSES.map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => toggleStatus(value)}
+                  className={cn(
+                    'px-2 py-1 rounded-md text-xs border transition-colors',
+                    status.includes(value)
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : 'bg-background border-border text-muted-foreground hover:bg-muted',
+                  )}
+                >
+                  {statusLabels[value]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>{ui.enviadosDe}</span>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="w-full border border-input rounded-md px-2 py-1 text-sm bg-background text-foreground"
+              />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>{ui.enviadosAte}</span>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="w-full border border-input rounded-md px-2 py-1 text-sm bg-background text-foreground"
+              />
+            </label>
+          </div>
+
+          <label className="block text-xs text-muted-foreground space-y-1">
+            <span>{ui.tags}</span>
+            <input
+              type="text"
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              placeholder="obras, ti"
+              className="w-full border border-input rounded-md px-2 py-1 text-sm bg-background text-foreground placeholder:text-muted-foreground"
+            />
+          </label>
+
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            {documentsLoading ? (
+              <Loader2 className="w-3 h-3 animate-spin" />
+            ) : (
+              <FileText className="w-3 h-3" />
+            )}
+            {documentCount} {ui.documentosNaBusca}
+          </p>
+        </div>
+
+        <div className="bg-card border border-border rounded-xl py-2">
+          <button
+            type="button"
+            onClick={handleNewConversation}
+            className="w-full px-3 py-2 text-left text-sm hover:bg-muted flex items-center gap-2 text-primary"
+          >
+            <MessageSquarePlus className="w-4 h-4" />
+            Nova conversa
+          </button>
+          {conversations.map((conv) => (
+            <div
+              key={conv.id}
+              onClick={() => setActiveConversationId(conv.id)}
+              className={cn(
+                'w-full px-3 py-2 text-left text-sm hover:bg-muted flex items-center justify-between group cursor-pointer',
+                activeConversationId === conv.id && 'bg-muted',
+              )}
+            >
+              <span className="truncate flex-1">{conv.title}</span>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleDeleteConversation(conv.id)
+                }}
+                className="opacity-0 group-hover:opacity-100 p-1 hover:bg-destructive/10 rounded text-destructive"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </aside>
+
+      {/* Conversa */}
+      <div className="flex flex-col h-[calc(100vh-12rem)] bg-muted/30 rounded-xl overflow-hidden border border-border shadow-sm">
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {conversationLoading && activeConversationId ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : localMessages.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-center max-w-sm">
+                <Library className="w-10 h-10 text-primary/50 mx-auto mb-3" />
+                <p className="text-muted-foreground text-sm">{ui.bibliotecaBoasVindas}</p>
+              </div>
+            </div>
+          ) : (
+            localMessages.map((msg) => (
+              <div
+                key={msg.id}
+                className={cn('flex gap-3', msg.role === 'user' && 'flex-row-reverse')}
+              >
+                <div
+                  className={cn(
+                    'w-8 h-8 rounded-full flex items-center justify-center shrink-0 border',
+                    msg.role === 'assistant'
+                      ? 'bg-card border-border text-primary'
+                      : 'bg-primary border-primary text-primary-foreground',
+                  )}
+                >
+                  {msg.role === 'assistant' ? (
+                    <Sparkles className="w-4 h-4" />
+                  ) : (
+                    <User className="w-4 h-4" />
+                  )}
+                </div>
+
+                <div className="flex flex-col gap-1 max-w-[80%]">
+                  <div
+                    className={cn(
+                      'p-3 rounded-2xl text-sm leading-relaxed shadow-sm whitespace-pre-wrap',
+                      msg.role === 'assistant'
+                        ? 'bg-card border border-border text-foreground rounded-tl-none'
+                        : 'bg-primary text-primary-foreground rounded-tr-none',
+                    )}
+                  >
+                    {msg.content}
+                  </div>
+
+                  {msg.role === 'assistant' && msg.sources && msg.sources.length > 0 && (
+                    <SourceList sources={msg.sources} />
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+
+          {isLoading && (
+            <div className="flex gap-3">
+              <div className="w-8 h-8 rounded-full bg-card border border-border flex items-center justify-center shrink-0">
+                <Bot className="w-4 h-4 text-primary" />
+              </div>
+              <div className="bg-card border border-border p-3 rounded-2xl rounded-tl-none shadow-sm flex gap-2 items-center w-fit text-xs text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                {ui.consultandoBiblioteca}
+              </div>
+            </div>
+          )}
+
+          {sendMessageMutation.isError && (
+            <div className="flex items-center gap-2 text-destructive text-sm p-3 bg-destructive/10 rounded-lg">
+              <AlertCircle className="w-4 h-4" />
+              {sendMessageMutation.error.message || 'Erro ao enviar mensagem. Tente novamente.'}
+            </div>
+          )}
+
+          <div ref={messagesEndRef} />
+        </div>
+
+        <div className="p-4 bg-card border-t border-border">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleSendMessage()
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              placeholder={ui.perguntaBiblioteca}
+              disabled={isLoading}
+              autoComplete="off"
+              className="flex-1 border border-input rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-primary transition-all placeholder:text-muted-foreground bg-background disabled:opacity-50"
+            />
+            <Button
+              type="submit"
+              disabled={!inputValue.trim() || isLoading || documentCount === 0}
+              size="icon"
+              className="rounded-xl shadow-sm"
+            >
+              {isLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Send className="w-5 h-5" />
+              )}
+            </Button>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Fontes da resposta agrupadas por documento (link abre o documento)
+ */
+function SourceList({ sources }: { sources: LibrarySource[] }) {
+  const byDocument = new Map<string, { filename: string; pages: number[] }>()
+  for (const source of sources) {
+    const entry = byDocument.get(source.documentId) ?? { filename: source.filename, pages: [] }
+    entry.pages.push(source.pageNumber)
+    byDocument.set(source.documentId, entry)
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1 px-1">
+      {[...byDocument].map(([documentId, { filename, pages }]) => (
+        <Link
+          key={documentId}
+          href={`/documents/${documentId}?name=${encodeURIComponent(filename)}`}
+        >
+          <Badge variant="outline" className="gap-1 font-normal hover:bg-muted">
+            <FileText className="w-3 h-3" />
+            <span className="max-w-[180px] truncate">{filename}</span>
+            <span className="text-muted-foreground">p. {pages.join(', ')}</span>
+          </Badge>
+        </Link>
+      ))}
+    </div>
+  )
+}
@@ -43,7 +43,10 @@ function mapBackendStatus(status: DocumentStatus): FileStatus {
     case 'COMPLETED':
       return 'completed'
     case 'FAILED':
+    case 'CANCELLED':
       return 'error'
+    case 'PAUSED':
+      return 'processing'
     default:
       return 'uploading'
   }
@@ -87,11 +90,13 @@ export function PDFUploader() {
       setLocalFiles((prev) => [...prev, newFile])
 
       try {
-        await uploadMutation.mutateAsync(file)
+        const result = await uploadMutation.mutateAsync(file)
 
         // Navegar para lista de documentos e mostrar toast
         toast.info('O processamento começará em breve', {
-          description: 'Você será notificado quando o documento estiver pronto.',
+          description: result.procurementId
+            ? 'Os arquivos do pacote aparecerão na lista de documentos, classificados por tipo.'
+            : 'Você será notificado quando o documento estiver pronto.',
           duration: 5000,
         })
         router.push('/documents')
@@ -0,0 +1,112 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import {
+  AlertCircle,
+  CheckCircle2,
+  Circle,
+  Loader2,
+  PauseCircle,
+  RotateCcw,
+  XCircle,
+} from 'lucide-react'
+import { cn } from '@workspace/ui/lib/utils'
+import type { ProcessingEvent } from '@/lib/api-client'
+import { processingStages, ui } from '@/lib/i18n'
+
+interface ProcessingLogProps {
+  events: ProcessingEvent[]
+  isStreaming?: boolean
+  className?: string
+}
+
+function EventIcon({ type }: { type: ProcessingEvent['type'] }) {
+  switch (type) {
+    case 'stage_finished':
+    case 'batch_finished':
+    case 'completed':
+      return <CheckCircle2 size={14} className="text-green-600" />
+    case 'batch_retry':
+      return <RotateCcw size={14} className="text-amber-600" />
+    case 'error':
+      return <AlertCircle size={14} className="text-destructive" />
+    case 'failed':
+      return <XCircle size={14} className="text-destructive" />
+    case 'cancelled':
+      return <XCircle size={14} className="text-muted-foreground" />
+    case 'paused':
+      return <PauseCircle size={14} className="text-sky-600" />
+    default:
+      return <Circle size={14} className="text-muted-foreground" />
+  }
+}
+
+/**
+ * Log ao vivo do processamento (eventos do stream SSE)
+ */
+export function ProcessingLog({
+  events,
+  isStreaming,
+  className,
+}: ProcessingLogProps) {
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  // Acompanhar o evento mais recente
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [events.length])
+
+  return (
+    <div
+      className={cn(
+        'w-full max-w-xl rounded-lg border border-border bg-card text-left shadow-sm',
+        className,
+      )}
+    >
+      <div className="flex items-center gap-2 border-b border-border px-4 py-2 text-sm font-medium">
+        {isStreaming && <Loader2 size={14} className="animate-spin" />}
+        {ui.logProcessamento}
+      </div>
+
+      <div className="max-h-80 overflow-y-auto px-4 py-2 font-mono text-xs">
+        {events.length === 0 ? (
+          <p className="py-2 text-muted-foreground">
+            {ui.aguardandoProcessamento}
+          </p>
+        ) : (
+          events.map((event) => (
+            <div key={event.id} className="flex items-start gap-2 py-1">
+              <span className="mt-0.5 shrink-0">
+                <EventIcon type={event.type} />
+              </span>
+              <span className="shrink-0 text-muted-foreground">
+                {new Date(event.createdAt).toLocaleTimeString('pt-BR')}
+              </span>
+              <div className="min-w-0">
+                <p>
+                  {event.stage && (
+                    <span className="text-muted-foreground">
+                      [{processingStages[event.stage]}]{' '}
+                    </span>
+                  )}
+                  {event.message}
+                </p>
+                {event.counts && (
+                  <p className="text-muted-foreground">
+                    {event.counts.entities} {ui.entidades} ·{' '}
+                    {event.counts.timelineEvents} {ui.eventos} ·{' '}
+                    {event.counts.risks} {ui.riscos.toLowerCase()}
+                  </p>
+                )}
+                {event.error && (
+                  <p className="break-words text-destructive">{event.error}</p>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+        <div ref={bottomRef} />
+      </div>
+    </div>
+  )
+}
@@ -11,17 +11,27 @@ import {
   AlertCircle,
   FileText,
   Tag,
+  Route,
+  Loader2,
 } from 'lucide-react'
 import { cn } from '@workspace/ui/lib/utils'
 import { Badge } from '@workspace/ui/components/badge'
 import { Button } from '@workspace/ui/components/button'
+import { toast } from '@workspace/ui/components/sonner'
 import type { TimelineEvent, LicitacaoPhase, ImportanceLevel } from '@/lib/api-client'
+import {
+  useTimelineCriticalPath,
+  useUpdateTimelineEventDate,
+} from '@/lib/hooks'
 import {
   licitacaoPhases,
   importanceLevels,
+  entityTypes,
   formatDate,
   formatDaysRemaining,
   formatRelativeTime,
+  unresolvedDateReasons,
+  t,
   ui,
 } from '@/lib/i18n'
 
@@ -131,6 +141,30 @@ function TimelineEventItem({
                 >
                   {importanceLabel}
                 </Badge>
+                {event.dateStatus === 'PROJECTED' && (
+                  <Badge
+                    variant="outline"
+                    className="text-[10px] px-1.5 py-0"
+                    title="Data calculada a partir do evento de referência"
+                  >
+                    Projetada
+                  </Badge>
+                )}
+                {event.urgency.onCriticalPath ? (
+                  <Badge
+                    variant="destructive"
+                    className="text-[10px] px-1.5 py-0"
+                    title={ui.caminhoCriticoDescricao}
+                  >
+                    {ui.caminhoCritico}
+                  </Badge>
+                ) : (
+                  event.urgency.slackDays !== undefined && (
+                    <span className="text-[10px] text-muted-foreground">
+                      {ui.folga} {event.urgency.slackDays}d
+                    </span>
+                  )
+                )}
               </div>
             </div>
           </div>
@@ -155,6 +189,27 @@ function TimelineEventItem({
                     ({formatDaysRemaining(event.date)})
                   </span>
                 )}
+                {event.relativeTo && event.dateResolution && (
+                  <span
+                    className="ml-2 italic"
+                    title={
+                      event.dateResolution.holidays.length > 0
+                        ? `Feriados considerados: ${event.dateResolution.holidays.join('; ')}`
+                        : undefined
+                    }
+                  >
+                    ·{' '}
+                    {formatRelativeTime(
+                      event.relativeTo.offset,
+                      event.relativeTo.unit,
+                      event.relativeTo.direction,
+                    )}
+                    {event.dateResolution.rolled &&
+                      (event.relativeTo.direction === 'BEFORE'
+                        ? ' (antecipado para dia útil)'
+                        : ' (prorrogado para dia útil)')}
+                  </span>
+                )}
               </span>
             ) : event.relativeTo ? (
               <span className="italic">
@@ -163,6 +218,16 @@ function TimelineEventItem({
                   event.relativeTo.unit,
                   event.relativeTo.direction,
                 )}
+                {event.unresolvedReason && (
+                  <span
+                    className={cn(
+                      'ml-2',
+                      event.unresolvedReason === 'CYCLE' && 'text-warning',
+                    )}
+                  >
+                    ({t(unresolvedDateReasons, event.unresolvedReason)})
+                  </span>
+                )}
               </span>
             ) : (
               <span className="italic">Data não definida</span>
@@ -232,6 +297,152 @@ function TimelineEventItem({
   )
 }
 
+/**
+ * Caminho crítico da publicação à assinatura e requisitos por fase
+ */
+interface CriticalPathPanelProps {
+  documentId: string
+  selectedId?: string
+  onSelectEvent?: (eventId: string) => void
+  className?: string
+}
+
+export function CriticalPathPanel({
+  documentId,
+  selectedId,
+  onSelectEvent,
+  className,
+}: CriticalPathPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const { data, isLoading } = useTimelineCriticalPath(documentId)
+
+  if (isLoading) {
+    return (
+      <div className={cn('flex justify-center p-2', className)}>
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!data || data.events.length === 0) return null
+
+  return (
+    <div className={cn('border border-border rounded-lg mb-3', className)}>
+      <button
+        className="flex items-center gap-2 w-full p-2 hover:bg-muted/50 rounded-lg transition-colors text-left"
+        onClick={() => setIsExpanded((prev) => !prev)}
+      >
+        {isExpanded ? (
+          <ChevronDown size={16} className="text-muted-foreground" />
+        ) : (
+          <ChevronRight size={16} className="text-muted-foreground" />
+        )}
+        <Route size={14} className="text-destructive" />
+        <span className="font-medium text-sm">{ui.caminhoCritico}</span>
+        {data.totalDays !== null && (
+          <Badge variant="secondary" className="text-[10px]">
+            {data.totalDays} dias
+          </Badge>
+        )}
+        {data.conflicts.length > 0 && (
+          <AlertTriangle
+            size={14}
+            className="text-warning ml-auto"
+            aria-label={`${data.conflicts.length} ${ui.conflitosDatas}`}
+          />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3 text-xs">
+          <p className="text-muted-foreground">
+            {ui.caminhoCriticoDescricao}
+            {data.missingMilestones.length > 0 &&
+              ` (sem data de ${data.missingMilestones
+                .map((phase) => licitacaoPhases[phase] || phase)
+                .join(' e ')}: usado o evento mais próximo)`}
+          </p>
+
+          {data.path.length === 0 ? (
+            <p className="italic text-muted-foreground">
+              {ui.semCaminhoCritico}
+            </p>
+          ) : (
+            <ol className="border-l-2 border-destructive/40 ml-1 space-y-1">
+              {data.path.map((step) => (
+                <li key={step.eventId}>
+                  <button
+                    className={cn(
+                      'w-full text-left pl-3 py-1 rounded hover:bg-muted/50 transition-colors',
+                      selectedId === step.eventId && 'bg-primary/10',
+                    )}
+                    onClick={() => onSelectEvent?.(step.eventId)}
+                  >
+                    <span className="font-medium">{formatDate(step.date)}</span>{' '}
+                    {step.title}
+                    {step.slackDays !== null && step.slackDays > 0 && (
+                      <span className="text-muted-foreground">
+                        {' '}
+                        · {ui.folga} {step.slackDays}d
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {data.gates.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-1">{ui.requisitosPorFase}</h4>
+              <ul className="space-y-2">
+                {data.gates.map((gate) => (
+                  <li key={gate.phase}>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        {licitacaoPhases[gate.phase] || gate.phase}
+                      </span>
+                      {gate.deadline && (
+                        <span className="text-muted-foreground">
+                          até {formatDate(gate.deadline)}
+                        </span>
+                      )}
+                    </div>
+                    <ul className="mt-0.5 space-y-0.5">
+                      {gate.requirements.map((requirement) => (
+                        <li
+                          key={requirement.entityId}
+                          className="flex items-center gap-1 text-muted-foreground"
+                        >
+                          <FileText size={12} className="shrink-0" />
+                          <span className="truncate">{requirement.name}</span>
+                          <span className="text-[10px] shrink-0">
+                            ({entityTypes[requirement.type]}
+                            {!requirement.mandatory && ', opcional'})
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {(data.conflicts.length > 0 || data.undatedEvents > 0) && (
+            <p className="text-muted-foreground">
+              {data.conflicts.length > 0 &&
+                `${data.conflicts.length} ${ui.conflitosDatas}. `}
+              {data.undatedEvents > 0 &&
+                `${data.undatedEvents} ${ui.eventosSemData}.`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
 /**
  * Timeline agrupado por fase
  */
@@ -326,6 +537,62 @@ export function TimelineByPhase({
   )
 }
 
+/**
+ * Correção manual da data de um evento
+ * Os eventos com prazo relativo a ele são recalculados pelo backend
+ */
+function EventDateEditor({ event }: { event: TimelineEvent }) {
+  const [value, setValue] = useState(event.date?.substring(0, 10) ?? '')
+  const updateDate = useUpdateTimelineEventDate()
+  const current = event.date?.substring(0, 10) ?? ''
+
+  const save = (date: string | null) => {
+    updateDate.mutate(
+      { documentId: event.documentId, eventId: event.id, date },
+      {
+        onSuccess: ({ relativeDates }) => {
+          toast.success(ui.dataAtualizada, {
+            description:
+              relativeDates.updated > 0
+                ? `${relativeDates.updated} evento(s) relativo(s) recalculado(s)`
+                : undefined,
+          })
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <input
+        type="date"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="border border-input rounded-md px-2 py-1 text-sm bg-background text-foreground"
+      />
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={!value || value === current || updateDate.isPending}
+        onClick={() => save(value)}
+      >
+        {ui.corrigirData}
+      </Button>
+      {event.date && event.dateStatus !== 'PROJECTED' && (
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={updateDate.isPending}
+          onClick={() => save(null)}
+        >
+          {ui.removerData}
+        </Button>
+      )}
+    </div>
+  )
+}
+
 /**
  * Componente de detalhes do evento
  */
@@ -379,6 +646,8 @@ export function EventDetail({ event, className }: EventDetailProps) {
         )}
       </div>
 
+      <EventDateEditor key={event.id} event={event} />
+
       {/* Descrição */}
       <div>
         <h4 className="text-sm font-medium mb-1">Descrição</h4>
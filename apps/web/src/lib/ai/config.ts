@@ -5,8 +5,29 @@ export const google = createGoogleGenerativeAI({
   apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
 })
 
-// Modelo padrão para análise de documentos
-export const DEFAULT_MODEL = 'gemini-2.0-flash'
+/**
+ * Modelo padrão para análise de documentos
+ *
+ * Variável própria do web (`AI_MODEL_WEB`), no contrato das APIs
+ * (`provedor:modelo` ou só `modelo`): as etapas AI_MODEL_* da job-api e da BFF
+ * usam outros provedores. Aqui só existe o google; outro provedor é erro de
+ * configuração, em vez de cair no padrão sem aviso.
+ */
+function resolveDefaultModel(): string {
+  const setting = process.env.AI_MODEL_WEB
+  if (!setting) return 'gemini-2.0-flash'
+
+  const separator = setting.indexOf(':')
+  if (separator === -1) return setting
+
+  const provider = setting.slice(0, separator)
+  if (provider !== 'google') {
+    throw new Error(`AI_MODEL_WEB: provedor de IA "${provider}" não disponível no web (disponível: google)`)
+  }
+  return setting.slice(separator + 1) || 'gemini-2.0-flash'
+}
+
+export const DEFAULT_MODEL = resolveDefaultModel()
 
 // System prompts para diferentes contextos
 export const SYSTEM_PROMPTS = {
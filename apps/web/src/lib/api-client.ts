@@ -9,7 +9,24 @@ const API_BASE_URL = process.env.NEXT_PUBLIC_BFF_URL || 'http://localhost:3001'
 // TIPOS - Espelhados do Backend
 // ============================================================================
 
-export type DocumentStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
+export type DocumentStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'PAUSED'
+  | 'CANCELLED'
+
+export type ProcessingControlAction = 'cancel' | 'pause'
+
+export type SourceFormat = 'pdf' | 'docx' | 'odt' | 'html' | 'xlsx' | 'ods' | 'csv'
+
+export type DocumentRole =
+  | 'EDITAL'
+  | 'TERMO_REFERENCIA'
+  | 'MINUTA_CONTRATO'
+  | 'ANEXO'
+  | 'PLANILHA'
 
 export type EntityType =
   | 'PRAZO'
@@ -57,6 +74,26 @@ export type DateType = 'FIXED' | 'RELATIVE' | 'RANGE'
 
 export type ProbabilityLevel = 'CERTAIN' | 'LIKELY' | 'POSSIBLE' | 'UNLIKELY'
 
+export type ProcessingStage =
+  | 'download'
+  | 'extraction'
+  | 'analysis'
+  | 'consolidation'
+  | 'embeddings'
+
+export type ProcessingEventType =
+  | 'stage_started'
+  | 'stage_finished'
+  | 'batch_started'
+  | 'batch_finished'
+  | 'batch_retry'
+  | 'embedding_progress'
+  | 'error'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'paused'
+
 // ============================================================================
 // INTERFACES
 // ============================================================================
@@ -66,11 +103,77 @@ export interface Document {
   _id?: string
   filename: string
   s3Key?: string
+  sourceFormat?: SourceFormat
+  procurementId?: string
+  documentRole?: DocumentRole
   status: DocumentStatus
+  /** Cancelamento/pausa pedido, aplicado após a etapa atual */
+  controlRequest?: ProcessingControlAction
+  /** Motivo de uma pausa automática (ex.: orçamento de IA esgotado) */
+  pauseReason?: string
+  /** Tags da biblioteca (filtros do chat em vários documentos) */
+  tags?: string[]
+  /** Calendário de feriados do órgão (prazos em dias úteis) */
+  calendarId?: string
   totalPages?: number
   error?: string
+  /** Tokens e custo estimado (US$) de IA acumulados */
+  usage?: {
+    calls: number
+    inputTokens: number
+    outputTokens: number
+    costUsd: number
+  }
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ProcessingEvent {
+  id: string
+  type: ProcessingEventType
+  stage?: ProcessingStage
+  message: string
+  batchNumber?: number
+  totalBatches?: number
+  counts?: {
+    sections: number
+    entities: number
+    timelineEvents: number
+    risks: number
+  }
+  progress?: {
+    current: number
+    total: number
+  }
+  error?: string
+  createdAt: string
+}
+
+export interface SourceDocumentRef {
+  documentId: string
+  filename: string
+  documentRole?: DocumentRole
+}
+
+export interface Procurement {
+  id: string
+  filename: string
+  status: DocumentStatus
+  error?: string
+  skippedFiles: string[]
+  documents: Array<{
+    id: string
+    filename: string
+    documentRole?: DocumentRole
+    sourceFormat?: SourceFormat
+    status: DocumentStatus
+    totalPages: number
+    error?: string
+  }>
   createdAt: string
   updatedAt: string
+  processingStartedAt?: string
+  processingCompletedAt?: string
 }
 
 export interface DocumentSection {
@@ -137,15 +240,37 @@ export interface UrgencyMetadata {
   hasPenalty: boolean
   penaltyAmount?: string
   blockingForOthers: boolean
+  /** Dias que pode atrasar sem atrasar a assinatura do contrato */
+  slackDays?: number
+  onCriticalPath?: boolean
 }
 
 export interface RelativeTimeReference {
-  eventId: string
+  /** Ausente quando o evento de referência não foi encontrado */
+  eventId?: string
+  eventSemanticKey?: string
   offset: number
   unit: 'DAYS' | 'BUSINESS_DAYS' | 'MONTHS'
   direction: 'BEFORE' | 'AFTER'
 }
 
+/** Cálculo da data relativa pelo calendário de dias úteis do órgão */
+export interface RelativeDateResolution {
+  calendarId?: string
+  /** Vencimento caiu em dia sem expediente e foi movido */
+  rolled: boolean
+  /** 'YYYY-MM-DD Nome' */
+  holidays: string[]
+}
+
+/** Origem da data: extraída do edital, projetada de outro evento ou pendente */
+export type TimelineDateStatus = 'EXTRACTED' | 'PROJECTED' | 'UNRESOLVED'
+
+export type UnresolvedDateReason =
+  | 'ANCHOR_NOT_FOUND'
+  | 'ANCHOR_WITHOUT_DATE'
+  | 'CYCLE'
+
 export interface TimelineEvent {
   id: string
   documentId: string
@@ -153,6 +278,9 @@ export interface TimelineEvent {
   dateRaw: string
   dateType: DateType
   relativeTo?: RelativeTimeReference
+  dateResolution?: RelativeDateResolution
+  dateStatus?: TimelineDateStatus
+  unresolvedReason?: UnresolvedDateReason
   eventType: string
   phase: LicitacaoPhase
   semanticOrder: number
@@ -210,10 +338,28 @@ export interface Risk {
   createdAt: string
 }
 
+export interface PageTextItem {
+  text: string
+  line: number
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
 // ============================================================================
 // RESPOSTAS DA API
 // ============================================================================
 
+export interface PageLayoutResponse {
+  documentId: string
+  pageNumber: number
+  lineCount: number
+  width: number
+  height: number
+  items: PageTextItem[]
+}
+
 export interface DocumentsListResponse {
   documents: Document[]
   pagination: {
@@ -240,6 +386,57 @@ export interface TimelineResponse {
   }
 }
 
+/** Resultado do recálculo das datas relativas */
+export interface RelativeDatesSummary {
+  projected: number
+  unresolved: number
+  cycles: string[][]
+  updated: number
+}
+
+/** Evento na análise de caminho crítico */
+export interface CriticalPathEvent {
+  eventId: string
+  title: string
+  eventType: string
+  phase: LicitacaoPhase
+  date: string
+  dateStatus?: TimelineDateStatus
+  /** null = não leva à assinatura */
+  slackDays: number | null
+  critical: boolean
+}
+
+export interface GatingRequirement {
+  entityId: string
+  type: LinkedRequirement['type']
+  name: string
+  mandatory: boolean
+  eventIds: string[]
+}
+
+export interface CriticalPathResponse {
+  documentId: string
+  start: CriticalPathEvent | null
+  end: CriticalPathEvent | null
+  missingMilestones: LicitacaoPhase[]
+  totalDays: number | null
+  path: CriticalPathEvent[]
+  events: CriticalPathEvent[]
+  gates: Array<{
+    phase: LicitacaoPhase
+    deadline: string | null
+    requirements: GatingRequirement[]
+  }>
+  conflicts: Array<{
+    fromEventId: string
+    toEventId: string
+    kind: 'RELATIVE' | 'DEPENDS_ON' | 'TRIGGERS' | 'PREREQUISITE'
+    days: number
+  }>
+  undatedEvents: number
+}
+
 export interface TimelineByPhaseResponse {
   documentId: string
   phases: Array<{
@@ -291,6 +488,27 @@ export interface RisksResponse {
   }
 }
 
+export interface ProcurementTimelineResponse {
+  procurementId: string
+  total: number
+  byRole: Partial<Record<DocumentRole, number>>
+  events: Array<TimelineEvent & { sourceDocument: SourceDocumentRef }>
+}
+
+export interface ProcurementRisksResponse {
+  procurementId: string
+  total: number
+  byRole: Partial<Record<DocumentRole, number>>
+  risks: Array<Risk & { sourceDocument: SourceDocumentRef }>
+}
+
+export interface ProcurementEntitiesResponse {
+  procurementId: string
+  total: number
+  byRole: Partial<Record<DocumentRole, number>>
+  entities: Array<ExtractedEntity & { sourceDocument: SourceDocumentRef }>
+}
+
 export interface CommentsResponse {
   eventId: string
   comments: TimelineComment[]
@@ -322,18 +540,40 @@ export interface ChatResponse {
   conversationId: string
   content: string
   sourcePagesUsed: number[]
+  toolCalls?: Array<{
+    toolName: string
+    args: Record<string, unknown>
+  }>
   sourceSnippets?: Array<{
     pageNumber: number
+    lineStart: number
+    lineEnd: number
+    sectionId?: string
+    sectionTitle?: string
     excerpt: string
-    similarity: number
+    relevance: number
   }>
 }
 
+/**
+ * Eventos do stream de resposta do chat (POST /chat/:documentId/stream)
+ */
+export type ChatStreamEvent =
+  | { event: 'start'; data: { conversationId: string } }
+  | { event: 'delta'; data: { text: string } }
+  | {
+      event: 'tool'
+      data: { toolName: string; args: Record<string, unknown> }
+    }
+  | { event: 'done'; data: ChatResponse }
+  | { event: 'error'; data: { error: string } }
+
 export interface RagStatus {
   documentId: string
   isReady: boolean
   totalPages: number
   embeddedPages: number
+  embeddedChunks: number
   lastUpdated?: string
 }
 
@@ -348,6 +588,66 @@ export interface ConversationDetailResponse {
   messages: ChatMessage[]
 }
 
+// ============================================================================
+// BIBLIOTECA (BUSCA E CHAT EM VÁRIOS DOCUMENTOS)
+// ============================================================================
+
+export interface LibraryFilters {
+  /** Padrão: COMPLETED */
+  status?: DocumentStatus[]
+  /** Documentos enviados a partir de (YYYY-MM-DD) */
+  from?: string
+  /** Documentos enviados até (YYYY-MM-DD) */
+  to?: string
+  /** Pelo menos uma das tags */
+  tags?: string[]
+}
+
+export interface LibraryDocument {
+  documentId: string
+  filename: string
+  status: DocumentStatus
+  tags: string[]
+  procurementId?: string
+  createdAt: string
+}
+
+export interface LibrarySource {
+  documentId: string
+  filename: string
+  pageNumber: number
+}
+
+export interface LibrarySnippet extends LibrarySource {
+  lineStart: number
+  lineEnd: number
+  sectionTitle?: string
+  excerpt: string
+  relevance: number
+}
+
+export interface LibraryChatMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  sources?: LibrarySource[]
+  createdAt: string
+}
+
+export interface LibraryConversation extends Conversation {
+  filters?: LibraryFilters
+}
+
+export interface LibraryChatResponse {
+  messageId: string
+  conversationId: string
+  content: string
+  sources: LibrarySource[]
+  documentsSearched: number
+  toolCalls?: ChatResponse['toolCalls']
+  sourceSnippets: LibrarySnippet[]
+}
+
 // ============================================================================
 // API CLIENT
 // ============================================================================
@@ -410,6 +710,16 @@ class APIClient {
     return this.request<Document>(`/documents/${id}`)
   }
 
+  async updateDocumentTags(
+    id: string,
+    tags: string[],
+  ): Promise<{ documentId: string; tags: string[] }> {
+    return this.request(`/documents/${id}/tags`, {
+      method: 'PUT',
+      body: JSON.stringify({ tags }),
+    })
+  }
+
   async getDocumentPdfUrl(
     id: string,
     expiresIn?: number,
@@ -420,6 +730,25 @@ class APIClient {
     )
   }
 
+  /**
+   * URL do stream SSE de progresso (consumido via EventSource)
+   */
+  getDocumentEventsUrl(id: string): string {
+    return `${this.baseURL}/documents/${id}/events`
+  }
+
+  /**
+   * Coordenadas dos itens de texto da página (usadas no destaque do viewer)
+   */
+  async getPageLayout(
+    id: string,
+    pageNumber: number,
+  ): Promise<PageLayoutResponse> {
+    return this.request<PageLayoutResponse>(
+      `/documents/${id}/pages/${pageNumber}/layout`,
+    )
+  }
+
   async getDocumentSummary(id: string): Promise<{
     summary: string
     totalPages: number
@@ -430,9 +759,14 @@ class APIClient {
     return this.request(`/documents/${id}/summary`)
   }
 
+  /**
+   * Envia um documento ou um pacote ZIP (licitação)
+   * Para ZIP a resposta traz procurementId em vez de documentId
+   */
   async uploadDocument(file: File): Promise<{
     message: string
-    documentId: string
+    documentId?: string
+    procurementId?: string
     filename: string
     status: DocumentStatus
   }> {
@@ -453,16 +787,64 @@ class APIClient {
     return response.json()
   }
 
-  async processDocument(id: string): Promise<{
+  async processDocument(id: string, mode?: 'full' | 'resume'): Promise<{
+    message: string
+    documentId: string
+    status: DocumentStatus
+  }> {
+    const query = mode ? `?mode=${mode}` : ''
+    return this.request(`/documents/${id}/process${query}`, {
+      method: 'POST',
+    })
+  }
+
+  /**
+   * Cancela ou pausa o processamento
+   * Em execução a resposta ainda vem com status PROCESSING (o worker para após a etapa atual)
+   */
+  async interruptDocument(
+    id: string,
+    action: ProcessingControlAction,
+  ): Promise<{
+    message: string
+    documentId: string
+    status: DocumentStatus
+  }> {
+    return this.request(`/documents/${id}/${action}`, {
+      method: 'POST',
+    })
+  }
+
+  async resumeDocument(id: string): Promise<{
     message: string
     documentId: string
     status: DocumentStatus
   }> {
-    return this.request(`/documents/${id}/process`, {
+    return this.request(`/documents/${id}/resume`, {
       method: 'POST',
     })
   }
 
+  // ============================================================================
+  // PROCUREMENTS
+  // ============================================================================
+
+  async getProcurement(id: string): Promise<Procurement> {
+    return this.request(`/procurements/${id}`)
+  }
+
+  async getProcurementEntities(id: string): Promise<ProcurementEntitiesResponse> {
+    return this.request(`/procurements/${id}/entities`)
+  }
+
+  async getProcurementTimeline(id: string): Promise<ProcurementTimelineResponse> {
+    return this.request(`/procurements/${id}/timeline`)
+  }
+
+  async getProcurementRisks(id: string): Promise<ProcurementRisksResponse> {
+    return this.request(`/procurements/${id}/risks`)
+  }
+
   // ============================================================================
   // TIMELINE
   // ============================================================================
@@ -484,6 +866,14 @@ class APIClient {
     return this.request(`/timeline/${documentId}/critical${query}`)
   }
 
+  async getTimelineCriticalPath(
+    documentId: string,
+  ): Promise<CriticalPathResponse> {
+    return this.request<CriticalPathResponse>(
+      `/timeline/${documentId}/critical-path`,
+    )
+  }
+
   async getTimelineByPhase(
     documentId: string,
   ): Promise<TimelineByPhaseResponse> {
@@ -499,6 +889,21 @@ class APIClient {
     return this.request(`/timeline/${documentId}/events/${eventId}`)
   }
 
+  /**
+   * Corrige a data de um evento (null remove); os eventos relativos a ele
+   * são recalculados pelo backend
+   */
+  async updateTimelineEventDate(
+    documentId: string,
+    eventId: string,
+    date: string | null,
+  ): Promise<{ event: TimelineEvent; relativeDates: RelativeDatesSummary }> {
+    return this.request(`/timeline/${documentId}/events/${eventId}/date`, {
+      method: 'PUT',
+      body: JSON.stringify({ date }),
+    })
+  }
+
   // ============================================================================
   // COMENTÁRIOS
   // ============================================================================
@@ -664,6 +1069,85 @@ class APIClient {
     })
   }
 
+  /**
+   * Envia mensagem e lê a resposta em stream (SSE via fetch, já que o
+   * EventSource só faz GET). Cada evento é repassado a `onEvent`; resolve
+   * com a resposta final (evento done)
+   */
+  async streamChatMessage(
+    documentId: string,
+    message: string,
+    conversationId: string | undefined,
+    topK: number | undefined,
+    onEvent: (event: ChatStreamEvent) => void,
+    signal?: AbortSignal,
+  ): Promise<ChatResponse> {
+    const endpoint = `/chat/${documentId}/stream`
+    const response = await fetch(`${this.baseURL}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify({ message, conversationId, topK }),
+      signal,
+    })
+
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(error.error || `HTTP ${response.status}`)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let result: ChatResponse | null = null
+
+    // Blocos SSE separados por linha em branco: "event: ...\ndata: ..."
+    const handleBlock = (block: string) => {
+      let event = 'message'
+      const data: string[] = []
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+      }
+      if (data.length === 0) return
+
+      const streamEvent = {
+        event,
+        data: JSON.parse(data.join('\n')),
+      } as ChatStreamEvent
+      if (streamEvent.event === 'error') throw new Error(streamEvent.data.error)
+      if (streamEvent.event === 'done') result = streamEvent.data
+      onEvent(streamEvent)
+    }
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+        let separator = buffer.indexOf('\n\n')
+        while (separator !== -1) {
+          handleBlock(buffer.slice(0, separator))
+          buffer = buffer.slice(separator + 2)
+          separator = buffer.indexOf('\n\n')
+        }
+      }
+      if (buffer.trim()) handleBlock(buffer)
+    } catch (error) {
+      console.error(`API Error [${endpoint}]:`, error)
+      reader.cancel().catch(() => {})
+      throw error
+    }
+
+    if (!result) {
+      throw new Error('Resposta do chat interrompida')
+    }
+    return result
+  }
+
   async listConversations(documentId: string): Promise<ConversationsListResponse> {
     return this.request<ConversationsListResponse>(`/chat/${documentId}`)
   }
@@ -727,6 +1211,67 @@ class APIClient {
       body: JSON.stringify({ regenerate }),
     })
   }
+
+  // ============================================================================
+  // BIBLIOTECA
+  // ============================================================================
+
+  async getLibraryDocuments(
+    filters: LibraryFilters = {},
+  ): Promise<{ documents: LibraryDocument[]; total: number }> {
+    const searchParams = new URLSearchParams()
+    if (filters.status?.length) searchParams.set('status', filters.status.join(','))
+    if (filters.from) searchParams.set('from', filters.from)
+    if (filters.to) searchParams.set('to', filters.to)
+    if (filters.tags?.length) searchParams.set('tags', filters.tags.join(','))
+
+    const query = searchParams.toString()
+    return this.request(`/library/documents${query ? `?${query}` : ''}`)
+  }
+
+  async searchLibrary(
+    query: string,
+    filters?: LibraryFilters,
+    topK?: number,
+  ): Promise<{ documentsSearched: number; results: LibrarySnippet[] }> {
+    return this.request('/library/search', {
+      method: 'POST',
+      body: JSON.stringify({ query, filters, topK }),
+    })
+  }
+
+  async sendLibraryMessage(
+    message: string,
+    conversationId?: string,
+    filters?: LibraryFilters,
+  ): Promise<LibraryChatResponse> {
+    return this.request('/library/chat', {
+      method: 'POST',
+      body: JSON.stringify({ message, conversationId, filters }),
+    })
+  }
+
+  async listLibraryConversations(): Promise<{
+    conversations: LibraryConversation[]
+    total: number
+  }> {
+    return this.request('/library/chat')
+  }
+
+  async getLibraryConversation(conversationId: string): Promise<{
+    conversation: LibraryConversation
+    messages: LibraryChatMessage[]
+  }> {
+    return this.request(`/library/chat/${conversationId}`)
+  }
+
+  async deleteLibraryConversation(
+    conversationId: string,
+  ): Promise<{ success: boolean; messagesDeleted: number }> {
+    return this.request(`/library/chat/${conversationId}`, {
+      method: 'DELETE',
+    })
+  }
 }
 
 export const apiClient = new APIClient()
@@ -5,6 +5,8 @@ export {
   useDocumentPdfUrl,
   useUploadDocument,
   useProcessDocument,
+  useInterruptDocument,
+  useResumeDocument,
   documentKeys,
 } from './use-documents'
 
@@ -13,7 +15,9 @@ export {
   useTimeline,
   useTimelineByPhase,
   useTimelineCritical,
+  useTimelineCriticalPath,
   useTimelineEvent,
+  useUpdateTimelineEventDate,
   timelineKeys,
 } from './use-timeline'
 
@@ -64,4 +68,15 @@ export {
   useSendMessage,
   useUpdateConversationTitle,
   useDeleteConversation,
-} from './use-chat'
\ No newline at end of file
+} from './use-chat'
+
+// Hooks da biblioteca (chat em vários documentos)
+export {
+  useLibraryDocuments,
+  useLibraryConversations,
+  useLibraryConversation,
+  useSendLibraryMessage,
+  useDeleteLibraryConversation,
+  useUpdateDocumentTags,
+  libraryKeys,
+} from './use-library'
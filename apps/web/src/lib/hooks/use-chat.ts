@@ -4,6 +4,7 @@ import {
   type ConversationsListResponse,
   type ConversationDetailResponse,
   type ChatResponse,
+  type ChatStreamEvent,
   type RagStatus,
 } from '../api-client'
 
@@ -97,6 +98,8 @@ export function useCreateConversation() {
 
 /**
  * Hook para enviar mensagem no chat
+ * A resposta chega em stream: `onEvent` recebe o texto parcial e as consultas
+ * do assistente, e a mutation resolve com a resposta completa
  */
 export function useSendMessage() {
   const queryClient = useQueryClient()
@@ -109,10 +112,17 @@ export function useSendMessage() {
       message: string
       conversationId?: string
       topK?: number
+      onEvent?: (event: ChatStreamEvent) => void
     }
   >({
-    mutationFn: ({ documentId, message, conversationId, topK }) =>
-      apiClient.sendChatMessage(documentId, message, conversationId, topK),
+    mutationFn: ({ documentId, message, conversationId, topK, onEvent }) =>
+      apiClient.streamChatMessage(
+        documentId,
+        message,
+        conversationId,
+        topK,
+        (event) => onEvent?.(event),
+      ),
     onSuccess: (data, variables) => {
       // Invalidar conversas e conversa específica
       queryClient.invalidateQueries({
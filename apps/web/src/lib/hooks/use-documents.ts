@@ -1,7 +1,16 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { apiClient, type DocumentStatus } from '../api-client'
+import {
+  apiClient,
+  type DocumentStatus,
+  type ProcessingControlAction,
+  type ProcessingEvent,
+} from '../api-client'
+import { timelineKeys } from './use-timeline'
+import { structureKeys } from './use-structure'
+import { riskKeys } from './use-risks'
 
 // ============================================================================
 // QUERY KEYS
@@ -21,8 +30,12 @@ export const documentKeys = {
 // HOOKS
 // ============================================================================
 
+/** Intervalo de atualização da lista enquanto há documento em andamento */
+const ACTIVE_LIST_REFETCH_MS = 5000
+
 /**
  * Hook para listar documentos
+ * Atualiza sozinho enquanto algum documento está pendente ou em processamento
  */
 export function useDocuments(params?: {
   page?: number
@@ -36,18 +49,77 @@ export function useDocuments(params?: {
       documents: data.documents || [],
       pagination: data.pagination,
     }),
+    refetchInterval: (query) =>
+      query.state.data?.documents?.some(
+        (doc) => doc.status === 'PROCESSING' || doc.status === 'PENDING',
+      )
+        ? ACTIVE_LIST_REFETCH_MS
+        : false,
   })
 }
 
 /**
  * Hook para obter detalhes de um documento
+ *
+ * Enquanto o documento está pendente ou em processamento, acompanha o stream
+ * SSE de progresso: `events` é o log ao vivo (etapas, batches, erros) e os dados
+ * do documento são atualizados a cada batch e ao final do processamento.
  */
 export function useDocument(id: string | undefined) {
-  return useQuery({
+  const queryClient = useQueryClient()
+  const query = useQuery({
     queryKey: documentKeys.detail(id || ''),
     queryFn: () => apiClient.getDocument(id!),
     enabled: !!id,
   })
+
+  const [events, setEvents] = useState<ProcessingEvent[]>([])
+  const [isStreaming, setIsStreaming] = useState(false)
+
+  const status = query.data?.status
+  const shouldStream = !!id && (status === 'PROCESSING' || status === 'PENDING')
+
+  // Log de outro documento não deve aparecer
+  useEffect(() => {
+    setEvents([])
+  }, [id])
+
+  useEffect(() => {
+    if (!id || !shouldStream) return
+
+    const source = new EventSource(apiClient.getDocumentEventsUrl(id))
+    setIsStreaming(true)
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as ProcessingEvent
+
+      // O stream reenvia o histórico ao (re)conectar
+      setEvents((prev) =>
+        prev.some((e) => e.id === event.id) ? prev : [...prev, event],
+      )
+
+      if (event.type === 'batch_finished' || event.type === 'stage_finished') {
+        queryClient.invalidateQueries({ queryKey: documentKeys.detail(id) })
+      }
+    }
+
+    source.addEventListener('end', () => {
+      source.close()
+      setIsStreaming(false)
+      queryClient.invalidateQueries({ queryKey: documentKeys.detail(id) })
+      queryClient.invalidateQueries({ queryKey: documentKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: timelineKeys.document(id) })
+      queryClient.invalidateQueries({ queryKey: structureKeys.document(id) })
+      queryClient.invalidateQueries({ queryKey: riskKeys.document(id) })
+    })
+
+    return () => {
+      source.close()
+      setIsStreaming(false)
+    }
+  }, [id, shouldStream, queryClient])
+
+  return { ...query, events, isStreaming }
 }
 
 /**
@@ -80,16 +152,63 @@ export function useUploadDocument() {
 
 /**
  * Hook para processar documento
+ * Com `mode: 'resume'` retoma apenas os batches pendentes ou com falha
  */
 export function useProcessDocument() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (documentId: string) => apiClient.processDocument(documentId),
-    onSuccess: (_, documentId) => {
+    mutationFn: ({
+      documentId,
+      mode,
+    }: {
+      documentId: string
+      mode?: 'full' | 'resume'
+    }) => apiClient.processDocument(documentId, mode),
+    onSuccess: (_, { documentId }) => {
       // Invalidar documento específico e lista
       queryClient.invalidateQueries({ queryKey: documentKeys.detail(documentId) })
       queryClient.invalidateQueries({ queryKey: documentKeys.lists() })
     },
   })
 }
+
+/**
+ * Hook para cancelar ou pausar o processamento de um documento
+ */
+export function useInterruptDocument() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      documentId,
+      action,
+    }: {
+      documentId: string
+      action: ProcessingControlAction
+    }) => apiClient.interruptDocument(documentId, action),
+    onSuccess: (_, { documentId }) => {
+      queryClient.invalidateQueries({
+        queryKey: documentKeys.detail(documentId),
+      })
+      queryClient.invalidateQueries({ queryKey: documentKeys.lists() })
+    },
+  })
+}
+
+/**
+ * Hook para retomar um documento pausado
+ */
+export function useResumeDocument() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (documentId: string) => apiClient.resumeDocument(documentId),
+    onSuccess: (_, documentId) => {
+      queryClient.invalidateQueries({
+        queryKey: documentKeys.detail(documentId),
+      })
+      queryClient.invalidateQueries({ queryKey: documentKeys.lists() })
+    },
+  })
+}
@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiClient, type LibraryFilters } from '../api-client'
+import { documentKeys } from './use-documents'
+
+// ============================================================================
+// QUERY KEYS
+// ============================================================================
+
+export const libraryKeys = {
+  all: ['library'] as const,
+  documents: (filters?: LibraryFilters) =>
+    [...libraryKeys.all, 'documents', filters] as const,
+  conversations: () => [...libraryKeys.all, 'conversations'] as const,
+  conversation: (conversationId: string) =>
+    [...libraryKeys.conversations(), conversationId] as const,
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Hook para listar os documentos da biblioteca que atendem aos filtros
+ */
+export function useLibraryDocuments(filters?: LibraryFilters) {
+  return useQuery({
+    queryKey: libraryKeys.documents(filters),
+    queryFn: () => apiClient.getLibraryDocuments(filters),
+  })
+}
+
+/**
+ * Hook para listar as conversas da biblioteca
+ */
+export function useLibraryConversations() {
+  return useQuery({
+    queryKey: libraryKeys.conversations(),
+    queryFn: () => apiClient.listLibraryConversations(),
+  })
+}
+
+/**
+ * Hook para buscar o histórico de uma conversa da biblioteca
+ */
+export function useLibraryConversation(conversationId: string | undefined) {
+  return useQuery({
+    queryKey: libraryKeys.conversation(conversationId!),
+    queryFn: () => apiClient.getLibraryConversation(conversationId!),
+    enabled: !!conversationId,
+  })
+}
+
+/**
+ * Hook para enviar mensagem no chat da biblioteca
+ */
+export function useSendLibraryMessage() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      message,
+      conversationId,
+      filters,
+    }: {
+      message: string
+      conversationId?: string
+      filters?: LibraryFilters
+    }) => apiClient.sendLibraryMessage(message, conversationId, filters),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: libraryKeys.conversations() })
+      queryClient.invalidateQueries({
+        queryKey: libraryKeys.conversation(data.conversationId),
+      })
+    },
+  })
+}
+
+/**
+ * Hook para deletar conversa da biblioteca
+ */
+export function useDeleteLibraryConversation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (conversationId: string) =>
+      apiClient.deleteLibraryConversation(conversationId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: libraryKeys.conversations() })
+    },
+  })
+}
+
+/**
+ * Hook para atualizar as tags de um documento
+ */
+export function useUpdateDocumentTags() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ documentId, tags }: { documentId: string; tags: string[] }) =>
+      apiClient.updateDocumentTags(documentId, tags),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: documentKeys.lists() })
+      queryClient.invalidateQueries({
+        queryKey: documentKeys.detail(variables.documentId),
+      })
+      queryClient.invalidateQueries({ queryKey: libraryKeys.all })
+    },
+  })
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { positionCache } from '../pdf-position-cache'
+import { findTextPositionInLayout, clearLayoutCache } from '../layout-text-search'
 
 /**
  * Representa a posição de um texto no PDF em porcentagem
@@ -41,6 +42,25 @@ async function getFindTextPosition(): Promise<FindTextPositionFn | null> {
   return findTextPositionFn
 }
 
+/**
+ * Localiza o texto: primeiro no layout gravado pela API (cobre páginas
+ * escaneadas, com texto de OCR), depois na camada de texto do PDF
+ */
+async function locateText(
+  documentId: string,
+  pdfUrl: string,
+  pageNumber: number,
+  sourceText: string
+): Promise<TextPosition[] | null> {
+  const fromLayout = await findTextPositionInLayout(documentId, pageNumber, sourceText)
+  if (fromLayout) return fromLayout
+
+  const findTextPosition = await getFindTextPosition()
+  if (!findTextPosition) return null
+
+  return findTextPosition(pdfUrl, pageNumber, sourceText)
+}
+
 /**
  * Dados da entidade para buscar posição
  */
@@ -150,14 +170,9 @@ export function useTextPosition(
         return
       }
 
-      // Busca no PDF (importação dinâmica, só no cliente)
-      const findTextPosition = await getFindTextPosition()
-      if (!findTextPosition) {
-        setIsLoading(false)
-        return
-      }
-      
-      const foundPositions = await findTextPosition(
+      // Busca no layout gravado ou no PDF (pdf.js só no cliente)
+      const foundPositions = await locateText(
+        documentId,
         pdfUrl,
         entity.pageNumber,
         entity.sourceText
@@ -200,6 +215,7 @@ export function useTextPosition(
   const clearCache = useCallback(async () => {
     if (documentId) {
       await positionCache.clearDocument(documentId)
+      clearLayoutCache(documentId)
       setPositions(null)
     }
   }, [documentId])
@@ -279,10 +295,8 @@ export function usePrefetchPositions(
         
         if (!cached && entity?.sourceText && entity?.sourceText.trim().length >= 3) {
           try {
-            const findTextPosition = await getFindTextPosition()
-            if (!findTextPosition) continue
-            
-            const positions = await findTextPosition(
+            const positions = await locateText(
+              documentId,
               pdfUrl,
               entity.pageNumber,
               entity.sourceText
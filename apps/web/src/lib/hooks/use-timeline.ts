@@ -1,6 +1,6 @@
 'use client'
 
-import { useQuery } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { apiClient } from '../api-client'
 
 // ============================================================================
@@ -14,6 +14,8 @@ export const timelineKeys = {
     [...timelineKeys.document(documentId), 'byPhase'] as const,
   critical: (documentId: string, days?: number) =>
     [...timelineKeys.document(documentId), 'critical', days] as const,
+  criticalPath: (documentId: string) =>
+    [...timelineKeys.document(documentId), 'criticalPath'] as const,
   event: (documentId: string, eventId: string) =>
     [...timelineKeys.document(documentId), 'event', eventId] as const,
 }
@@ -77,6 +79,17 @@ export function useTimelineCritical(
   })
 }
 
+/**
+ * Hook para obter o caminho crítico até a assinatura do contrato
+ */
+export function useTimelineCriticalPath(documentId: string | undefined) {
+  return useQuery({
+    queryKey: timelineKeys.criticalPath(documentId || ''),
+    queryFn: () => apiClient.getTimelineCriticalPath(documentId!),
+    enabled: !!documentId,
+  })
+}
+
 /**
  * Hook para obter detalhes de um evento
  */
@@ -90,3 +103,27 @@ export function useTimelineEvent(
     enabled: !!documentId && !!eventId,
   })
 }
+
+/**
+ * Hook para corrigir a data de um evento (recalcula os eventos relativos a ele)
+ */
+export function useUpdateTimelineEventDate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      documentId,
+      eventId,
+      date,
+    }: {
+      documentId: string
+      eventId: string
+      date: string | null
+    }) => apiClient.updateTimelineEventDate(documentId, eventId, date),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: timelineKeys.document(variables.documentId),
+      })
+    },
+  })
+}
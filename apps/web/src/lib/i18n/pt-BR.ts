@@ -5,12 +5,14 @@
 
 import type {
   DocumentStatus,
+  DocumentRole,
   EntityType,
   ImportanceLevel,
   DocumentSectionLevel,
   LicitacaoPhase,
   ProbabilityLevel,
   DateType,
+  ProcessingStage,
 } from '../api-client'
 
 // ============================================================================
@@ -22,6 +24,20 @@ export const documentStatus: Record<DocumentStatus, string> = {
   PROCESSING: 'Processando',
   COMPLETED: 'Concluído',
   FAILED: 'Falhou',
+  PAUSED: 'Pausado',
+  CANCELLED: 'Cancelado',
+}
+
+// ============================================================================
+// PAPÉIS DOS DOCUMENTOS DE UMA LICITAÇÃO
+// ============================================================================
+
+export const documentRoles: Record<DocumentRole, string> = {
+  EDITAL: 'Edital',
+  TERMO_REFERENCIA: 'Termo de Referência',
+  MINUTA_CONTRATO: 'Minuta de Contrato',
+  ANEXO: 'Anexo',
+  PLANILHA: 'Planilha',
 }
 
 // ============================================================================
@@ -145,6 +161,16 @@ export const timeDirections: Record<string, string> = {
   AFTER: 'após',
 }
 
+// ============================================================================
+// DATAS RELATIVAS SEM RESOLUÇÃO
+// ============================================================================
+
+export const unresolvedDateReasons: Record<string, string> = {
+  ANCHOR_NOT_FOUND: 'evento de referência não encontrado',
+  ANCHOR_WITHOUT_DATE: 'aguardando a data do evento de referência',
+  CYCLE: 'referência circular entre eventos',
+}
+
 // ============================================================================
 // TIPOS DE PENALIDADE
 // ============================================================================
@@ -154,6 +180,18 @@ export const penaltyTypes: Record<string, string> = {
   SANCAO: 'Sanção',
 }
 
+// ============================================================================
+// ETAPAS DO PROCESSAMENTO
+// ============================================================================
+
+export const processingStages: Record<ProcessingStage, string> = {
+  download: 'Download',
+  extraction: 'Extração de texto',
+  analysis: 'Análise com IA',
+  consolidation: 'Consolidação',
+  embeddings: 'Embeddings',
+}
+
 // ============================================================================
 // TEXTOS DA UI
 // ============================================================================
@@ -171,6 +209,12 @@ export const ui = {
   // Ações
   processar: 'Processar',
   processando: 'Processando...',
+  retomar: 'Retomar',
+  retomarDescricao: 'Reprocessa apenas os batches pendentes ou com falha',
+  pausar: 'Pausar',
+  pausando: 'Pausando...',
+  cancelando: 'Cancelando...',
+  cancelarProcessamento: 'Cancelar processamento',
   salvar: 'Salvar',
   cancelar: 'Cancelar',
   enviar: 'Enviar',
@@ -181,7 +225,7 @@ export const ui = {
   recolher: 'Recolher',
 
   // Upload
-  uploadTitulo: 'Enviar Documentos PDF',
+  uploadTitulo: 'Enviar Documentos',
   uploadDescricao: 'Arraste e solte arquivos para iniciar o processamento.',
   arquivosProcessando: 'Arquivos em Processamento',
   novoDocumento: 'Novo Documento',
@@ -196,10 +240,35 @@ export const ui = {
   erroCarregarDocumento: 'Erro ao carregar documento',
   documentoNaoEncontrado: 'Documento não encontrado',
 
+  // Biblioteca
+  biblioteca: 'Biblioteca',
+  bibliotecaDescricao: 'Pergunte sobre todos os editais de uma vez',
+  bibliotecaBoasVindas:
+    'Pergunte sobre vários editais ao mesmo tempo. Use os filtros para escolher quais documentos entram na busca; cada resposta cita o documento e a página.',
+  filtrosBiblioteca: 'Documentos consultados',
+  status: 'Status',
+  enviadosDe: 'Enviados de',
+  enviadosAte: 'Até',
+  tags: 'Tags (separadas por vírgula)',
+  documentosNaBusca: 'documentos na busca',
+  consultandoBiblioteca: 'Consultando os documentos da biblioteca...',
+  perguntaBiblioteca: 'Ex.: quais editais abertos exigem atestado de capacidade técnica?',
+
   // Timeline
   nenhumEvento: 'Nenhum evento na timeline ainda',
   processeDocumento: 'Processe o documento para ver a timeline',
   diasRestantes: 'dias restantes',
+  corrigirData: 'Corrigir data',
+  removerData: 'Remover data',
+  dataAtualizada: 'Data do evento atualizada',
+  caminhoCritico: 'Caminho crítico',
+  caminhoCriticoDescricao:
+    'Eventos que, se atrasarem, atrasam a assinatura do contrato',
+  semCaminhoCritico: 'Sem eventos com data para calcular o caminho crítico',
+  folga: 'folga',
+  requisitosPorFase: 'Requisitos por fase',
+  conflitosDatas: 'dependência(s) contrariada(s) pelas datas',
+  eventosSemData: 'evento(s) sem data fora da análise',
   diaRestante: 'dia restante',
   vencido: 'Vencido',
   venceHoje: 'Vence hoje',
@@ -208,6 +277,12 @@ export const ui = {
   nenhumItemHierarquia: 'Nenhum item na hierarquia ainda',
   processeParaHierarquia: 'Processe o documento para ver a hierarquia',
 
+  // Log de processamento
+  logProcessamento: 'Log de processamento',
+  aguardandoProcessamento: 'Aguardando início do processamento...',
+  entidades: 'entidades',
+  eventos: 'eventos',
+
   // Comentários
   comentarios: 'Comentários',
   adicionarComentario: 'Adicionar comentário',
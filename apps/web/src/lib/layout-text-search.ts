@@ -0,0 +1,159 @@
+import { apiClient, type PageLayoutResponse, type PageTextItem } from './api-client'
+import type { TextPosition } from './hooks/use-text-position'
+import { normalizeText } from './pdf-text-search'
+
+/**
+ * Busca de texto no layout gravado pela API (GET /documents/:id/pages/:n/layout)
+ *
+ * O layout vem da extração no servidor, inclusive de páginas escaneadas (OCR),
+ * que não têm camada de texto para o pdf.js. As coordenadas já estão em % da
+ * página com origem no canto superior esquerdo, como TextPosition.
+ */
+
+/**
+ * Layouts já buscados (documentId:página); null = página sem layout
+ */
+const layoutCache = new Map<string, Promise<PageLayoutResponse | null>>()
+
+function loadPageLayout(
+  documentId: string,
+  pageNumber: number,
+): Promise<PageLayoutResponse | null> {
+  const key = `${documentId}:${pageNumber}`
+  let layout = layoutCache.get(key)
+
+  if (!layout) {
+    // Documentos processados antes do layout respondem 404
+    layout = apiClient.getPageLayout(documentId, pageNumber).catch(() => null)
+    layoutCache.set(key, layout)
+  }
+  return layout
+}
+
+/**
+ * Máximo de linhas consecutivas em que um trecho citado pode se espalhar
+ */
+const MAX_WINDOW_LINES = 8
+
+/**
+ * Fração das palavras do trecho que precisa aparecer no match aproximado
+ */
+const FUZZY_MATCH_RATIO = 0.7
+
+interface LayoutLine {
+  items: PageTextItem[]
+  text: string
+}
+
+/**
+ * Caixa que envolve os itens de uma linha, com margem para visualização
+ */
+function toPosition(items: PageTextItem[], pageIndex: number): TextPosition {
+  const left = Math.min(...items.map(item => item.left))
+  const top = Math.min(...items.map(item => item.top))
+  const right = Math.max(...items.map(item => item.left + item.width))
+  const bottom = Math.max(...items.map(item => item.top + item.height))
+  const margin = 0.5
+
+  return {
+    pageIndex,
+    left: Math.max(0, left - margin),
+    top: Math.max(0, top - margin),
+    width: Math.min(100 - left, right - left + margin * 2),
+    height: Math.min(100 - top, bottom - top + margin * 2),
+  }
+}
+
+/**
+ * Janelas de linhas consecutivas que casam com o trecho
+ *
+ * Para cada linha inicial, cresce a janela até casar (ou até MAX_WINDOW_LINES).
+ * Só vale a menor janela: se ela ainda casa sem a primeira linha, o match fica
+ * para a próxima linha inicial. Janelas encontradas não se sobrepõem.
+ */
+function findMatchingWindows(
+  lines: LayoutLine[],
+  matches: (text: string) => boolean,
+): LayoutLine[][] {
+  const windows: LayoutLine[][] = []
+
+  for (let start = 0; start < lines.length; start++) {
+    const end = Math.min(lines.length, start + MAX_WINDOW_LINES)
+
+    for (let last = start; last < end; last++) {
+      const window = lines.slice(start, last + 1)
+      if (!matches(window.map(line => line.text).join(' '))) continue
+
+      const withoutFirst = window.slice(1).map(line => line.text).join(' ')
+      if (window.length === 1 || !matches(withoutFirst)) {
+        windows.push(window)
+        start = last
+      }
+      break
+    }
+  }
+
+  return windows
+}
+
+/**
+ * Busca a posição de um texto no layout gravado da página
+ *
+ * O trecho pode quebrar em várias linhas: casa em janelas de linhas
+ * consecutivas, primeiro pelo texto contido e, sem nenhum match, por 70% das
+ * palavras presentes. Cada linha da janela vira um retângulo.
+ * Retorna null se a página não tem layout ou o texto não foi encontrado.
+ */
+export async function findTextPositionInLayout(
+  documentId: string,
+  pageNumber: number,
+  searchText: string,
+): Promise<TextPosition[] | null> {
+  const layout = await loadPageLayout(documentId, pageNumber)
+  if (!layout || layout.items.length === 0) return null
+
+  const normalizedSearch = normalizeText(searchText)
+  if (!normalizedSearch) return null
+  const searchWords = normalizedSearch.split(' ').filter(w => w.length > 2)
+
+  const itemsByLine = new Map<number, PageTextItem[]>()
+  for (const item of layout.items) {
+    if (!item.text.trim()) continue
+    itemsByLine.set(item.line, [...(itemsByLine.get(item.line) ?? []), item])
+  }
+
+  const lines: LayoutLine[] = [...itemsByLine.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, items]) => ({
+      items,
+      text: normalizeText(items.map(item => item.text).join(' ')),
+    }))
+    .filter(line => line.text.length > 0)
+
+  let windows = findMatchingWindows(lines, text => text.includes(normalizedSearch))
+
+  if (windows.length === 0 && searchWords.length > 0) {
+    windows = findMatchingWindows(
+      lines,
+      text =>
+        searchWords.filter(word => text.includes(word)).length / searchWords.length >=
+        FUZZY_MATCH_RATIO,
+    )
+  }
+
+  const positions = windows.flatMap(window =>
+    window.map(line => toPosition(line.items, pageNumber - 1)),
+  )
+  return positions.length > 0 ? positions : null
+}
+
+/**
+ * Limpa os layouts em memória de um documento (ex.: após reprocessar)
+ */
+export function clearLayoutCache(documentId: string): void {
+  for (const key of layoutCache.keys()) {
+    if (key.startsWith(`${documentId}:`)) {
+      layoutCache.delete(key)
+    }
+  }
+}
@@ -71,12 +71,16 @@ async function loadPdfDocument(pdfUrl: string): Promise<any> {
 
 /**
  * Normaliza texto para comparação (remove espaços extras, quebras de linha, etc)
+ * Acentos viram a letra base, já que o texto do PDF, o do OCR e o citado pela
+ * análise nem sempre trazem os mesmos; pontuação é descartada
  */
-function normalizeText(text: string): string {
+export function normalizeText(text: string): string {
   return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
     .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
     .replace(/\s+/g, ' ')
-    .replace(/[^\w\s]/g, '')
     .trim()
 }
 
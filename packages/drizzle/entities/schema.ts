@@ -5,6 +5,8 @@ import {
   jsonb,
   varchar,
   integer,
+  vector,
+  index,
   type AnyPgColumn,
 } from 'drizzle-orm/pg-core'
 import { relations } from 'drizzle-orm'
@@ -245,6 +247,30 @@ export const knowledgeBase = pgTable('knowledge_base', {
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 })
 
+// ============================================
+// Chunk Embeddings Table (pgvector)
+// ============================================
+
+// Vetores dos trechos do RAG quando o job-api usa VECTOR_INDEX_BACKEND=pgvector.
+// O texto dos trechos fica no MongoDB (document_embeddings), com o mesmo id;
+// sem FK para documents porque os documentos processados também estão lá.
+export const chunkEmbeddings = pgTable(
+  'chunk_embeddings',
+  {
+    id: text('id').primaryKey(),
+    documentId: text('document_id').notNull(),
+    embedding: vector('embedding', { dimensions: 1536 }).notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [
+    index('chunk_embeddings_document_id_idx').on(table.documentId),
+    index('chunk_embeddings_embedding_idx').using(
+      'hnsw',
+      table.embedding.op('vector_cosine_ops'),
+    ),
+  ],
+)
+
 // ============================================
 // Relations
 // ============================================
@@ -363,3 +389,6 @@ export type NewKnowledgeBase = typeof knowledgeBase.$inferInsert
 
 export type DocumentContent = typeof documentContent.$inferSelect
 export type NewDocumentContent = typeof documentContent.$inferInsert
+
+export type ChunkEmbedding = typeof chunkEmbeddings.$inferSelect
+export type NewChunkEmbedding = typeof chunkEmbeddings.$inferInsert
@@ -0,0 +1,11 @@
+CREATE EXTENSION IF NOT EXISTS vector;
+--> statement-breakpoint
+CREATE TABLE "chunk_embeddings" (
+	"id" text PRIMARY KEY NOT NULL,
+	"document_id" text NOT NULL,
+	"embedding" vector(1536) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "chunk_embeddings_document_id_idx" ON "chunk_embeddings" USING btree ("document_id");--> statement-breakpoint
+CREATE INDEX "chunk_embeddings_embedding_idx" ON "chunk_embeddings" USING hnsw ("embedding" vector_cosine_ops);
@@ -18,6 +18,15 @@ export function UploadArea({ className, ...props }: UploadAreaProps) {
       <Dropzone
         accept={{
           'application/pdf': ['.pdf'],
+          'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+            ['.docx'],
+          'application/vnd.oasis.opendocument.text': ['.odt'],
+          'text/html': ['.html', '.htm'],
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+            ['.xlsx'],
+          'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
+          'text/csv': ['.csv'],
+          'application/zip': ['.zip'],
         }}
         maxSize={25 * 1024 * 1024}
         className="flex flex-col items-center gap-6 rounded-xl border-2 border-dashed border-border/60 bg-card/30 backdrop-blur-sm px-6 py-16 transition-all duration-200 hover:border-primary/40 hover:bg-card/40 hover:shadow-md"
@@ -30,10 +39,11 @@ export function UploadArea({ className, ...props }: UploadAreaProps) {
             </div>
             <div className="flex max-w-[480px] flex-col items-center gap-2.5">
               <p className="text-center text-xl font-bold leading-tight tracking-tight text-foreground">
-                Arraste e solte o PDF aqui
+                Arraste e solte o edital aqui
               </p>
               <p className="text-center text-sm font-normal leading-relaxed text-muted-foreground">
-                Suporta arquivos .pdf até 25MB
+                Suporta .pdf, .docx, .odt, .html, planilhas (.xlsx, .ods, .csv)
+                ou o pacote completo da licitação em .zip até 25MB
               </p>
             </div>
             {/* Usar span estilizado em vez de Button para evitar botões aninhados */}